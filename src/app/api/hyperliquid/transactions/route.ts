@@ -0,0 +1,6 @@
+import { createTransactionRoute } from "@/lib/chains/route-handler";
+import { hyperliquidAdapter } from "@/lib/chains/hyperliquid/adapter";
+
+export const maxDuration = 120;
+
+export const { GET, POST } = createTransactionRoute(hyperliquidAdapter);
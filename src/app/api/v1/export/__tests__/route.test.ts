@@ -0,0 +1,94 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { NextRequest } from "next/server";
+import { GET, POST } from "../route";
+import fills from "@/lib/__tests__/fixtures/hyperliquid/userFillsByTime.json";
+import funding from "@/lib/__tests__/fixtures/hyperliquid/userFunding.json";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function post(body: unknown) {
+  return new NextRequest("http://localhost/api/v1/export", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("/api/v1/export", () => {
+  it("lists every chain with its options when called bare", async () => {
+    const body = await (await GET(new NextRequest("http://localhost/api/v1/export"))).json();
+
+    expect(body.supportedChains).toHaveLength(20);
+    expect(body.supportedChains.find((chain: { id: string }) => chain.id === "kava").options).toEqual(["evmAddress"]);
+  });
+
+  it("rejects unknown and missing chains", async () => {
+    const unknown = await GET(new NextRequest("http://localhost/api/v1/export?chain=nope&address=x"));
+    expect(unknown.status).toBe(400);
+    expect(await unknown.json()).toMatchObject({ code: "UNSUPPORTED_CHAIN", supportedChains: expect.any(Array) });
+
+    const missing = await POST(post({ address: "x" }));
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).code).toBe("MISSING_CHAIN");
+  });
+
+  it("validates in-process without calling back into the server", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const response = await GET(
+      new NextRequest("http://evil.example/api/v1/export?chain=kaspa&address=not-kaspa", {
+        headers: { host: "evil.example", "x-forwarded-proto": "https" },
+      })
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "INVALID_ADDRESS" });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("requires an API key for Extended", async () => {
+    const response = await POST(post({ chain: "extended", address: "ignored" }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "MISSING_ADDRESS", error: "API key is required" });
+  });
+
+  it("rejects rules it can't apply before fetching anything", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const response = await POST(
+      post({ chain: "extended", apiKey: "key", rules: [{ match: { notes: "a".repeat(201) }, action: { tag: "receive" } }] })
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      code: "INVALID_RULES",
+      details: "Rule 1: notes pattern is longer than 200 characters",
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("adds perps analytics to the JSON summary", async () => {
+    const responses: Record<string, unknown> = { userFillsByTime: fills, userFunding: funding };
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (_url, init) => {
+      const { type } = JSON.parse(String(init?.body));
+      return new Response(JSON.stringify(responses[type] ?? []));
+    });
+
+    const response = await GET(
+      new NextRequest("http://localhost/api/v1/export?chain=hyperliquid&address=0x1111111111111111111111111111111111111111")
+    );
+    const { summary } = await response.json();
+
+    expect(summary.totalTrades).toBe(7);
+    expect(summary.analytics).toMatchObject({
+      fundingPaid: 0.008,
+      fundingReceived: 0,
+      monthly: [{ month: "2024-01" }],
+    });
+    expect(summary.analytics.markets.map((market: { market: string }) => market.market)).toEqual(["BTC", "ETH", "SOL"]);
+    expect(summary.analytics.cumulativePnL.at(-1).cumulativePnL).toBe(summary.analytics.netPnL);
+  });
+});
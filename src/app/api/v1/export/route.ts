@@ -1,102 +1,35 @@
 import { NextRequest, NextResponse } from "next/server";
-
-// Supported chains and their configurations
-const SUPPORTED_CHAINS: Record<string, {
-  name: string;
-  type: "standard" | "perps";
-  requiresApiKey: boolean;
-  addressFormat: string;
-}> = {
-  bittensor: { name: "Bittensor", type: "standard", requiresApiKey: false, addressFormat: "SS58 (starts with 5)" },
-  kaspa: { name: "Kaspa", type: "standard", requiresApiKey: false, addressFormat: "kaspa:..." },
-  polkadot: { name: "Polkadot", type: "standard", requiresApiKey: false, addressFormat: "SS58 (starts with 1)" },
-  kusama: { name: "Kusama", type: "standard", requiresApiKey: false, addressFormat: "SS58 (starts with C, D, or F)" },
-  osmosis: { name: "Osmosis", type: "standard", requiresApiKey: false, addressFormat: "osmo1..." },
-  injective: { name: "Injective", type: "standard", requiresApiKey: false, addressFormat: "inj1..." },
-  ronin: { name: "Ronin", type: "standard", requiresApiKey: false, addressFormat: "0x... or ronin:..." },
-  hedera: { name: "Hedera", type: "standard", requiresApiKey: false, addressFormat: "0.0.xxxxx" },
-  xrpl: { name: "XRP Ledger", type: "standard", requiresApiKey: false, addressFormat: "r..." },
-  kava: { name: "Kava", type: "standard", requiresApiKey: false, addressFormat: "kava1..." },
-  stellar: { name: "Stellar", type: "standard", requiresApiKey: false, addressFormat: "G..." },
-  canton: { name: "Canton Network", type: "standard", requiresApiKey: false, addressFormat: "Participant ID" },
-  multiversx: { name: "MultiversX", type: "standard", requiresApiKey: false, addressFormat: "erd1..." },
-  radix: { name: "Radix", type: "standard", requiresApiKey: false, addressFormat: "account_rdx1..." },
-  ergo: { name: "Ergo", type: "standard", requiresApiKey: false, addressFormat: "9..." },
-  glue: { name: "Glue Network", type: "standard", requiresApiKey: false, addressFormat: "0x..." },
-  dydx: { name: "dYdX v4", type: "perps", requiresApiKey: false, addressFormat: "dydx1..." },
-  gmx: { name: "GMX (Arbitrum)", type: "perps", requiresApiKey: false, addressFormat: "0x..." },
-  extended: { name: "Extended", type: "perps", requiresApiKey: true, addressFormat: "API Key required" },
-};
-
-interface ExportParams {
-  chain: string;
-  address: string;
-  apiKey?: string;
-  evmAddress?: string;
-  format: "json" | "csv";
-  startDate?: string;
-  endDate?: string;
-}
-
-async function fetchFromChainAPI(params: ExportParams, baseUrl: string): Promise<Response> {
-  const { chain, address, apiKey, evmAddress, format, startDate, endDate } = params;
-
-  const chainConfig = SUPPORTED_CHAINS[chain];
-  if (!chainConfig) {
-    return NextResponse.json(
-      { error: `Unsupported chain: ${chain}`, supportedChains: Object.keys(SUPPORTED_CHAINS) },
-      { status: 400 }
-    );
-  }
-
-  // Build request body based on chain requirements
-  const body: Record<string, string> = { format };
-
-  if (chainConfig.requiresApiKey) {
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: `API key required for ${chainConfig.name}` },
-        { status: 400 }
-      );
-    }
-    body.apiKey = apiKey;
-  } else {
-    if (!address) {
-      return NextResponse.json(
-        { error: `Address required for ${chainConfig.name}` },
-        { status: 400 }
-      );
-    }
-    body.address = address;
-  }
-
-  // Add optional parameters
-  if (startDate) body.startDate = startDate;
-  if (endDate) body.endDate = endDate;
-  if (evmAddress && chain === "kava") body.evmAddress = evmAddress;
-
-  // Call the chain-specific API
-  const chainApiUrl = `${baseUrl}/api/${chain}/transactions`;
-
-  const response = await fetch(chainApiUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
-
-  return response;
+import { CHAIN_ADAPTERS, getChainAdapter } from "@/lib/chains/registry";
+import {
+  errorResponse,
+  handleChainRequest,
+  readJsonBody,
+  unsupportedChainResponse,
+} from "@/lib/chains/route-handler";
+import { bodyReader, searchParamReader, type ParamReader } from "@/lib/request-params";
+
+// Covers the slowest chain (Bittensor's rate-limited API)
+export const maxDuration = 300;
+
+// Leave time to send a TIMEOUT response before the platform cuts us off
+const EXPORT_TIMEOUT_MS = (maxDuration - 20) * 1000;
+
+/**
+ * Run the chain's adapter in-process, the same way /api/{chain}/transactions
+ * does. Aborts when the client disconnects or the export runs past the timeout.
+ */
+function exportChain(request: NextRequest, chain: string, read: ParamReader) {
+  const adapter = getChainAdapter(chain);
+  if (!adapter) return unsupportedChainResponse(chain);
+
+  const signal = AbortSignal.any([request.signal, AbortSignal.timeout(EXPORT_TIMEOUT_MS)]);
+  return handleChainRequest(adapter, read, signal);
 }
 
 // GET endpoint - unified export with query params
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const chain = searchParams.get("chain");
-  const address = searchParams.get("address");
-  const apiKey = searchParams.get("apiKey");
-  const evmAddress = searchParams.get("evmAddress");
-  const format = (searchParams.get("format") || "json") as "json" | "csv";
-  const startDate = searchParams.get("start") || searchParams.get("startDate") || undefined;
-  const endDate = searchParams.get("end") || searchParams.get("endDate") || undefined;
 
   // If no chain specified, return API documentation
   if (!chain) {
@@ -113,9 +46,15 @@ export async function GET(request: NextRequest) {
             address: "Required for most chains - Wallet address",
             apiKey: "Required for Extended - API key",
             evmAddress: "Optional for Kava - EVM address for token transfers",
+            "...": "Any other chain option listed under supportedChains[].options",
             format: "Optional - 'json' (default) or 'csv'",
-            start: "Optional - Start date (YYYY-MM-DD)",
-            end: "Optional - End date (YYYY-MM-DD)",
+            aggregateFunding: "Optional for dYdX, Extended and Hyperliquid - 'daily' or 'weekly' rolls funding payments up per market",
+            subaccountNumber: "Optional for dYdX - only export this subaccount (alias subaccount)",
+            network: "Optional for GMX - arbitrum (default), avalanche, arbitrum-v1, avalanche-v1 or all",
+            transfers: "Optional for perps chains - 'true' with format=csv returns deposits, withdrawals and transfers as a standard CSV",
+            start: "Optional - Start date (YYYY-MM-DD), alias startDate",
+            end: "Optional - End date (YYYY-MM-DD), alias endDate",
+            rules: "Optional - Reclassification rules as a JSON array (URL-encoded in a GET); see POST",
           },
           example: "/api/v1/export?chain=bittensor&address=5xxx&format=csv",
         },
@@ -128,15 +67,21 @@ export async function GET(request: NextRequest) {
             format: "json | csv",
             startDate: "string (optional)",
             endDate: "string (optional)",
+            rules:
+              "array (optional) - [{ match: { chain, counterparty, currency, type, minAmount, maxAmount, notes (regex), startDate, endDate }, action: { tag, notes, exclude } }]; each row takes the first matching rule",
           },
         },
+        jobs: {
+          description: "Long exports in the background: POST /api/v1/jobs with the POST body above, poll GET /api/v1/jobs/{id}, then GET /api/v1/jobs/{id}/result",
+        },
       },
-      supportedChains: Object.entries(SUPPORTED_CHAINS).map(([id, config]) => ({
-        id,
-        name: config.name,
-        type: config.type,
-        requiresApiKey: config.requiresApiKey,
-        addressFormat: config.addressFormat,
+      supportedChains: CHAIN_ADAPTERS.map((adapter) => ({
+        id: adapter.id,
+        name: adapter.name,
+        type: adapter.kind,
+        requiresApiKey: adapter.input.type === "apiKey",
+        addressFormat: adapter.input.format,
+        options: (adapter.input.options ?? []).map((option) => option.name),
       })),
       csvFormats: {
         standard: {
@@ -153,118 +98,19 @@ export async function GET(request: NextRequest) {
     });
   }
 
-  // Validate chain
-  if (!SUPPORTED_CHAINS[chain]) {
-    return NextResponse.json(
-      {
-        error: `Unsupported chain: ${chain}`,
-        supportedChains: Object.keys(SUPPORTED_CHAINS),
-      },
-      { status: 400 }
-    );
-  }
-
-  // Get base URL from request
-  const protocol = request.headers.get("x-forwarded-proto") || "http";
-  const host = request.headers.get("host") || "localhost:3000";
-  const baseUrl = `${protocol}://${host}`;
-
-  try {
-    const response = await fetchFromChainAPI(
-      { chain, address: address || "", apiKey: apiKey || undefined, evmAddress: evmAddress || undefined, format, startDate, endDate },
-      baseUrl
-    );
-
-    // Forward the response (CSV or JSON)
-    const contentType = response.headers.get("Content-Type") || "application/json";
-
-    if (contentType.includes("text/csv")) {
-      const csv = await response.text();
-      return new NextResponse(csv, {
-        headers: {
-          "Content-Type": "text/csv",
-          "Content-Disposition": response.headers.get("Content-Disposition") || `attachment; filename="${chain}-awaken.csv"`,
-        },
-      });
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data, { status: response.status });
-  } catch (error) {
-    console.error(`Error fetching from ${chain} API:`, error);
-    return NextResponse.json(
-      {
-        error: "Failed to fetch transactions",
-        details: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 }
-    );
-  }
+  return exportChain(request, chain, searchParamReader(searchParams));
 }
 
 // POST endpoint - unified export with JSON body
 export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const {
-      chain,
-      address,
-      apiKey,
-      evmAddress,
-      format = "json",
-      startDate,
-      endDate,
-    } = body;
-
-    if (!chain) {
-      return NextResponse.json(
-        { error: "Chain parameter is required" },
-        { status: 400 }
-      );
-    }
-
-    if (!SUPPORTED_CHAINS[chain]) {
-      return NextResponse.json(
-        {
-          error: `Unsupported chain: ${chain}`,
-          supportedChains: Object.keys(SUPPORTED_CHAINS),
-        },
-        { status: 400 }
-      );
-    }
-
-    // Get base URL from request
-    const protocol = request.headers.get("x-forwarded-proto") || "http";
-    const host = request.headers.get("host") || "localhost:3000";
-    const baseUrl = `${protocol}://${host}`;
-
-    const response = await fetchFromChainAPI(
-      { chain, address: address || "", apiKey, evmAddress, format, startDate, endDate },
-      baseUrl
-    );
-
-    const contentType = response.headers.get("Content-Type") || "application/json";
-
-    if (contentType.includes("text/csv")) {
-      const csv = await response.text();
-      return new NextResponse(csv, {
-        headers: {
-          "Content-Type": "text/csv",
-          "Content-Disposition": response.headers.get("Content-Disposition") || `attachment; filename="${chain}-awaken.csv"`,
-        },
-      });
-    }
+  const body = await readJsonBody(request);
+  if (!body) {
+    return errorResponse("INVALID_REQUEST_BODY", "Request body must be a JSON object");
+  }
 
-    const data = await response.json();
-    return NextResponse.json(data, { status: response.status });
-  } catch (error) {
-    console.error("Error in unified export API:", error);
-    return NextResponse.json(
-      {
-        error: "Failed to process request",
-        details: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 }
-    );
+  if (typeof body.chain !== "string" || !body.chain) {
+    return errorResponse("MISSING_CHAIN", "Chain parameter is required");
   }
+
+  return exportChain(request, body.chain, bodyReader(body));
 }
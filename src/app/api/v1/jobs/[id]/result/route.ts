@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ERROR_STATUS } from "@/lib/chains/adapter";
+import { getChainAdapter } from "@/lib/chains/registry";
+import { errorResponse, exportResponse } from "@/lib/chains/route-handler";
+import { getJobQueue } from "@/lib/jobs";
+import { readBoolean, searchParamReader } from "@/lib/request-params";
+
+// GET - the finished export; ?format=csv|json and ?transfers=true|false
+// override what the job was submitted with
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const queue = getJobQueue();
+  const job = await queue.get(id);
+  if (!job) {
+    return errorResponse("JOB_NOT_FOUND", "Job not found", "Jobs are kept for 24 hours after they finish");
+  }
+
+  if (job.status === "failed" && job.error) {
+    return NextResponse.json(job.error, { status: ERROR_STATUS[job.error.code] });
+  }
+
+  const result = job.status === "succeeded" ? await queue.getResult(id) : undefined;
+  const adapter = getChainAdapter(job.chain);
+  if (!result || !adapter) {
+    return errorResponse("JOB_NOT_READY", "Export not finished", `Job is ${job.phase}; poll /api/v1/jobs/${id}`);
+  }
+
+  const { searchParams } = request.nextUrl;
+  const format = searchParams.get("format") ?? job.request.format;
+  const transfers = readBoolean(searchParamReader(searchParams), ["transfers"], job.request.options.transfers === true);
+  return exportResponse(adapter, job.request.address, format === "csv" ? "csv" : "json", result, transfers);
+}
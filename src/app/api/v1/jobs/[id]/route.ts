@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/chains/route-handler";
+import { describeJob, getJobQueue } from "@/lib/jobs";
+
+// GET - job status, phase and transaction counts
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = await getJobQueue().get(id);
+  if (!job) {
+    return errorResponse("JOB_NOT_FOUND", "Job not found", "Jobs are kept for 24 hours after they finish");
+  }
+  return NextResponse.json(describeJob(job));
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ChainRequestError } from "@/lib/chains/adapter";
+import { getChainAdapter } from "@/lib/chains/registry";
+import {
+  errorResponse,
+  readChainRequest,
+  readJsonBody,
+  unsupportedChainResponse,
+} from "@/lib/chains/route-handler";
+import { describeJob, getJobQueue } from "@/lib/jobs";
+import { bodyReader } from "@/lib/request-params";
+
+// POST - queue an export; body is the same as POST /api/v1/export
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request);
+  if (!body) {
+    return errorResponse("INVALID_REQUEST_BODY", "Request body must be a JSON object");
+  }
+
+  if (typeof body.chain !== "string" || !body.chain) {
+    return errorResponse("MISSING_CHAIN", "Chain parameter is required");
+  }
+
+  const adapter = getChainAdapter(body.chain);
+  if (!adapter) return unsupportedChainResponse(body.chain);
+
+  try {
+    const job = await getJobQueue().submit(adapter, readChainRequest(adapter, bodyReader(body)));
+    return NextResponse.json(describeJob(job), { status: 202 });
+  } catch (error) {
+    if (error instanceof ChainRequestError) {
+      return errorResponse(error.code, error.message, error.details);
+    }
+    throw error;
+  }
+}
@@ -4,218 +4,44 @@ import { useState, useCallback, FormEvent } from "react";
 import Image from "next/image";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { ProgressIndicator } from "@/components/progress-indicator";
-import { ChainLogo, CHAIN_NAMES, CHAIN_SYMBOLS, CHAIN_DESCRIPTIONS } from "@/components/chain-logo";
+import { ChainLogo } from "@/components/chain-logo";
 import { DateRangePicker } from "@/components/date-range-picker";
 import { PaginatedTable } from "@/components/paginated-table";
+import { PerpsAnalytics } from "@/components/perps-analytics";
 import { DuplicateExportWarning } from "@/components/duplicate-export-warning";
+import { PortfolioExport } from "@/components/portfolio-export";
+import { CostBasisReport, ResultsTabs, type ResultsTab } from "@/components/cost-basis-report";
+import { RulesEditor } from "@/components/rules-editor";
 import type { PerpsTransaction, NormalizedTransaction, TransactionSummary } from "@/lib/types";
-import { generateAwakenPerpsCSV, generateAwakenCSV } from "@/lib/csv";
-import { fetchWithRetry } from "@/lib/fetch-with-retry";
+import { generateAwakenPerpsCSV, generateAwakenCSV, downloadCSV } from "@/lib/csv";
+import { describeJobProgress, runExportJob } from "@/lib/export-jobs";
+import type { JobPhase } from "@/lib/jobs/types";
 import { buildCacheKey, getCachedTransactions, setCachedTransactions } from "@/lib/transaction-cache";
 import { isDuplicateExport, addExportRecord, type ExportRecord } from "@/lib/export-history";
-
-interface ChainConfig {
-  id: string;
-  features: string[];
-  inputType: "address" | "apiKey";
-  inputLabel: string;
-  inputPlaceholder: string;
-  inputHelp: string;
-  warning?: string;
-  isPerps: boolean;
-  secondaryInput?: {
-    label: string;
-    placeholder: string;
-    help: string;
-  };
-}
-
-const CHAINS: ChainConfig[] = [
-  {
-    id: "bittensor",
-    features: ["Transfers", "Staking", "Emission Rewards", "USD Prices"],
-    inputType: "address",
-    inputLabel: "Bittensor Wallet Address",
-    inputPlaceholder: "5...",
-    inputHelp: "Enter your Bittensor (TAO) wallet address starting with 5",
-    warning: "Bittensor API has strict rate limits. Fetching may take longer for wallets with many transactions.",
-    isPerps: false,
-  },
-  {
-    id: "kaspa",
-    features: ["Transfers", "Mining Rewards", "USD Prices"],
-    inputType: "address",
-    inputLabel: "Kaspa Wallet Address",
-    inputPlaceholder: "kaspa:qp...",
-    inputHelp: "Enter your Kaspa (KAS) wallet address starting with 'kaspa:'",
-    isPerps: false,
-  },
-  {
-    id: "polkadot",
-    features: ["Transfers", "Staking", "Rewards", "Slashing", "USD Prices"],
-    inputType: "address",
-    inputLabel: "Polkadot Wallet Address",
-    inputPlaceholder: "1...",
-    inputHelp: "Enter your Polkadot (DOT) wallet address",
-    isPerps: false,
-  },
-  {
-    id: "kusama",
-    features: ["Transfers", "Staking", "Crowdloans", "Auctions", "USD Prices"],
-    inputType: "address",
-    inputLabel: "Kusama Wallet Address",
-    inputPlaceholder: "C... or D... or F...",
-    inputHelp: "Enter your Kusama (KSM) wallet address",
-    isPerps: false,
-  },
-  {
-    id: "osmosis",
-    features: ["Transfers", "Swaps", "LP Positions", "Staking", "IBC", "USD Prices"],
-    inputType: "address",
-    inputLabel: "Osmosis Wallet Address",
-    inputPlaceholder: "osmo1...",
-    inputHelp: "Enter your Osmosis wallet address starting with osmo1",
-    isPerps: false,
-  },
-  {
-    id: "injective",
-    features: ["Transfers", "Staking", "IBC", "Trading", "USD Prices"],
-    inputType: "address",
-    inputLabel: "Injective Wallet Address",
-    inputPlaceholder: "inj1...",
-    inputHelp: "Enter your Injective wallet address starting with inj1",
-    isPerps: false,
-  },
-  {
-    id: "ronin",
-    features: ["Transfers", "Swaps", "NFTs", "Staking", "Gaming", "USD Prices"],
-    inputType: "address",
-    inputLabel: "Ronin Wallet Address",
-    inputPlaceholder: "0x... or ronin:...",
-    inputHelp: "Enter your Ronin wallet address",
-    isPerps: false,
-  },
-  {
-    id: "extended",
-    features: ["Trades", "Positions", "Funding", "P&L"],
-    inputType: "apiKey",
-    inputLabel: "Extended API Key",
-    inputPlaceholder: "Enter your Extended API key",
-    inputHelp: "Create an API key in your Extended account settings. No Stark key required.",
-    isPerps: true,
-  },
-  {
-    id: "dydx",
-    features: ["Trades", "Positions", "Funding", "P&L", "No API Key"],
-    inputType: "address",
-    inputLabel: "dYdX Wallet Address",
-    inputPlaceholder: "dydx1...",
-    inputHelp: "Enter your dYdX v4 wallet address starting with dydx1",
-    isPerps: true,
-  },
-  {
-    id: "gmx",
-    features: ["Trades", "Positions", "Funding", "P&L", "Arbitrum"],
-    inputType: "address",
-    inputLabel: "Ethereum Wallet Address",
-    inputPlaceholder: "0x...",
-    inputHelp: "Enter your Ethereum wallet address used on GMX (Arbitrum)",
-    isPerps: true,
-  },
-  {
-    id: "canton",
-    features: ["Transfers", "Rewards", "Fees", "Locked CC"],
-    inputType: "address",
-    inputLabel: "Canton Participant ID",
-    inputPlaceholder: "Enter your participant ID",
-    inputHelp: "Enter your Canton Network participant ID",
-    isPerps: false,
-  },
-  {
-    id: "hedera",
-    features: ["Transfers", "Staking Rewards", "HTS Tokens", "NFTs", "USD Prices"],
-    inputType: "address",
-    inputLabel: "Hedera Account ID",
-    inputPlaceholder: "0.0.12345",
-    inputHelp: "Enter your Hedera account ID in format 0.0.xxxxx",
-    isPerps: false,
-  },
-  {
-    id: "xrpl",
-    features: ["Transfers", "DEX Trades", "NFTs", "AMM", "Escrow", "USD Prices"],
-    inputType: "address",
-    inputLabel: "XRP Address",
-    inputPlaceholder: "rN7n3473SaZBCG4dFL83w7a1RXtXtbDK8d",
-    inputHelp: "Enter your XRP Ledger address starting with 'r'",
-    isPerps: false,
-  },
-  {
-    id: "kava",
-    features: ["Transfers", "Staking", "CDP/USDX", "Lending", "Swaps", "Rewards", "EVM Tokens", "USD Prices"],
-    inputType: "address",
-    inputLabel: "Kava Address",
-    inputPlaceholder: "kava1...",
-    inputHelp: "Enter your Kava address starting with 'kava1'",
-    isPerps: false,
-    secondaryInput: {
-      label: "EVM Address (Optional)",
-      placeholder: "0x...",
-      help: "Optional: Add your Kava EVM address (0x...) to include ERC-20 token transfers",
-    },
-  },
-  {
-    id: "stellar",
-    features: ["Transfers", "DEX Trades", "Liquidity Pools", "Path Payments", "Claimable Balances", "USD Prices"],
-    inputType: "address",
-    inputLabel: "Stellar Address",
-    inputPlaceholder: "GCZST3XVCDTUJ76ZAV2HA72KYPRPMK5V54ZFZAKBNRVVVBXJSKHVD6ZT",
-    inputHelp: "Enter your Stellar address starting with 'G'",
-    isPerps: false,
-  },
-  {
-    id: "multiversx",
-    features: ["Transfers", "ESDT Tokens", "Staking", "Delegation", "Rewards", "USD Prices"],
-    inputType: "address",
-    inputLabel: "MultiversX Wallet Address",
-    inputPlaceholder: "erd1...",
-    inputHelp: "Enter your MultiversX (EGLD) wallet address starting with 'erd1'",
-    isPerps: false,
-  },
-  {
-    id: "radix",
-    features: ["Transfers", "Staking", "Rewards", "Swaps", "Pools", "USD Prices"],
-    inputType: "address",
-    inputLabel: "Radix Account Address",
-    inputPlaceholder: "account_rdx1...",
-    inputHelp: "Enter your Radix account address starting with 'account_rdx1'",
-    isPerps: false,
-  },
-  {
-    id: "ergo",
-    features: ["Transfers", "Tokens", "Mining Rewards", "USD Prices"],
-    inputType: "address",
-    inputLabel: "Ergo Wallet Address",
-    inputPlaceholder: "9...",
-    inputHelp: "Enter your Ergo (ERG) wallet address (typically starts with '9' for P2PK addresses)",
-    isPerps: false,
-  },
-  {
-    id: "glue",
-    features: ["Transfers", "Tokens", "Cross-Chain", "USD Prices"],
-    inputType: "address",
-    inputLabel: "Glue Network Address",
-    inputPlaceholder: "0x...",
-    inputHelp: "Enter your Glue Network (GLUE) wallet address starting with '0x'",
-    isPerps: false,
-  },
-];
+import { CHAIN_ADAPTERS, getChainAdapter } from "@/lib/chains/registry";
+import { getActiveRules } from "@/lib/rule-storage";
+import { rulesFingerprint } from "@/lib/rules";
+import {
+  addManualRow,
+  applyOverrides,
+  editTransaction,
+  emptyOverrides,
+  revertTransaction,
+  setExcluded,
+  type TransactionOverrides,
+} from "@/lib/overrides";
+import { getSavedOverrides, saveOverrides } from "@/lib/override-storage";
 
 interface FetchState {
   status: "idle" | "fetching" | "processing" | "complete" | "error";
   message?: string;
+  phase?: JobPhase;
 }
 
+type ExportMode = "single" | "portfolio";
+
 export default function Home() {
+  const [mode, setMode] = useState<ExportMode>("single");
   const [selectedChain, setSelectedChain] = useState<string>("");
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [inputValue, setInputValue] = useState("");
@@ -225,16 +51,37 @@ export default function Home() {
   const [fetchState, setFetchState] = useState<FetchState>({ status: "idle" });
   const [transactions, setTransactions] = useState<(PerpsTransaction | NormalizedTransaction)[]>([]);
   const [summary, setSummary] = useState<TransactionSummary | null>(null);
+  const [transfers, setTransfers] = useState<NormalizedTransaction[]>([]);
   const [fromCache, setFromCache] = useState(false);
   const [showDuplicateWarning, setShowDuplicateWarning] = useState(false);
   const [duplicateRecord, setDuplicateRecord] = useState<ExportRecord | null>(null);
+  const [overrides, setOverrides] = useState<TransactionOverrides>(emptyOverrides);
+  // The wallet the shown results belong to; the address box may have changed since
+  const [resultsWallet, setResultsWallet] = useState<{ chain: string; address: string } | null>(null);
+  const [resultsTab, setResultsTab] = useState<ResultsTab>("transactions");
+
+  const selectedChainConfig = getChainAdapter(selectedChain);
+  const secondaryInput = selectedChainConfig?.input.options?.find((option) => option.ui);
 
-  const selectedChainConfig = CHAINS.find((c) => c.id === selectedChain);
+  // Rows as the CSV will have them, plus excluded rows marked for the table
+  const displayedTransactions = applyOverrides(transactions, overrides, { keepExcluded: true });
 
-  const ambiguousCount = transactions.filter(
-    (tx) => "isAmbiguous" in tx && tx.isAmbiguous
+  const ambiguousCount = displayedTransactions.filter(
+    (tx) => "isAmbiguous" in tx && tx.isAmbiguous && tx.override?.kind !== "excluded"
   ).length;
 
+  // Edits are saved per (chain, address) as they're made
+  const updateOverrides = (next: TransactionOverrides) => {
+    setOverrides(next);
+    if (resultsWallet) saveOverrides(resultsWallet.chain, resultsWallet.address, next);
+  };
+
+  // Shows a wallet's results along with the edits saved for it
+  const showWalletResults = (chain: string, address: string) => {
+    setResultsWallet({ chain, address });
+    setOverrides(getSavedOverrides(chain, address));
+  };
+
   const handleChainSelect = (chainId: string) => {
     setSelectedChain(chainId);
     setIsDropdownOpen(false);
@@ -245,9 +92,13 @@ export default function Home() {
     setFetchState({ status: "idle" });
     setTransactions([]);
     setSummary(null);
+    setTransfers([]);
     setFromCache(false);
     setShowDuplicateWarning(false);
     setDuplicateRecord(null);
+    setOverrides(emptyOverrides());
+    setResultsWallet(null);
+    setResultsTab("transactions");
   };
 
   const fetchTransactions = useCallback(
@@ -255,17 +106,22 @@ export default function Home() {
       if (!inputValue.trim() || !selectedChainConfig) {
         setFetchState({
           status: "error",
-          message: `Please enter your ${selectedChainConfig?.inputLabel.toLowerCase() || "input"}`,
+          message: `Please enter your ${selectedChainConfig?.input.label.toLowerCase() || "input"}`,
         });
         return;
       }
 
+      // Saved reclassification rules go with the request and into the cache key
+      const rules = getActiveRules();
+
       // Build cache key
       const cacheKey = buildCacheKey(
         selectedChain,
         inputValue.trim(),
         startDate,
-        endDate
+        endDate,
+        secondaryInputValue,
+        rulesFingerprint(rules)
       );
 
       // Check cache first (unless force refreshing)
@@ -273,7 +129,9 @@ export default function Home() {
         const cached = getCachedTransactions(cacheKey);
         if (cached) {
           setTransactions(cached.transactions as (PerpsTransaction | NormalizedTransaction)[]);
+          showWalletResults(selectedChain, inputValue.trim());
           setSummary(cached.summary);
+          setTransfers(cached.transfers ?? []);
           setFromCache(true);
           setFetchState({
             status: "complete",
@@ -283,52 +141,52 @@ export default function Home() {
         }
       }
 
-      setFetchState({ status: "fetching", message: `Connecting to ${CHAIN_NAMES[selectedChain]}...` });
+      setFetchState({ status: "fetching", message: `Connecting to ${selectedChainConfig.name}...` });
       setTransactions([]);
       setSummary(null);
+      setTransfers([]);
       setFromCache(false);
+      setOverrides(emptyOverrides());
+      setResultsWallet(null);
 
       try {
-        const body: Record<string, string> = selectedChainConfig.inputType === "apiKey"
+        const body: Record<string, unknown> = selectedChainConfig.input.type === "apiKey"
           ? { apiKey: inputValue.trim() }
           : { address: inputValue.trim() };
 
         // Add secondary input if provided (e.g., EVM address for Kava)
-        if (secondaryInputValue.trim() && selectedChainConfig.secondaryInput) {
-          body.evmAddress = secondaryInputValue.trim();
+        if (secondaryInputValue.trim() && secondaryInput) {
+          body[secondaryInput.name] = secondaryInputValue.trim();
         }
 
         // Add date range if provided
         if (startDate) body.startDate = startDate;
         if (endDate) body.endDate = endDate;
 
-        const response = await fetchWithRetry(`/api/${selectedChain}/transactions`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(body),
+        if (rules.length) body.rules = rules;
+
+        // Long exports (Bittensor, Canton, Osmosis) run as a background job
+        const result = await runExportJob(selectedChain, body, {
+          resumeKey: cacheKey,
+          onProgress: (job) => {
+            setFetchState({
+              status: job.phase === "queued" || job.phase === "fetching" ? "fetching" : "processing",
+              message: describeJobProgress(job, selectedChainConfig.name),
+              phase: job.phase,
+            });
+          },
         });
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || errorData.details || "Failed to fetch transactions");
-        }
-
-        setFetchState({ status: "processing", message: "Processing transactions..." });
-
-        const result = await response.json();
-
-        // Parse dates from the response
-        const txs = result.transactions.map((tx: Record<string, unknown> & { date?: string; timestamp?: string }) => ({
-          ...tx,
-          date: tx.date ? new Date(tx.date) : undefined,
-          timestamp: tx.timestamp ? new Date(tx.timestamp) : undefined,
-        })) as (PerpsTransaction | NormalizedTransaction)[];
+        const txs = result.transactions;
 
         setTransactions(txs);
+        // The wallet's edits apply again to the re-fetched rows by id
+        showWalletResults(selectedChain, inputValue.trim());
         setSummary(result.summary);
+        setTransfers(result.transfers ?? []);
 
         // Cache the results
-        setCachedTransactions(cacheKey, txs, result.summary);
+        setCachedTransactions(cacheKey, txs, result.summary, undefined, result.transfers);
 
         setFetchState({
           status: "complete",
@@ -341,7 +199,7 @@ export default function Home() {
         });
       }
     },
-    [inputValue, secondaryInputValue, startDate, endDate, selectedChain, selectedChainConfig]
+    [inputValue, secondaryInputValue, startDate, endDate, selectedChain, selectedChainConfig, secondaryInput]
   );
 
   const handleSubmit = useCallback(
@@ -362,11 +220,11 @@ export default function Home() {
     let csv: string;
     let filename: string;
 
-    if (selectedChainConfig.isPerps) {
-      csv = generateAwakenPerpsCSV(transactions as PerpsTransaction[]);
+    if (selectedChainConfig.kind === "perps") {
+      csv = generateAwakenPerpsCSV(transactions as PerpsTransaction[], overrides);
       filename = `${selectedChain}-perps-awaken.csv`;
     } else {
-      csv = generateAwakenCSV(transactions as NormalizedTransaction[]);
+      csv = generateAwakenCSV(transactions as NormalizedTransaction[], overrides);
       filename = `${selectedChain}-awaken.csv`;
     }
 
@@ -383,7 +241,7 @@ export default function Home() {
 
     // Record the export
     addExportRecord(selectedChain, inputValue.trim(), startDate, endDate);
-  }, [transactions, selectedChain, selectedChainConfig, inputValue, startDate, endDate]);
+  }, [transactions, overrides, selectedChain, selectedChainConfig, inputValue, startDate, endDate]);
 
   const handleDownloadCSV = useCallback(() => {
     if (!transactions.length || !selectedChainConfig) return;
@@ -405,6 +263,12 @@ export default function Home() {
     performDownload();
   }, [transactions, selectedChainConfig, selectedChain, inputValue, startDate, endDate, performDownload]);
 
+  // Companion CSV of a perps export: deposits, withdrawals and transfers
+  const handleDownloadTransfersCSV = useCallback(() => {
+    if (!transfers.length) return;
+    downloadCSV(generateAwakenCSV(transfers), `${selectedChain}-transfers-awaken.csv`);
+  }, [transfers, selectedChain]);
+
   const handleConfirmDuplicateExport = useCallback(() => {
     setShowDuplicateWarning(false);
     setDuplicateRecord(null);
@@ -484,279 +348,358 @@ export default function Home() {
             </p>
           </div>
 
-          {/* Chain Selector */}
-          <div className="mx-auto mt-10 max-w-2xl">
-            <label className="mb-2 block text-sm font-medium text-[var(--foreground)]">
-              1. Select blockchain
-            </label>
-            <div className="relative">
+          {/* Mode */}
+          <div className="mx-auto mt-8 flex w-fit gap-1 rounded-xl border border-[var(--border)] bg-[var(--card)] p-1">
+            {(["single", "portfolio"] as const).map((value) => (
               <button
+                key={value}
                 type="button"
-                onClick={() => setIsDropdownOpen(!isDropdownOpen)}
-                className="flex w-full items-center justify-between rounded-xl border border-[var(--border)] bg-[var(--card)] px-4 py-4 text-left shadow-sm transition-all hover:border-[var(--accent)] focus:border-[var(--accent)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/20"
+                onClick={() => setMode(value)}
+                className={`rounded-lg px-4 py-1.5 text-sm font-medium transition-colors ${
+                  mode === value ? "bg-[var(--accent)] text-white" : "text-[var(--muted)] hover:text-[var(--foreground)]"
+                }`}
               >
-                {selectedChain ? (
-                  <div className="flex items-center gap-3">
-                    <ChainLogo chainId={selectedChain} size={28} />
-                    <div>
-                      <span className="font-medium text-[var(--foreground)]">
-                        {CHAIN_NAMES[selectedChain]}
-                      </span>
-                      <span className="ml-2 text-sm text-[var(--muted)]">
-                        {CHAIN_SYMBOLS[selectedChain]}
-                      </span>
+                {value === "single" ? "Single wallet" : "Portfolio"}
+              </button>
+            ))}
+          </div>
+
+          {/* Reclassification rules, applied to exports in either mode */}
+          <RulesEditor />
+
+          {/* Portfolio: several wallets across chains in one export */}
+          {mode === "portfolio" && <PortfolioExport />}
+
+          {mode === "single" && (
+            <>
+            {/* Chain Selector */}
+            <div className="mx-auto mt-10 max-w-2xl">
+              <label className="mb-2 block text-sm font-medium text-[var(--foreground)]">
+                1. Select blockchain
+              </label>
+              <div className="relative">
+                <button
+                  type="button"
+                  onClick={() => setIsDropdownOpen(!isDropdownOpen)}
+                  className="flex w-full items-center justify-between rounded-xl border border-[var(--border)] bg-[var(--card)] px-4 py-4 text-left shadow-sm transition-all hover:border-[var(--accent)] focus:border-[var(--accent)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/20"
+                >
+                  {selectedChain ? (
+                    <div className="flex items-center gap-3">
+                      <ChainLogo chainId={selectedChain} size={28} />
+                      <div>
+                        <span className="font-medium text-[var(--foreground)]">
+                          {selectedChainConfig?.name}
+                        </span>
+                        <span className="ml-2 text-sm text-[var(--muted)]">
+                          {selectedChainConfig?.symbol}
+                        </span>
+                      </div>
                     </div>
+                  ) : (
+                    <span className="text-[var(--muted)]">Select a blockchain...</span>
+                  )}
+                  <ChevronDownIcon className={`size-5 text-[var(--muted)] transition-transform ${isDropdownOpen ? "rotate-180" : ""}`} />
+                </button>
+
+                {/* Dropdown Menu */}
+                {isDropdownOpen && (
+                  <div className="absolute top-full z-10 mt-2 max-h-80 w-full overflow-auto rounded-xl border border-[var(--border)] bg-[var(--card)] py-2 shadow-lg">
+                    {CHAIN_ADAPTERS.map((chain) => (
+                      <button
+                        key={chain.id}
+                        type="button"
+                        onClick={() => handleChainSelect(chain.id)}
+                        className={`flex w-full items-center gap-3 px-4 py-3 text-left transition-colors hover:bg-[var(--card-hover)] ${
+                          selectedChain === chain.id ? "bg-[var(--accent-muted)]" : ""
+                        }`}
+                      >
+                        <ChainLogo chainId={chain.id} size={32} />
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-[var(--foreground)]">
+                              {chain.name}
+                            </span>
+                            <span className="text-sm text-[var(--muted)]">
+                              {chain.symbol}
+                            </span>
+                          </div>
+                          <p className="mt-0.5 text-sm text-[var(--muted)]">
+                            {chain.description}
+                          </p>
+                        </div>
+                        {selectedChain === chain.id && (
+                          <CheckIcon className="size-5 text-[var(--accent)]" />
+                        )}
+                      </button>
+                    ))}
                   </div>
-                ) : (
-                  <span className="text-[var(--muted)]">Select a blockchain...</span>
                 )}
-                <ChevronDownIcon className={`size-5 text-[var(--muted)] transition-transform ${isDropdownOpen ? "rotate-180" : ""}`} />
-              </button>
+              </div>
 
-              {/* Dropdown Menu */}
-              {isDropdownOpen && (
-                <div className="absolute top-full z-10 mt-2 max-h-80 w-full overflow-auto rounded-xl border border-[var(--border)] bg-[var(--card)] py-2 shadow-lg">
-                  {CHAINS.map((chain) => (
-                    <button
-                      key={chain.id}
-                      type="button"
-                      onClick={() => handleChainSelect(chain.id)}
-                      className={`flex w-full items-center gap-3 px-4 py-3 text-left transition-colors hover:bg-[var(--card-hover)] ${
-                        selectedChain === chain.id ? "bg-[var(--accent-muted)]" : ""
-                      }`}
+              {/* Selected Chain Features */}
+              {selectedChainConfig && (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {selectedChainConfig.features.map((feature) => (
+                    <span
+                      key={feature}
+                      className="rounded-full bg-[var(--accent-muted)] px-2.5 py-1 text-xs font-medium text-[var(--accent)]"
                     >
-                      <ChainLogo chainId={chain.id} size={32} />
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2">
-                          <span className="font-medium text-[var(--foreground)]">
-                            {CHAIN_NAMES[chain.id]}
-                          </span>
-                          <span className="text-sm text-[var(--muted)]">
-                            {CHAIN_SYMBOLS[chain.id]}
-                          </span>
-                        </div>
-                        <p className="mt-0.5 text-sm text-[var(--muted)]">
-                          {CHAIN_DESCRIPTIONS[chain.id]}
-                        </p>
-                      </div>
-                      {selectedChain === chain.id && (
-                        <CheckIcon className="size-5 text-[var(--accent)]" />
-                      )}
-                    </button>
+                      {feature}
+                    </span>
                   ))}
                 </div>
               )}
             </div>
 
-            {/* Selected Chain Features */}
+            {/* Input Form - appears after chain selection */}
             {selectedChainConfig && (
-              <div className="mt-3 flex flex-wrap gap-2">
-                {selectedChainConfig.features.map((feature) => (
-                  <span
-                    key={feature}
-                    className="rounded-full bg-[var(--accent-muted)] px-2.5 py-1 text-xs font-medium text-[var(--accent)]"
+              <form onSubmit={handleSubmit} className="mx-auto mt-8 max-w-2xl">
+                <label htmlFor="walletInput" className="mb-2 block text-sm font-medium text-[var(--foreground)]">
+                  2. {selectedChainConfig.input.label}
+                </label>
+                <div className="rounded-xl border border-[var(--border)] bg-[var(--card)] p-4 shadow-sm">
+                  <input
+                    id="walletInput"
+                    type={selectedChainConfig.input.type === "apiKey" ? "password" : "text"}
+                    value={inputValue}
+                    onChange={(e) => setInputValue(e.target.value)}
+                    placeholder={selectedChainConfig.input.placeholder}
+                    className="w-full rounded-lg border border-[var(--border)] bg-[var(--background)] px-4 py-3 font-mono text-sm text-[var(--foreground)] placeholder:text-[var(--muted)] focus:border-[var(--accent)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/20"
+                    disabled={isLoading}
+                    aria-label={selectedChainConfig.input.label}
+                  />
+                  <p className="mt-2 text-xs text-[var(--muted)]">
+                    {selectedChainConfig.input.help}
+                  </p>
+                  {secondaryInput?.ui && (
+                    <div className="mt-4 border-t border-[var(--border)] pt-4">
+                      <label htmlFor="secondaryInput" className="mb-1 block text-sm font-medium text-[var(--foreground)]">
+                        {secondaryInput.ui.label}
+                      </label>
+                      {secondaryInput.choices ? (
+                        <select
+                          id="secondaryInput"
+                          value={secondaryInputValue || String(secondaryInput.defaultValue ?? "")}
+                          onChange={(e) => setSecondaryInputValue(e.target.value)}
+                          className="w-full rounded-lg border border-[var(--border)] bg-[var(--background)] px-4 py-3 text-sm text-[var(--foreground)] focus:border-[var(--accent)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/20"
+                          disabled={isLoading}
+                          aria-label={secondaryInput.ui.label}
+                        >
+                          {secondaryInput.choices.map((choice) => (
+                            <option key={choice.value} value={choice.value}>
+                              {choice.label}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          id="secondaryInput"
+                          type="text"
+                          value={secondaryInputValue}
+                          onChange={(e) => setSecondaryInputValue(e.target.value)}
+                          placeholder={secondaryInput.ui.placeholder}
+                          className="w-full rounded-lg border border-[var(--border)] bg-[var(--background)] px-4 py-3 font-mono text-sm text-[var(--foreground)] placeholder:text-[var(--muted)] focus:border-[var(--accent)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/20"
+                          disabled={isLoading}
+                          aria-label={secondaryInput.ui.label}
+                        />
+                      )}
+                      <p className="mt-2 text-xs text-[var(--muted)]">
+                        {secondaryInput.ui.help}
+                      </p>
+                    </div>
+                  )}
+                  {selectedChainConfig.warning && (
+                    <div className="mt-3 flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/10 px-3 py-2">
+                      <WarningIcon className="mt-0.5 shrink-0 text-red-500" />
+                      <p className="text-xs font-medium text-red-600">
+                        {selectedChainConfig.warning}
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Date Range Picker */}
+                <div className="mt-6">
+                  <label className="mb-2 block text-sm font-medium text-[var(--foreground)]">
+                    3. Date range (optional)
+                  </label>
+                  <DateRangePicker
+                    startDate={startDate}
+                    endDate={endDate}
+                    onStartDateChange={setStartDate}
+                    onEndDateChange={setEndDate}
+                    disabled={isLoading}
+                  />
+                </div>
+
+                <div className="mt-6 flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={isLoading || !inputValue.trim()}
+                    className="rounded-lg bg-[var(--foreground)] px-6 py-2.5 text-sm font-medium text-[var(--background)] transition-all hover:opacity-90 disabled:cursor-not-allowed disabled:opacity-50"
                   >
-                    {feature}
-                  </span>
-                ))}
-              </div>
+                    {isLoading ? "Fetching..." : "Fetch Transactions"}
+                  </button>
+                </div>
+              </form>
             )}
-          </div>
 
-          {/* Input Form - appears after chain selection */}
-          {selectedChainConfig && (
-            <form onSubmit={handleSubmit} className="mx-auto mt-8 max-w-2xl">
-              <label htmlFor="walletInput" className="mb-2 block text-sm font-medium text-[var(--foreground)]">
-                2. {selectedChainConfig.inputLabel}
-              </label>
-              <div className="rounded-xl border border-[var(--border)] bg-[var(--card)] p-4 shadow-sm">
-                <input
-                  id="walletInput"
-                  type={selectedChainConfig.inputType === "apiKey" ? "password" : "text"}
-                  value={inputValue}
-                  onChange={(e) => setInputValue(e.target.value)}
-                  placeholder={selectedChainConfig.inputPlaceholder}
-                  className="w-full rounded-lg border border-[var(--border)] bg-[var(--background)] px-4 py-3 font-mono text-sm text-[var(--foreground)] placeholder:text-[var(--muted)] focus:border-[var(--accent)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/20"
-                  disabled={isLoading}
-                  aria-label={selectedChainConfig.inputLabel}
-                />
-                <p className="mt-2 text-xs text-[var(--muted)]">
-                  {selectedChainConfig.inputHelp}
-                </p>
-                {selectedChainConfig.secondaryInput && (
-                  <div className="mt-4 border-t border-[var(--border)] pt-4">
-                    <label htmlFor="secondaryInput" className="mb-1 block text-sm font-medium text-[var(--foreground)]">
-                      {selectedChainConfig.secondaryInput.label}
-                    </label>
-                    <input
-                      id="secondaryInput"
-                      type="text"
-                      value={secondaryInputValue}
-                      onChange={(e) => setSecondaryInputValue(e.target.value)}
-                      placeholder={selectedChainConfig.secondaryInput.placeholder}
-                      className="w-full rounded-lg border border-[var(--border)] bg-[var(--background)] px-4 py-3 font-mono text-sm text-[var(--foreground)] placeholder:text-[var(--muted)] focus:border-[var(--accent)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/20"
-                      disabled={isLoading}
-                      aria-label={selectedChainConfig.secondaryInput.label}
-                    />
-                    <p className="mt-2 text-xs text-[var(--muted)]">
-                      {selectedChainConfig.secondaryInput.help}
-                    </p>
-                  </div>
-                )}
-                {selectedChainConfig.warning && (
-                  <div className="mt-3 flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/10 px-3 py-2">
-                    <WarningIcon className="mt-0.5 shrink-0 text-red-500" />
-                    <p className="text-xs font-medium text-red-600">
-                      {selectedChainConfig.warning}
-                    </p>
-                  </div>
-                )}
-              </div>
-
-              {/* Date Range Picker */}
-              <div className="mt-6">
-                <label className="mb-2 block text-sm font-medium text-[var(--foreground)]">
-                  3. Date range (optional)
-                </label>
-                <DateRangePicker
-                  startDate={startDate}
-                  endDate={endDate}
-                  onStartDateChange={setStartDate}
-                  onEndDateChange={setEndDate}
-                  disabled={isLoading}
-                />
+            {/* Progress Indicator */}
+            {fetchState.status !== "idle" && fetchState.status !== "complete" && (
+              <div className="mx-auto mt-6 max-w-2xl">
+                <ProgressIndicator status={fetchState.status} message={fetchState.message} phase={fetchState.phase} />
               </div>
+            )}
 
-              <div className="mt-6 flex justify-end">
-                <button
-                  type="submit"
-                  disabled={isLoading || !inputValue.trim()}
-                  className="rounded-lg bg-[var(--foreground)] px-6 py-2.5 text-sm font-medium text-[var(--background)] transition-all hover:opacity-90 disabled:cursor-not-allowed disabled:opacity-50"
-                >
-                  {isLoading ? "Fetching..." : "Fetch Transactions"}
-                </button>
+            {/* Error State */}
+            {fetchState.status === "error" && (
+              <div className="mx-auto mt-6 max-w-2xl rounded-xl border border-red-500/20 bg-red-500/5 p-4 text-center">
+                <p className="text-red-500">{fetchState.message}</p>
+                <p className="mt-1 text-sm text-[var(--muted)]">
+                  Please check your input and try again.
+                </p>
               </div>
-            </form>
-          )}
-
-          {/* Progress Indicator */}
-          {fetchState.status !== "idle" && fetchState.status !== "complete" && (
-            <div className="mx-auto mt-6 max-w-2xl">
-              <ProgressIndicator status={fetchState.status} message={fetchState.message} />
-            </div>
-          )}
-
-          {/* Error State */}
-          {fetchState.status === "error" && (
-            <div className="mx-auto mt-6 max-w-2xl rounded-xl border border-red-500/20 bg-red-500/5 p-4 text-center">
-              <p className="text-red-500">{fetchState.message}</p>
-              <p className="mt-1 text-sm text-[var(--muted)]">
-                Please check your input and try again.
-              </p>
-            </div>
-          )}
+            )}
 
-          {/* Results */}
-          {transactions.length > 0 && fetchState.status === "complete" && (
-            <div className="mt-8 space-y-4">
-              {/* Summary & Download */}
-              <div className="flex items-center justify-between rounded-xl border border-[var(--border)] bg-[var(--card)] p-4 shadow-sm">
-                <div>
-                  <p className="text-sm text-[var(--muted)]">Found</p>
-                  <p className="text-2xl font-semibold tabular-nums text-[var(--foreground)]">
-                    {transactions.length} transactions
-                  </p>
-                  {summary?.totalPnL !== undefined && (
-                    <p className={`text-sm font-medium tabular-nums ${summary.totalPnL >= 0 ? "text-green-600" : "text-red-500"}`}>
-                      P&L: {summary.totalPnL >= 0 ? "+" : ""}{summary.totalPnL.toFixed(2)} USDC
+            {/* Results */}
+            {transactions.length > 0 && fetchState.status === "complete" && (
+              <div className="mt-8 space-y-4">
+                {/* Summary & Download */}
+                <div className="flex items-center justify-between rounded-xl border border-[var(--border)] bg-[var(--card)] p-4 shadow-sm">
+                  <div>
+                    <p className="text-sm text-[var(--muted)]">Found</p>
+                    <p className="text-2xl font-semibold tabular-nums text-[var(--foreground)]">
+                      {transactions.length} transactions
                     </p>
-                  )}
-                  {ambiguousCount > 0 && (
-                    <p className="mt-1 text-sm font-medium text-amber-500">
-                      {ambiguousCount} transaction{ambiguousCount !== 1 ? "s" : ""} flagged for review
-                    </p>
-                  )}
+                    {summary?.totalPnL !== undefined && (
+                      <p className={`text-sm font-medium tabular-nums ${summary.totalPnL >= 0 ? "text-green-600" : "text-red-500"}`}>
+                        P&L: {summary.totalPnL >= 0 ? "+" : ""}{summary.totalPnL.toFixed(2)} USDC
+                      </p>
+                    )}
+                    {ambiguousCount > 0 && (
+                      <p className="mt-1 text-sm font-medium text-amber-500">
+                        {ambiguousCount} transaction{ambiguousCount !== 1 ? "s" : ""} flagged for review
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex flex-col items-end gap-2">
+                    <button
+                      onClick={handleDownloadCSV}
+                      className="flex items-center gap-2 rounded-lg bg-[var(--accent)] px-5 py-3 text-sm font-medium text-white transition-all hover:opacity-90"
+                    >
+                      <DownloadIcon />
+                      Download CSV
+                    </button>
+                    {transfers.length > 0 && (
+                      <button
+                        onClick={handleDownloadTransfersCSV}
+                        title="Deposits, withdrawals and transfers in the standard Awaken CSV format"
+                        className="flex items-center gap-2 rounded-lg border border-[var(--accent)] px-4 py-2 text-xs font-medium text-[var(--accent)] transition-colors hover:bg-[var(--accent)] hover:text-white"
+                      >
+                        <DownloadIcon />
+                        Transfers CSV ({transfers.length})
+                      </button>
+                    )}
+                  </div>
                 </div>
-                <button
-                  onClick={handleDownloadCSV}
-                  className="flex items-center gap-2 rounded-lg bg-[var(--accent)] px-5 py-3 text-sm font-medium text-white transition-all hover:opacity-90"
-                >
-                  <DownloadIcon />
-                  Download CSV
-                </button>
-              </div>
 
-              {/* Cache Banner */}
-              {fromCache && (
-                <div className="flex items-center justify-between rounded-lg border border-[var(--accent)]/30 bg-[var(--accent)]/5 px-4 py-3">
-                  <div className="flex items-center gap-2">
-                    <CacheIcon className="size-4 text-[var(--accent)]" />
-                    <span className="text-sm text-[var(--foreground)]">
-                      Loaded from cache
-                    </span>
+                {/* Cache Banner */}
+                {fromCache && (
+                  <div className="flex items-center justify-between rounded-lg border border-[var(--accent)]/30 bg-[var(--accent)]/5 px-4 py-3">
+                    <div className="flex items-center gap-2">
+                      <CacheIcon className="size-4 text-[var(--accent)]" />
+                      <span className="text-sm text-[var(--foreground)]">
+                        Loaded from cache
+                      </span>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleRefresh}
+                      disabled={isLoading}
+                      className="rounded-lg border border-[var(--accent)] px-3 py-1.5 text-xs font-medium text-[var(--accent)] transition-colors hover:bg-[var(--accent)] hover:text-white disabled:opacity-50"
+                    >
+                      Refresh
+                    </button>
                   </div>
-                  <button
-                    type="button"
-                    onClick={handleRefresh}
-                    disabled={isLoading}
-                    className="rounded-lg border border-[var(--accent)] px-3 py-1.5 text-xs font-medium text-[var(--accent)] transition-colors hover:bg-[var(--accent)] hover:text-white disabled:opacity-50"
-                  >
-                    Refresh
-                  </button>
-                </div>
-              )}
+                )}
 
-              {/* Quick Stats */}
-              {summary && (
-                <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
-                  {summary.totalTrades !== undefined && (
-                    <StatCard label="Trades" value={summary.totalTrades} />
-                  )}
-                  {summary.openPositions !== undefined && (
-                    <StatCard label="Opens" value={summary.openPositions} />
-                  )}
-                  {summary.closePositions !== undefined && (
-                    <StatCard label="Closes" value={summary.closePositions} />
-                  )}
-                  {summary.fundingPayments !== undefined && (
-                    <StatCard label="Funding" value={summary.fundingPayments} />
-                  )}
-                  {summary.totalFees !== undefined && (
-                    <StatCard label="Fees" value={`$${summary.totalFees.toFixed(2)}`} isString />
-                  )}
-                  {summary.tradedAssets && summary.tradedAssets.length > 0 && (
-                    <div className="col-span-2 rounded-lg border border-[var(--border)] bg-[var(--card)] p-3">
-                      <p className="text-xs text-[var(--muted)]">Assets</p>
-                      <div className="mt-1 flex flex-wrap gap-1">
-                        {summary.tradedAssets.map((asset) => (
-                          <span key={asset} className="rounded bg-[var(--accent-muted)] px-1.5 py-0.5 text-xs font-medium text-[var(--accent)]">
-                            {asset}
-                          </span>
-                        ))}
+                {/* Quick Stats */}
+                {summary && (
+                  <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+                    {summary.totalTrades !== undefined && (
+                      <StatCard label="Trades" value={summary.totalTrades} />
+                    )}
+                    {summary.openPositions !== undefined && (
+                      <StatCard label="Opens" value={summary.openPositions} />
+                    )}
+                    {summary.closePositions !== undefined && (
+                      <StatCard label="Closes" value={summary.closePositions} />
+                    )}
+                    {summary.fundingPayments !== undefined && (
+                      <StatCard label="Funding" value={summary.fundingPayments} />
+                    )}
+                    {summary.totalFees !== undefined && (
+                      <StatCard label="Fees" value={`$${summary.totalFees.toFixed(2)}`} isString />
+                    )}
+                    {summary.tradedAssets && summary.tradedAssets.length > 0 && (
+                      <div className="col-span-2 rounded-lg border border-[var(--border)] bg-[var(--card)] p-3">
+                        <p className="text-xs text-[var(--muted)]">Assets</p>
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {summary.tradedAssets.map((asset) => (
+                            <span key={asset} className="rounded bg-[var(--accent-muted)] px-1.5 py-0.5 text-xs font-medium text-[var(--accent)]">
+                              {asset}
+                            </span>
+                          ))}
+                        </div>
                       </div>
-                    </div>
-                  )}
-                </div>
-              )}
+                    )}
+                  </div>
+                )}
 
-              {/* Paginated Table */}
-              <PaginatedTable
-                transactions={transactions}
-                chainId={selectedChain}
-                isPerps={selectedChainConfig?.isPerps ?? false}
-              />
-            </div>
-          )}
+                {/* Perps P&L, funding and fee breakdown */}
+                {selectedChainConfig?.kind === "perps" && (
+                  <PerpsAnalytics transactions={applyOverrides(transactions as PerpsTransaction[], overrides)} />
+                )}
 
-          {/* Empty State */}
-          {transactions.length === 0 && fetchState.status === "complete" && (
-            <div className="mx-auto mt-8 max-w-2xl rounded-xl border border-[var(--border)] bg-[var(--card)] p-8 text-center">
-              <p className="text-lg font-medium text-[var(--foreground)]">No transactions found</p>
-              <p className="mt-2 text-sm text-[var(--muted)]">
-                This {selectedChainConfig?.inputType === "apiKey" ? "account" : "address"} has no transaction history
-                {(startDate || endDate) ? " in the selected date range" : ""}.
-              </p>
-            </div>
+                {/* Gains of the rows as the CSV has them */}
+                {selectedChainConfig?.kind === "standard" && (
+                  <ResultsTabs value={resultsTab} onChange={setResultsTab} />
+                )}
+
+                {resultsTab === "gains" && selectedChainConfig?.kind === "standard" ? (
+                  <CostBasisReport
+                    transactions={applyOverrides(transactions as NormalizedTransaction[], overrides)}
+                    filenamePrefix={selectedChain}
+                  />
+                ) : (
+                  /* Paginated Table, editable: changes go into the CSV */
+                  <PaginatedTable
+                    transactions={displayedTransactions}
+                    chainId={selectedChain}
+                    isPerps={selectedChainConfig?.kind === "perps"}
+                    feeCurrency={selectedChainConfig?.symbol}
+                    editor={{
+                      onEdit: (id, changes) => updateOverrides(editTransaction(overrides, transactions, id, changes)),
+                      onExclude: (id, excluded) => updateOverrides(setExcluded(overrides, id, excluded)),
+                      onRevert: (id) => updateOverrides(revertTransaction(overrides, id)),
+                      onAdd: (row) => updateOverrides(addManualRow(overrides, row)),
+                    }}
+                  />
+                )}
+              </div>
+            )}
+
+            {/* Empty State */}
+            {transactions.length === 0 && fetchState.status === "complete" && (
+              <div className="mx-auto mt-8 max-w-2xl rounded-xl border border-[var(--border)] bg-[var(--card)] p-8 text-center">
+                <p className="text-lg font-medium text-[var(--foreground)]">No transactions found</p>
+                <p className="mt-2 text-sm text-[var(--muted)]">
+                  This {selectedChainConfig?.input.type === "apiKey" ? "account" : "address"} has no transaction history
+                  {(startDate || endDate) ? " in the selected date range" : ""}.
+                </p>
+              </div>
+            )}
+            </>
           )}
         </div>
       </main>
@@ -40,4 +40,15 @@ describe("ProgressIndicator", () => {
     const container = screen.getByText(/an error occurred/i).closest("div");
     expect(container).toHaveClass("border");
   });
+
+  it("shows job steps with the current phase marked", () => {
+    render(<ProgressIndicator status="processing" phase="pricing" />);
+    expect(screen.getByRole("list", { name: /export progress/i })).toBeInTheDocument();
+    expect(screen.getByText("Price")).toHaveAttribute("aria-current", "step");
+  });
+
+  it("hides job steps once the export is done", () => {
+    render(<ProgressIndicator status="complete" phase="complete" />);
+    expect(screen.queryByRole("list")).toBeNull();
+  });
 });
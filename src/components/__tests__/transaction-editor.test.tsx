@@ -0,0 +1,79 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { render, screen, cleanup, fireEvent } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { TransactionEditRow } from "../transaction-editor";
+import { applyOverrides, editTransaction, emptyOverrides, type TransactionEdit } from "@/lib/overrides";
+import type { NormalizedTransaction, PerpsTransaction } from "@/lib/types";
+
+afterEach(cleanup);
+
+// Shaped like job results: the other kind's date key is present but unset
+const transfer = {
+  id: "tx1",
+  type: "transfer_sent",
+  timestamp: new Date("2024-03-01T12:00:00Z"),
+  date: undefined,
+  sentAmount: 5,
+  sentCurrency: "DOT",
+  receivedAmount: null,
+  receivedCurrency: null,
+  feeAmount: 0.01,
+  feeCurrency: "DOT",
+  sentFiatPrice: 7,
+  transactionHash: "0xabc",
+  notes: "Transfer",
+  tag: "payment",
+} as NormalizedTransaction;
+
+const trade = {
+  id: "fill1",
+  date: new Date("2024-03-01T12:00:00Z"),
+  timestamp: undefined,
+  asset: "BTC",
+  amount: 1,
+  fee: 2,
+  pnl: 100,
+  paymentToken: "USDC",
+  notes: "SELL 1 BTC-USD",
+  transactionHash: "0xfill",
+  tag: "close_position",
+} as unknown as PerpsTransaction;
+
+function table(children: ReactNode) {
+  return (
+    <table>
+      <tbody>{children}</tbody>
+    </table>
+  );
+}
+
+function editAndSave(tx: NormalizedTransaction | PerpsTransaction, isPerps: boolean, field: string, value: string) {
+  const onSave = vi.fn<(changes: TransactionEdit) => void>();
+  render(table(<TransactionEditRow tx={tx} isPerps={isPerps} colSpan={8} onSave={onSave} onCancel={() => {}} />));
+  fireEvent.change(screen.getByLabelText(field), { target: { value } });
+  fireEvent.click(screen.getByRole("button", { name: "Save" }));
+  expect(onSave).toHaveBeenCalledTimes(1);
+  return editTransaction(emptyOverrides(), [tx], tx.id, onSave.mock.calls[0][0]);
+}
+
+describe("TransactionEditRow", () => {
+  it("edits a standard row without touching its amounts", () => {
+    const overrides = editAndSave(transfer, false, "Notes", "Rent");
+
+    expect(screen.queryByRole("option", { name: "open position" })).toBeNull();
+    expect(overrides.edits).toEqual({ tx1: { notes: "Rent" } });
+    expect(applyOverrides([transfer], overrides)[0]).toMatchObject({
+      notes: "Rent",
+      sentAmount: 5,
+      feeAmount: 0.01,
+      tag: "payment",
+    });
+  });
+
+  it("edits a perps row's P&L", () => {
+    const overrides = editAndSave(trade, true, "P&L USDC", "90");
+
+    expect(overrides.edits).toEqual({ fill1: { pnl: 90 } });
+    expect(applyOverrides([trade], overrides)[0]).toMatchObject({ pnl: 90, amount: 1, fee: 2 });
+  });
+});
@@ -0,0 +1,259 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { NormalizedTransaction } from "@/lib/types";
+import { calculateCostBasis, COST_BASIS_METHODS, type CostBasisMethod } from "@/lib/cost-basis";
+import { downloadCSV, generateGainsCSV } from "@/lib/csv";
+import { calculatePagination } from "@/lib/use-pagination";
+import { formatAmount, truncateAddress } from "@/lib/utils";
+
+interface CostBasisReportProps {
+  /** Standard rows as the CSV has them (one wallet or a portfolio's merge) */
+  transactions: NormalizedTransaction[];
+  /** Download name prefix, e.g. "polkadot" or "portfolio" */
+  filenamePrefix: string;
+}
+
+export type ResultsTab = "transactions" | "gains";
+
+const PAGE_SIZE = 25;
+
+const METHOD_LABELS: Record<CostBasisMethod, string> = {
+  fifo: "FIFO",
+  lifo: "LIFO",
+  hifo: "HIFO",
+};
+
+function formatUsd(value: number, signed = false): string {
+  const text = Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  if (value < 0) return `-${text}`;
+  return signed && value > 0 ? `+${text}` : text;
+}
+
+function gainClass(value: number): string {
+  if (value > 0) return "text-green-500";
+  if (value < 0) return "text-red-500";
+  return "text-[var(--muted)]";
+}
+
+/**
+ * Switch between the transactions table and the realized gains report
+ */
+export function ResultsTabs({ value, onChange }: { value: ResultsTab; onChange: (tab: ResultsTab) => void }) {
+  return (
+    <div className="flex w-fit gap-1 rounded-xl border border-[var(--border)] bg-[var(--card)] p-1">
+      {(["transactions", "gains"] as const).map((tab) => (
+        <button
+          key={tab}
+          type="button"
+          onClick={() => onChange(tab)}
+          className={`rounded-lg px-3 py-1 text-xs font-medium transition-colors ${
+            value === tab ? "bg-[var(--accent)] text-white" : "text-[var(--muted)] hover:text-[var(--foreground)]"
+          }`}
+        >
+          {tab === "transactions" ? "Transactions" : "Gains"}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Realized gains of the fetched rows under FIFO, LIFO or HIFO, as a check
+ * before importing; Awaken computes the gains it reports itself
+ */
+export function CostBasisReport({ transactions, filenamePrefix }: CostBasisReportProps) {
+  const [method, setMethod] = useState<CostBasisMethod>("fifo");
+  const [currentPage, setCurrentPage] = useState(1);
+  const report = useMemo(() => calculateCostBasis(transactions, method), [transactions, method]);
+
+  // Newest disposal first, like the transactions table
+  const gains = useMemo(() => [...report.gains].reverse(), [report]);
+  const flagged = report.gains.filter((gain) => gain.missingPrice || gain.missingBasis).length;
+  const pagination = calculatePagination(gains.length, PAGE_SIZE, currentPage);
+  const pageData = gains.slice(pagination.startIndex, pagination.endIndex);
+
+  const handleDownload = () => {
+    downloadCSV(generateGainsCSV(report.gains), `${filenamePrefix}-gains-${method}.csv`);
+  };
+
+  return (
+    <div className="rounded-xl border border-[var(--border)] bg-[var(--card)] shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b border-[var(--border)] px-4 py-3">
+        <div>
+          <p className="text-sm font-medium text-[var(--foreground)]">Realized gains</p>
+          <p className="text-xs text-[var(--muted)]">
+            In USD at the fetched prices. Own-wallet transfers and staking move no lots; fees count as disposals.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex gap-1">
+            {COST_BASIS_METHODS.map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => {
+                  setMethod(value);
+                  setCurrentPage(1);
+                }}
+                className={`rounded-lg px-2.5 py-1 text-xs font-medium transition-colors ${
+                  method === value ? "bg-[var(--accent)] text-white" : "text-[var(--muted)] hover:text-[var(--foreground)]"
+                }`}
+              >
+                {METHOD_LABELS[value]}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={handleDownload}
+            disabled={report.gains.length === 0}
+            className="rounded-lg border border-[var(--accent)] px-3 py-1.5 text-xs font-medium text-[var(--accent)] transition-colors hover:bg-[var(--accent)] hover:text-white disabled:opacity-50"
+          >
+            Gains CSV
+          </button>
+        </div>
+      </div>
+
+      {flagged > 0 && (
+        <p className="border-b border-[var(--border)] px-4 py-2 text-xs text-amber-500">
+          {flagged} disposal{flagged !== 1 ? "s" : ""} missing a fiat price or an acquisition; their gains count those
+          values as 0.
+        </p>
+      )}
+
+      {/* Year totals */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-[var(--border)]">
+              <th className="px-3 py-2 text-left text-xs font-medium text-[var(--muted)]">Year</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-[var(--muted)]">Disposals</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-[var(--muted)]">Proceeds</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-[var(--muted)]">Cost basis</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-[var(--muted)]">Short term</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-[var(--muted)]">Long term</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-[var(--muted)]">Gain</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.years.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-3 py-4 text-center text-xs text-[var(--muted)]">
+                  No disposals in these transactions
+                </td>
+              </tr>
+            )}
+            {report.years.map((year) => (
+              <tr key={year.year} className="border-b border-[var(--border)] last:border-0">
+                <td className="px-3 py-2 font-medium tabular-nums text-[var(--foreground)]">{year.year}</td>
+                <td className="px-3 py-2 text-right tabular-nums text-[var(--foreground)]">{year.disposals}</td>
+                <td className="px-3 py-2 text-right tabular-nums text-[var(--foreground)]">{formatUsd(year.proceeds)}</td>
+                <td className="px-3 py-2 text-right tabular-nums text-[var(--foreground)]">{formatUsd(year.costBasis)}</td>
+                <td className={`px-3 py-2 text-right tabular-nums ${gainClass(year.shortTermGain)}`}>
+                  {formatUsd(year.shortTermGain, true)}
+                </td>
+                <td className={`px-3 py-2 text-right tabular-nums ${gainClass(year.longTermGain)}`}>
+                  {formatUsd(year.longTermGain, true)}
+                </td>
+                <td className={`px-3 py-2 text-right font-medium tabular-nums ${gainClass(year.gain)}`}>
+                  {formatUsd(year.gain, true)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Disposals */}
+      {gains.length > 0 && (
+        <>
+          <div className="overflow-x-auto border-t border-[var(--border)]">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-[var(--border)]">
+                  <th className="px-3 py-2 text-left text-xs font-medium text-[var(--muted)]">Sold</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-[var(--muted)]">Acquired</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-[var(--muted)]">Amount</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-[var(--muted)]">Proceeds</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-[var(--muted)]">Basis</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-[var(--muted)]">Gain</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-[var(--muted)]">Held</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-[var(--muted)]">Hash</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pageData.map((gain, i) => (
+                  <tr
+                    key={`${gain.transactionId}-${i}`}
+                    className={`border-b border-[var(--border)] last:border-0 ${
+                      gain.missingPrice || gain.missingBasis ? "bg-amber-500/5" : ""
+                    }`}
+                  >
+                    <td className="whitespace-nowrap px-3 py-2 tabular-nums text-[var(--foreground)]">
+                      {gain.date.toLocaleDateString()}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-2 tabular-nums text-[var(--muted)]">
+                      {gain.acquiredAt ? gain.acquiredAt.toLocaleDateString() : "Unknown"}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-2 text-right tabular-nums text-[var(--foreground)]">
+                      {formatAmount(gain.amount)} {gain.currency}
+                      {gain.kind === "fee" && <span className="ml-1 text-xs text-[var(--muted)]">fee</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums text-[var(--foreground)]">{formatUsd(gain.proceeds)}</td>
+                    <td className="px-3 py-2 text-right tabular-nums text-[var(--foreground)]">{formatUsd(gain.costBasis)}</td>
+                    <td className={`px-3 py-2 text-right font-medium tabular-nums ${gainClass(gain.gain)}`}>
+                      {formatUsd(gain.gain, true)}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-2 text-xs text-[var(--muted)]">
+                      {gain.holdingDays !== null ? `${gain.holdingDays}d, ${gain.term}` : gain.term}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-[var(--muted)]">
+                      {gain.transactionHash ? truncateAddress(gain.transactionHash, 4) : "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between border-t border-[var(--border)] px-4 py-3 text-xs text-[var(--muted)]">
+              <span>
+                {pagination.startIndex + 1}-{pagination.endIndex} of {gains.length}
+              </span>
+              <div className="flex gap-1">
+                <button
+                  type="button"
+                  onClick={() => setCurrentPage((p) => p - 1)}
+                  disabled={!pagination.hasPrev}
+                  className="rounded px-2 py-1 hover:text-[var(--foreground)] disabled:opacity-30"
+                >
+                  Prev
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setCurrentPage((p) => p + 1)}
+                  disabled={!pagination.hasNext}
+                  className="rounded px-2 py-1 hover:text-[var(--foreground)] disabled:opacity-30"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Open lots */}
+      {report.holdings.length > 0 && (
+        <p className="border-t border-[var(--border)] px-4 py-3 text-xs text-[var(--muted)]">
+          Still held:{" "}
+          {report.holdings
+            .map((holding) => `${formatAmount(holding.amount)} ${holding.currency} (basis ${formatUsd(holding.costBasis)})`)
+            .join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
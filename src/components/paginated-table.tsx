@@ -1,17 +1,27 @@
 "use client";
 
-import { useState, useMemo, useRef, useEffect } from "react";
-import type { NormalizedTransaction, PerpsTransaction } from "@/lib/types";
+import { Fragment, useState, useMemo, useRef, useEffect } from "react";
+import type { NormalizedTransaction, PerpsLiquidation, PerpsTransaction } from "@/lib/types";
 import { calculatePagination } from "@/lib/use-pagination";
-import { getExplorerUrl } from "@/lib/chain-config";
+import { getExplorerUrl } from "@/lib/chains/registry";
+import { describeLiquidation } from "@/lib/perps";
+import type { PortfolioTransaction, PortfolioWalletRef } from "@/lib/portfolio";
+import type { OverriddenTransaction, OverrideMark } from "@/lib/overrides";
 import { truncateAddress, formatAmount } from "@/lib/utils";
+import { ManualRowForm, TransactionEditRow, type TransactionEditorHandlers } from "./transaction-editor";
 
-type Transaction = NormalizedTransaction | PerpsTransaction;
+type Transaction = NormalizedTransaction | PerpsTransaction | PortfolioTransaction | OverriddenTransaction;
 
 interface PaginatedTableProps {
   transactions: Transaction[];
   chainId: string;
   isPerps: boolean;
+  /** Portfolio mode: rows carry their wallet, shown in its own column */
+  showWallet?: boolean;
+  /** Single-wallet mode: rows can be edited, excluded and added */
+  editor?: TransactionEditorHandlers;
+  /** Chain's native symbol, the default fee currency of a manual row */
+  feeCurrency?: string;
 }
 
 type SortField = "date" | "type" | "amount" | "fee" | "pnl";
@@ -45,9 +55,37 @@ function getAmbiguousReasons(tx: Transaction): string[] {
     : [];
 }
 
+function getLiquidation(tx: Transaction): PerpsLiquidation | undefined {
+  return "liquidation" in tx ? tx.liquidation : undefined;
+}
+
+function getCounterpartWallet(tx: Transaction): string | undefined {
+  return "counterpartWallet" in tx ? tx.counterpartWallet : undefined;
+}
+
+function getSubaccount(tx: Transaction): number | undefined {
+  return "subaccountNumber" in tx ? tx.subaccountNumber : undefined;
+}
+
+function getWallet(tx: Transaction): PortfolioWalletRef | undefined {
+  return "wallet" in tx ? tx.wallet : undefined;
+}
+
+function getOverride(tx: Transaction): OverrideMark | undefined {
+  return "override" in tx ? tx.override : undefined;
+}
+
+// "sentFiatPrice" -> "sent fiat price"
+function describeFields(fields: string[]): string {
+  return fields.map((field) => field.replace(/([A-Z])/g, " $1").toLowerCase()).join(", ");
+}
+
 function getSearchableText(tx: Transaction): string {
   const parts: string[] = [];
 
+  const wallet = getWallet(tx);
+  if (wallet) parts.push(wallet.label);
+
   // Transaction hash and notes
   if ("transactionHash" in tx) parts.push(tx.transactionHash);
   if ("notes" in tx) parts.push(tx.notes);
@@ -68,16 +106,29 @@ function getSearchableText(tx: Transaction): string {
   return parts.join(" ").toLowerCase();
 }
 
-export function PaginatedTable({ transactions, chainId, isPerps }: PaginatedTableProps) {
+export function PaginatedTable({
+  transactions,
+  chainId,
+  isPerps,
+  showWallet = false,
+  editor,
+  feeCurrency = "",
+}: PaginatedTableProps) {
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(25);
   const [sortField, setSortField] = useState<SortField>("date");
   const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
   const [typeFilter, setTypeFilter] = useState<string>("all");
   const [showAmbiguousOnly, setShowAmbiguousOnly] = useState(false);
+  const [subaccountFilter, setSubaccountFilter] = useState<number | "all">("all");
+  const [walletFilter, setWalletFilter] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedSearch, setDebouncedSearch] = useState("");
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+
+  const columnCount = (showWallet ? 1 : 0) + (editor ? 1 : 0) + 8;
 
   // Debounce search with 300ms delay
   useEffect(() => {
@@ -107,9 +158,35 @@ export function PaginatedTable({ transactions, chainId, isPerps }: PaginatedTabl
     return { tags: counts, ambiguous: ambiguousCount };
   }, [transactions]);
 
+  // Subaccounts present (dYdX); the filter only shows when there are several
+  const subaccounts = useMemo(() => {
+    const numbers = new Set<number>();
+    for (const tx of transactions) {
+      const subaccount = getSubaccount(tx);
+      if (subaccount !== undefined) numbers.add(subaccount);
+    }
+    return Array.from(numbers).sort((a, b) => a - b);
+  }, [transactions]);
+
+  // Wallets present (portfolio mode); the filter only shows when there are several
+  const wallets = useMemo(() => {
+    const byId = new Map<string, PortfolioWalletRef>();
+    for (const tx of transactions) {
+      const wallet = getWallet(tx);
+      if (wallet) byId.set(wallet.id, wallet);
+    }
+    return Array.from(byId.values());
+  }, [transactions]);
+
   // Filter
   const filtered = useMemo(() => {
     let result = transactions;
+    if (walletFilter !== "all") {
+      result = result.filter((tx) => getWallet(tx)?.id === walletFilter);
+    }
+    if (subaccountFilter !== "all") {
+      result = result.filter((tx) => getSubaccount(tx) === subaccountFilter);
+    }
     if (showAmbiguousOnly) {
       result = result.filter(isAmbiguous);
     } else if (typeFilter !== "all") {
@@ -121,7 +198,7 @@ export function PaginatedTable({ transactions, chainId, isPerps }: PaginatedTabl
       result = result.filter((tx) => getSearchableText(tx).includes(searchLower));
     }
     return result;
-  }, [transactions, typeFilter, showAmbiguousOnly, debouncedSearch]);
+  }, [transactions, typeFilter, showAmbiguousOnly, subaccountFilter, walletFilter, debouncedSearch]);
 
   // Sort
   const sorted = useMemo(() => {
@@ -236,11 +313,57 @@ export function PaginatedTable({ transactions, chainId, isPerps }: PaginatedTabl
         )}
         {/* Search input */}
         <div className="ml-auto flex items-center gap-2">
-          {debouncedSearch && (
+          {wallets.length > 1 && (
+            <select
+              value={walletFilter}
+              onChange={(e) => {
+                setWalletFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="rounded-lg border border-[var(--border)] bg-[var(--background)] px-2 py-1.5 text-xs text-[var(--foreground)] focus:border-[var(--accent)] focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+              aria-label="Filter by wallet"
+            >
+              <option value="all">All wallets</option>
+              {wallets.map((wallet) => (
+                <option key={wallet.id} value={wallet.id}>
+                  {wallet.label}
+                </option>
+              ))}
+            </select>
+          )}
+          {subaccounts.length > 1 && (
+            <select
+              value={subaccountFilter}
+              onChange={(e) => {
+                setSubaccountFilter(e.target.value === "all" ? "all" : Number(e.target.value));
+                setCurrentPage(1);
+              }}
+              className="rounded-lg border border-[var(--border)] bg-[var(--background)] px-2 py-1.5 text-xs text-[var(--foreground)] focus:border-[var(--accent)] focus:outline-none focus:ring-1 focus:ring-[var(--accent)]"
+              aria-label="Filter by subaccount"
+            >
+              <option value="all">All subaccounts</option>
+              {subaccounts.map((subaccount) => (
+                <option key={subaccount} value={subaccount}>
+                  Subaccount {subaccount}
+                </option>
+              ))}
+            </select>
+          )}
+          {(debouncedSearch || subaccountFilter !== "all" || walletFilter !== "all") && (
             <span className="text-xs text-[var(--muted)]">
               {filtered.length} of {transactions.length}
             </span>
           )}
+          {editor && (
+            <button
+              type="button"
+              onClick={() => setAdding(true)}
+              disabled={adding}
+              className="rounded-lg border border-dashed border-[var(--border)] px-2.5 py-1.5 text-xs text-[var(--muted)] transition-colors hover:border-[var(--accent)] hover:text-[var(--accent)] disabled:opacity-50"
+            >
+              + Add row
+            </button>
+          )}
           <div className="relative">
             <SearchIcon className="pointer-events-none absolute left-2.5 top-1/2 size-4 -translate-y-1/2 text-[var(--muted)]" />
             <input
@@ -261,6 +384,9 @@ export function PaginatedTable({ transactions, chainId, isPerps }: PaginatedTabl
           <thead>
             <tr className="border-b border-[var(--border)]">
               <SortHeader field="date" label="Date" />
+              {showWallet && (
+                <th className="px-3 py-2 text-left text-xs font-medium text-[var(--muted)]">Wallet</th>
+              )}
               {isPerps ? (
                 <>
                   <th className="px-3 py-2 text-left text-xs font-medium text-[var(--muted)]">Asset</th>
@@ -278,105 +404,198 @@ export function PaginatedTable({ transactions, chainId, isPerps }: PaginatedTabl
               <th className="px-3 py-2 text-left text-xs font-medium text-[var(--muted)]">Hash</th>
               <th className="px-3 py-2 text-left text-xs font-medium text-[var(--muted)]">Tag</th>
               <th className="px-3 py-2 text-left text-xs font-medium text-[var(--muted)]">Status</th>
+              {editor && <th className="px-3 py-2 text-left text-xs font-medium text-[var(--muted)]" />}
             </tr>
           </thead>
           <tbody>
+            {editor && adding && (
+              <ManualRowForm
+                isPerps={isPerps}
+                feeCurrency={feeCurrency}
+                colSpan={columnCount}
+                onSave={(row) => {
+                  editor.onAdd(row);
+                  setAdding(false);
+                }}
+                onCancel={() => setAdding(false)}
+              />
+            )}
             {pageData.map((tx, i) => {
               const date = getTxDate(tx);
               const tag = getTxTag(tx);
               const hash = "transactionHash" in tx ? tx.transactionHash : "";
-              const explorerUrl = getExplorerUrl(chainId, hash);
+              const wallet = getWallet(tx);
+              const explorerUrl = getExplorerUrl(wallet?.chain ?? chainId, hash);
               const amb = isAmbiguous(tx);
               const reasons = getAmbiguousReasons(tx);
+              const liquidation = getLiquidation(tx);
+              const counterpart = getCounterpartWallet(tx);
+              const override = getOverride(tx);
 
               return (
-                <tr
-                  key={`${hash}-${i}`}
-                  className={`border-b border-[var(--border)] last:border-0 ${
-                    amb ? "bg-amber-500/5" : ""
-                  }`}
-                >
-                  <td className="whitespace-nowrap px-3 py-2 tabular-nums text-[var(--foreground)]">
-                    {date.toLocaleDateString()} {date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
-                  </td>
-                  {isPerps ? (
-                    <>
-                      <td className="px-3 py-2 font-medium text-[var(--foreground)]">
-                        {"asset" in tx ? tx.asset : ""}
-                      </td>
-                      <td className="px-3 py-2 tabular-nums text-[var(--foreground)]">
-                        {"amount" in tx ? formatAmount(tx.amount) : ""}
-                      </td>
-                      <td className={`px-3 py-2 tabular-nums font-medium ${
-                        "pnl" in tx
-                          ? tx.pnl > 0 ? "text-green-500" : tx.pnl < 0 ? "text-red-500" : "text-[var(--muted)]"
-                          : ""
-                      }`}>
-                        {"pnl" in tx
-                          ? tx.pnl > 0 ? `+${formatAmount(tx.pnl)}` : formatAmount(tx.pnl)
-                          : ""}
-                      </td>
-                    </>
-                  ) : (
-                    <>
-                      <td className="px-3 py-2 text-[var(--foreground)]">
-                        {"type" in tx ? String(tx.type).replace(/_/g, " ") : ""}
-                      </td>
-                      <td className="px-3 py-2 tabular-nums text-[var(--foreground)]">
-                        {"sentAmount" in tx && tx.sentAmount
-                          ? `${formatAmount(tx.sentAmount)} ${tx.sentCurrency || ""}`
-                          : "-"}
-                      </td>
-                      <td className="px-3 py-2 tabular-nums text-[var(--foreground)]">
-                        {"receivedAmount" in tx && tx.receivedAmount
-                          ? `${formatAmount(tx.receivedAmount)} ${tx.receivedCurrency || ""}`
-                          : "-"}
+                <Fragment key={`${hash}-${i}`}>
+                  <tr
+                    className={`border-b border-[var(--border)] last:border-0 ${
+                      amb ? "bg-amber-500/5" : ""
+                    } ${override?.kind === "excluded" ? "opacity-50" : ""}`}
+                  >
+                    <td className="whitespace-nowrap px-3 py-2 tabular-nums text-[var(--foreground)]">
+                      {date.toLocaleDateString()} {date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                    </td>
+                    {showWallet && (
+                      <td className="whitespace-nowrap px-3 py-2 text-xs text-[var(--muted)]">
+                        {wallet?.label ?? "-"}
                       </td>
-                    </>
-                  )}
-                  <td className="px-3 py-2 tabular-nums text-[var(--muted)]">
-                    {"feeAmount" in tx && tx.feeAmount > 0
-                      ? `${formatAmount(tx.feeAmount)} ${tx.feeCurrency}`
-                      : "fee" in tx && tx.fee > 0
-                        ? formatAmount(tx.fee)
-                        : "-"}
-                  </td>
-                  <td className="px-3 py-2">
-                    {hash ? (
-                      explorerUrl ? (
-                        <a
-                          href={explorerUrl}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-[var(--accent)] hover:underline"
-                        >
-                          {truncateAddress(hash, 4)}
-                        </a>
-                      ) : (
-                        <span className="text-[var(--muted)]">{truncateAddress(hash, 4)}</span>
-                      )
+                    )}
+                    {isPerps ? (
+                      <>
+                        <td className="px-3 py-2 font-medium text-[var(--foreground)]">
+                          {"asset" in tx ? tx.asset : ""}
+                        </td>
+                        <td className="px-3 py-2 tabular-nums text-[var(--foreground)]">
+                          {"amount" in tx ? formatAmount(tx.amount) : ""}
+                        </td>
+                        <td className={`px-3 py-2 tabular-nums font-medium ${
+                          "pnl" in tx
+                            ? tx.pnl > 0 ? "text-green-500" : tx.pnl < 0 ? "text-red-500" : "text-[var(--muted)]"
+                            : ""
+                        }`}>
+                          {"pnl" in tx
+                            ? tx.pnl > 0 ? `+${formatAmount(tx.pnl)}` : formatAmount(tx.pnl)
+                            : ""}
+                          {liquidation && "paymentToken" in tx && (
+                            <span
+                              className="block cursor-help whitespace-nowrap text-xs font-normal text-[var(--muted)]"
+                              title={describeLiquidation(liquidation, tx.paymentToken)}
+                            >
+                              Collateral lost {formatAmount(liquidation.collateralLost, 2)} · Liq. fee{" "}
+                              {formatAmount(liquidation.liquidationFee, 2)}
+                            </span>
+                          )}
+                        </td>
+                      </>
                     ) : (
-                      "-"
+                      <>
+                        <td className="px-3 py-2 text-[var(--foreground)]">
+                          {"type" in tx ? String(tx.type).replace(/_/g, " ") : ""}
+                        </td>
+                        <td className="px-3 py-2 tabular-nums text-[var(--foreground)]">
+                          {"sentAmount" in tx && tx.sentAmount
+                            ? `${formatAmount(tx.sentAmount)} ${tx.sentCurrency || ""}`
+                            : "-"}
+                        </td>
+                        <td className="px-3 py-2 tabular-nums text-[var(--foreground)]">
+                          {"receivedAmount" in tx && tx.receivedAmount
+                            ? `${formatAmount(tx.receivedAmount)} ${tx.receivedCurrency || ""}`
+                            : "-"}
+                        </td>
+                      </>
                     )}
-                  </td>
-                  <td className="px-3 py-2">
-                    <span className="rounded-full bg-[var(--accent-muted)] px-2 py-0.5 text-xs text-[var(--accent)]">
-                      {tag.replace(/_/g, " ")}
-                    </span>
-                  </td>
-                  <td className="px-3 py-2">
-                    {amb ? (
-                      <span
-                        className="cursor-help rounded-full bg-amber-500/10 px-2 py-0.5 text-xs font-medium text-amber-500"
-                        title={reasons.join("; ")}
-                      >
-                        Review
+                    <td className="px-3 py-2 tabular-nums text-[var(--muted)]">
+                      {"feeAmount" in tx && tx.feeAmount > 0
+                        ? `${formatAmount(tx.feeAmount)} ${tx.feeCurrency}`
+                        : "fee" in tx && tx.fee > 0
+                          ? formatAmount(tx.fee)
+                          : "-"}
+                    </td>
+                    <td className="px-3 py-2">
+                      {hash ? (
+                        explorerUrl ? (
+                          <a
+                            href={explorerUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-[var(--accent)] hover:underline"
+                          >
+                            {truncateAddress(hash, 4)}
+                          </a>
+                        ) : (
+                          <span className="text-[var(--muted)]">{truncateAddress(hash, 4)}</span>
+                        )
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className="rounded-full bg-[var(--accent-muted)] px-2 py-0.5 text-xs text-[var(--accent)]">
+                        {tag.replace(/_/g, " ")}
                       </span>
-                    ) : (
-                      <span className="text-xs text-green-500">OK</span>
+                      {counterpart && (
+                        <span className="mt-0.5 block whitespace-nowrap text-xs text-[var(--muted)]" title="Transfer between your own wallets">
+                          {"sentAmount" in tx && tx.sentAmount ? "to" : "from"} {counterpart}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      {override ? (
+                        <span
+                          className="cursor-help rounded-full bg-[var(--accent-muted)] px-2 py-0.5 text-xs font-medium text-[var(--accent)]"
+                          title={
+                            override.kind === "manual"
+                              ? "Added by hand"
+                              : override.fields.length
+                                ? `Changed: ${describeFields(override.fields)}`
+                                : "Left out of the CSV"
+                          }
+                        >
+                          {override.kind === "edited" ? "Edited" : override.kind === "manual" ? "Manual" : "Excluded"}
+                        </span>
+                      ) : amb ? (
+                        <span
+                          className="cursor-help rounded-full bg-amber-500/10 px-2 py-0.5 text-xs font-medium text-amber-500"
+                          title={reasons.join("; ")}
+                        >
+                          Review
+                        </span>
+                      ) : (
+                        <span className="text-xs text-green-500">OK</span>
+                      )}
+                    </td>
+                    {editor && (
+                      <td className="whitespace-nowrap px-3 py-2 text-xs">
+                        {override?.kind !== "excluded" && (
+                          <button
+                            type="button"
+                            onClick={() => setEditingId(tx.id)}
+                            className="mr-2 text-[var(--accent)] hover:underline"
+                          >
+                            Edit
+                          </button>
+                        )}
+                        {override?.kind !== "manual" && (
+                          <button
+                            type="button"
+                            onClick={() => editor.onExclude(tx.id, override?.kind !== "excluded")}
+                            className="mr-2 text-[var(--muted)] hover:text-[var(--foreground)]"
+                          >
+                            {override?.kind === "excluded" ? "Include" : "Exclude"}
+                          </button>
+                        )}
+                        {override && (
+                          <button
+                            type="button"
+                            onClick={() => editor.onRevert(tx.id)}
+                            className="text-[var(--muted)] hover:text-red-500"
+                          >
+                            {override.kind === "manual" ? "Delete" : "Revert"}
+                          </button>
+                        )}
+                      </td>
                     )}
-                  </td>
-                </tr>
+                  </tr>
+                  {editor && editingId === tx.id && (
+                    <TransactionEditRow
+                      tx={tx}
+                      isPerps={isPerps}
+                      colSpan={columnCount}
+                      onSave={(changes) => {
+                        editor.onEdit(tx.id, changes);
+                        setEditingId(null);
+                      }}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  )}
+                </Fragment>
               );
             })}
           </tbody>
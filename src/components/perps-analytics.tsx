@@ -0,0 +1,209 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { PerpsTransaction } from "@/lib/types";
+import { analyzePerps, type PerpsPnLPoint } from "@/lib/perps";
+
+interface PerpsAnalyticsProps {
+  transactions: PerpsTransaction[];
+  paymentToken?: string;
+}
+
+type AnalyticsTab = "markets" | "monthly";
+
+function formatUsd(value: number, signed = false): string {
+  const text = Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  if (value < 0) return `-${text}`;
+  return signed && value > 0 ? `+${text}` : text;
+}
+
+function pnlClass(value: number): string {
+  if (value > 0) return "text-green-500";
+  if (value < 0) return "text-red-500";
+  return "text-[var(--muted)]";
+}
+
+export function PerpsAnalytics({ transactions, paymentToken = "USDC" }: PerpsAnalyticsProps) {
+  const [tab, setTab] = useState<AnalyticsTab>("markets");
+  const analytics = useMemo(() => analyzePerps(transactions), [transactions]);
+
+  const stats = [
+    { label: "Realized P&L", value: analytics.realizedPnL, signed: true },
+    { label: "Funding Received", value: analytics.fundingReceived },
+    { label: "Funding Paid", value: -analytics.fundingPaid },
+    { label: "Net P&L", value: analytics.netPnL, signed: true },
+  ];
+
+  return (
+    <div className="rounded-xl border border-[var(--border)] bg-[var(--card)] shadow-sm">
+      <div className="border-b border-[var(--border)] px-4 py-3">
+        <p className="text-sm font-medium text-[var(--foreground)]">P&L and fees</p>
+        <p className="text-xs text-[var(--muted)]">
+          In {paymentToken}. Realized P&L is net of closing fees; opening fees are counted under fees only.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 p-4 sm:grid-cols-4">
+        {stats.map(({ label, value, signed }) => (
+          <div key={label}>
+            <p className="text-xs text-[var(--muted)]">{label}</p>
+            <p className={`mt-0.5 text-base font-semibold tabular-nums ${pnlClass(value)}`}>
+              {formatUsd(value, signed)}
+            </p>
+          </div>
+        ))}
+        <div className="col-span-2 sm:col-span-4">
+          <p className="text-xs text-[var(--muted)]">
+            Fees {formatUsd(analytics.totalFees)}: maker {formatUsd(analytics.makerFees)}, taker{" "}
+            {formatUsd(analytics.takerFees)}
+            {analytics.unclassifiedFees > 0 && `, unclassified ${formatUsd(analytics.unclassifiedFees)}`}
+          </p>
+        </div>
+      </div>
+
+      {analytics.otherTokens.length > 0 && (
+        <p className="border-t border-[var(--border)] px-4 py-2 text-xs text-amber-500">
+          Left out of these totals, paid in other tokens:{" "}
+          {analytics.otherTokens
+            .map(
+              (token) =>
+                `${token.rows} row${token.rows !== 1 ? "s" : ""} in ${token.paymentToken} (P&L ${token.pnl >= 0 ? "+" : ""}${token.pnl}, fees ${token.fees})`
+            )
+            .join(", ")}
+        </p>
+      )}
+
+      {analytics.cumulativePnL.length > 1 && (
+        <div className="border-t border-[var(--border)] px-4 py-3">
+          <p className="mb-2 text-xs text-[var(--muted)]">Cumulative P&L</p>
+          <PnLChart points={analytics.cumulativePnL} />
+        </div>
+      )}
+
+      <div className="flex gap-2 border-t border-[var(--border)] px-4 py-3">
+        {(["markets", "monthly"] as const).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setTab(value)}
+            className={`rounded-lg px-2.5 py-1 text-xs font-medium transition-colors ${
+              tab === value ? "bg-[var(--accent)] text-white" : "text-[var(--muted)] hover:text-[var(--foreground)]"
+            }`}
+          >
+            {value === "markets" ? "By market" : "By month"}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-y border-[var(--border)]">
+              <th className="px-3 py-2 text-left text-xs font-medium text-[var(--muted)]">
+                {tab === "markets" ? "Market" : "Month"}
+              </th>
+              {tab === "markets" && (
+                <th className="px-3 py-2 text-right text-xs font-medium text-[var(--muted)]">Trades</th>
+              )}
+              <th className="px-3 py-2 text-right text-xs font-medium text-[var(--muted)]">Realized P&L</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-[var(--muted)]">Funding</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-[var(--muted)]">Fees</th>
+              {tab === "monthly" && (
+                <th className="px-3 py-2 text-right text-xs font-medium text-[var(--muted)]">Net P&L</th>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {tab === "markets"
+              ? analytics.markets.map((market) => {
+                  const funding = market.fundingReceived - market.fundingPaid;
+                  return (
+                    <tr key={market.market} className="border-b border-[var(--border)] last:border-0">
+                      <td className="px-3 py-2 font-medium text-[var(--foreground)]">{market.market}</td>
+                      <td className="px-3 py-2 text-right tabular-nums text-[var(--foreground)]">{market.trades}</td>
+                      <td className={`px-3 py-2 text-right tabular-nums ${pnlClass(market.realizedPnL)}`}>
+                        {formatUsd(market.realizedPnL, true)}
+                      </td>
+                      <td
+                        className={`px-3 py-2 text-right tabular-nums ${pnlClass(funding)}`}
+                        title={`Received ${formatUsd(market.fundingReceived)}, paid ${formatUsd(market.fundingPaid)}`}
+                      >
+                        {formatUsd(funding, true)}
+                      </td>
+                      <td className="px-3 py-2 text-right tabular-nums text-[var(--foreground)]">{formatUsd(market.fees)}</td>
+                    </tr>
+                  );
+                })
+              : analytics.monthly.map((month) => (
+                  <tr key={month.month} className="border-b border-[var(--border)] last:border-0">
+                    <td className="px-3 py-2 font-medium tabular-nums text-[var(--foreground)]">{month.month}</td>
+                    <td className={`px-3 py-2 text-right tabular-nums ${pnlClass(month.realizedPnL)}`}>
+                      {formatUsd(month.realizedPnL, true)}
+                    </td>
+                    <td className={`px-3 py-2 text-right tabular-nums ${pnlClass(month.funding)}`}>
+                      {formatUsd(month.funding, true)}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums text-[var(--foreground)]">{formatUsd(month.fees)}</td>
+                    <td className={`px-3 py-2 text-right font-medium tabular-nums ${pnlClass(month.netPnL)}`}>
+                      {formatUsd(month.netPnL, true)}
+                    </td>
+                  </tr>
+                ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 120;
+
+// Step line of cumulative P&L over time, with the zero line when it's in range
+function PnLChart({ points }: { points: PerpsPnLPoint[] }) {
+  const times = points.map((point) => new Date(point.date).getTime());
+  const values = points.map((point) => point.cumulativePnL);
+  const minTime = times[0];
+  const timeSpan = times[times.length - 1] - minTime || 1;
+  const minValue = Math.min(0, ...values);
+  const valueSpan = Math.max(0, ...values) - minValue || 1;
+
+  const x = (time: number) => ((time - minTime) / timeSpan) * CHART_WIDTH;
+  const y = (value: number) => CHART_HEIGHT - ((value - minValue) / valueSpan) * CHART_HEIGHT;
+
+  const path = points
+    .map((point, i) => {
+      const px = x(times[i]).toFixed(1);
+      const py = y(point.cumulativePnL).toFixed(1);
+      return i === 0 ? `M${px},${py}` : `H${px}V${py}`;
+    })
+    .join("");
+  const last = values[values.length - 1];
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="h-28 w-full"
+      role="img"
+      aria-label={`Cumulative P&L from ${points[0].date.slice(0, 10)} to ${points[points.length - 1].date.slice(0, 10)}, ending at ${formatUsd(last, true)}`}
+    >
+      <line
+        x1={0}
+        x2={CHART_WIDTH}
+        y1={y(0)}
+        y2={y(0)}
+        stroke="var(--border)"
+        strokeDasharray="4 4"
+        vectorEffect="non-scaling-stroke"
+      />
+      <path
+        d={path}
+        fill="none"
+        stroke={last >= 0 ? "rgb(34 197 94)" : "rgb(239 68 68)"}
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
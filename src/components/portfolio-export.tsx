@@ -0,0 +1,413 @@
+"use client";
+
+import { useState, useCallback, useMemo, FormEvent } from "react";
+import { ProgressIndicator, type ProgressIndicatorProps } from "@/components/progress-indicator";
+import { DateRangePicker } from "@/components/date-range-picker";
+import { PaginatedTable } from "@/components/paginated-table";
+import { DuplicateExportWarning } from "@/components/duplicate-export-warning";
+import { CostBasisReport, ResultsTabs, type ResultsTab } from "@/components/cost-basis-report";
+import { downloadBlob, downloadCSV } from "@/lib/csv";
+import { describeJobProgress, runExportJob } from "@/lib/export-jobs";
+import { buildCacheKey, getCachedTransactions, setCachedTransactions } from "@/lib/transaction-cache";
+import { isDuplicateExport, addExportRecord, type ExportRecord } from "@/lib/export-history";
+import { CHAIN_ADAPTERS, getChainAdapter } from "@/lib/chains/registry";
+import {
+  buildCombinedCSVs,
+  buildExportBody,
+  buildWalletCSVs,
+  mergePortfolioTransactions,
+  portfolioStandardRows,
+  walletLabel,
+  type PortfolioWallet,
+  type PortfolioWalletResult,
+} from "@/lib/portfolio";
+import type { NormalizedTransaction, PerpsTransaction } from "@/lib/types";
+import { getActiveRules } from "@/lib/rule-storage";
+import { rulesFingerprint } from "@/lib/rules";
+import { matchSelfTransfers } from "@/lib/self-transfers";
+import { createZip } from "@/lib/zip";
+
+type WalletProgress = Pick<ProgressIndicatorProps, "status" | "message" | "phase">;
+
+type DownloadKind = "combined" | "zip";
+
+let nextWalletId = 0;
+
+function newWallet(chain = ""): PortfolioWallet {
+  nextWalletId += 1;
+  return { id: `wallet-${nextWalletId}`, chain, input: "" };
+}
+
+export function PortfolioExport() {
+  const [wallets, setWallets] = useState<PortfolioWallet[]>(() => [newWallet()]);
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [progress, setProgress] = useState<Record<string, WalletProgress>>({});
+  const [results, setResults] = useState<PortfolioWalletResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingDownload, setPendingDownload] = useState<DownloadKind | null>(null);
+  const [duplicateRecord, setDuplicateRecord] = useState<ExportRecord | null>(null);
+  const [resultsTab, setResultsTab] = useState<ResultsTab>("transactions");
+
+  const readyWallets = useMemo(() => wallets.filter((wallet) => wallet.chain && wallet.input.trim()), [wallets]);
+  const merged = useMemo(() => mergePortfolioTransactions(results), [results]);
+  const standardRows = useMemo(() => portfolioStandardRows(results), [results]);
+  const totalTransactions = merged.standard.length + merged.perps.length;
+  const ambiguousCount = [...merged.standard, ...merged.perps].filter(
+    (tx) => "isAmbiguous" in tx && tx.isAmbiguous
+  ).length;
+
+  const updateWallet = (id: string, changes: Partial<PortfolioWallet>) => {
+    setWallets((current) => current.map((wallet) => (wallet.id === id ? { ...wallet, ...changes } : wallet)));
+  };
+
+  const setWalletProgress = (id: string, next: WalletProgress) => {
+    setProgress((current) => ({ ...current, [id]: next }));
+  };
+
+  // One wallet's export, from the cache when it has the same request
+  const fetchWallet = useCallback(
+    async (wallet: PortfolioWallet, forceRefresh: boolean): Promise<PortfolioWalletResult> => {
+      const adapter = getChainAdapter(wallet.chain);
+      const chainName = adapter?.name ?? wallet.chain;
+      const rules = getActiveRules();
+      const cacheKey = buildCacheKey(
+        wallet.chain,
+        wallet.input.trim(),
+        startDate,
+        endDate,
+        wallet.option,
+        rulesFingerprint(rules)
+      );
+
+      if (!forceRefresh) {
+        const cached = getCachedTransactions(cacheKey);
+        if (cached) {
+          setWalletProgress(wallet.id, {
+            status: "complete",
+            message: `${walletLabel(wallet)}: ${cached.transactions.length} transactions (cached)`,
+          });
+          return {
+            wallet,
+            transactions: cached.transactions as (NormalizedTransaction | PerpsTransaction)[],
+            transfers: cached.transfers,
+          };
+        }
+      }
+
+      setWalletProgress(wallet.id, { status: "fetching", message: `${walletLabel(wallet)}: connecting to ${chainName}...` });
+      const body: Record<string, unknown> = buildExportBody(wallet.chain, wallet.input, wallet.option, startDate, endDate);
+      if (rules.length) body.rules = rules;
+      const result = await runExportJob(wallet.chain, body, {
+        resumeKey: cacheKey,
+        onProgress: (job) => {
+          setWalletProgress(wallet.id, {
+            status: job.phase === "queued" || job.phase === "fetching" ? "fetching" : "processing",
+            message: `${walletLabel(wallet)}: ${describeJobProgress(job, chainName)}`,
+            phase: job.phase,
+          });
+        },
+      });
+
+      setCachedTransactions(cacheKey, result.transactions, result.summary, undefined, result.transfers);
+      setWalletProgress(wallet.id, {
+        status: "complete",
+        message: `${walletLabel(wallet)}: ${result.transactions.length} transactions`,
+      });
+      return { wallet, transactions: result.transactions, transfers: result.transfers };
+    },
+    [startDate, endDate]
+  );
+
+  // All wallets at once; the jobs API queues them, and one failure doesn't stop the rest
+  const fetchAll = useCallback(
+    async (forceRefresh = false) => {
+      if (!readyWallets.length) return;
+      setIsLoading(true);
+      setResults([]);
+      setProgress({});
+
+      const settled = await Promise.allSettled(readyWallets.map((wallet) => fetchWallet(wallet, forceRefresh)));
+
+      const fetched: PortfolioWalletResult[] = [];
+      settled.forEach((outcome, i) => {
+        const wallet = readyWallets[i];
+        if (outcome.status === "fulfilled") {
+          fetched.push(outcome.value);
+        } else {
+          const reason = outcome.reason instanceof Error ? outcome.reason.message : "An unexpected error occurred";
+          setWalletProgress(wallet.id, { status: "error", message: `${walletLabel(wallet)}: ${reason}` });
+        }
+      });
+
+      // Transfers between the portfolio's own wallets aren't disposals or income
+      setResults(matchSelfTransfers(fetched));
+      setIsLoading(false);
+    },
+    [readyWallets, fetchWallet]
+  );
+
+  const handleSubmit = useCallback(
+    async (e: FormEvent) => {
+      e.preventDefault();
+      await fetchAll(false);
+    },
+    [fetchAll]
+  );
+
+  const performDownload = useCallback(
+    (kind: DownloadKind) => {
+      if (!results.length) return;
+
+      if (kind === "combined") {
+        for (const file of buildCombinedCSVs(results)) downloadCSV(file.csv, file.filename);
+      } else {
+        const zip = createZip(buildWalletCSVs(results).map((file) => ({ name: file.filename, content: file.csv })));
+        downloadBlob(new Blob([zip], { type: "application/zip" }), "portfolio-awaken.zip");
+      }
+
+      // Record each wallet's export
+      for (const { wallet } of results) {
+        addExportRecord(wallet.chain, wallet.input.trim(), startDate, endDate);
+      }
+    },
+    [results, startDate, endDate]
+  );
+
+  const handleDownload = useCallback(
+    (kind: DownloadKind) => {
+      if (!results.length) return;
+
+      // Warn when any wallet was already exported for this range
+      const existingExport = results
+        .map(({ wallet }) => isDuplicateExport(wallet.chain, wallet.input.trim(), startDate, endDate))
+        .find((record) => record !== null);
+
+      if (existingExport) {
+        setDuplicateRecord(existingExport);
+        setPendingDownload(kind);
+        return;
+      }
+
+      performDownload(kind);
+    },
+    [results, startDate, endDate, performDownload]
+  );
+
+  const handleConfirmDuplicateExport = useCallback(() => {
+    if (pendingDownload) performDownload(pendingDownload);
+    setPendingDownload(null);
+    setDuplicateRecord(null);
+  }, [pendingDownload, performDownload]);
+
+  const handleCancelDuplicateExport = useCallback(() => {
+    setPendingDownload(null);
+    setDuplicateRecord(null);
+  }, []);
+
+  return (
+    <>
+      <form onSubmit={handleSubmit} className="mx-auto mt-10 max-w-2xl">
+        <label className="mb-2 block text-sm font-medium text-[var(--foreground)]">
+          1. Add wallets
+        </label>
+        <div className="space-y-3 rounded-xl border border-[var(--border)] bg-[var(--card)] p-4 shadow-sm">
+          {wallets.map((wallet, index) => {
+            const adapter = getChainAdapter(wallet.chain);
+            const secondaryInput = adapter?.input.options?.find((option) => option.ui);
+
+            return (
+              <div key={wallet.id} className="flex flex-col gap-2 sm:flex-row sm:items-start">
+                <select
+                  value={wallet.chain}
+                  onChange={(e) => updateWallet(wallet.id, { chain: e.target.value, option: undefined })}
+                  className="rounded-lg border border-[var(--border)] bg-[var(--background)] px-3 py-2.5 text-sm text-[var(--foreground)] focus:border-[var(--accent)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/20 sm:w-40"
+                  disabled={isLoading}
+                  aria-label={`Wallet ${index + 1} blockchain`}
+                >
+                  <option value="">Blockchain...</option>
+                  {CHAIN_ADAPTERS.map((chain) => (
+                    <option key={chain.id} value={chain.id}>
+                      {chain.name}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex-1 space-y-2">
+                  <input
+                    type={adapter?.input.type === "apiKey" ? "password" : "text"}
+                    value={wallet.input}
+                    onChange={(e) => updateWallet(wallet.id, { input: e.target.value })}
+                    placeholder={adapter?.input.placeholder ?? "Wallet address"}
+                    className="w-full rounded-lg border border-[var(--border)] bg-[var(--background)] px-3 py-2.5 font-mono text-sm text-[var(--foreground)] placeholder:text-[var(--muted)] focus:border-[var(--accent)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/20"
+                    disabled={isLoading || !adapter}
+                    aria-label={`Wallet ${index + 1} ${adapter?.input.label.toLowerCase() ?? "address"}`}
+                  />
+                  {secondaryInput?.ui &&
+                    (secondaryInput.choices ? (
+                      <select
+                        value={wallet.option || String(secondaryInput.defaultValue ?? "")}
+                        onChange={(e) => updateWallet(wallet.id, { option: e.target.value })}
+                        className="w-full rounded-lg border border-[var(--border)] bg-[var(--background)] px-3 py-2 text-sm text-[var(--foreground)] focus:border-[var(--accent)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/20"
+                        disabled={isLoading}
+                        aria-label={`Wallet ${index + 1} ${secondaryInput.ui.label.toLowerCase()}`}
+                      >
+                        {secondaryInput.choices.map((choice) => (
+                          <option key={choice.value} value={choice.value}>
+                            {choice.label}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type="text"
+                        value={wallet.option ?? ""}
+                        onChange={(e) => updateWallet(wallet.id, { option: e.target.value })}
+                        placeholder={secondaryInput.ui.placeholder}
+                        className="w-full rounded-lg border border-[var(--border)] bg-[var(--background)] px-3 py-2 font-mono text-sm text-[var(--foreground)] placeholder:text-[var(--muted)] focus:border-[var(--accent)] focus:outline-none focus:ring-2 focus:ring-[var(--accent)]/20"
+                        disabled={isLoading}
+                        aria-label={`Wallet ${index + 1} ${secondaryInput.ui.label.toLowerCase()}`}
+                      />
+                    ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setWallets((current) => current.filter((w) => w.id !== wallet.id))}
+                  disabled={isLoading || wallets.length === 1}
+                  className="rounded-lg px-3 py-2.5 text-sm text-[var(--muted)] transition-colors hover:text-red-500 disabled:opacity-40"
+                  aria-label={`Remove wallet ${index + 1}`}
+                >
+                  Remove
+                </button>
+              </div>
+            );
+          })}
+          {/* The next row starts on the last row's chain; wallets tend to come in runs */}
+          <button
+            type="button"
+            onClick={() => setWallets((current) => [...current, newWallet(current[current.length - 1]?.chain)])}
+            disabled={isLoading}
+            className="rounded-lg border border-dashed border-[var(--border)] px-4 py-2 text-sm text-[var(--muted)] transition-colors hover:border-[var(--accent)] hover:text-[var(--accent)] disabled:opacity-50"
+          >
+            + Add wallet
+          </button>
+        </div>
+
+        <div className="mt-6">
+          <label className="mb-2 block text-sm font-medium text-[var(--foreground)]">
+            2. Date range (optional)
+          </label>
+          <DateRangePicker
+            startDate={startDate}
+            endDate={endDate}
+            onStartDateChange={setStartDate}
+            onEndDateChange={setEndDate}
+            disabled={isLoading}
+          />
+        </div>
+
+        <div className="mt-6 flex justify-end gap-2">
+          {results.length > 0 && !isLoading && (
+            <button
+              type="button"
+              onClick={() => fetchAll(true)}
+              className="rounded-lg border border-[var(--border)] px-4 py-2.5 text-sm font-medium text-[var(--foreground)] transition-colors hover:border-[var(--accent)]"
+            >
+              Refresh all
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isLoading || !readyWallets.length}
+            className="rounded-lg bg-[var(--foreground)] px-6 py-2.5 text-sm font-medium text-[var(--background)] transition-all hover:opacity-90 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isLoading
+              ? "Fetching..."
+              : `Fetch ${readyWallets.length} wallet${readyWallets.length !== 1 ? "s" : ""}`}
+          </button>
+        </div>
+      </form>
+
+      {/* Per-wallet progress */}
+      {Object.keys(progress).length > 0 && (
+        <div className="mx-auto mt-6 max-w-2xl space-y-2">
+          {readyWallets
+            .filter((wallet) => progress[wallet.id])
+            .map((wallet) => (
+              <ProgressIndicator key={wallet.id} {...progress[wallet.id]} />
+            ))}
+        </div>
+      )}
+
+      {/* Results */}
+      {!isLoading && results.length > 0 && (
+        <div className="mt-8 space-y-4">
+          <div className="flex items-center justify-between rounded-xl border border-[var(--border)] bg-[var(--card)] p-4 shadow-sm">
+            <div>
+              <p className="text-sm text-[var(--muted)]">
+                Found across {results.length} wallet{results.length !== 1 ? "s" : ""}
+              </p>
+              <p className="text-2xl font-semibold tabular-nums text-[var(--foreground)]">
+                {totalTransactions} transactions
+              </p>
+              {ambiguousCount > 0 && (
+                <p className="mt-1 text-sm font-medium text-amber-500">
+                  {ambiguousCount} transaction{ambiguousCount !== 1 ? "s" : ""} flagged for review
+                </p>
+              )}
+            </div>
+            <div className="flex flex-col items-end gap-2">
+              <button
+                onClick={() => handleDownload("combined")}
+                title="One CSV per format with every wallet's rows"
+                className="flex items-center gap-2 rounded-lg bg-[var(--accent)] px-5 py-3 text-sm font-medium text-white transition-all hover:opacity-90"
+              >
+                <DownloadIcon />
+                Combined CSV
+              </button>
+              <button
+                onClick={() => handleDownload("zip")}
+                title="A zip with each wallet's CSVs, to import them as separate wallets"
+                className="flex items-center gap-2 rounded-lg border border-[var(--accent)] px-4 py-2 text-xs font-medium text-[var(--accent)] transition-colors hover:bg-[var(--accent)] hover:text-white"
+              >
+                <DownloadIcon />
+                ZIP, one CSV per wallet
+              </button>
+            </div>
+          </div>
+
+          {standardRows.length > 0 && <ResultsTabs value={resultsTab} onChange={setResultsTab} />}
+
+          {resultsTab === "gains" && standardRows.length > 0 ? (
+            <CostBasisReport transactions={standardRows} filenamePrefix="portfolio" />
+          ) : (
+            <>
+              {merged.standard.length > 0 && (
+                <PaginatedTable transactions={merged.standard} chainId="" isPerps={false} showWallet />
+              )}
+              {merged.perps.length > 0 && (
+                <PaginatedTable transactions={merged.perps} chainId="" isPerps showWallet />
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      <DuplicateExportWarning
+        open={pendingDownload !== null}
+        previousExport={duplicateRecord}
+        onCancel={handleCancelDuplicateExport}
+        onConfirm={handleConfirmDuplicateExport}
+      />
+    </>
+  );
+}
+
+function DownloadIcon() {
+  return (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round">
+      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+      <polyline points="7 10 12 15 17 10" />
+      <line x1="12" x2="12" y1="15" y2="3" />
+    </svg>
+  );
+}
@@ -1,13 +1,24 @@
 "use client";
 
 import { cn } from "@/lib/utils";
+import type { JobPhase } from "@/lib/jobs/types";
 
 export interface ProgressIndicatorProps {
   status: "idle" | "fetching" | "processing" | "complete" | "error";
   message?: string;
+  /** Export job phase; shows the job's steps while it runs */
+  phase?: JobPhase;
 }
 
-export function ProgressIndicator({ status, message }: ProgressIndicatorProps) {
+const JOB_STEPS: { phase: JobPhase; label: string }[] = [
+  { phase: "queued", label: "Queued" },
+  { phase: "fetching", label: "Fetch" },
+  { phase: "normalizing", label: "Normalize" },
+  { phase: "pricing", label: "Price" },
+  { phase: "summarizing", label: "Summarize" },
+];
+
+export function ProgressIndicator({ status, message, phase }: ProgressIndicatorProps) {
   if (status === "idle") return null;
 
   const statusConfig = {
@@ -42,17 +53,37 @@ export function ProgressIndicator({ status, message }: ProgressIndicatorProps) {
   };
 
   const config = statusConfig[status];
+  const currentStep = JOB_STEPS.findIndex((step) => step.phase === phase);
+  const showSteps = currentStep >= 0 && (status === "fetching" || status === "processing");
 
   return (
     <div
       className={cn(
         "flex items-center gap-3 rounded-lg border px-4 py-3",
+        showSteps && "flex-wrap",
         config.bgColor,
         config.borderColor
       )}
     >
       <span className={config.color}>{config.icon}</span>
       <p className={cn("text-sm", config.color)}>{message || config.defaultMessage}</p>
+      {showSteps && (
+        <ol className="flex w-full flex-wrap gap-x-2 pl-8 text-xs" aria-label="Export progress">
+          {JOB_STEPS.map((step, index) => (
+            <li
+              key={step.phase}
+              aria-current={index === currentStep ? "step" : undefined}
+              className={cn(
+                index === currentStep && cn("font-medium", config.color),
+                index < currentStep && "text-zinc-500 line-through",
+                index > currentStep && "text-zinc-500"
+              )}
+            >
+              {step.label}
+            </li>
+          ))}
+        </ol>
+      )}
     </div>
   );
 }
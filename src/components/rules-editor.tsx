@@ -0,0 +1,339 @@
+"use client";
+
+import { useRef, useState, type ChangeEvent } from "react";
+import { CHAIN_ADAPTERS } from "@/lib/chains/registry";
+import { downloadBlob } from "@/lib/csv";
+import { getSavedRules, saveRules } from "@/lib/rule-storage";
+import {
+  parseRules,
+  RULE_TAGS,
+  RULE_TYPES,
+  RuleValidationError,
+  type ReclassificationRule,
+  type RuleAction,
+  type RuleMatch,
+} from "@/lib/rules";
+import type { AwakenTag, TransactionType } from "@/lib/types";
+
+const inputClass =
+  "w-full rounded-lg border border-[var(--border)] bg-[var(--background)] px-2.5 py-1.5 text-xs text-[var(--foreground)] placeholder:text-[var(--muted)] focus:border-[var(--accent)] focus:outline-none focus:ring-1 focus:ring-[var(--accent)]";
+
+// Rules only reclassify standard rows; perps trades keep their ledger tags
+const STANDARD_CHAINS = CHAIN_ADAPTERS.filter((chain) => chain.kind === "standard");
+
+function newRuleId(): string {
+  return `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function validate(rules: ReclassificationRule[]): string | null {
+  try {
+    parseRules(rules);
+    return null;
+  } catch (error) {
+    return error instanceof RuleValidationError ? error.message : "Invalid rules";
+  }
+}
+
+function hasConditions(match: RuleMatch): boolean {
+  return Object.values(match).some((value) => value !== undefined && value !== "");
+}
+
+/**
+ * Collapsible editor for the reclassification rules sent with every export.
+ * Rules load from localStorage when opened and save on each valid change.
+ */
+export function RulesEditor() {
+  const [open, setOpen] = useState(false);
+  const [rules, setRules] = useState<ReclassificationRule[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const error = validate(rules);
+
+  const update = (next: ReclassificationRule[]) => {
+    setRules(next);
+    // Keep the last valid set saved while a rule is mid-edit
+    if (!validate(next)) saveRules(next);
+  };
+
+  const toggleOpen = () => {
+    if (!open) setRules(getSavedRules());
+    setOpen(!open);
+  };
+
+  const updateRule = (id: string, changes: Partial<ReclassificationRule>) => {
+    update(rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const updateMatch = (rule: ReclassificationRule, changes: Partial<RuleMatch>) => {
+    updateRule(rule.id, { match: { ...rule.match, ...changes } });
+  };
+
+  const updateAction = (rule: ReclassificationRule, changes: Partial<RuleAction>) => {
+    updateRule(rule.id, { action: { ...rule.action, ...changes } });
+  };
+
+  const moveUp = (index: number) => {
+    if (index === 0) return;
+    const next = [...rules];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    update(next);
+  };
+
+  // New rules start switched off, so an empty rule never retags everything
+  const addRule = () => {
+    update([...rules, { id: newRuleId(), enabled: false, match: {}, action: { tag: "wallet_transfer" } }]);
+  };
+
+  const handleExport = () => {
+    const json = JSON.stringify(rules, null, 2);
+    downloadBlob(new Blob([json], { type: "application/json" }), "awaken-rules.json");
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      // Imported rules are added after the existing ones, with fresh ids
+      const imported = parseRules(JSON.parse(await file.text())).map((rule) => ({ ...rule, id: newRuleId() }));
+      update([...rules, ...imported]);
+      setImportError(null);
+    } catch (err) {
+      setImportError(
+        err instanceof RuleValidationError ? err.message : "The file is not a JSON array of rules"
+      );
+    }
+  };
+
+  const numberValue = (value: string): number | undefined => (value === "" ? undefined : Number(value));
+
+  return (
+    <div className="mx-auto mt-6 max-w-2xl rounded-xl border border-[var(--border)] bg-[var(--card)] shadow-sm">
+      <button
+        type="button"
+        onClick={toggleOpen}
+        className="flex w-full items-center justify-between px-4 py-3 text-left"
+        aria-expanded={open}
+      >
+        <span>
+          <span className="block text-sm font-medium text-[var(--foreground)]">Reclassification rules</span>
+          <span className="block text-xs text-[var(--muted)]">
+            Retag, rename or drop rows by chain, counterparty, currency, type, amount, notes or date
+          </span>
+        </span>
+        <span className="text-xs text-[var(--accent)]">{open ? "Hide" : "Edit"}</span>
+      </button>
+
+      {open && (
+        <div className="space-y-3 border-t border-[var(--border)] p-4">
+          <p className="text-xs text-[var(--muted)]">
+            Rules run in order on every export from this browser; each row takes the first rule it matches.
+            Counterparty matching needs a chain that reports full addresses (Polkadot, Kusama, Bittensor, Osmosis,
+            Injective, XRPL, Kava).
+          </p>
+
+          {rules.map((rule, index) => (
+            <fieldset key={rule.id} className="space-y-2 rounded-lg border border-[var(--border)] p-3">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled !== false}
+                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked ? undefined : false })}
+                  aria-label={`Rule ${index + 1} enabled`}
+                />
+                <input
+                  type="text"
+                  value={rule.name ?? ""}
+                  onChange={(e) => updateRule(rule.id, { name: e.target.value || undefined })}
+                  placeholder={`Rule ${index + 1}`}
+                  className={inputClass}
+                  aria-label={`Rule ${index + 1} name`}
+                />
+                <button
+                  type="button"
+                  onClick={() => moveUp(index)}
+                  disabled={index === 0}
+                  className="px-2 text-xs text-[var(--muted)] hover:text-[var(--foreground)] disabled:opacity-40"
+                  aria-label={`Move rule ${index + 1} up`}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => update(rules.filter((r) => r.id !== rule.id))}
+                  className="px-2 text-xs text-[var(--muted)] hover:text-red-500"
+                  aria-label={`Remove rule ${index + 1}`}
+                >
+                  Remove
+                </button>
+              </div>
+
+              <p className="text-xs font-medium text-[var(--muted)]">When</p>
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                <select
+                  value={rule.match.chain ?? ""}
+                  onChange={(e) => updateMatch(rule, { chain: e.target.value || undefined })}
+                  className={inputClass}
+                  aria-label="Chain"
+                >
+                  <option value="">Any chain</option>
+                  {STANDARD_CHAINS.map((chain) => (
+                    <option key={chain.id} value={chain.id}>
+                      {chain.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={rule.match.type ?? ""}
+                  onChange={(e) => updateMatch(rule, { type: (e.target.value || undefined) as TransactionType | undefined })}
+                  className={inputClass}
+                  aria-label="Type"
+                >
+                  <option value="">Any type</option>
+                  {RULE_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type.replace(/_/g, " ")}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={rule.match.currency ?? ""}
+                  onChange={(e) => updateMatch(rule, { currency: e.target.value || undefined })}
+                  placeholder="Currency, e.g. DOT"
+                  className={inputClass}
+                  aria-label="Currency"
+                />
+                <input
+                  type="text"
+                  value={rule.match.counterparty ?? ""}
+                  onChange={(e) => updateMatch(rule, { counterparty: e.target.value || undefined })}
+                  placeholder="Counterparty address"
+                  className={`${inputClass} col-span-2 font-mono sm:col-span-3`}
+                  aria-label="Counterparty"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={rule.match.minAmount ?? ""}
+                  onChange={(e) => updateMatch(rule, { minAmount: numberValue(e.target.value) })}
+                  placeholder="Min amount"
+                  className={inputClass}
+                  aria-label="Minimum amount"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={rule.match.maxAmount ?? ""}
+                  onChange={(e) => updateMatch(rule, { maxAmount: numberValue(e.target.value) })}
+                  placeholder="Max amount"
+                  className={inputClass}
+                  aria-label="Maximum amount"
+                />
+                <input
+                  type="text"
+                  value={rule.match.notes ?? ""}
+                  onChange={(e) => updateMatch(rule, { notes: e.target.value || undefined })}
+                  placeholder="Notes/memo contain, * wildcard"
+                  className={`${inputClass} font-mono`}
+                  aria-label="Notes pattern"
+                />
+                <input
+                  type="date"
+                  value={rule.match.startDate ?? ""}
+                  onChange={(e) => updateMatch(rule, { startDate: e.target.value || undefined })}
+                  className={inputClass}
+                  aria-label="From date"
+                />
+                <input
+                  type="date"
+                  value={rule.match.endDate ?? ""}
+                  onChange={(e) => updateMatch(rule, { endDate: e.target.value || undefined })}
+                  className={inputClass}
+                  aria-label="To date"
+                />
+              </div>
+              {!hasConditions(rule.match) && (
+                <p className="text-xs text-amber-500">No conditions: this rule matches every row.</p>
+              )}
+
+              <p className="text-xs font-medium text-[var(--muted)]">Then</p>
+              <div className="grid grid-cols-2 items-center gap-2 sm:grid-cols-3">
+                <select
+                  value={rule.action.tag ?? ""}
+                  onChange={(e) => updateAction(rule, { tag: (e.target.value || undefined) as AwakenTag | undefined })}
+                  className={inputClass}
+                  disabled={rule.action.exclude}
+                  aria-label="Set tag"
+                >
+                  <option value="">Keep tag</option>
+                  {RULE_TAGS.map((tag) => (
+                    <option key={tag} value={tag}>
+                      {tag.replace(/_/g, " ")}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={rule.action.notes ?? ""}
+                  onChange={(e) => updateAction(rule, { notes: e.target.value || undefined })}
+                  placeholder="Notes, {notes} keeps the original"
+                  className={inputClass}
+                  disabled={rule.action.exclude}
+                  aria-label="Set notes"
+                />
+                <label className="flex items-center gap-2 text-xs text-[var(--foreground)]">
+                  <input
+                    type="checkbox"
+                    checked={rule.action.exclude === true}
+                    onChange={(e) => updateAction(rule, { exclude: e.target.checked || undefined })}
+                  />
+                  Exclude from export
+                </label>
+              </div>
+            </fieldset>
+          ))}
+
+          {error && <p className="text-xs text-red-500">{error} (not saved until fixed)</p>}
+          {importError && <p className="text-xs text-red-500">Import failed: {importError}</p>}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={addRule}
+              className="rounded-lg border border-dashed border-[var(--border)] px-3 py-1.5 text-xs text-[var(--muted)] transition-colors hover:border-[var(--accent)] hover:text-[var(--accent)]"
+            >
+              + Add rule
+            </button>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="rounded-lg border border-[var(--border)] px-3 py-1.5 text-xs text-[var(--foreground)] transition-colors hover:border-[var(--accent)]"
+            >
+              Import JSON
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={rules.length === 0}
+              className="rounded-lg border border-[var(--border)] px-3 py-1.5 text-xs text-[var(--foreground)] transition-colors hover:border-[var(--accent)] disabled:opacity-50"
+            >
+              Export JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
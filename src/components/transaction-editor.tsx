@@ -0,0 +1,392 @@
+"use client";
+
+import { useState, type FormEvent, type ReactNode } from "react";
+import type { AwakenTag, NormalizedTransaction, PerpsTag, PerpsTransaction, TransactionType } from "@/lib/types";
+import { newManualId, PERPS_TAGS, type TransactionEdit } from "@/lib/overrides";
+import { RULE_TAGS, RULE_TYPES } from "@/lib/rules";
+
+type Transaction = NormalizedTransaction | PerpsTransaction;
+
+/** Single-wallet results: what the table can do to its rows */
+export interface TransactionEditorHandlers {
+  onEdit: (id: string, changes: TransactionEdit) => void;
+  onExclude: (id: string, excluded: boolean) => void;
+  /** Drop a row's edits and exclusion, or delete a manual row */
+  onRevert: (id: string) => void;
+  onAdd: (row: Transaction) => void;
+}
+
+const inputClass =
+  "w-full rounded-lg border border-[var(--border)] bg-[var(--background)] px-2.5 py-1.5 text-xs text-[var(--foreground)] placeholder:text-[var(--muted)] focus:border-[var(--accent)] focus:outline-none focus:ring-1 focus:ring-[var(--accent)]";
+
+type Values = Record<string, string>;
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="block text-xs text-[var(--muted)]">
+      <span className="mb-1 block">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+function numberOrNull(value: string | undefined): number | null {
+  return value === undefined || value.trim() === "" ? null : Number(value);
+}
+
+function allNumbers(values: (number | null | undefined)[]): boolean {
+  return values.every((value) => value === null || value === undefined || Number.isFinite(value));
+}
+
+// Input value for a datetime-local field, in local time
+function toDateTimeInput(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+}
+
+function FormRow({
+  colSpan,
+  title,
+  error,
+  onSubmit,
+  onCancel,
+  children,
+}: {
+  colSpan: number;
+  title: string;
+  error: string | null;
+  onSubmit: (e: FormEvent) => void;
+  onCancel: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <tr className="border-b border-[var(--border)] bg-[var(--accent-muted)]/40">
+      <td colSpan={colSpan} className="px-3 py-3">
+        <form onSubmit={onSubmit} className="space-y-3">
+          <p className="text-xs font-medium text-[var(--foreground)]">{title}</p>
+          <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">{children}</div>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="rounded-lg bg-[var(--accent)] px-3 py-1.5 text-xs font-medium text-white transition-opacity hover:opacity-90"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={onCancel}
+              className="rounded-lg border border-[var(--border)] px-3 py-1.5 text-xs text-[var(--foreground)] transition-colors hover:border-[var(--accent)]"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </td>
+    </tr>
+  );
+}
+
+function TagSelect({ isPerps, value, onChange }: { isPerps: boolean; value: string; onChange: (tag: string) => void }) {
+  const tags: readonly string[] = isPerps ? PERPS_TAGS : RULE_TAGS;
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+      {tags.map((tag) => (
+        <option key={tag} value={tag}>
+          {tag.replace(/_/g, " ")}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// Form values of a row, as entered
+function editValues(tx: Transaction, isPerps: boolean): Values {
+  if (isPerps) {
+    const row = tx as PerpsTransaction;
+    return { tag: row.tag, notes: row.notes, amount: String(row.amount), fee: String(row.fee), pnl: String(row.pnl) };
+  }
+  const row = tx as NormalizedTransaction;
+  return {
+    tag: row.tag,
+    notes: row.notes,
+    sentAmount: row.sentAmount !== null ? String(row.sentAmount) : "",
+    sentFiatPrice: row.sentFiatPrice !== undefined ? String(row.sentFiatPrice) : "",
+    receivedAmount: row.receivedAmount !== null ? String(row.receivedAmount) : "",
+    receivedFiatPrice: row.receivedFiatPrice !== undefined ? String(row.receivedFiatPrice) : "",
+    feeAmount: String(row.feeAmount),
+  };
+}
+
+/**
+ * Inline form under a row for its tag, notes, amounts and fiat prices. The
+ * row's kind comes from the chain, like the table's columns.
+ */
+export function TransactionEditRow({
+  tx,
+  isPerps,
+  colSpan,
+  onSave,
+  onCancel,
+}: {
+  tx: Transaction;
+  isPerps: boolean;
+  colSpan: number;
+  onSave: (changes: TransactionEdit) => void;
+  onCancel: () => void;
+}) {
+  const standard = isPerps ? null : (tx as NormalizedTransaction);
+  const perps = isPerps ? (tx as PerpsTransaction) : null;
+  const [values, setValues] = useState<Values>(() => editValues(tx, isPerps));
+  const [error, setError] = useState<string | null>(null);
+
+  const set = (field: string) => (value: string) => setValues((current) => ({ ...current, [field]: value }));
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    let changes: TransactionEdit;
+    if (standard) {
+      // An empty fiat price keeps the fetched one
+      changes = {
+        tag: values.tag as AwakenTag,
+        notes: values.notes,
+        sentAmount: standard.sentCurrency ? numberOrNull(values.sentAmount) : standard.sentAmount,
+        receivedAmount: standard.receivedCurrency ? numberOrNull(values.receivedAmount) : standard.receivedAmount,
+        feeAmount: numberOrNull(values.feeAmount) ?? 0,
+        sentFiatPrice: numberOrNull(values.sentFiatPrice) ?? undefined,
+        receivedFiatPrice: numberOrNull(values.receivedFiatPrice) ?? undefined,
+      };
+    } else {
+      changes = {
+        tag: values.tag as PerpsTag,
+        notes: values.notes,
+        amount: numberOrNull(values.amount) ?? 0,
+        fee: numberOrNull(values.fee) ?? 0,
+        pnl: numberOrNull(values.pnl) ?? 0,
+      };
+    }
+
+    if (!allNumbers(Object.values(changes).filter((value) => typeof value !== "string"))) {
+      setError("Amounts and prices must be numbers");
+      return;
+    }
+    onSave(changes);
+  };
+
+  return (
+    <FormRow colSpan={colSpan} title="Edit transaction" error={error} onSubmit={handleSubmit} onCancel={onCancel}>
+      <Field label="Tag">
+        <TagSelect isPerps={isPerps} value={values.tag} onChange={set("tag")} />
+      </Field>
+      <div className="col-span-1 sm:col-span-3">
+        <Field label="Notes">
+          <input type="text" value={values.notes} onChange={(e) => set("notes")(e.target.value)} className={inputClass} />
+        </Field>
+      </div>
+      {standard && (
+        <>
+          {standard.sentCurrency && (
+            <>
+              <Field label={`Sent ${standard.sentCurrency}`}>
+                <input inputMode="decimal" value={values.sentAmount} onChange={(e) => set("sentAmount")(e.target.value)} className={inputClass} />
+              </Field>
+              <Field label={`${standard.sentCurrency} price (USD)`}>
+                <input inputMode="decimal" value={values.sentFiatPrice} onChange={(e) => set("sentFiatPrice")(e.target.value)} placeholder="Missing" className={inputClass} />
+              </Field>
+            </>
+          )}
+          {standard.receivedCurrency && (
+            <>
+              <Field label={`Received ${standard.receivedCurrency}`}>
+                <input inputMode="decimal" value={values.receivedAmount} onChange={(e) => set("receivedAmount")(e.target.value)} className={inputClass} />
+              </Field>
+              <Field label={`${standard.receivedCurrency} price (USD)`}>
+                <input inputMode="decimal" value={values.receivedFiatPrice} onChange={(e) => set("receivedFiatPrice")(e.target.value)} placeholder="Missing" className={inputClass} />
+              </Field>
+            </>
+          )}
+          <Field label={`Fee ${standard.feeCurrency}`}>
+            <input inputMode="decimal" value={values.feeAmount} onChange={(e) => set("feeAmount")(e.target.value)} className={inputClass} />
+          </Field>
+        </>
+      )}
+      {perps && (
+        <>
+          <Field label={`Amount ${perps.asset}`}>
+            <input inputMode="decimal" value={values.amount} onChange={(e) => set("amount")(e.target.value)} className={inputClass} />
+          </Field>
+          <Field label={`Fee ${perps.paymentToken}`}>
+            <input inputMode="decimal" value={values.fee} onChange={(e) => set("fee")(e.target.value)} className={inputClass} />
+          </Field>
+          <Field label={`P&L ${perps.paymentToken}`}>
+            <input inputMode="decimal" value={values.pnl} onChange={(e) => set("pnl")(e.target.value)} className={inputClass} />
+          </Field>
+        </>
+      )}
+    </FormRow>
+  );
+}
+
+/**
+ * Inline form for a row the chain data is missing (an exchange-side fee, an
+ * off-chain transfer)
+ */
+export function ManualRowForm({
+  isPerps,
+  feeCurrency,
+  colSpan,
+  onSave,
+  onCancel,
+}: {
+  isPerps: boolean;
+  /** Chain's native symbol, the default fee currency */
+  feeCurrency: string;
+  colSpan: number;
+  onSave: (row: Transaction) => void;
+  onCancel: () => void;
+}) {
+  const [values, setValues] = useState<Values>(() => ({
+    date: toDateTimeInput(new Date()),
+    tag: isPerps ? "open_position" : "receive",
+    type: "transfer_received",
+    notes: "",
+    hash: "",
+    sentAmount: "",
+    sentCurrency: "",
+    sentFiatPrice: "",
+    receivedAmount: "",
+    receivedCurrency: "",
+    receivedFiatPrice: "",
+    feeAmount: "",
+    feeCurrency,
+    asset: "",
+    amount: "",
+    fee: "",
+    pnl: "",
+    paymentToken: "USDC",
+  }));
+  const [error, setError] = useState<string | null>(null);
+
+  const set = (field: string) => (value: string) => setValues((current) => ({ ...current, [field]: value }));
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+
+    const date = new Date(values.date);
+    if (isNaN(date.getTime())) {
+      setError("Enter a date and time");
+      return;
+    }
+    const base = { id: newManualId(), notes: values.notes.trim(), transactionHash: values.hash.trim() };
+
+    if (isPerps) {
+      const row: PerpsTransaction = {
+        ...base,
+        date,
+        asset: values.asset.trim().toUpperCase(),
+        amount: numberOrNull(values.amount) ?? 0,
+        fee: numberOrNull(values.fee) ?? 0,
+        pnl: numberOrNull(values.pnl) ?? 0,
+        paymentToken: values.paymentToken.trim().toUpperCase(),
+        tag: values.tag as PerpsTag,
+      };
+      if (!row.asset || !row.paymentToken) {
+        setError("Enter the asset and payment token");
+        return;
+      }
+      if (!allNumbers([row.amount, row.fee, row.pnl])) {
+        setError("Amounts must be numbers");
+        return;
+      }
+      onSave(row);
+      return;
+    }
+
+    const sentAmount = numberOrNull(values.sentAmount);
+    const receivedAmount = numberOrNull(values.receivedAmount);
+    const sentCurrency = values.sentCurrency.trim().toUpperCase() || null;
+    const receivedCurrency = values.receivedCurrency.trim().toUpperCase() || null;
+    const row: NormalizedTransaction = {
+      ...base,
+      type: values.type as TransactionType,
+      timestamp: date,
+      sentAmount: sentCurrency ? sentAmount : null,
+      sentCurrency: sentAmount !== null ? sentCurrency : null,
+      receivedAmount: receivedCurrency ? receivedAmount : null,
+      receivedCurrency: receivedAmount !== null ? receivedCurrency : null,
+      feeAmount: numberOrNull(values.feeAmount) ?? 0,
+      feeCurrency: values.feeCurrency.trim().toUpperCase(),
+      tag: values.tag as AwakenTag,
+    };
+    const sentFiatPrice = numberOrNull(values.sentFiatPrice);
+    const receivedFiatPrice = numberOrNull(values.receivedFiatPrice);
+    if (sentFiatPrice !== null && row.sentAmount !== null) row.sentFiatPrice = sentFiatPrice;
+    if (receivedFiatPrice !== null && row.receivedAmount !== null) row.receivedFiatPrice = receivedFiatPrice;
+
+    if (row.sentAmount === null && row.receivedAmount === null && row.feeAmount === 0) {
+      setError("Enter a sent or received amount with its currency, or a fee");
+      return;
+    }
+    if (!allNumbers([row.sentAmount, row.receivedAmount, row.feeAmount, row.sentFiatPrice, row.receivedFiatPrice])) {
+      setError("Amounts and prices must be numbers");
+      return;
+    }
+    onSave(row);
+  };
+
+  const input = (field: string, placeholder?: string, decimal = false) => (
+    <input
+      type="text"
+      inputMode={decimal ? "decimal" : undefined}
+      value={values[field]}
+      onChange={(e) => set(field)(e.target.value)}
+      placeholder={placeholder}
+      className={inputClass}
+    />
+  );
+
+  return (
+    <FormRow colSpan={colSpan} title="Add a transaction" error={error} onSubmit={handleSubmit} onCancel={onCancel}>
+      <Field label="Date">
+        <input type="datetime-local" value={values.date} onChange={(e) => set("date")(e.target.value)} className={inputClass} />
+      </Field>
+      <Field label="Tag">
+        <TagSelect isPerps={isPerps} value={values.tag} onChange={set("tag")} />
+      </Field>
+      {isPerps ? (
+        <>
+          <Field label="Asset">{input("asset", "BTC")}</Field>
+          <Field label="Amount">{input("amount", "0", true)}</Field>
+          <Field label="Fee">{input("fee", "0", true)}</Field>
+          <Field label="P&L">{input("pnl", "0", true)}</Field>
+          <Field label="Payment token">{input("paymentToken")}</Field>
+        </>
+      ) : (
+        <>
+          <Field label="Type">
+            <select value={values.type} onChange={(e) => set("type")(e.target.value)} className={inputClass}>
+              {RULE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type.replace(/_/g, " ")}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Fee">{input("feeAmount", "0", true)}</Field>
+          <Field label="Sent amount">{input("sentAmount", "", true)}</Field>
+          <Field label="Sent currency">{input("sentCurrency")}</Field>
+          <Field label="Sent price (USD)">{input("sentFiatPrice", "", true)}</Field>
+          <Field label="Fee currency">{input("feeCurrency")}</Field>
+          <Field label="Received amount">{input("receivedAmount", "", true)}</Field>
+          <Field label="Received currency">{input("receivedCurrency")}</Field>
+          <Field label="Received price (USD)">{input("receivedFiatPrice", "", true)}</Field>
+        </>
+      )}
+      <Field label="Transaction hash">{input("hash", "Optional")}</Field>
+      <div className="col-span-2 sm:col-span-4">
+        <Field label="Notes">{input("notes")}</Field>
+      </div>
+    </FormRow>
+  );
+}
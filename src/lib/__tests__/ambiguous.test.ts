@@ -43,8 +43,8 @@ describe("flagAmbiguousTransactions", () => {
 
   it("flags missing fiat price when others have prices", () => {
     const txs = [
-      makeTx({ id: "1", fiatPrice: 3000 }),
-      makeTx({ id: "2", fiatPrice: 0 }),
+      makeTx({ id: "1", sentFiatPrice: 3000 }),
+      makeTx({ id: "2", sentFiatPrice: 0 }),
     ];
     const result = flagAmbiguousTransactions(txs);
     expect(result[0].isAmbiguous).toBeUndefined();
@@ -52,10 +52,25 @@ describe("flagAmbiguousTransactions", () => {
     expect(result[1].ambiguousReasons).toContain("Missing fiat price");
   });
 
+  it("flags a swap whose received leg has no price", () => {
+    const txs = [
+      makeTx({ id: "1", sentFiatPrice: 3000 }),
+      makeTx({
+        id: "2",
+        sentFiatPrice: 3000,
+        receivedAmount: 500,
+        receivedCurrency: "OBSCURE",
+      }),
+    ];
+    const result = flagAmbiguousTransactions(txs);
+    expect(result[0].isAmbiguous).toBeUndefined();
+    expect(result[1].ambiguousReasons).toContain("Missing fiat price");
+  });
+
   it("does not flag missing fiat price when no txs have prices", () => {
     const txs = [
-      makeTx({ id: "1", fiatPrice: 0 }),
-      makeTx({ id: "2", fiatPrice: undefined }),
+      makeTx({ id: "1", sentFiatPrice: 0 }),
+      makeTx({ id: "2", sentFiatPrice: undefined }),
     ];
     const result = flagAmbiguousTransactions(txs);
     expect(result.every((tx) => !tx.isAmbiguous)).toBe(true);
@@ -126,11 +141,11 @@ describe("flagAmbiguousTransactions", () => {
   it("can flag multiple reasons on one transaction", () => {
     // tx 6: self-transfer (same currency sent/received) + missing fiat price
     const txs = [
-      makeTx({ id: "1", fiatPrice: 3000 }),
-      makeTx({ id: "2", fiatPrice: 3000 }),
+      makeTx({ id: "1", sentFiatPrice: 3000 }),
+      makeTx({ id: "2", sentFiatPrice: 3000 }),
       makeTx({
         id: "6",
-        fiatPrice: 0,
+        sentFiatPrice: 0,
         sentAmount: 1,
         sentCurrency: "ETH",
         receivedAmount: 1,
@@ -158,6 +173,14 @@ describe("flagAmbiguousPerpsTransactions", () => {
     expect(result[0].ambiguousReasons).toContain("Zero P&L on close position");
   });
 
+  it("keeps the normalizer's reasons when adding its own", () => {
+    const txs = [makePerpsTx({ pnl: 0, isAmbiguous: true, ambiguousReasons: ["Liquidated: collateral lost 5 USDC"] })];
+    expect(flagAmbiguousPerpsTransactions(txs)[0].ambiguousReasons).toEqual([
+      "Liquidated: collateral lost 5 USDC",
+      "Zero P&L on close position",
+    ]);
+  });
+
   it("does not flag zero P&L on open position", () => {
     const txs = [makePerpsTx({ pnl: 0, tag: "open_position" })];
     const result = flagAmbiguousPerpsTransactions(txs);
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  toTokenAmount,
+  parseTokenAmount,
+  formatExactAmount,
+  tokenAmountToNumber,
+  addTokenAmounts,
+  subtractTokenAmounts,
+  absTokenAmount,
+} from "../amount";
+
+describe("toTokenAmount", () => {
+  it("accepts strings, numbers, bigints and hex", () => {
+    expect(toTokenAmount("12345", 2)).toEqual({ units: "12345", decimals: 2 });
+    expect(toTokenAmount(12345, 2)).toEqual({ units: "12345", decimals: 2 });
+    expect(toTokenAmount(BigInt(12345), 2)).toEqual({ units: "12345", decimals: 2 });
+    expect(toTokenAmount("0xff", 0)).toEqual({ units: "255", decimals: 0 });
+  });
+});
+
+describe("parseTokenAmount", () => {
+  it("pads to the token's decimals", () => {
+    expect(parseTokenAmount("12.34", 7)).toEqual({ units: "123400000", decimals: 7 });
+    expect(parseTokenAmount("5", 6)).toEqual({ units: "5000000", decimals: 6 });
+  });
+
+  it("keeps the string's own precision without decimals", () => {
+    expect(parseTokenAmount("0.001")).toEqual({ units: "1", decimals: 3 });
+  });
+
+  it("handles exponent notation", () => {
+    expect(parseTokenAmount("1.5e-7")).toEqual({ units: "15", decimals: 8 });
+    expect(parseTokenAmount("2e3")).toEqual({ units: "2000", decimals: 0 });
+  });
+
+  it("truncates extra precision toward zero", () => {
+    expect(parseTokenAmount("1.23456", 2)).toEqual({ units: "123", decimals: 2 });
+    expect(parseTokenAmount("-1.239", 2)).toEqual({ units: "-123", decimals: 2 });
+  });
+
+  it("rejects non-numeric input", () => {
+    expect(() => parseTokenAmount("abc")).toThrow();
+    expect(() => parseTokenAmount(".")).toThrow();
+  });
+});
+
+describe("formatExactAmount", () => {
+  it("prints every on-chain digit of an 18-decimal amount", () => {
+    expect(formatExactAmount(toTokenAmount("123456789012345678901234567", 18))).toBe(
+      "123456789.012345678901234567"
+    );
+  });
+
+  it("prints dust without scientific notation", () => {
+    expect(formatExactAmount(toTokenAmount(1, 18))).toBe("0.000000000000000001");
+  });
+
+  it("trims trailing zeros and handles negatives", () => {
+    expect(formatExactAmount(toTokenAmount("15000000000", 10))).toBe("1.5");
+    expect(formatExactAmount(toTokenAmount("-250", 2))).toBe("-2.5");
+    expect(formatExactAmount(toTokenAmount(0, 8))).toBe("0");
+  });
+});
+
+describe("tokenAmountToNumber", () => {
+  it("returns the nearest double", () => {
+    expect(tokenAmountToNumber(toTokenAmount("10000000000", 10))).toBe(1);
+    expect(tokenAmountToNumber(toTokenAmount("1", 18))).toBe(1e-18);
+  });
+});
+
+describe("arithmetic", () => {
+  it("adds and subtracts across different decimals", () => {
+    const a = toTokenAmount("15", 1);
+    const b = toTokenAmount("25", 2);
+    expect(addTokenAmounts(a, b)).toEqual({ units: "175", decimals: 2 });
+    expect(subtractTokenAmounts(b, a)).toEqual({ units: "-125", decimals: 2 });
+  });
+
+  it("takes absolute values", () => {
+    expect(absTokenAmount(toTokenAmount("-5", 3))).toEqual({ units: "5", decimals: 3 });
+    expect(absTokenAmount(toTokenAmount("5", 3))).toEqual({ units: "5", decimals: 3 });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import type { StandardChainAdapter } from "../chains/adapter";
+import { kaspaAdapter } from "../chains/kaspa/adapter";
+import { ergoAdapter } from "../chains/ergo/adapter";
+import { glueAdapter } from "../chains/glue/adapter";
+import { radixAdapter } from "../chains/radix/adapter";
+import { multiversxAdapter } from "../chains/multiversx/adapter";
+import type { KaspaTransaction } from "../chains/kaspa/types";
+import type { ErgoTransaction } from "../chains/ergo/types";
+import type { GlueTransaction } from "../chains/glue/types";
+import { XRD_RESOURCE_ADDRESS, type RadixTransaction } from "../chains/radix/types";
+import type { MultiversXTransfer } from "../chains/multiversx/types";
+import { applyFiatPrices } from "../fiat-prices";
+import { createFixtureProvider, createMemoryPriceCache, createPriceService, toDateKey } from "../pricing";
+import { fetchCurrencyPrices } from "../pricing/legs";
+
+// Day D, the day after, and today's spot price all differ
+const DAY = new Date("2024-03-05T15:00:00Z");
+const DAY_PRICE = 0.12;
+const NEXT_DAY_PRICE = 0.2;
+const SPOT_PRICE = 0.5;
+
+async function priceExport<Raw>(adapter: StandardChainAdapter<Raw>, raw: Raw, address: string) {
+  const transactions = await adapter.normalize(raw, { address, options: {} });
+  const resolve = await adapter.currencyResolver!();
+  const service = createPriceService({
+    providers: [
+      createFixtureProvider({
+        [adapter.symbol]: {
+          [toDateKey(DAY)]: DAY_PRICE,
+          "2024-03-06": NEXT_DAY_PRICE,
+          [toDateKey(new Date())]: SPOT_PRICE,
+        },
+      }),
+    ],
+    cache: createMemoryPriceCache(),
+  });
+  return applyFiatPrices(transactions, await fetchCurrencyPrices(service, transactions, resolve));
+}
+
+describe("historical chain prices", () => {
+  it("prices Kaspa transfers at the day's KAS price", async () => {
+    const wallet = "kaspa:qwallet";
+    const [tx] = await priceExport(
+      kaspaAdapter,
+      [
+        {
+          transaction_id: "kas1",
+          block_time: DAY.getTime(),
+          is_accepted: true,
+          inputs: [{ previous_outpoint_address: "kaspa:qsender", previous_outpoint_amount: 200_000_000 }],
+          outputs: [{ script_public_key_address: wallet, amount: 199_990_000 }],
+        } as KaspaTransaction,
+      ],
+      wallet
+    );
+
+    expect(tx.receivedCurrency).toBe("KAS");
+    expect(tx.receivedFiatPrice).toBe(DAY_PRICE);
+  });
+
+  it("prices Ergo transfers at the day's ERG price", async () => {
+    const wallet = "9fWallet";
+    const [tx] = await priceExport(
+      ergoAdapter,
+      [
+        {
+          id: "erg1",
+          timestamp: DAY.getTime(),
+          inputs: [{ address: wallet, value: 3_000_000_000 }],
+          outputs: [
+            { address: "9fOther", value: 1_000_000_000 },
+            { address: wallet, value: 1_999_000_000 },
+          ],
+        } as ErgoTransaction,
+      ],
+      wallet
+    );
+
+    expect(tx.sentCurrency).toBe("ERG");
+    expect(tx.sentFiatPrice).toBe(DAY_PRICE);
+    expect(tx.feeFiatPrice).toBe(DAY_PRICE);
+  });
+
+  it("prices Glue transfers at the day's GLUE price", async () => {
+    const wallet = "0x1111111111111111111111111111111111111111";
+    const [tx] = await priceExport(
+      glueAdapter,
+      {
+        transactions: [
+          {
+            hash: "0xglue1",
+            from: wallet,
+            to: "0x2222222222222222222222222222222222222222",
+            value: "1000000000000000000",
+            gasUsed: "21000",
+            gasPrice: "1000000000",
+            isError: "0",
+            txreceipt_status: "1",
+            timeStamp: String(DAY.getTime() / 1000),
+          } as GlueTransaction,
+        ],
+        tokenTransfers: [],
+      },
+      wallet
+    );
+
+    expect(tx.sentCurrency).toBe("GLUE");
+    expect(tx.sentFiatPrice).toBe(DAY_PRICE);
+  });
+
+  it("prices Radix transfers at the day's XRD price", async () => {
+    const wallet = "account_rdx1wallet";
+    const [tx] = await priceExport(
+      radixAdapter,
+      [
+        {
+          intent_hash: "txid_rdx1",
+          round_timestamp: DAY.toISOString(),
+          transaction_status: "CommittedSuccess",
+          manifest_classes: [{ class: "Transfer", is_subintent: false }],
+          balance_changes: {
+            entity_address: wallet,
+            fee_balance_change: { resource_address: XRD_RESOURCE_ADDRESS, balance_change: "-0.3" },
+            non_fee_balance_changes: [{ resource_address: XRD_RESOURCE_ADDRESS, balance_change: "-100" }],
+          },
+        } as RadixTransaction,
+      ],
+      wallet
+    );
+
+    expect(tx.sentCurrency).toBe("XRD");
+    expect(tx.sentFiatPrice).toBe(DAY_PRICE);
+  });
+
+  it("prices MultiversX transfers at the day's EGLD price", async () => {
+    const wallet = "erd1wallet";
+    const [tx] = await priceExport(
+      multiversxAdapter,
+      {
+        transfers: [
+          {
+            txHash: "egld1",
+            type: "Transaction",
+            sender: "erd1sender",
+            receiver: wallet,
+            value: "2000000000000000000",
+            timestamp: DAY.getTime() / 1000,
+            status: "success",
+          } as MultiversXTransfer,
+        ],
+        delegations: [],
+      },
+      wallet
+    );
+
+    expect(tx.receivedCurrency).toBe("EGLD");
+    expect(tx.receivedFiatPrice).toBe(DAY_PRICE);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { CHAIN_ADAPTERS, getChainAdapter, getChainIds, getExplorerUrl } from "../chains/registry";
+import { ChainRequestError } from "../chains/adapter";
+
+describe("chain registry", () => {
+  it("lists each chain once", () => {
+    const ids = getChainIds();
+    expect(ids).toHaveLength(20);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("looks adapters up by id", () => {
+    expect(getChainAdapter("kaspa")?.name).toBe("Kaspa");
+    expect(getChainAdapter("gmx")?.kind).toBe("perps");
+    expect(getChainAdapter("unknown")).toBeUndefined();
+  });
+
+  it("gives every chain the metadata the UI and docs need", () => {
+    for (const adapter of CHAIN_ADAPTERS) {
+      expect(adapter.name, adapter.id).toBeTruthy();
+      expect(adapter.symbol, adapter.id).toBeTruthy();
+      expect(adapter.description, adapter.id).toBeTruthy();
+      expect(adapter.features.length, adapter.id).toBeGreaterThan(0);
+      expect(adapter.input.label, adapter.id).toBeTruthy();
+      expect(adapter.input.format, adapter.id).toBeTruthy();
+    }
+  });
+
+  it("only lets Extended take an API key", () => {
+    const apiKeyChains = CHAIN_ADAPTERS.filter((adapter) => adapter.input.type === "apiKey");
+    expect(apiKeyChains.map((adapter) => adapter.id)).toEqual(["extended"]);
+  });
+});
+
+describe("address validation", () => {
+  it("rejects empty input on every chain", () => {
+    for (const adapter of CHAIN_ADAPTERS) {
+      expect(adapter.validateAddress(""), adapter.id).toBeNull();
+    }
+  });
+
+  it("returns the canonical address", () => {
+    expect(getChainAdapter("ronin")?.validateAddress("ronin:1234567890abcdef1234567890abcdef12345678")).toBe(
+      "0x1234567890abcdef1234567890abcdef12345678"
+    );
+    expect(getChainAdapter("gmx")?.validateAddress("0x1234567890abcdef1234567890abcdef12345678")).toBe(
+      "0x1234567890abcdef1234567890abcdef12345678"
+    );
+    expect(getChainAdapter("gmx")?.validateAddress("0x1234")).toBeNull();
+  });
+});
+
+describe("getExplorerUrl", () => {
+  it("appends the hash to the chain's explorer", () => {
+    expect(getExplorerUrl("kaspa", "abc")).toBe("https://explorer.kaspa.org/txs/abc");
+  });
+
+  it("returns null without an explorer or hash", () => {
+    expect(getExplorerUrl("extended", "abc")).toBeNull();
+    expect(getExplorerUrl("kaspa", "")).toBeNull();
+    expect(getExplorerUrl("unknown", "abc")).toBeNull();
+  });
+});
+
+describe("ChainRequestError", () => {
+  it("carries a code, status and details", () => {
+    const error = new ChainRequestError("ACCOUNT_NOT_FOUND", "Account not found", "No account");
+    expect(error).toBeInstanceOf(Error);
+    expect(error.code).toBe("ACCOUNT_NOT_FOUND");
+    expect(error.status).toBe(404);
+    expect(error.message).toBe("Account not found");
+    expect(error.details).toBe("No account");
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import { calculateCostBasis } from "../cost-basis";
+import { generateGainsCSV } from "../csv";
+import type { NormalizedTransaction } from "../types";
+
+function buy(id: string, date: string, amount: number, price: number): NormalizedTransaction {
+  return {
+    id,
+    type: "transfer_received",
+    timestamp: new Date(date),
+    sentAmount: null,
+    sentCurrency: null,
+    receivedAmount: amount,
+    receivedCurrency: "DOT",
+    receivedFiatPrice: price,
+    feeAmount: 0,
+    feeCurrency: "DOT",
+    transactionHash: id,
+    notes: "",
+    tag: "receive",
+  };
+}
+
+function sell(id: string, date: string, amount: number, price: number | undefined): NormalizedTransaction {
+  return {
+    id,
+    type: "transfer_sent",
+    timestamp: new Date(date),
+    sentAmount: amount,
+    sentCurrency: "DOT",
+    sentFiatPrice: price,
+    receivedAmount: null,
+    receivedCurrency: null,
+    feeAmount: 0,
+    feeCurrency: "DOT",
+    transactionHash: id,
+    notes: "",
+    tag: "payment",
+  };
+}
+
+// Three lots at 5, 10 and 8 USD, then 15 DOT sold at 12 USD; rows arrive newest first
+const history = [
+  sell("sell", "2024-06-01T00:00:00Z", 15, 12),
+  buy("third", "2024-03-01T00:00:00Z", 10, 8),
+  buy("second", "2023-09-01T00:00:00Z", 10, 10),
+  buy("first", "2023-01-01T00:00:00Z", 10, 5),
+];
+
+describe("calculateCostBasis", () => {
+  it("matches lots first in, first out", () => {
+    const report = calculateCostBasis(history, "fifo");
+
+    expect(report.gains.map(({ amount, costBasis, gain, term }) => ({ amount, costBasis, gain, term }))).toEqual([
+      { amount: 10, costBasis: 50, gain: 70, term: "long" },
+      { amount: 5, costBasis: 50, gain: 10, term: "short" },
+    ]);
+    expect(report.gains[0]).toMatchObject({
+      acquiredAt: new Date("2023-01-01T00:00:00Z"),
+      proceeds: 120,
+      holdingDays: 517,
+      transactionId: "sell",
+    });
+    expect(report.holdings).toEqual([{ currency: "DOT", amount: 15, costBasis: 130 }]);
+  });
+
+  it("matches the newest lots for LIFO and the costliest for HIFO", () => {
+    const lifo = calculateCostBasis(history, "lifo");
+    expect(lifo.gains.map((gain) => [gain.amount, gain.costBasis])).toEqual([[10, 80], [5, 50]]);
+    expect(lifo.totalGain).toBe(50);
+
+    const hifo = calculateCostBasis(history, "hifo");
+    expect(hifo.gains.map((gain) => [gain.amount, gain.costBasis])).toEqual([[10, 100], [5, 40]]);
+    expect(hifo.totalGain).toBe(40);
+    expect(hifo.holdings).toEqual([{ currency: "DOT", amount: 15, costBasis: 90 }]);
+  });
+
+  it("totals gains by year and term", () => {
+    const report = calculateCostBasis(
+      [...history, sell("early", "2023-12-01T00:00:00Z", 5, 4), sell("late", "2025-02-01T00:00:00Z", 10, 20)],
+      "fifo"
+    );
+
+    expect(report.years).toEqual([
+      { year: 2023, proceeds: 20, costBasis: 25, gain: -5, shortTermGain: -5, longTermGain: 0, disposals: 1 },
+      { year: 2024, proceeds: 180, costBasis: 125, gain: 55, shortTermGain: 20, longTermGain: 35, disposals: 2 },
+      { year: 2025, proceeds: 200, costBasis: 80, gain: 120, shortTermGain: 120, longTermGain: 0, disposals: 1 },
+    ]);
+    expect(report.totalGain).toBe(170);
+  });
+
+  it("values swaps by the priced leg, disposes of fees and skips own-wallet transfers", () => {
+    const swap: NormalizedTransaction = {
+      ...sell("swap", "2024-02-01T00:00:00Z", 4, undefined),
+      type: "swap",
+      tag: "trade",
+      receivedAmount: 100,
+      receivedCurrency: "USDC",
+      receivedFiatPrice: 1,
+      feeAmount: 0.5,
+      feeFiatPrice: 25,
+    };
+    const moved = { ...sell("moved", "2024-01-15T00:00:00Z", 6, 24), tag: "wallet_transfer" as const };
+
+    const report = calculateCostBasis([buy("first", "2024-01-01T00:00:00Z", 10, 20), moved, swap], "fifo");
+
+    expect(report.gains.map(({ currency, amount, proceeds, costBasis, kind }) => ({ currency, amount, proceeds, costBasis, kind }))).toEqual([
+      { currency: "DOT", amount: 4, proceeds: 100, costBasis: 80, kind: "disposal" },
+      { currency: "DOT", amount: 0.5, proceeds: 12.5, costBasis: 10, kind: "fee" },
+    ]);
+    expect(report.holdings).toEqual([
+      { currency: "DOT", amount: 5.5, costBasis: 110 },
+      { currency: "USDC", amount: 100, costBasis: 100 },
+    ]);
+  });
+
+  it("flags disposals without a price or an acquisition", () => {
+    const report = calculateCostBasis([buy("first", "2024-01-01T00:00:00Z", 2, 10), sell("sell", "2024-02-01T00:00:00Z", 3, undefined)]);
+
+    expect(report.gains).toMatchObject([
+      { amount: 2, proceeds: 0, costBasis: 20, missingPrice: true },
+      { amount: 1, acquiredAt: null, holdingDays: null, costBasis: 0, missingPrice: true, missingBasis: true },
+    ]);
+    expect(report.gains[0].missingBasis).toBeUndefined();
+  });
+});
+
+describe("generateGainsCSV", () => {
+  it("writes one row per disposal and lot", () => {
+    const lines = generateGainsCSV(calculateCostBasis(history, "fifo").gains).split("\n");
+
+    expect(lines[0]).toBe(
+      "Date Sold,Date Acquired,Currency,Amount,Proceeds (USD),Cost Basis (USD),Gain (USD),Holding Days,Term,Type,Transaction Hash,Notes"
+    );
+    expect(lines[1]).toBe("06/01/2024 00:00:00,01/01/2023 00:00:00,DOT,10,120.00,50.00,70.00,517,long,disposal,sell,");
+    expect(lines).toHaveLength(3);
+  });
+});
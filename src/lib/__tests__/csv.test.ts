@@ -62,10 +62,46 @@ describe("transactionToAwakenRow", () => {
   });
 
   it("calculates fiat amount", () => {
-    const row = transactionToAwakenRow(makeTx({ sentAmount: 2, fiatPrice: 3000 }));
+    const row = transactionToAwakenRow(makeTx({ sentAmount: 2, sentFiatPrice: 3000 }));
     expect(row["Sent Fiat Amount"]).toBe("6000.00");
   });
 
+  it("values each leg of a swap at its own price", () => {
+    const row = transactionToAwakenRow(
+      makeTx({
+        type: "swap",
+        sentAmount: 100,
+        sentCurrency: "USDC",
+        sentFiatPrice: 1,
+        receivedAmount: 10,
+        receivedCurrency: "ATOM",
+        receivedFiatPrice: 9.5,
+      })
+    );
+    expect(row["Sent Fiat Amount"]).toBe("100.00");
+    expect(row["Received Fiat Amount"]).toBe("95.00");
+  });
+
+  it("leaves a leg's fiat amount blank when its price is unknown", () => {
+    const row = transactionToAwakenRow(
+      makeTx({ sentFiatPrice: 3000, receivedAmount: 5, receivedCurrency: "OBSCURE" })
+    );
+    expect(row["Received Fiat Amount"]).toBe("");
+  });
+
+  it("prints exact quantities when the normalizer kept them", () => {
+    const row = transactionToAwakenRow(
+      makeTx({
+        sentAmount: 1.123456789012345678,
+        sentAmountExact: { units: "1123456789012345678", decimals: 18 },
+        feeAmount: 0.000000000000000001,
+        feeAmountExact: { units: "1", decimals: 18 },
+      })
+    );
+    expect(row["Sent Quantity"]).toBe("1.123456789012345678");
+    expect(row["Fee Amount"]).toBe("0.000000000000000001");
+  });
+
   it("appends REVIEW note for ambiguous transactions", () => {
     const row = transactionToAwakenRow(
       makeTx({
@@ -103,6 +139,18 @@ describe("generateAwakenCSV", () => {
     const csv = generateAwakenCSV([makeTx({ notes: 'Has "quotes" and, commas' })]);
     expect(csv).toContain('"Has ""quotes"" and, commas"');
   });
+
+  it("applies the user's overrides", () => {
+    const csv = generateAwakenCSV([makeTx(), makeTx({ id: "tx-2", transactionHash: "0xspam" })], {
+      edits: { "tx-1": { tag: "wallet_transfer", sentFiatPrice: 3000 } },
+      excluded: ["tx-2"],
+      manual: [],
+    });
+    const lines = csv.split("\n");
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toContain("4500.00");
+    expect(lines[1]).toMatch(/,wallet_transfer$/);
+  });
 });
 
 describe("perpsTransactionToAwakenRow", () => {
@@ -139,6 +187,20 @@ describe("perpsTransactionToAwakenRow", () => {
     );
     expect(row.Notes).toBe("[REVIEW: Zero P&L on close position]");
   });
+
+  it("adds liquidation details to the notes once", () => {
+    const liquidation = { collateralLost: 95, liquidationFee: 5, remainingPnl: -90 };
+    const detail = "Liquidated: collateral lost 95 USDC, liquidation fee 5 USDC, leg P&L -90 USDC";
+
+    expect(perpsTransactionToAwakenRow(makePerpsTx({ notes: "SELL BTC-USD", liquidation })).Notes).toBe(
+      `SELL BTC-USD | ${detail}`
+    );
+    expect(
+      perpsTransactionToAwakenRow(
+        makePerpsTx({ notes: "SELL BTC-USD", liquidation, isAmbiguous: true, ambiguousReasons: [detail] })
+      ).Notes
+    ).toBe(`SELL BTC-USD [REVIEW: ${detail}]`);
+  });
 });
 
 describe("generateAwakenPerpsCSV", () => {
@@ -153,4 +215,17 @@ describe("generateAwakenPerpsCSV", () => {
     expect(lines).toHaveLength(2);
     expect(lines[1]).toContain("BTC");
   });
+
+  it("adds manual rows from the overrides", () => {
+    const manual = makePerpsTx({ id: "manual-1", asset: "ETH", pnl: -12, transactionHash: "" });
+    const csv = generateAwakenPerpsCSV([makePerpsTx()], {
+      edits: { "ptx-1": { pnl: 148 } },
+      excluded: [],
+      manual: [manual],
+    });
+    const lines = csv.split("\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toContain("+148");
+    expect(lines[2]).toContain("ETH");
+  });
 });
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describeJobProgress, runExportJob, type JobView } from "../export-jobs";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function job(overrides: Partial<JobView>): JobView {
+  return { id: "job-1", chain: "kaspa", status: "running", phase: "fetching", ...overrides };
+}
+
+const result = {
+  chain: "kaspa",
+  totalTransactions: 1,
+  summary: { sent: 0 },
+  transactions: [{ id: "tx1", timestamp: "2024-03-01T12:00:00.000Z" }],
+};
+
+beforeEach(() => {
+  sessionStorage.clear();
+  vi.restoreAllMocks();
+});
+
+describe("runExportJob", () => {
+  it("starts a job, polls it and loads the result", async () => {
+    const fetchMock = vi.spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(jsonResponse(job({ status: "queued", phase: "queued" }), 202))
+      .mockResolvedValueOnce(jsonResponse(job({ phase: "pricing", inRange: 1 })))
+      .mockResolvedValueOnce(jsonResponse(job({ status: "succeeded", phase: "complete", transactions: 1 })))
+      .mockResolvedValueOnce(jsonResponse(result));
+    const phases: string[] = [];
+
+    const exported = await runExportJob("kaspa", { address: "kaspa:abc" }, {
+      resumeKey: "kaspa:abc::",
+      onProgress: (update) => phases.push(update.phase),
+      pollIntervalMs: 0,
+    });
+
+    expect(phases).toEqual(["queued", "pricing", "complete"]);
+    expect(JSON.parse(fetchMock.mock.calls[0][1]?.body as string)).toEqual({
+      address: "kaspa:abc",
+      chain: "kaspa",
+      format: "json",
+    });
+    expect(fetchMock.mock.calls[3][0]).toBe("/api/v1/jobs/job-1/result?format=json");
+    expect(exported.transactions[0]).toMatchObject({ timestamp: new Date("2024-03-01T12:00:00.000Z") });
+    expect(sessionStorage.getItem("awaken_active_jobs")).toBe("{}");
+  });
+
+  it("revives each row's own date key only", async () => {
+    vi.spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(jsonResponse(job({ status: "succeeded", phase: "complete" }), 202))
+      .mockResolvedValueOnce(
+        jsonResponse({
+          ...result,
+          transactions: [
+            { id: "trade1", date: "2024-03-02T00:00:00.000Z" },
+            { id: "tx1", timestamp: "2024-03-01T12:00:00.000Z" },
+          ],
+          transfers: [{ id: "deposit1", timestamp: "2024-02-01T00:00:00.000Z" }],
+        })
+      );
+
+    const exported = await runExportJob("dydx", { address: "dydx1abc" }, { resumeKey: "dydx", pollIntervalMs: 0 });
+
+    expect(exported.transactions).toEqual([
+      { id: "trade1", date: new Date("2024-03-02T00:00:00.000Z") },
+      { id: "tx1", timestamp: new Date("2024-03-01T12:00:00.000Z") },
+    ]);
+    expect(Object.keys(exported.transactions[0])).toEqual(["id", "date"]);
+    expect(Object.keys(exported.transactions[1])).toEqual(["id", "timestamp"]);
+    expect(Object.keys(exported.transfers?.[0] ?? {})).toEqual(["id", "timestamp"]);
+  });
+
+  it("resumes the job already running for the same request", async () => {
+    sessionStorage.setItem("awaken_active_jobs", JSON.stringify({ key: "job-1" }));
+    const fetchMock = vi.spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(jsonResponse(job({ status: "succeeded", phase: "complete" })))
+      .mockResolvedValueOnce(jsonResponse(result));
+
+    await runExportJob("kaspa", { address: "kaspa:abc" }, { resumeKey: "key", pollIntervalMs: 0 });
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      "/api/v1/jobs/job-1",
+      "/api/v1/jobs/job-1/result?format=json",
+    ]);
+  });
+
+  it("throws the job's error when it fails", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
+      jsonResponse(job({
+        status: "failed",
+        phase: "failed",
+        error: { error: "Account not found", code: "ACCOUNT_NOT_FOUND" },
+      }), 202)
+    );
+
+    await expect(
+      runExportJob("kaspa", { address: "kaspa:abc" }, { resumeKey: "key", pollIntervalMs: 0 })
+    ).rejects.toThrow("Account not found");
+  });
+
+  it("throws validation errors from starting the job", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
+      jsonResponse({ error: "Invalid Kaspa address format", code: "INVALID_ADDRESS" }, 400)
+    );
+
+    await expect(
+      runExportJob("kaspa", { address: "nope" }, { resumeKey: "key", pollIntervalMs: 0 })
+    ).rejects.toThrow("Invalid Kaspa address format");
+  });
+});
+
+describe("describeJobProgress", () => {
+  it("names the phase and counts", () => {
+    expect(describeJobProgress(job({ phase: "fetching" }), "Kaspa")).toBe("Fetching transactions from Kaspa...");
+    expect(describeJobProgress(job({ phase: "pricing", inRange: 12 }), "Kaspa")).toBe("Pricing 12 transactions...");
+  });
+});
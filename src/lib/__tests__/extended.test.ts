@@ -0,0 +1,154 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { extendedAdapter } from "../chains/extended/adapter";
+import { runChainExport } from "../chains/pipeline";
+import { matchTradesToPositions, normalizeExtendedData } from "../chains/extended/transactions";
+import type { ExtendedFundingPayment, ExtendedPositionSpan, ExtendedTrade } from "../chains/extended/types";
+import account from "./fixtures/extended/account.json";
+import trades from "./fixtures/extended/trades.json";
+import fundingPayments from "./fixtures/extended/funding-payments.json";
+import assetOperations from "./fixtures/extended/asset-operations.json";
+import positions from "./fixtures/extended/positions.json";
+import positionHistory from "./fixtures/extended/positions-history.json";
+import positionHistoryPage2 from "./fixtures/extended/positions-history-page-2.json";
+
+const FIXTURES: Record<string, unknown> = {
+  "/v1/account": account,
+  "/v1/trades": trades,
+  "/v1/funding-payments": fundingPayments,
+  "/v1/asset-operations": assetOperations,
+  "/v1/positions": positions,
+  "/v1/positions/history": positionHistory,
+  "/v1/positions/history?cursor=page-2": positionHistoryPage2,
+};
+
+// Answers each endpoint (and cursor) with its recorded response
+function mockExtendedApi() {
+  return vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+    const url = new URL(String(input));
+    const cursor = url.searchParams.get("cursor");
+    const body = FIXTURES[cursor ? `${url.pathname}?cursor=${cursor}` : url.pathname];
+    return body ? new Response(JSON.stringify(body)) : new Response("Not found", { status: 404 });
+  });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("extended adapter", () => {
+  it("classifies each trade from the position it traded against", async () => {
+    const fetchSpy = mockExtendedApi();
+
+    const result = await runChainExport(extendedAdapter, { address: "key", options: {} });
+
+    expect(result.transactions.map((tx) => [tx.id, tx.tag, tx.amount, tx.pnl])).toEqual([
+      ["t5-close", "close_position", 10, 99.775],
+      ["t5-open", "open_position", 5, 0],
+      ["t4", "open_position", 10, 0],
+      ["t3", "close_position", 0.4, 39.76],
+      ["f1", "funding_payment", 0.5, -0.5],
+      ["t2", "open_position", 1, 0],
+      ["t1", "close_position", 0.1, 0],
+    ]);
+    // Both pages of the position history were read
+    expect(fetchSpy.mock.calls.filter(([url]) => String(url).includes("/v1/positions/history"))).toHaveLength(2);
+  });
+
+  it("tags a break-even close of a position opened before the history as a close to review", async () => {
+    mockExtendedApi();
+
+    const result = await runChainExport(extendedAdapter, { address: "key", options: {} });
+    const breakEven = result.transactions.find((tx) => tx.id === "t1");
+
+    expect(breakEven).toMatchObject({
+      tag: "close_position",
+      pnl: 0,
+      isAmbiguous: true,
+      ambiguousReasons: ["Zero P&L on close position"],
+    });
+  });
+
+  it("exports trades flagged for review when the position endpoints fail", async () => {
+    mockExtendedApi();
+    delete FIXTURES["/v1/positions/history"];
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    try {
+      const result = await runChainExport(extendedAdapter, { address: "key", options: {} });
+
+      const t1 = result.transactions.find((tx) => tx.id === "t1");
+      expect(t1).toMatchObject({ tag: "open_position", isAmbiguous: true });
+      expect(t1?.ambiguousReasons).toContain("Positions unavailable; open/close inferred from the trade history alone");
+      expect(result.transactions.find((tx) => tx.id === "f1")?.isAmbiguous).toBeUndefined();
+    } finally {
+      FIXTURES["/v1/positions/history"] = positionHistory;
+    }
+  });
+
+  it("falls back to replaying trades alone without positions", () => {
+    const rows = normalizeExtendedData(trades.data as ExtendedTrade[], fundingPayments.data as ExtendedFundingPayment[]);
+
+    // Without its position the break-even sell reads as a new short
+    expect(rows.find((tx) => tx.id === "t1")?.tag).toBe("open_position");
+  });
+
+  it("matches a flip to the position it closes", () => {
+    const matches = matchTradesToPositions(trades.data as ExtendedTrade[], [
+      ...positionHistory.data,
+      ...positionHistoryPage2.data,
+      ...positions.data,
+    ] as ExtendedPositionSpan[]);
+
+    expect(matches.get("t5")).toEqual({ positionId: "p3", reduces: true, flips: true, openedBeforeHistory: false });
+    expect(matches.get("t1")).toEqual({ positionId: "p1", reduces: true, flips: false, openedBeforeHistory: true });
+    expect(matches.get("t2")).toMatchObject({ positionId: "p2", reduces: false });
+  });
+
+  it("reopens the rest of a flip of a position opened before the history", () => {
+    const trade = (id: string, side: ExtendedTrade["side"], size: string, timestamp: string): ExtendedTrade => ({
+      id,
+      market: "BTC-USD-PERP",
+      side,
+      price: "50000",
+      size,
+      fee: "0",
+      fee_asset: "USDC",
+      realized_pnl: "10",
+      timestamp,
+      order_id: id,
+      trade_type: "taker",
+      is_liquidation: false,
+    });
+    const flippedAt = "2024-02-01T00:00:00Z";
+    const spans: ExtendedPositionSpan[] = [
+      { id: "long", market: "BTC-USD-PERP", side: "long", created_at: "2023-06-01T00:00:00Z", closed_at: flippedAt, max_size: "2" },
+      { id: "short", market: "BTC-USD-PERP", side: "short", created_at: flippedAt },
+    ];
+
+    const rows = normalizeExtendedData(
+      [
+        trade("s1", "sell", "0.5", "2024-01-01T00:00:00Z"),
+        trade("s2", "sell", "3", flippedAt),
+        trade("b1", "buy", "1.5", "2024-03-01T00:00:00Z"),
+      ],
+      [],
+      spans
+    );
+
+    expect(rows.map((tx) => [tx.id, tx.tag, tx.amount])).toEqual([
+      ["b1", "close_position", 1.5],
+      ["s2-close", "close_position", 1.5],
+      ["s2-open", "open_position", 1.5],
+      ["s1", "close_position", 0.5],
+    ]);
+  });
+
+  it("rejects an API key the account endpoint refuses", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("Unauthorized", { status: 401 }));
+
+    await expect(runChainExport(extendedAdapter, { address: "bad", options: {} })).rejects.toMatchObject({
+      code: "INVALID_API_KEY",
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import type { NormalizedTransaction } from "../types";
+import { applyFiatPrices, getLegCurrencies, type CurrencyPrices } from "../fiat-prices";
+import {
+  createCurrencyResolver,
+  createFixtureProvider,
+  createMemoryPriceCache,
+  createPriceService,
+} from "../pricing";
+import { fetchCurrencyPrices } from "../pricing/legs";
+
+function makeTx(overrides: Partial<NormalizedTransaction> = {}): NormalizedTransaction {
+  return {
+    id: "tx-1",
+    type: "transfer_sent",
+    timestamp: new Date("2024-01-02T10:30:00Z"),
+    sentAmount: 2,
+    sentCurrency: "OSMO",
+    receivedAmount: null,
+    receivedCurrency: null,
+    feeAmount: 0.01,
+    feeCurrency: "OSMO",
+    transactionHash: "0xabc",
+    notes: "",
+    tag: "payment",
+    ...overrides,
+  };
+}
+
+const PRICES: CurrencyPrices = new Map([
+  ["OSMO", new Map([["2024-01-02", 1.5]])],
+  ["ATOM", new Map([["2024-01-02", 10]])],
+]);
+
+describe("getLegCurrencies", () => {
+  it("lists only legs that carry an amount", () => {
+    expect(getLegCurrencies(makeTx())).toEqual(["OSMO", "OSMO"]);
+    expect(getLegCurrencies(makeTx({ sentAmount: 0, feeAmount: 0 }))).toEqual([]);
+  });
+});
+
+describe("applyFiatPrices", () => {
+  it("prices each leg by its own currency", () => {
+    const [tx] = applyFiatPrices(
+      [
+        makeTx({
+          type: "swap",
+          tag: "trade",
+          receivedAmount: 0.3,
+          receivedCurrency: "ATOM",
+        }),
+      ],
+      PRICES
+    );
+
+    expect(tx.sentFiatPrice).toBe(1.5);
+    expect(tx.receivedFiatPrice).toBe(10);
+    expect(tx.feeFiatPrice).toBe(1.5);
+  });
+
+  it("implies the price of an unknown token from the other side of a trade", () => {
+    const [tx] = applyFiatPrices(
+      [
+        makeTx({
+          type: "swap",
+          tag: "trade",
+          receivedAmount: 300,
+          receivedCurrency: "IBC-ABC123",
+        }),
+      ],
+      PRICES
+    );
+
+    expect(tx.receivedFiatPrice).toBeCloseTo(0.01);
+  });
+
+  it("leaves unknown tokens unpriced outside of trades", () => {
+    const [tx] = applyFiatPrices(
+      [makeTx({ sentCurrency: "IBC-ABC123", feeAmount: 0 })],
+      PRICES
+    );
+
+    expect(tx.sentFiatPrice).toBeUndefined();
+  });
+
+  it("keeps prices a normalizer already set", () => {
+    const [tx] = applyFiatPrices([makeTx({ sentFiatPrice: 2 })], PRICES);
+    expect(tx.sentFiatPrice).toBe(2);
+  });
+});
+
+describe("fetchCurrencyPrices", () => {
+  it("fetches prices only for currencies the resolver knows", async () => {
+    const service = createPriceService({
+      providers: [createFixtureProvider({ OSMO: { "2024-01-02": 1.5 }, USDC: { "2024-01-02": 1 } })],
+      cache: createMemoryPriceCache(),
+    });
+    const resolve = createCurrencyResolver("OSMO", { "IBC-498A04": "USDC" });
+
+    const prices = await fetchCurrencyPrices(
+      service,
+      [
+        makeTx({ receivedAmount: 5, receivedCurrency: "IBC-498A04" }),
+        makeTx({ sentCurrency: "GAMM-1" }),
+      ],
+      resolve
+    );
+
+    expect(Array.from(prices.keys()).sort()).toEqual(["IBC-498A04", "OSMO"]);
+    expect(prices.get("IBC-498A04")?.get("2024-01-02")).toBe(1);
+  });
+});
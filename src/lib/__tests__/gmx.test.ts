@@ -0,0 +1,269 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { fetchAllDataForAddress, fetchGmxMetadata } from "../chains/gmx/api";
+import {
+  normalizeClaimAction,
+  normalizeGmxData,
+  normalizeGmxDeployments,
+  normalizeGmxV1Data,
+} from "../chains/gmx/transactions";
+import {
+  GMX_DEPLOYMENTS,
+  type GmxClaimAction,
+  type GmxMetadata,
+  type GmxTradeAction,
+  type GmxV1PositionChange,
+} from "../chains/gmx/types";
+
+const NEW_MARKET = "0x00000000000000000000000000000000000000aa";
+const NEW_INDEX_TOKEN = "0x00000000000000000000000000000000000000bb";
+const WETH = "0x82af49447d8a07e3bd95bd0d56f35241523fbab1";
+const USDC = "0xaf88d065e77c8cc2239327c5edb3a432268e5831";
+
+const metadata: GmxMetadata = {
+  markets: new Map([
+    [NEW_MARKET, {
+      marketTokenAddress: NEW_MARKET,
+      indexTokenAddress: NEW_INDEX_TOKEN,
+      longTokenAddress: WETH,
+      shortTokenAddress: USDC,
+    }],
+  ]),
+  tokens: new Map([
+    [NEW_INDEX_TOKEN, { symbol: "TAO", address: NEW_INDEX_TOKEN, decimals: 9 }],
+    [WETH, { symbol: "WETH", address: WETH, decimals: 18 }],
+  ]),
+};
+
+function claim(overrides: Partial<GmxClaimAction>): GmxClaimAction {
+  return {
+    id: "claim1",
+    eventName: "ClaimFunding",
+    account: "0xabc",
+    marketAddresses: [NEW_MARKET],
+    tokenAddresses: [WETH],
+    amounts: ["1500000000000000"],
+    transaction: { hash: "0xclaim", timestamp: 1700000000, blockNumber: 1 },
+    ...overrides,
+  };
+}
+
+// 30-decimal USD value
+function usd(value: number): string {
+  return (BigInt(Math.round(value * 100)) * BigInt(10) ** BigInt(28)).toString();
+}
+
+function v1Change(id: string, timestamp: number, sizeDelta: number, price: number): GmxV1PositionChange {
+  return {
+    id: `0x${id}:1`,
+    account: "0xabc",
+    collateralToken: "0x82af49447d8a07e3bd95bd0d56f35241523fbab1",
+    indexToken: "0x82af49447d8a07e3bd95bd0d56f35241523fbab1",
+    isLong: true,
+    sizeDelta: usd(sizeDelta),
+    collateralDelta: "0",
+    fee: usd(1),
+    price: usd(price),
+    timestamp,
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("GMX market and token resolution", () => {
+  it("names new markets by their index token", () => {
+    const action: GmxTradeAction = {
+      id: "a1",
+      eventName: "PositionIncrease",
+      account: "0xabc",
+      marketAddress: NEW_MARKET,
+      collateralTokenAddress: USDC,
+      isLong: true,
+      sizeDeltaUsd: "1000000000000000000000000000000000",
+      collateralDeltaAmount: "0",
+      basePnlUsd: "0",
+      priceImpactUsd: "0",
+      borrowingFeeAmount: "0",
+      fundingFeeAmount: "0",
+      positionFeeAmount: "0",
+      transaction: { hash: "0xa1", timestamp: 1700000000, blockNumber: 1 },
+    };
+
+    expect(normalizeGmxData([action], [], metadata)[0].asset).toBe("TAO");
+    // Without metadata the static table has nothing for it
+    expect(normalizeGmxData([action], [])[0].asset).toBe(NEW_MARKET.slice(0, 10));
+  });
+
+  it("converts funding claims with the claimed token's decimals", () => {
+    const [row] = normalizeClaimAction(claim({}), metadata);
+
+    expect(row).toMatchObject({ asset: "TAO", pnl: 0.0015, paymentToken: "WETH", tag: "funding_payment" });
+    expect(row.isAmbiguous).toBeUndefined();
+  });
+
+  it("falls back to the static tables and flags unknown claim tokens", () => {
+    const [known] = normalizeClaimAction(claim({ tokenAddresses: [USDC], amounts: ["2500000"] }));
+    expect(known).toMatchObject({ pnl: 2.5, paymentToken: "USDC" });
+
+    const [unknown] = normalizeClaimAction(claim({ tokenAddresses: [NEW_INDEX_TOKEN], amounts: ["1000000"] }));
+    expect(unknown).toMatchObject({ pnl: 1, paymentToken: "USDC", isAmbiguous: true });
+  });
+});
+
+describe("GMX V1", () => {
+  const deployment = GMX_DEPLOYMENTS["arbitrum-v1"];
+
+  it("prices decreases from the token-weighted average entry", () => {
+    const rows = normalizeGmxV1Data(
+      {
+        increases: [v1Change("open", 1000, 1000, 1000), v1Change("add", 2000, 1000, 2000)],
+        decreases: [v1Change("close", 3000, 2000, 2000)],
+        liquidations: [],
+      },
+      deployment
+    );
+
+    // 1 + 0.5 ETH for $2000: average $1333.33, so closing at $2000 gains $1000
+    expect(rows.map((row) => [row.id, row.tag, row.pnl])).toEqual([
+      ["0xclose:1", "close_position", 999],
+      ["0xadd:1", "open_position", 0],
+      ["0xopen:1", "open_position", 0],
+    ]);
+    expect(rows[0]).toMatchObject({ asset: "ETH", amount: 2000, transactionHash: "0xclose" });
+    expect(rows[0].notes).toContain("GMX V1 Arbitrum");
+  });
+
+  it("loses the collateral on liquidation", () => {
+    const [liquidation] = normalizeGmxV1Data(
+      {
+        increases: [v1Change("open", 1000, 1000, 1000)],
+        decreases: [],
+        liquidations: [{
+          id: "0xliq:3",
+          account: "0xabc",
+          collateralToken: "0x82af49447d8a07e3bd95bd0d56f35241523fbab1",
+          indexToken: "0x82af49447d8a07e3bd95bd0d56f35241523fbab1",
+          isLong: true,
+          size: usd(1000),
+          collateral: usd(90),
+          markPrice: usd(910),
+          timestamp: 2000,
+        }],
+      },
+      deployment
+    );
+
+    expect(liquidation).toMatchObject({
+      tag: "close_position",
+      pnl: -90,
+      liquidation: { collateralLost: 90, liquidationFee: 0, remainingPnl: -90, markPrice: 910 },
+      isAmbiguous: true,
+      ambiguousReasons: [
+        "Liquidated: collateral lost 90 USDC, liquidation fee 0 USDC, leg P&L -90 USDC, mark price 910",
+      ],
+    });
+  });
+
+  it("flags decreases of positions opened before the history", () => {
+    const [row] = normalizeGmxV1Data(
+      { increases: [], decreases: [v1Change("close", 3000, 500, 2000)], liquidations: [] },
+      deployment
+    );
+
+    expect(row).toMatchObject({ tag: "close_position", pnl: -1, isAmbiguous: true });
+  });
+});
+
+describe("GMX deployments", () => {
+  it("merges deployments into one list without mixing their positions", () => {
+    const v1Open = v1Change("v1open", 1000, 1000, 1000);
+    const v2Close: GmxTradeAction = {
+      id: "v2close",
+      eventName: "PositionDecrease",
+      account: "0xabc",
+      marketAddress: "0x70d95587d40a2caf56bd97485ab3eec10bee6336",
+      collateralTokenAddress: USDC,
+      isLong: true,
+      sizeDeltaUsd: usd(1000),
+      collateralDeltaAmount: "0",
+      basePnlUsd: usd(10),
+      priceImpactUsd: "0",
+      borrowingFeeAmount: "0",
+      fundingFeeAmount: "0",
+      positionFeeAmount: "0",
+      transaction: { hash: "0xv2close", timestamp: 2000, blockNumber: 1 },
+    };
+
+    const rows = normalizeGmxDeployments([
+      { deployment: "arbitrum-v1", version: 1, events: { increases: [v1Open], decreases: [], liquidations: [] } },
+      { deployment: "avalanche", version: 2, tradeActions: [v2Close], claimActions: [], metadata },
+    ]);
+
+    expect(rows.map((row) => [row.id, row.tag, row.pnl])).toEqual([
+      ["v2close", "close_position", 10],
+      ["0xv1open:1", "open_position", 0],
+    ]);
+    expect(rows[0].notes).toContain("GMX V2 Avalanche");
+  });
+});
+
+describe("fetchGmxMetadata", () => {
+  function graphqlMarkets() {
+    return new Response(JSON.stringify({
+      data: {
+        marketInfos: [{
+          marketTokenAddress: NEW_MARKET.toUpperCase().replace("0X", "0x"),
+          indexTokenAddress: NEW_INDEX_TOKEN,
+          longTokenAddress: WETH,
+          shortTokenAddress: USDC,
+        }],
+      },
+    }));
+  }
+
+  it("retries after a failed lookup, then serves the cached one", async () => {
+    let tokensUp = false;
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockImplementation(async (url) => {
+      if (String(url).includes("squids")) return graphqlMarkets();
+      return tokensUp
+        ? new Response(JSON.stringify({ tokens: [{ symbol: "TAO", address: NEW_INDEX_TOKEN, decimals: 9 }] }))
+        : new Response("down", { status: 503 });
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const partial = await fetchGmxMetadata();
+    expect(partial.markets.has(NEW_MARKET)).toBe(true);
+    expect(partial.tokens.size).toBe(0);
+
+    tokensUp = true;
+    const loaded = await fetchGmxMetadata();
+    expect(loaded.tokens.get(NEW_INDEX_TOKEN)?.symbol).toBe("TAO");
+
+    expect(await fetchGmxMetadata()).toBe(loaded);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+});
+
+// After fetchGmxMetadata: that test expects an empty metadata cache
+describe("fetchAllDataForAddress", () => {
+  it("fetches every deployment for network=all", async () => {
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockImplementation(async (url) => {
+      if (String(url).endsWith("/tokens")) return new Response(JSON.stringify({ tokens: [] }));
+      return new Response(JSON.stringify({ data: {} }));
+    });
+
+    const raw = await fetchAllDataForAddress("0xabc", undefined, undefined, "all");
+
+    expect(raw.deployments.map((data) => [data.deployment, data.version])).toEqual([
+      ["arbitrum", 2],
+      ["avalanche", 2],
+      ["arbitrum-v1", 1],
+      ["avalanche-v1", 1],
+    ]);
+    const urls = fetchMock.mock.calls.map(([url]) => String(url));
+    expect(urls).toContain(GMX_DEPLOYMENTS.avalanche.graphqlUrl);
+    expect(urls).toContain(GMX_DEPLOYMENTS["avalanche-v1"].graphqlUrl);
+  });
+});
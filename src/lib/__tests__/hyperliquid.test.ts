@@ -0,0 +1,106 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { hyperliquidAdapter } from "../chains/hyperliquid/adapter";
+import { runChainExport } from "../chains/pipeline";
+import { generateAwakenPerpsCSV } from "../csv";
+import fills from "./fixtures/hyperliquid/userFillsByTime.json";
+import funding from "./fixtures/hyperliquid/userFunding.json";
+import ledgerUpdates from "./fixtures/hyperliquid/userNonFundingLedgerUpdates.json";
+
+const ADDRESS = "0x1111111111111111111111111111111111111111";
+
+const FIXTURES: Record<string, unknown> = {
+  userFillsByTime: fills,
+  userFunding: funding,
+  userNonFundingLedgerUpdates: ledgerUpdates,
+};
+
+// Answers every info request with its recorded response. Pages after the
+// first repeat it, which the client treats as the end of the history.
+function mockInfoEndpoint() {
+  return vi.spyOn(globalThis, "fetch").mockImplementation(async (_url, init) => {
+    const { type } = JSON.parse(String(init?.body));
+    return new Response(JSON.stringify(FIXTURES[type] ?? []));
+  });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("hyperliquid adapter", () => {
+  it("exports perp fills and funding with venue P&L", async () => {
+    mockInfoEndpoint();
+
+    const result = await runChainExport(hyperliquidAdapter, { address: ADDRESS, options: {} });
+    if (result.kind !== "perps") throw new Error("expected a perps export");
+
+    expect(result.transactions.map((tx) => [tx.id, tx.tag, tx.amount, tx.pnl])).toEqual([
+      ["1006", "close_position", 5, -75.2],
+      ["1005-close", "close_position", 10, 49.525],
+      ["1005-open", "open_position", 5, 0],
+      ["1004", "open_position", 10, 0],
+      ["1003", "close_position", 0.5, -12.9025],
+      ["1002", "close_position", 0.01, 9.8495],
+      ["funding-BTC-1704117600000", "funding_payment", 0.01, -0.0038],
+      ["funding-BTC-1704114000000", "funding_payment", 0.01, -0.0042],
+      ["1001", "open_position", 0.01, 0],
+    ]);
+    // A close of a position opened before the available history isn't ambiguous
+    expect(result.transactions.find((tx) => tx.id === "1003")?.isAmbiguous).toBeFalsy();
+    expect(result.transactions[0].notes).toBe("Close Long SOL-PERP | @ 80.00 | Taker | LIQUIDATION");
+    expect(result.transactions[0].liquidation).toEqual({
+      collateralLost: 75.2,
+      liquidationFee: 0.2,
+      remainingPnl: -75,
+      markPrice: 80.1,
+    });
+    expect(result.summary).toMatchObject({ totalTrades: 7, fundingPayments: 2, tradedAssets: ["BTC", "ETH", "SOL"] });
+
+    const csv = generateAwakenPerpsCSV(result.transactions);
+    expect(csv.split("\n")[0]).toContain("Payment Token");
+    expect(csv).not.toContain("@107");
+  });
+
+  it("exports deposits, withdrawals and transfers to the companion CSV", async () => {
+    mockInfoEndpoint();
+
+    const result = await runChainExport(hyperliquidAdapter, { address: ADDRESS, options: { transfers: true } });
+    if (result.kind !== "perps") throw new Error("expected a perps export");
+
+    expect(result.transfers?.map((tx) => [tx.type, tx.sentAmount ?? tx.receivedAmount, tx.feeAmount, tx.notes])).toEqual([
+      ["transfer_sent", 500, 1, "Withdrawal to Arbitrum"],
+      ["transfer_sent", 100, 0, "Transfer from perps to spot"],
+      ["transfer_sent", 25, 1, "Transfer to 0x2222222222222222222222222222222222222222"],
+      ["transfer_received", 1000, 0, "Deposit from Arbitrum"],
+    ]);
+    expect(result.transfers?.every((tx) => tx.tag === "wallet_transfer")).toBe(true);
+  });
+
+  it("rolls hourly funding up when asked", async () => {
+    mockInfoEndpoint();
+
+    const result = await runChainExport(hyperliquidAdapter, {
+      address: ADDRESS,
+      options: { aggregateFunding: "daily" },
+    });
+
+    const funding = result.transactions.filter((tx) => tx.tag === "funding_payment");
+    expect(funding).toHaveLength(1);
+    expect(funding[0]).toMatchObject({ id: "funding-daily-2024-01-01-BTC", notes: "Funding BTC | Daily total 2024-01-01 | 2 ticks" });
+  });
+
+  it("leaves the liquidator's side of a liquidation as a plain trade", async () => {
+    mockInfoEndpoint();
+
+    const other = "0x3333333333333333333333333333333333333333";
+    const result = await runChainExport(hyperliquidAdapter, { address: other, options: {} });
+
+    expect(result.transactions.find((tx) => tx.id === "1006")?.liquidation).toBeUndefined();
+  });
+
+  it("accepts EVM addresses only", () => {
+    expect(hyperliquidAdapter.validateAddress(ADDRESS.toUpperCase().replace("0X", "0x"))).toBe(ADDRESS);
+    expect(hyperliquidAdapter.validateAddress("0x123")).toBeNull();
+  });
+});
@@ -0,0 +1,244 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { NormalizedTransaction } from "../types";
+import { ChainRequestError, type StandardChainAdapter } from "../chains/adapter";
+import type { ChainRequest } from "../chains/route-handler";
+import { createFileJobStore, createJobQueue, createMemoryJobStore, type ExportJob } from "../jobs";
+
+const transfer: NormalizedTransaction = {
+  id: "tx1",
+  type: "transfer_received",
+  timestamp: new Date("2024-03-01T12:00:00Z"),
+  sentAmount: null,
+  sentCurrency: null,
+  receivedAmount: 5,
+  receivedCurrency: "TEST",
+  feeAmount: 0,
+  feeCurrency: "TEST",
+  transactionHash: "0xabc",
+  notes: "",
+  tag: "receive",
+};
+
+function testAdapter(overrides: Partial<StandardChainAdapter<NormalizedTransaction[]>> = {}) {
+  const adapter: StandardChainAdapter<NormalizedTransaction[]> = {
+    id: "test",
+    kind: "standard",
+    name: "Test",
+    symbol: "TEST",
+    description: "Test chain",
+    features: ["Transfers"],
+    logo: "",
+    color: "#000000",
+    input: { type: "address", label: "Test Address", placeholder: "", help: "", format: "test..." },
+    validateAddress: (address) => address,
+    addressHint: "",
+    fetchRaw: async () => [transfer, { ...transfer, id: "tx2", timestamp: new Date("2023-01-01T00:00:00Z") }],
+    normalize: (raw) => raw,
+    summarize: (transactions) => ({ received: transactions.length }),
+    ...overrides,
+  };
+  return adapter;
+}
+
+const request: ChainRequest = {
+  address: "test1",
+  format: "json",
+  startDate: "2024-01-01",
+  options: {},
+};
+
+function storedJob(overrides: Partial<ExportJob>): ExportJob {
+  const timestamp = new Date().toISOString();
+  return {
+    id: "job",
+    chain: "test",
+    status: "running",
+    phase: "fetching",
+    request,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...overrides,
+  };
+}
+
+const tempDirs: string[] = [];
+
+async function tempDir(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "jobs-test-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+afterEach(async () => {
+  await Promise.all(tempDirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe("createJobQueue", () => {
+  it("runs a job to completion with phase and counts", async () => {
+    const adapter = testAdapter();
+    const queue = createJobQueue({ store: createMemoryJobStore(), getAdapter: () => adapter });
+
+    const job = await queue.submit(adapter, request);
+    expect(job).toMatchObject({ chain: "test", status: "queued", phase: "queued" });
+
+    await queue.idle();
+    const finished = await queue.get(job.id);
+    expect(finished).toMatchObject({ status: "succeeded", phase: "complete", transactions: 1, inRange: 1 });
+    expect(finished?.finishedAt).toBeDefined();
+
+    const result = await queue.getResult(job.id);
+    expect(result?.transactions.map((tx) => tx.id)).toEqual(["tx1"]);
+    expect(result?.summary).toEqual({ received: 1 });
+  });
+
+  it("records the error of a failed job", async () => {
+    const adapter = testAdapter({
+      fetchRaw: async () => {
+        throw new ChainRequestError("ACCOUNT_NOT_FOUND", "Account not found");
+      },
+    });
+    const queue = createJobQueue({ store: createMemoryJobStore(), getAdapter: () => adapter });
+
+    const job = await queue.submit(adapter, request);
+    await queue.idle();
+
+    expect(await queue.get(job.id)).toMatchObject({
+      status: "failed",
+      phase: "failed",
+      error: { error: "Account not found", code: "ACCOUNT_NOT_FOUND" },
+    });
+    expect(await queue.getResult(job.id)).toBeUndefined();
+  });
+
+  it("runs at most `concurrency` jobs at once", async () => {
+    let active = 0;
+    let peak = 0;
+    const adapter = testAdapter({
+      fetchRaw: async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+        return [transfer];
+      },
+    });
+    const queue = createJobQueue({ store: createMemoryJobStore(), getAdapter: () => adapter, concurrency: 1 });
+
+    await Promise.all([queue.submit(adapter, request), queue.submit(adapter, request)]);
+    await queue.idle();
+
+    expect(peak).toBe(1);
+  });
+
+  it("never stores API keys", async () => {
+    const adapter = testAdapter({ input: { ...testAdapter().input, type: "apiKey" } });
+    const store = createMemoryJobStore();
+    const fetchRaw = vi.fn(async () => [transfer]);
+    const queue = createJobQueue({ store, getAdapter: () => ({ ...adapter, fetchRaw }) });
+
+    const job = await queue.submit({ ...adapter, fetchRaw }, { ...request, address: "secret" });
+    await queue.idle();
+
+    expect(job.request.address).toBe("");
+    expect(fetchRaw).toHaveBeenCalledWith(expect.objectContaining({ address: "secret" }));
+    expect(JSON.stringify(await store.list())).not.toContain("secret");
+  });
+});
+
+describe("recovery", () => {
+  it("resumes address jobs and fails jobs that needed an API key", async () => {
+    const store = createMemoryJobStore();
+    await store.save(storedJob({ id: "resumable" }));
+    await store.save(storedJob({ id: "apikey", request: { ...request, address: "" } }));
+    await store.save(storedJob({ id: "old", status: "succeeded", updatedAt: "2020-01-01T00:00:00Z" }));
+
+    const adapter = testAdapter();
+    const queue = createJobQueue({ store, getAdapter: () => adapter });
+
+    expect(await queue.get("old")).toBeUndefined();
+    await queue.idle();
+    expect((await queue.get("resumable"))?.status).toBe("succeeded");
+    expect(await queue.get("apikey")).toMatchObject({ status: "failed", error: { code: "JOB_INTERRUPTED" } });
+  });
+
+  it("drops expired jobs whenever a job finishes", async () => {
+    const store = createMemoryJobStore();
+    const adapter = testAdapter();
+    const queue = createJobQueue({ store, getAdapter: () => adapter });
+    // Recovery has run by the time this one is saved
+    await queue.get("none");
+    await store.save(storedJob({ id: "expired", status: "succeeded", updatedAt: "2020-01-01T00:00:00Z" }));
+
+    const job = await queue.submit(adapter, request);
+    await queue.idle();
+
+    expect(await store.get("expired")).toBeUndefined();
+    expect((await store.get(job.id))?.status).toBe("succeeded");
+  });
+
+  it("resumes a job with its reclassification rules", async () => {
+    const store = createMemoryJobStore();
+    // The first process never finishes the fetch
+    const interrupted = testAdapter({ fetchRaw: () => new Promise(() => {}) });
+    const job = await createJobQueue({ store, getAdapter: () => interrupted }).submit(interrupted, {
+      ...request,
+      rules: [{ id: "airdrops", match: { currency: "TEST" }, action: { tag: "airdrop" } }],
+    });
+
+    const adapter = testAdapter();
+    const queue = createJobQueue({ store, getAdapter: () => adapter });
+    await queue.get(job.id);
+    await queue.idle();
+
+    const result = await queue.getResult(job.id);
+    expect(result?.transactions.map((tx) => tx.tag)).toEqual(["airdrop"]);
+  });
+});
+
+describe("createFileJobStore", () => {
+  it("persists jobs and results across store instances", async () => {
+    const dir = await tempDir();
+    const adapter = testAdapter();
+    const queue = createJobQueue({ store: createFileJobStore(dir), getAdapter: () => adapter });
+
+    const job = await queue.submit(adapter, request);
+    await queue.idle();
+
+    const reopened = createFileJobStore(dir);
+    expect((await reopened.get(job.id))?.status).toBe("succeeded");
+    expect((await reopened.list()).map((stored) => stored.id)).toEqual([job.id]);
+
+    const result = await reopened.getResult(job.id);
+    expect(result?.kind).toBe("standard");
+    const [tx] = result?.transactions as NormalizedTransaction[];
+    expect(tx.timestamp).toEqual(transfer.timestamp);
+  });
+
+  it("removes a job and its result", async () => {
+    const dir = await tempDir();
+    const store = createFileJobStore(dir);
+    const adapter = testAdapter();
+    const queue = createJobQueue({ store, getAdapter: () => adapter });
+    const job = await queue.submit(adapter, request);
+    await queue.idle();
+
+    await store.remove(job.id);
+
+    expect(await createFileJobStore(dir).get(job.id)).toBeUndefined();
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it("removes a job whose write is still queued", async () => {
+    const dir = await tempDir();
+    const store = createFileJobStore(dir);
+    const saving = store.save(storedJob({ id: "queued" }));
+    await store.remove("queued");
+    await saving;
+
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+});
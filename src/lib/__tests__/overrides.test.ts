@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  addManualRow,
+  applyOverrides,
+  editTransaction,
+  emptyOverrides,
+  revertTransaction,
+  setExcluded,
+} from "../overrides";
+import { getSavedOverrides, saveOverrides } from "../override-storage";
+import type { NormalizedTransaction } from "../types";
+
+function row(id: string, overrides: Partial<NormalizedTransaction> = {}): NormalizedTransaction {
+  return {
+    id,
+    type: "transfer_received",
+    timestamp: new Date("2024-03-01T12:00:00Z"),
+    sentAmount: null,
+    sentCurrency: null,
+    receivedAmount: 100,
+    receivedCurrency: "DOT",
+    feeAmount: 0,
+    feeCurrency: "DOT",
+    transactionHash: id,
+    notes: "",
+    tag: "receive",
+    ...overrides,
+  };
+}
+
+const manual = row("manual-1", {
+  type: "transfer_sent",
+  timestamp: new Date("2024-03-02T09:00:00Z"),
+  sentAmount: 5,
+  sentCurrency: "DOT",
+  receivedAmount: null,
+  receivedCurrency: null,
+  tag: "payment",
+  notes: "Exchange withdrawal fee",
+});
+
+const mockLocalStorage = (() => {
+  let store: Record<string, string> = {};
+  return {
+    getItem: vi.fn((key: string) => store[key] || null),
+    setItem: vi.fn((key: string, value: string) => {
+      store[key] = value;
+    }),
+    removeItem: vi.fn((key: string) => {
+      delete store[key];
+    }),
+    clear: vi.fn(() => {
+      store = {};
+    }),
+  };
+})();
+
+describe("editTransaction", () => {
+  const transactions = [row("a", { receivedFiatPrice: 7 }), row("b")];
+
+  it("keeps only the fields that differ from the chain row", () => {
+    let overrides = editTransaction(emptyOverrides(), transactions, "a", {
+      tag: "claim_rewards",
+      notes: "",
+      receivedAmount: 100,
+      receivedFiatPrice: 7.5,
+    });
+    expect(overrides.edits).toEqual({ a: { tag: "claim_rewards", receivedFiatPrice: 7.5 } });
+
+    // Editing a value back drops it, and the edit with it once nothing differs
+    overrides = editTransaction(overrides, transactions, "a", { tag: "receive" });
+    expect(overrides.edits).toEqual({ a: { receivedFiatPrice: 7.5 } });
+    overrides = editTransaction(overrides, transactions, "a", { receivedFiatPrice: 7 });
+    expect(overrides.edits).toEqual({});
+  });
+
+  it("changes manual rows in place", () => {
+    const overrides = editTransaction(addManualRow(emptyOverrides(), manual), transactions, "manual-1", { sentAmount: 6 });
+    expect(overrides.manual).toEqual([{ ...manual, sentAmount: 6 }]);
+    expect(overrides.edits).toEqual({});
+  });
+});
+
+describe("applyOverrides", () => {
+  const transactions = [
+    row("priced", { receivedAmountExact: { units: "1000000000000", decimals: 10 } }),
+    row("unpriced", { isAmbiguous: true, ambiguousReasons: ["Missing fiat price"] }),
+    row("spam"),
+  ];
+
+  let overrides = editTransaction(emptyOverrides(), transactions, "priced", { receivedAmount: 99.5 });
+  overrides = editTransaction(overrides, transactions, "unpriced", { receivedFiatPrice: 6.8 });
+  overrides = addManualRow(setExcluded(overrides, "spam", true), manual);
+
+  it("applies edits, drops excluded rows and adds manual rows", () => {
+    const result = applyOverrides(transactions, overrides);
+
+    expect(result.map((tx) => tx.id)).toEqual(["priced", "unpriced", "manual-1"]);
+    // An edited amount no longer carries the on-chain exact value
+    expect(result[0]).toMatchObject({ receivedAmount: 99.5, override: { kind: "edited", fields: ["receivedAmount"] } });
+    expect(result[0].receivedAmountExact).toBeUndefined();
+    // Edited rows count as reviewed
+    expect(result[1]).toMatchObject({ receivedFiatPrice: 6.8 });
+    expect(result[1].isAmbiguous).toBeUndefined();
+    expect(result[2].override).toEqual({ kind: "manual", fields: [] });
+  });
+
+  it("keeps excluded rows marked for the table, and reverts to the chain data", () => {
+    expect(applyOverrides(transactions, overrides, { keepExcluded: true })[2]).toMatchObject({
+      id: "spam",
+      override: { kind: "excluded" },
+    });
+
+    let reverted = revertTransaction(overrides, "spam");
+    reverted = revertTransaction(revertTransaction(reverted, "priced"), "manual-1");
+    expect(applyOverrides(transactions, reverted).map((tx) => tx.id)).toEqual(["priced", "unpriced", "spam"]);
+    expect(applyOverrides(transactions, reverted)[0]).toEqual(transactions[0]);
+  });
+});
+
+describe("override storage", () => {
+  beforeEach(() => {
+    mockLocalStorage.clear();
+    vi.stubGlobal("localStorage", mockLocalStorage);
+  });
+
+  it("keeps overrides per chain and address, with manual rows' dates", () => {
+    const overrides = addManualRow(setExcluded(emptyOverrides(), "spam", true), manual);
+    saveOverrides("Polkadot", " 15oF4uVJ ", overrides);
+
+    const saved = getSavedOverrides("polkadot", "15oF4uVJ");
+    expect(saved).toEqual(overrides);
+    expect((saved.manual[0] as NormalizedTransaction).timestamp).toBeInstanceOf(Date);
+    expect(getSavedOverrides("kusama", "15oF4uVJ")).toEqual(emptyOverrides());
+
+    saveOverrides("polkadot", "15oF4uVJ", emptyOverrides());
+    expect(mockLocalStorage.getItem("awaken_overrides")).toBeNull();
+  });
+});
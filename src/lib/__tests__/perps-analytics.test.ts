@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { analyzePerps } from "../perps";
+import type { PerpsTransaction } from "../types";
+
+function row(iso: string, overrides: Partial<PerpsTransaction>): PerpsTransaction {
+  return {
+    id: iso,
+    date: new Date(iso),
+    asset: "BTC",
+    amount: 1,
+    fee: 0,
+    pnl: 0,
+    paymentToken: "USDC",
+    notes: "",
+    transactionHash: iso,
+    tag: "open_position",
+    ...overrides,
+  };
+}
+
+const history: PerpsTransaction[] = [
+  row("2024-02-03T00:00:00Z", { tag: "close_position", pnl: -20, fee: 1.5, notes: "SELL 1 ETH-USD | @ 2000 | Taker", asset: "ETH" }),
+  row("2024-01-01T00:00:00Z", { tag: "open_position", fee: 1, notes: "BUY 1 BTC-USD | @ 42000 | Maker" }),
+  row("2024-01-02T00:00:00Z", { tag: "funding_payment", pnl: -0.5, market: "BTC-USD", asset: "USDC" }),
+  row("2024-01-03T00:00:00Z", { tag: "funding_payment", pnl: 0.2, market: "BTC-USD", asset: "USDC" }),
+  row("2024-01-20T00:00:00Z", { tag: "close_position", pnl: 100, fee: 2, notes: "SELL 1 BTC-USD | @ 43000 | Taker" }),
+  row("2024-02-01T00:00:00Z", { tag: "open_position", fee: 0.5, notes: "GMX V2 Arbitrum | Increase ETH Long", asset: "ETH" }),
+];
+
+describe("analyzePerps", () => {
+  it("totals realized P&L, funding both ways and the fee split", () => {
+    expect(analyzePerps(history)).toMatchObject({
+      realizedPnL: 80,
+      fundingPaid: 0.5,
+      fundingReceived: 0.2,
+      netFunding: -0.3,
+      netPnL: 79.7,
+      totalFees: 5,
+      makerFees: 1,
+      takerFees: 3.5,
+      unclassifiedFees: 0.5,
+    });
+  });
+
+  it("groups funding with its market's trades", () => {
+    expect(analyzePerps(history).markets).toEqual([
+      { market: "BTC", trades: 2, realizedPnL: 100, fundingPaid: 0.5, fundingReceived: 0.2, fees: 3 },
+      { market: "ETH", trades: 2, realizedPnL: -20, fundingPaid: 0, fundingReceived: 0, fees: 2 },
+    ]);
+  });
+
+  it("totals each UTC month and accumulates P&L oldest first", () => {
+    const { monthly, cumulativePnL } = analyzePerps(history);
+
+    expect(monthly).toEqual([
+      { month: "2024-01", realizedPnL: 100, funding: -0.3, fees: 3, netPnL: 99.7 },
+      { month: "2024-02", realizedPnL: -20, funding: 0, fees: 2, netPnL: -20 },
+    ]);
+    expect(cumulativePnL).toEqual([
+      { date: "2024-01-02T00:00:00.000Z", cumulativePnL: -0.5 },
+      { date: "2024-01-03T00:00:00.000Z", cumulativePnL: -0.3 },
+      { date: "2024-01-20T00:00:00.000Z", cumulativePnL: 99.7 },
+      { date: "2024-02-03T00:00:00.000Z", cumulativePnL: 79.7 },
+    ]);
+  });
+
+  it("totals rows paid in other tokens apart from the USD totals", () => {
+    const analytics = analyzePerps([
+      ...history,
+      row("2024-01-05T00:00:00Z", { tag: "funding_payment", pnl: 0.01, paymentToken: "ETH", asset: "ETH" }),
+      row("2024-01-06T00:00:00Z", { tag: "funding_payment", pnl: 0.02, paymentToken: "ETH", asset: "ETH" }),
+    ]);
+
+    expect(analytics).toMatchObject({ fundingReceived: 0.2, netPnL: 79.7 });
+    expect(analytics.monthly[0].funding).toBe(-0.3);
+    expect(analytics.cumulativePnL).toHaveLength(4);
+    expect(analytics.otherTokens).toEqual([{ paymentToken: "ETH", rows: 2, pnl: 0.03, fees: 0 }]);
+  });
+
+  it("is empty for no rows", () => {
+    expect(analyzePerps([])).toMatchObject({ netPnL: 0, markets: [], monthly: [], cumulativePnL: [], otherTokens: [] });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { aggregateFunding } from "../perps";
+import type { PerpsTransaction } from "../types";
+
+function tick(iso: string, pnl: number, overrides: Partial<PerpsTransaction> = {}): PerpsTransaction {
+  return {
+    id: `tick-${iso}`,
+    date: new Date(iso),
+    asset: "BTC",
+    amount: 0.5,
+    fee: 0,
+    pnl,
+    paymentToken: "USDC",
+    notes: "",
+    transactionHash: `tick-${iso}`,
+    tag: "funding_payment",
+    market: "BTC-USD",
+    ...overrides,
+  };
+}
+
+const trade: PerpsTransaction = {
+  id: "trade1",
+  date: new Date("2024-01-01T12:30:00Z"),
+  asset: "BTC",
+  amount: 1,
+  fee: 1,
+  pnl: 0,
+  paymentToken: "USDC",
+  notes: "",
+  transactionHash: "0xtrade",
+  tag: "open_position",
+};
+
+describe("aggregateFunding", () => {
+  it("rolls ticks up per market and UTC day, keeping other rows", () => {
+    const rows = aggregateFunding(
+      [
+        trade,
+        tick("2024-01-01T01:00:00Z", 0.1),
+        tick("2024-01-01T23:00:00Z", -0.3),
+        tick("2024-01-02T00:00:00Z", 0.2),
+        tick("2024-01-01T05:00:00Z", 1, { asset: "ETH", market: "ETH-USD" }),
+      ],
+      "daily"
+    );
+
+    expect(rows.map((row) => [row.id, row.pnl])).toEqual([
+      ["funding-daily-2024-01-02-BTC-USD", 0.2],
+      ["funding-daily-2024-01-01-BTC-USD", -0.2],
+      ["trade1", 0],
+      ["funding-daily-2024-01-01-ETH-USD", 1],
+    ]);
+    expect(rows[1]).toMatchObject({
+      date: new Date("2024-01-01T23:00:00Z"),
+      amount: 0,
+      tag: "funding_payment",
+      notes: "Funding BTC-USD | Daily total 2024-01-01 | 2 ticks",
+    });
+  });
+
+  it("starts weeks on Monday and keeps subaccounts apart", () => {
+    const rows = aggregateFunding(
+      [
+        // Sunday 2024-01-07 belongs to the week of Monday 2024-01-01
+        tick("2024-01-07T10:00:00Z", 1, { subaccountNumber: 0 }),
+        tick("2024-01-03T10:00:00Z", 2, { subaccountNumber: 0 }),
+        tick("2024-01-03T10:00:00Z", 5, { subaccountNumber: 128 }),
+      ],
+      "weekly"
+    );
+
+    expect(rows.map((row) => [row.id, row.pnl, row.subaccountNumber])).toEqual([
+      ["funding-weekly-2024-01-01-BTC-USD-0", 3, 0],
+      ["funding-weekly-2024-01-01-BTC-USD-128", 5, 128],
+    ]);
+    expect(rows[0].notes).toBe("Funding BTC-USD | Weekly total 2024-01-01 to 2024-01-07 | 2 ticks | Subaccount 0");
+  });
+
+  it("keeps the ids of tokens paid in one market and period apart", () => {
+    const rows = aggregateFunding(
+      [
+        tick("2024-01-01T01:00:00Z", 0.5, { market: "ETH-USD", asset: "ETH" }),
+        tick("2024-01-01T02:00:00Z", 0.0002, { market: "ETH-USD", asset: "ETH", paymentToken: "WETH" }),
+      ],
+      "daily"
+    );
+
+    expect(rows.map((row) => [row.id, row.paymentToken]).sort()).toEqual([
+      ["funding-daily-2024-01-01-ETH-USD", "USDC"],
+      ["funding-daily-2024-01-01-ETH-USD-WETH", "WETH"],
+    ]);
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, it, expect } from "vitest";
+import { replayFills, type PerpsFill } from "../perps";
+import { calculateSummary, normalizeDydxData } from "../chains/dydx/transactions";
+import { normalizeGmxData } from "../chains/gmx/transactions";
+import type { DydxFill } from "../chains/dydx/types";
+import type { GmxTradeAction } from "../chains/gmx/types";
+
+let nextId = 0;
+
+function fill(sizeDelta: number, price: number, overrides: Partial<PerpsFill> = {}): PerpsFill {
+  nextId++;
+  return {
+    id: `f${nextId}`,
+    date: new Date(Date.UTC(2024, 0, nextId)),
+    positionKey: "BTC-USD",
+    asset: "BTC",
+    sizeDelta,
+    price,
+    fee: 0,
+    paymentToken: "USDC",
+    notes: "",
+    transactionHash: `0x${nextId}`,
+    ...overrides,
+  };
+}
+
+describe("replayFills", () => {
+  it("tags opens and closes from the running position", () => {
+    const { transactions, positions } = replayFills([
+      fill(1, 100),
+      fill(1, 200),
+      fill(-1.5, 300),
+    ]);
+
+    expect(transactions.map((tx) => tx.tag)).toEqual(["open_position", "open_position", "close_position"]);
+    // Average entry 150; closing 1.5 at 300
+    expect(transactions[2]).toMatchObject({ amount: 1.5, pnl: 225 });
+    expect(positions).toEqual([{ positionKey: "BTC-USD", asset: "BTC", size: 0.5, entryPrice: 150 }]);
+  });
+
+  it("computes short P&L and nets the closing fee", () => {
+    const { transactions } = replayFills([
+      fill(-2, 100, { fee: 1 }),
+      fill(2, 90, { fee: 0.5 }),
+    ]);
+
+    expect(transactions[0]).toMatchObject({ tag: "open_position", pnl: 0, fee: 1 });
+    expect(transactions[1]).toMatchObject({ tag: "close_position", pnl: 19.5, fee: 0.5 });
+  });
+
+  it("splits a flip into a close and an open with the fee pro rata", () => {
+    const { transactions, positions } = replayFills([
+      fill(1, 100),
+      fill(-3, 110, { id: "flip", fee: 3 }),
+    ]);
+
+    expect(transactions.slice(1)).toMatchObject([
+      { id: "flip-close", tag: "close_position", amount: 1, fee: 1, pnl: 9 },
+      { id: "flip-open", tag: "open_position", amount: 2, fee: 2, pnl: 0 },
+    ]);
+    expect(positions[0]).toMatchObject({ size: -2, entryPrice: 110 });
+  });
+
+  it("replays in time order and keeps positions apart by key", () => {
+    const earlier = fill(1, 100);
+    const later = fill(-1, 120);
+    const otherMarket = fill(-1, 50, { positionKey: "ETH-USD", asset: "ETH" });
+
+    const { transactions } = replayFills([otherMarket, later, earlier]);
+
+    expect(transactions.map((tx) => [tx.id, tx.tag])).toEqual([
+      [earlier.id, "open_position"],
+      [later.id, "close_position"],
+      [otherMarket.id, "open_position"],
+    ]);
+  });
+
+  it("uses venue P&L and keeps reduce-only fills as closes", () => {
+    const { transactions, positions } = replayFills([
+      fill(-500, 0, { reduceOnly: true, realizedPnl: 40, fee: 2 }),
+      fill(-10, 0, { reduceOnly: true }),
+    ]);
+
+    expect(transactions[0]).toMatchObject({ tag: "close_position", pnl: 38 });
+    expect(transactions[1]).toMatchObject({ tag: "close_position", pnl: 0, isAmbiguous: true });
+    expect(positions).toEqual([]);
+  });
+
+  it("books a flip's whole venue P&L on the close leg", () => {
+    const { transactions } = replayFills([
+      fill(1, 100),
+      fill(-3, 0, { realizedPnl: 30, fee: 3 }),
+    ]);
+
+    expect(transactions.slice(1).map((tx) => [tx.tag, tx.amount, tx.fee, tx.pnl])).toEqual([
+      ["close_position", 1, 1, 29],
+      ["open_position", 2, 2, 0],
+    ]);
+  });
+
+  it("details a liquidation and spells it out for review", () => {
+    const { transactions } = replayFills([
+      fill(1, 40000),
+      fill(-1, 36000, { reduceOnly: true, fee: 5, liquidation: { fee: 4, markPrice: 35990 } }),
+    ]);
+
+    expect(transactions[1]).toMatchObject({
+      tag: "close_position",
+      pnl: -4005,
+      liquidation: { collateralLost: 4005, liquidationFee: 4, remainingPnl: -4000, markPrice: 35990 },
+      isAmbiguous: true,
+      ambiguousReasons: [
+        "Liquidated: collateral lost 4005 USDC, liquidation fee 4 USDC, leg P&L -4000 USDC, mark price 35990",
+      ],
+    });
+  });
+});
+
+describe("perps normalizers", () => {
+  function dydxFill(id: string, side: DydxFill["side"], size: string, price: string, createdAt: string): DydxFill {
+    return {
+      id,
+      side,
+      liquidity: "TAKER",
+      type: "LIMIT",
+      market: "ETH-USD",
+      marketType: "PERPETUAL",
+      price,
+      size,
+      fee: "0.1",
+      createdAt,
+      createdAtHeight: "1",
+      orderId: `order-${id}`,
+      clientMetadata: "",
+      subaccountNumber: 0,
+    };
+  }
+
+  it("gives dYdX closes realized P&L", () => {
+    const rows = normalizeDydxData(
+      [
+        dydxFill("b", "SELL", "2", "2100", "2024-01-02T00:00:00Z"),
+        dydxFill("a", "BUY", "2", "2000", "2024-01-01T00:00:00Z"),
+      ],
+      []
+    );
+
+    expect(rows.map((row) => [row.id, row.tag, row.pnl])).toEqual([
+      ["b", "close_position", 199.9],
+      ["a", "open_position", 0],
+    ]);
+  });
+
+  it("details dYdX liquidated fills but not the liquidator's side", () => {
+    const rows = normalizeDydxData(
+      [
+        dydxFill("a", "BUY", "2", "2000", "2024-01-01T00:00:00Z"),
+        { ...dydxFill("b", "SELL", "1", "1900", "2024-01-02T00:00:00Z"), type: "LIQUIDATED", fee: "2" },
+        { ...dydxFill("c", "SELL", "1", "1950", "2024-01-03T00:00:00Z"), type: "LIQUIDATION" },
+      ],
+      []
+    );
+
+    expect(rows.find((row) => row.id === "b")?.liquidation).toEqual({
+      collateralLost: 102,
+      liquidationFee: 2,
+      remainingPnl: -100,
+    });
+    expect(rows.find((row) => row.id === "c")?.liquidation).toBeUndefined();
+  });
+
+  it("tags dYdX rows with their subaccount and totals each one", () => {
+    const rows = normalizeDydxData(
+      [
+        dydxFill("a", "BUY", "1", "2000", "2024-01-01T00:00:00Z"),
+        dydxFill("b", "SELL", "1", "2100", "2024-01-02T00:00:00Z"),
+        { ...dydxFill("c", "BUY", "1", "2000", "2024-01-03T00:00:00Z"), subaccountNumber: 128 },
+      ],
+      [{
+        market: "ETH-USD",
+        payment: "-2.5",
+        rate: "0.0001",
+        positionSize: "1",
+        price: "2000",
+        effectiveAt: "2024-01-04T00:00:00Z",
+        effectiveAtHeight: "100",
+        subaccountNumber: 128,
+      }]
+    );
+
+    expect(rows.map((row) => [row.id, row.subaccountNumber])).toEqual([
+      ["funding-ETH-USD-100-128", 128],
+      ["c", 128],
+      ["b", 0],
+      ["a", 0],
+    ]);
+    expect(rows[1].notes).toContain("Subaccount 128");
+
+    expect(calculateSummary(rows, 2).subaccountTotals).toEqual([
+      { subaccountNumber: 0, trades: 2, totalPnL: 99.9, totalFees: 0.2, funding: 0 },
+      { subaccountNumber: 128, trades: 1, totalPnL: -2.5, totalFees: 0.1, funding: -2.5 },
+    ]);
+  });
+
+  it("keeps GMX longs and shorts on one market separate", () => {
+    const action = (id: string, eventName: string, isLong: boolean, timestamp: number): GmxTradeAction => ({
+      id,
+      eventName,
+      account: "0xabc",
+      marketAddress: "0x70d95587d40a2caf56bd97485ab3eec10bee6336",
+      collateralTokenAddress: "0xaf88d065e77c8cc2239327c5edb3a432268e5831",
+      isLong,
+      sizeDeltaUsd: "1000000000000000000000000000000000",
+      collateralDeltaAmount: "0",
+      basePnlUsd: eventName === "PositionDecrease" ? "50000000000000000000000000000000" : "0",
+      priceImpactUsd: "0",
+      borrowingFeeAmount: "0",
+      fundingFeeAmount: "0",
+      positionFeeAmount: "1000000000000000000000000000000",
+      transaction: { hash: `0x${id}`, timestamp, blockNumber: 1 },
+    });
+
+    const rows = normalizeGmxData(
+      [
+        action("long", "PositionIncrease", true, 1000),
+        action("short", "PositionIncrease", false, 2000),
+        action("close", "PositionDecrease", true, 3000),
+      ],
+      []
+    );
+
+    expect(rows.map((row) => [row.id, row.tag, row.pnl])).toEqual([
+      ["close", "close_position", 49],
+      ["short", "open_position", 0],
+      ["long", "open_position", 0],
+    ]);
+  });
+});
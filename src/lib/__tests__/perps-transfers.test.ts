@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { normalizeDydxTransfers } from "../chains/dydx/transactions";
+import { normalizeExtendedAssetOperations } from "../chains/extended/transactions";
+import { normalizeCollateralDeltas } from "../chains/gmx/transactions";
+import type { DydxTransfer } from "../chains/dydx/types";
+import type { ExtendedAssetOperation } from "../chains/extended/types";
+import type { GmxTradeAction } from "../chains/gmx/types";
+
+describe("normalizeDydxTransfers", () => {
+  const transfer = (overrides: Partial<DydxTransfer>): DydxTransfer => ({
+    id: "t1",
+    sender: { address: "noble1sender" },
+    recipient: { address: "dydx1owner", subaccountNumber: 0 },
+    size: "250.5",
+    symbol: "USDC",
+    type: "DEPOSIT",
+    createdAt: "2024-01-01T00:00:00Z",
+    createdAtHeight: "1",
+    transactionHash: "HASH1",
+    ...overrides,
+  });
+
+  it("receives deposits and sends withdrawals as wallet transfers", () => {
+    const rows = normalizeDydxTransfers([
+      transfer({}),
+      transfer({
+        id: "t2",
+        type: "WITHDRAWAL",
+        sender: { address: "dydx1owner", subaccountNumber: 0 },
+        recipient: { address: "dydx1owner" },
+        size: "100",
+        createdAt: "2024-02-01T00:00:00Z",
+      }),
+    ]);
+
+    expect(rows.map((row) => [row.id, row.type, row.tag])).toEqual([
+      ["t2", "transfer_sent", "wallet_transfer"],
+      ["t1", "transfer_received", "wallet_transfer"],
+    ]);
+    expect(rows[1]).toMatchObject({
+      receivedAmount: 250.5,
+      receivedCurrency: "USDC",
+      receivedAmountExact: { units: "2505", decimals: 1 },
+      notes: "Deposit to subaccount 0 | From noble1sender",
+    });
+    expect(rows[0]).toMatchObject({ sentAmount: 100, sentCurrency: "USDC", receivedAmount: null });
+  });
+
+  it("names the other subaccount of a transfer", () => {
+    const [row] = normalizeDydxTransfers([
+      transfer({
+        type: "TRANSFER_OUT",
+        sender: { address: "dydx1owner", subaccountNumber: 0 },
+        recipient: { address: "dydx1owner", subaccountNumber: 128 },
+      }),
+    ]);
+
+    expect(row.type).toBe("transfer_sent");
+    expect(row.notes).toBe("Transfer out from subaccount 0 | To dydx1owner subaccount 128");
+  });
+});
+
+describe("normalizeExtendedAssetOperations", () => {
+  it("keeps completed operations only", () => {
+    const operation = (overrides: Partial<ExtendedAssetOperation>): ExtendedAssetOperation => ({
+      id: "op1",
+      type: "deposit",
+      asset: "USDC",
+      amount: "1000",
+      status: "completed",
+      timestamp: "2024-01-01T00:00:00Z",
+      tx_hash: "0xdeposit",
+      chain: "Starknet",
+      ...overrides,
+    });
+
+    const rows = normalizeExtendedAssetOperations([
+      operation({}),
+      operation({ id: "op2", type: "withdrawal", amount: "-40", tx_hash: undefined }),
+      operation({ id: "op3", status: "failed" }),
+    ]);
+
+    expect(rows).toHaveLength(2);
+    expect(rows.find((row) => row.id === "op1")).toMatchObject({
+      type: "transfer_received",
+      receivedAmount: 1000,
+      transactionHash: "0xdeposit",
+      notes: "Deposit | via Starknet",
+    });
+    expect(rows.find((row) => row.id === "op2")).toMatchObject({
+      type: "transfer_sent",
+      sentAmount: 40,
+      transactionHash: "op2",
+    });
+  });
+});
+
+describe("normalizeCollateralDeltas", () => {
+  const action = (overrides: Partial<GmxTradeAction>): GmxTradeAction => ({
+    id: "a1",
+    eventName: "PositionIncrease",
+    account: "0xabc",
+    marketAddress: "0x70d95587d40a2caf56bd97485ab3eec10bee6336",
+    collateralTokenAddress: "0xaf88d065e77c8cc2239327c5edb3a432268e5831",
+    isLong: true,
+    sizeDeltaUsd: "0",
+    collateralDeltaAmount: "1500000000",
+    basePnlUsd: "0",
+    priceImpactUsd: "0",
+    borrowingFeeAmount: "0",
+    fundingFeeAmount: "0",
+    positionFeeAmount: "0",
+    transaction: { hash: "0xhash", timestamp: 1700000000, blockNumber: 1 },
+    ...overrides,
+  });
+
+  it("moves collateral in on increases and out on decreases", () => {
+    const rows = normalizeCollateralDeltas([
+      action({}),
+      action({ id: "a2", eventName: "PositionDecrease", collateralDeltaAmount: "500000000" }),
+      action({ id: "a3", collateralDeltaAmount: "0" }),
+    ]);
+
+    expect(rows.map((row) => [row.id, row.type])).toEqual([
+      ["a1-collateral", "transfer_received"],
+      ["a2-collateral", "transfer_sent"],
+    ]);
+    expect(rows[0]).toMatchObject({ receivedAmount: 1500, receivedCurrency: "USDC", tag: "wallet_transfer" });
+    expect(rows[1]).toMatchObject({ sentAmount: 500, sentCurrency: "USDC" });
+  });
+
+  it("flags collateral tokens with unknown decimals", () => {
+    const [row] = normalizeCollateralDeltas([
+      action({ collateralTokenAddress: "0x0000000000000000000000000000000000000001" }),
+    ]);
+
+    expect(row.isAmbiguous).toBe(true);
+  });
+});
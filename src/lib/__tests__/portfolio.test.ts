@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildCombinedCSVs,
+  buildExportBody,
+  buildWalletCSVs,
+  mergePortfolioTransactions,
+  walletLabel,
+  type PortfolioWalletResult,
+} from "../portfolio";
+import type { NormalizedTransaction, PerpsTransaction } from "../types";
+
+function transfer(id: string, iso: string): NormalizedTransaction {
+  return {
+    id,
+    type: "transfer",
+    timestamp: new Date(iso),
+    sentAmount: null,
+    sentCurrency: null,
+    receivedAmount: 1,
+    receivedCurrency: "DOT",
+    feeAmount: 0,
+    feeCurrency: "DOT",
+    transactionHash: id,
+    notes: "",
+    tag: "receive",
+  };
+}
+
+function fill(id: string, iso: string): PerpsTransaction {
+  return {
+    id,
+    date: new Date(iso),
+    asset: "BTC",
+    amount: 1,
+    fee: 0,
+    pnl: 0,
+    paymentToken: "USDC",
+    notes: "",
+    transactionHash: id,
+    tag: "open_position",
+  };
+}
+
+const results: PortfolioWalletResult[] = [
+  {
+    wallet: { id: "w1", chain: "polkadot", input: "15oF4uVJwmo4TdGW7VfQxNLavjCXviqxT9S1MgbjMNHr6Sp5" },
+    transactions: [transfer("dot-old", "2024-01-01T00:00:00Z"), transfer("dot-new", "2024-03-01T00:00:00Z")],
+  },
+  {
+    wallet: { id: "w2", chain: "xrpl", input: "rN7n7otQDd6FczFgLdSqtcsAUxDkw6fzRH" },
+    transactions: [transfer("xrp", "2024-02-01T00:00:00Z")],
+  },
+  {
+    wallet: { id: "w3", chain: "extended", input: "secret-api-key-1234" },
+    transactions: [fill("fill", "2024-02-15T00:00:00Z")],
+    transfers: [transfer("deposit", "2024-01-15T00:00:00Z")],
+  },
+];
+
+describe("portfolio", () => {
+  it("labels wallets by chain and short address, never showing an API key", () => {
+    expect(walletLabel(results[0].wallet)).toBe("Polkadot 15oF...6Sp5");
+    expect(walletLabel(results[2].wallet)).toBe("Extended key ...1234");
+  });
+
+  it("builds the same request body as the single-wallet form", () => {
+    expect(buildExportBody("kava", " kava1abc ", "0xabc", "2024-01-01", "")).toEqual({
+      address: "kava1abc",
+      evmAddress: "0xabc",
+      startDate: "2024-01-01",
+    });
+    expect(buildExportBody("extended", "key")).toEqual({ apiKey: "key" });
+  });
+
+  it("merges rows newest first, tagged with their wallet, perps apart", () => {
+    const { standard, perps } = mergePortfolioTransactions(results);
+
+    expect(standard.map((tx) => [tx.id, tx.wallet.id])).toEqual([
+      ["dot-new", "w1"],
+      ["xrp", "w2"],
+      ["dot-old", "w1"],
+    ]);
+    expect(perps.map((tx) => [tx.id, tx.wallet.label])).toEqual([["fill", "Extended key ...1234"]]);
+  });
+
+  it("sorts rows that carry the other kind's date key unset", () => {
+    // Shaped like job results revived with both keys
+    const revived = (tx: NormalizedTransaction | PerpsTransaction) =>
+      ({ date: undefined, timestamp: undefined, ...tx }) as unknown as NormalizedTransaction & PerpsTransaction;
+    const { standard, perps } = mergePortfolioTransactions([
+      { ...results[0], transactions: results[0].transactions.map(revived) },
+      { ...results[2], transactions: [fill("older", "2024-01-01T00:00:00Z"), ...results[2].transactions].map(revived) },
+    ]);
+
+    expect(standard.map((tx) => tx.id)).toEqual(["dot-new", "dot-old"]);
+    expect(perps.map((tx) => tx.id)).toEqual(["fill", "older"]);
+  });
+
+  it("combines every wallet into one CSV per format, perps transfers with the standard rows", () => {
+    const files = buildCombinedCSVs(results);
+
+    expect(files.map((file) => file.filename)).toEqual(["portfolio-awaken.csv", "portfolio-perps-awaken.csv"]);
+    expect(files[0].csv.split("\n")).toHaveLength(5);
+    expect(files[1].csv.split("\n")).toHaveLength(2);
+  });
+
+  it("names one CSV per wallet, keeping API keys out of filenames", () => {
+    const files = buildWalletCSVs([...results, { ...results[1], wallet: { ...results[1].wallet, id: "w4" } }]);
+
+    expect(files.map((file) => file.filename)).toEqual([
+      "polkadot-15oF4u-6Sp5-awaken.csv",
+      "xrpl-rN7n7o-fzRH-awaken.csv",
+      "extended-account-3-perps-awaken.csv",
+      "extended-account-3-transfers-awaken.csv",
+      "xrpl-rN7n7o-fzRH-awaken-2.csv",
+    ]);
+  });
+});
@@ -0,0 +1,298 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, existsSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  createPriceService,
+  createMemoryPriceCache,
+  createFilePriceCache,
+  createFixtureProvider,
+  createCoinGeckoProvider,
+  resolvePriceAsset,
+  RateLimiter,
+  BatchScheduler,
+  type PriceProvider,
+} from "../pricing";
+import { groupIntoSpans, chunkDateRange } from "../pricing/dates";
+
+const FIXTURES = {
+  DOT: {
+    "2024-01-01": 8.1,
+    "2024-01-02": 8.4,
+    "2024-01-03": 8.2,
+  },
+};
+
+function spyProvider(name: string, prices: Record<string, number>): PriceProvider & {
+  fetchDailyPrices: ReturnType<typeof vi.fn>;
+} {
+  return {
+    name,
+    supports: () => true,
+    fetchDailyPrices: vi.fn(async () => new Map(Object.entries(prices))),
+  };
+}
+
+describe("resolvePriceAsset", () => {
+  it("resolves registry symbols case-insensitively", () => {
+    expect(resolvePriceAsset("dot")?.subscanNetwork).toBe("polkadot");
+    expect(resolvePriceAsset("EGLD")?.coingeckoId).toBe("elrond-erd-2");
+  });
+
+  it("accepts raw coingecko ids", () => {
+    expect(resolvePriceAsset("coingecko:axie-infinity")?.coingeckoId).toBe("axie-infinity");
+  });
+
+  it("returns undefined for unknown assets", () => {
+    expect(resolvePriceAsset("NOPE")).toBeUndefined();
+  });
+});
+
+describe("date spans", () => {
+  it("groups nearby dates and splits on large gaps", () => {
+    expect(groupIntoSpans(["2024-03-01", "2022-01-01", "2022-01-20", "2024-03-01"], 31)).toEqual([
+      ["2022-01-01", "2022-01-20"],
+      ["2024-03-01", "2024-03-01"],
+    ]);
+  });
+
+  it("chunks long ranges", () => {
+    expect(chunkDateRange("2022-01-01", "2022-01-10", 4)).toEqual([
+      ["2022-01-01", "2022-01-04"],
+      ["2022-01-05", "2022-01-08"],
+      ["2022-01-09", "2022-01-10"],
+    ]);
+    expect(chunkDateRange("2022-01-01", "2022-01-01", 365)).toEqual([["2022-01-01", "2022-01-01"]]);
+  });
+});
+
+describe("BatchScheduler", () => {
+  it("runs every task and isolates failures", async () => {
+    const scheduler = new BatchScheduler(new RateLimiter(100, 1000), 2);
+    const results = await scheduler.run([
+      async () => 1,
+      async () => {
+        throw new Error("nope");
+      },
+      async () => 3,
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(["fulfilled", "rejected", "fulfilled"]);
+    expect(results[2]).toEqual({ status: "fulfilled", value: 3 });
+  });
+
+  it("respects the concurrency limit", async () => {
+    const scheduler = new BatchScheduler(new RateLimiter(100, 1000), 2);
+    let active = 0;
+    let peak = 0;
+    const task = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+    };
+
+    await scheduler.run([task, task, task, task, task]);
+    expect(peak).toBe(2);
+  });
+});
+
+describe("createCoinGeckoProvider", () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal("fetch", mockFetch);
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("splits multi-year ranges into yearly requests", async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      const from = Number(new URL(url).searchParams.get("from"));
+      return new Response(JSON.stringify({ prices: [[from * 1000, from % 7]] }));
+    });
+
+    const prices = await createCoinGeckoProvider().fetchDailyPrices("HBAR", "2021-01-01", "2023-06-30");
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(mockFetch.mock.calls[0][0]).toContain("/coins/hedera-hashgraph/market_chart/range");
+    expect(Array.from(prices.keys())).toEqual(["2021-01-01", "2022-01-01", "2023-01-01"]);
+  });
+
+  it("throws when every request fails", async () => {
+    mockFetch.mockResolvedValue(new Response("nope", { status: 401 }));
+
+    await expect(
+      createCoinGeckoProvider().fetchDailyPrices("XRP", "2024-01-01", "2024-01-02")
+    ).rejects.toThrow("CoinGecko API error: 401");
+  });
+});
+
+describe("createPriceService", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-06-01T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns prices for every date in range from fixtures", async () => {
+    const service = createPriceService({
+      providers: [createFixtureProvider(FIXTURES)],
+      cache: createMemoryPriceCache(),
+    });
+
+    const prices = await service.getPriceHistory("DOT", "2024-01-01", "2024-01-03");
+    expect(Object.fromEntries(prices)).toEqual(FIXTURES.DOT);
+  });
+
+  it("looks up a single date", async () => {
+    const service = createPriceService({
+      providers: [createFixtureProvider(FIXTURES)],
+      cache: createMemoryPriceCache(),
+    });
+
+    expect(await service.getPrice("DOT", "2024-01-02")).toBe(8.4);
+    expect(await service.getPrice("DOT", new Date("2024-01-03T18:30:00Z"))).toBe(8.2);
+    expect(await service.getPrice("DOT", "2023-12-31")).toBeUndefined();
+  });
+
+  it("covers the span of a set of timestamps", async () => {
+    const service = createPriceService({
+      providers: [createFixtureProvider(FIXTURES)],
+      cache: createMemoryPriceCache(),
+    });
+
+    const prices = await service.getPriceHistoryForTimestamps("DOT", [
+      new Date("2024-01-03T01:00:00Z"),
+      Date.parse("2024-01-01T23:00:00Z"),
+    ]);
+    expect(prices.size).toBe(3);
+    expect(await service.getPriceHistoryForTimestamps("DOT", [])).toEqual(new Map());
+  });
+
+  it("serves cached closed days without calling providers again", async () => {
+    const provider = spyProvider("spy", { "2024-01-01": 1, "2024-01-02": 2 });
+    const service = createPriceService({ providers: [provider], cache: createMemoryPriceCache() });
+
+    await service.getPriceHistory("DOT", "2024-01-01", "2024-01-02");
+    const second = await service.getPriceHistory("DOT", "2024-01-01", "2024-01-02");
+
+    expect(provider.fetchDailyPrices).toHaveBeenCalledTimes(1);
+    expect(second.get("2024-01-02")).toBe(2);
+  });
+
+  it("only requests the missing dates", async () => {
+    const provider = spyProvider("spy", { "2024-01-01": 1, "2024-01-02": 2, "2024-01-03": 3 });
+    const cache = createMemoryPriceCache();
+    await cache.set("DOT", new Map([["2024-01-01", 1]]));
+    const service = createPriceService({ providers: [provider], cache });
+
+    await service.getPriceHistory("DOT", "2024-01-01", "2024-01-03");
+
+    expect(provider.fetchDailyPrices).toHaveBeenCalledWith("DOT", "2024-01-02", "2024-01-03");
+  });
+
+  it("does not cache today's price", async () => {
+    const provider = spyProvider("spy", { "2024-06-01": 10 });
+    const service = createPriceService({ providers: [provider], cache: createMemoryPriceCache() });
+
+    await service.getPrice("DOT", "2024-06-01");
+    await service.getPrice("DOT", "2024-06-01");
+
+    expect(provider.fetchDailyPrices).toHaveBeenCalledTimes(2);
+  });
+
+  it("fetches sparse dates as separate ranges", async () => {
+    const provider = spyProvider("spy", { "2021-05-01": 1, "2021-05-03": 2, "2023-02-01": 3 });
+    const service = createPriceService({ providers: [provider], cache: createMemoryPriceCache() });
+
+    const prices = await service.getPricesForDates("XRP", ["2023-02-01", "2021-05-03", "2021-05-01"]);
+
+    expect(prices.size).toBe(3);
+    expect(provider.fetchDailyPrices).toHaveBeenCalledTimes(2);
+    expect(provider.fetchDailyPrices).toHaveBeenCalledWith("XRP", "2021-05-01", "2021-05-03");
+    expect(provider.fetchDailyPrices).toHaveBeenCalledWith("XRP", "2023-02-01", "2023-02-01");
+  });
+
+  it("falls back to the next provider for dates the first one lacks", async () => {
+    const primary = spyProvider("primary", { "2024-01-01": 1 });
+    const fallback = spyProvider("fallback", { "2024-01-01": 99, "2024-01-02": 2 });
+    const service = createPriceService({
+      providers: [primary, fallback],
+      cache: createMemoryPriceCache(),
+    });
+
+    const prices = await service.getPriceHistory("DOT", "2024-01-01", "2024-01-02");
+
+    expect(prices.get("2024-01-01")).toBe(1);
+    expect(prices.get("2024-01-02")).toBe(2);
+    expect(fallback.fetchDailyPrices).toHaveBeenCalledWith("DOT", "2024-01-02", "2024-01-02");
+  });
+
+  it("falls back when a provider throws", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const failing: PriceProvider = {
+      name: "failing",
+      supports: () => true,
+      fetchDailyPrices: async () => {
+        throw new Error("boom");
+      },
+    };
+    const service = createPriceService({
+      providers: [failing, createFixtureProvider(FIXTURES)],
+      cache: createMemoryPriceCache(),
+    });
+
+    expect(await service.getPrice("DOT", "2024-01-01")).toBe(8.1);
+  });
+
+  it("skips providers that don't support the asset", async () => {
+    const unsupported = { ...spyProvider("other", { "2024-01-01": 5 }), supports: () => false };
+    const service = createPriceService({
+      providers: [unsupported, createFixtureProvider(FIXTURES)],
+      cache: createMemoryPriceCache(),
+    });
+
+    expect(await service.getPrice("DOT", "2024-01-01")).toBe(8.1);
+    expect(unsupported.fetchDailyPrices).not.toHaveBeenCalled();
+  });
+});
+
+describe("createFilePriceCache", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "prices-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("persists closed days to disk and reloads them", async () => {
+    const cache = createFilePriceCache(dir);
+    await cache.set("DOT", new Map([["2024-01-02", 8.4], ["2024-01-01", 8.1]]));
+
+    const file = path.join(dir, "DOT.json");
+    expect(JSON.parse(readFileSync(file, "utf8"))).toEqual({ "2024-01-01": 8.1, "2024-01-02": 8.4 });
+
+    const reloaded = createFilePriceCache(dir);
+    const prices = await reloaded.get("DOT", ["2024-01-01", "2024-01-03"]);
+    expect(Object.fromEntries(prices)).toEqual({ "2024-01-01": 8.1 });
+  });
+
+  it("never writes today's price", async () => {
+    const cache = createFilePriceCache(dir);
+    const today = new Date().toISOString().split("T")[0];
+    await cache.set("DOT", new Map([[today, 1]]));
+
+    expect(existsSync(path.join(dir, "DOT.json"))).toBe(false);
+    expect((await cache.get("DOT", [today])).size).toBe(0);
+  });
+});
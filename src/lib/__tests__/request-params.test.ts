@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { getRequestParams, postRequestParams } from "../request-params";
+
+describe("getRequestParams", () => {
+  it("reads address, format and date range from the query string", () => {
+    const params = getRequestParams(
+      new URLSearchParams("address=abc&format=csv&start=2024-01-01&end=2024-12-31")
+    );
+
+    expect(params).toEqual({
+      address: "abc",
+      format: "csv",
+      startDate: "2024-01-01",
+      endDate: "2024-12-31",
+    });
+  });
+
+  it("accepts startDate/endDate as aliases", () => {
+    const params = getRequestParams(
+      new URLSearchParams("address=abc&startDate=2024-02-01&endDate=2024-03-01")
+    );
+
+    expect(params.startDate).toBe("2024-02-01");
+    expect(params.endDate).toBe("2024-03-01");
+  });
+
+  it("defaults to json and an empty address", () => {
+    const params = getRequestParams(new URLSearchParams("format=xml"));
+
+    expect(params.address).toBe("");
+    expect(params.format).toBe("json");
+    expect(params.startDate).toBeUndefined();
+  });
+});
+
+describe("postRequestParams", () => {
+  it("reads the JSON body", () => {
+    const params = postRequestParams({
+      address: "abc",
+      format: "csv",
+      startDate: "2024-01-01",
+      endDate: "2024-12-31",
+    });
+
+    expect(params).toEqual({
+      address: "abc",
+      format: "csv",
+      startDate: "2024-01-01",
+      endDate: "2024-12-31",
+    });
+  });
+
+  it("ignores values of the wrong type", () => {
+    const params = postRequestParams({ address: 42, format: true, startDate: "" });
+
+    expect(params).toEqual({
+      address: "",
+      format: "json",
+      startDate: undefined,
+      endDate: undefined,
+    });
+  });
+});
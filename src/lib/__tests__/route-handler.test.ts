@@ -0,0 +1,323 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+import { NextRequest } from "next/server";
+import type { NormalizedTransaction, PerpsTransaction } from "../types";
+import {
+  ChainRequestError,
+  TRANSFERS_OPTION,
+  type PerpsChainAdapter,
+  type StandardChainAdapter,
+} from "../chains/adapter";
+import { createTransactionRoute, handleChainRequest, readChainRequest } from "../chains/route-handler";
+import { exportFilename } from "../chains/pipeline";
+import { bodyReader, searchParamReader } from "../request-params";
+
+const transfer: NormalizedTransaction = {
+  id: "tx1",
+  type: "transfer_received",
+  timestamp: new Date("2024-03-01T12:00:00Z"),
+  sentAmount: null,
+  sentCurrency: null,
+  receivedAmount: 5,
+  receivedCurrency: "TEST",
+  feeAmount: 0,
+  feeCurrency: "TEST",
+  transactionHash: "0xabc",
+  notes: "",
+  tag: "receive",
+};
+
+const trade: PerpsTransaction = {
+  id: "trade1",
+  date: new Date("2024-03-01T12:00:00Z"),
+  asset: "BTC",
+  amount: 1,
+  fee: 0.5,
+  pnl: 0,
+  paymentToken: "USDC",
+  notes: "",
+  transactionHash: "0xdef",
+  tag: "open_position",
+};
+
+function standardAdapter(overrides: Partial<StandardChainAdapter<NormalizedTransaction[]>> = {}) {
+  const adapter: StandardChainAdapter<NormalizedTransaction[]> = {
+    id: "test",
+    kind: "standard",
+    name: "Test",
+    symbol: "TEST",
+    description: "Test chain",
+    features: ["Transfers"],
+    logo: "",
+    color: "#000000",
+    input: {
+      type: "address",
+      label: "Test Address",
+      placeholder: "test...",
+      help: "",
+      format: "test...",
+      aliases: ["wallet"],
+      options: [
+        { name: "includeRewards", aliases: ["rewards"], type: "boolean", description: "Include rewards", defaultValue: true },
+        { name: "memo", type: "string", description: "Memo filter" },
+      ],
+    },
+    validateAddress: (address) => (address.toLowerCase().startsWith("test") ? address.toLowerCase() : null),
+    addressHint: "Test addresses start with 'test'",
+    fetchRaw: vi.fn(async () => [transfer]),
+    normalize: (raw) => raw,
+    summarize: (transactions) => ({ received: transactions.length }),
+    ...overrides,
+  };
+  return adapter;
+}
+
+const perpsAdapter: PerpsChainAdapter<PerpsTransaction[]> = {
+  ...standardAdapter(),
+  id: "testperps",
+  kind: "perps",
+  input: { type: "apiKey", label: "Test API Key", placeholder: "", help: "", format: "API Key required" },
+  validateAddress: (apiKey) => apiKey.trim() || null,
+  fetchRaw: async () => [trade],
+  normalize: (raw) => raw,
+  summarize: (transactions) => ({ totalTrades: transactions.length }),
+};
+
+describe("readChainRequest", () => {
+  it("reads the address alias, dates and typed options", () => {
+    const request = readChainRequest(
+      standardAdapter(),
+      searchParamReader(new URLSearchParams("wallet=TESTabc&format=csv&start=2024-01-01&rewards=false&memo=x"))
+    );
+
+    expect(request).toEqual({
+      address: "testabc",
+      format: "csv",
+      startDate: "2024-01-01",
+      endDate: undefined,
+      options: { includeRewards: false, memo: "x" },
+    });
+  });
+
+  it("applies option defaults", () => {
+    const request = readChainRequest(standardAdapter(), bodyReader({ address: "test1" }));
+    expect(request.options).toEqual({ includeRewards: true, memo: undefined });
+  });
+
+  it("rejects missing and invalid input with codes", () => {
+    const adapter = standardAdapter();
+    const attempt = (body: Record<string, unknown>) => {
+      try {
+        readChainRequest(adapter, bodyReader(body));
+      } catch (error) {
+        return error as ChainRequestError;
+      }
+      throw new Error("expected a ChainRequestError");
+    };
+
+    expect(attempt({}).code).toBe("MISSING_ADDRESS");
+    expect(attempt({ address: "nope" })).toMatchObject({
+      code: "INVALID_ADDRESS",
+      details: "Test addresses start with 'test'",
+    });
+    expect(attempt({ address: "test1", startDate: "2024-02-30" }).code).toBe("INVALID_DATE");
+    expect(attempt({ address: "test1", startDate: "2024-03-01", endDate: "2024-01-01" }).code).toBe("INVALID_DATE");
+  });
+
+  it("accepts only the listed choices and defaults to one", () => {
+    const base = standardAdapter();
+    const adapter = standardAdapter({
+      input: {
+        ...base.input,
+        options: [{
+          name: "network",
+          type: "string",
+          description: "Network",
+          defaultValue: "main",
+          choices: [{ value: "main", label: "Main" }, { value: "test", label: "Test" }],
+        }],
+      },
+    });
+
+    expect(readChainRequest(adapter, bodyReader({ address: "test1" })).options).toEqual({ network: "main" });
+    expect(readChainRequest(adapter, bodyReader({ address: "test1", network: "test" })).options).toEqual({ network: "test" });
+    // JSON numbers are read as their string
+    expect(() => readChainRequest(adapter, bodyReader({ address: "test1", network: 7 }))).toThrow("Invalid network: 7");
+    expect(() => readChainRequest(adapter, bodyReader({ address: "test1", network: "other" }))).toThrow(
+      expect.objectContaining({ code: "INVALID_OPTION", status: 400, details: "Expected one of: main, test" })
+    );
+  });
+});
+
+describe("createTransactionRoute", () => {
+  it("returns the uniform JSON shape", async () => {
+    const { GET } = createTransactionRoute(standardAdapter());
+    const response = await GET(new NextRequest("http://localhost/api/test/transactions?address=test1"));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      chain: "test",
+      address: "test1",
+      totalTransactions: 1,
+      summary: { received: 1 },
+    });
+    expect(body.transactions).toHaveLength(1);
+  });
+
+  it("filters by date range before summarizing", async () => {
+    const { POST } = createTransactionRoute(standardAdapter());
+    const response = await POST(
+      new NextRequest("http://localhost/api/test/transactions", {
+        method: "POST",
+        body: JSON.stringify({ address: "test1", startDate: "2024-04-01" }),
+      })
+    );
+    const body = await response.json();
+
+    expect(body.totalTransactions).toBe(0);
+    expect(body.summary).toEqual({ received: 0 });
+  });
+
+  it("applies rules from a POST body or a GET query before summarizing", async () => {
+    const rules = [{ match: { currency: "test", minAmount: 1 }, action: { tag: "gift_received", notes: "Gift | {notes}" } }];
+    const { GET, POST } = createTransactionRoute(standardAdapter());
+
+    const posted = await (
+      await POST(
+        new NextRequest("http://localhost/api/test/transactions", {
+          method: "POST",
+          body: JSON.stringify({ address: "test1", rules }),
+        })
+      )
+    ).json();
+    expect(posted.transactions[0]).toMatchObject({ tag: "gift_received", notes: "Gift | " });
+
+    const query = encodeURIComponent(JSON.stringify([{ match: { type: "transfer_received" }, action: { exclude: true } }]));
+    const excluded = await (await GET(new NextRequest(`http://localhost/api/test/transactions?address=test1&rules=${query}`))).json();
+    expect(excluded).toMatchObject({ totalTransactions: 0, summary: { received: 0 } });
+  });
+
+  it("returns CSV with a consistent filename", async () => {
+    const { GET } = createTransactionRoute(standardAdapter());
+    const response = await GET(new NextRequest("http://localhost/api/test/transactions?address=test1&format=csv"));
+
+    expect(response.headers.get("Content-Type")).toBe("text/csv");
+    expect(response.headers.get("Content-Disposition")).toBe('attachment; filename="test-test1-awaken.csv"');
+    expect(await response.text()).toContain("0xabc");
+  });
+
+  it("never echoes an API key", async () => {
+    const { POST } = createTransactionRoute(perpsAdapter);
+    const response = await POST(
+      new NextRequest("http://localhost/api/testperps/transactions", {
+        method: "POST",
+        body: JSON.stringify({ apiKey: "secret" }),
+      })
+    );
+    const body = await response.json();
+
+    expect(body.address).toBeUndefined();
+    expect(body.summary).toEqual({ totalTrades: 1, analytics: expect.objectContaining({ totalFees: 0.5 }) });
+    expect(JSON.stringify(body)).not.toContain("secret");
+  });
+
+  it("serves a perps chain's transfers in JSON and as the companion CSV", async () => {
+    const deposit: NormalizedTransaction = { ...transfer, id: "deposit1", tag: "wallet_transfer" };
+    const { POST } = createTransactionRoute({
+      ...perpsAdapter,
+      input: { ...perpsAdapter.input, options: [TRANSFERS_OPTION] },
+      transfers: () => [deposit, { ...deposit, id: "old", timestamp: new Date("2020-01-01T00:00:00Z") }],
+    });
+    const post = (body: Record<string, unknown>) =>
+      POST(new NextRequest("http://localhost/api/testperps/transactions", {
+        method: "POST",
+        body: JSON.stringify({ apiKey: "secret", startDate: "2024-01-01", ...body }),
+      }));
+
+    const json = await (await post({})).json();
+    expect(json.transactions.map((tx: PerpsTransaction) => tx.id)).toEqual(["trade1"]);
+    expect(json.transfers.map((tx: NormalizedTransaction) => tx.id)).toEqual(["deposit1"]);
+
+    const csv = await post({ format: "csv", transfers: true });
+    expect(csv.headers.get("Content-Disposition")).toBe('attachment; filename="testperps-transfers-awaken.csv"');
+    const text = await csv.text();
+    expect(text).toContain("Received Quantity");
+    expect(text).toContain("wallet_transfer");
+  });
+
+  it("describes the chain on a bare GET", async () => {
+    const { GET } = createTransactionRoute(standardAdapter());
+    const body = await (await GET(new NextRequest("http://localhost/api/test/transactions"))).json();
+
+    expect(body.chain).toBe("Test");
+    expect(Object.keys(body.parameters)).toEqual(["address", "format", "start", "end", "rules", "includeRewards", "memo"]);
+  });
+
+  it("maps errors to status codes", async () => {
+    const notFound = createTransactionRoute(
+      standardAdapter({
+        fetchRaw: async () => {
+          throw new ChainRequestError("ACCOUNT_NOT_FOUND", "Account not found");
+        },
+      })
+    );
+    const missing = await notFound.GET(new NextRequest("http://localhost/api/test/transactions?address=test1"));
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({ error: "Account not found", code: "ACCOUNT_NOT_FOUND" });
+
+    const failing = createTransactionRoute(
+      standardAdapter({
+        fetchRaw: async () => {
+          throw new Error("upstream down");
+        },
+      })
+    );
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const failed = await failing.GET(new NextRequest("http://localhost/api/test/transactions?address=test1"));
+    errorSpy.mockRestore();
+    expect(failed.status).toBe(500);
+    expect(await failed.json()).toEqual({
+      error: "Failed to fetch transactions",
+      code: "FETCH_FAILED",
+      details: "upstream down",
+    });
+
+    const badBody = await failing.POST(
+      new NextRequest("http://localhost/api/test/transactions", { method: "POST", body: "not json" })
+    );
+    expect(badBody.status).toBe(400);
+    expect((await badBody.json()).code).toBe("INVALID_REQUEST_BODY");
+  });
+});
+
+describe("handleChainRequest", () => {
+  const hanging = () => standardAdapter({ fetchRaw: () => new Promise<NormalizedTransaction[]>(() => {}) });
+
+  it("answers TIMEOUT when the export outlives its deadline", async () => {
+    const response = await handleChainRequest(
+      hanging(),
+      bodyReader({ address: "test1" }),
+      AbortSignal.timeout(10)
+    );
+
+    expect(response.status).toBe(504);
+    expect((await response.json()).code).toBe("TIMEOUT");
+  });
+
+  it("answers CANCELLED when the caller goes away", async () => {
+    const controller = new AbortController();
+    const pending = handleChainRequest(hanging(), bodyReader({ address: "test1" }), controller.signal);
+    controller.abort();
+
+    expect((await (await pending).json()).code).toBe("CANCELLED");
+  });
+});
+
+describe("exportFilename", () => {
+  it("includes the kind and a sanitized address prefix", () => {
+    expect(exportFilename(standardAdapter(), "test::abc/def")).toBe("test-testabcdef-awaken.csv");
+    expect(exportFilename(perpsAdapter, "secret")).toBe("testperps-perps-awaken.csv");
+    expect(exportFilename(perpsAdapter, "secret", true)).toBe("testperps-transfers-awaken.csv");
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { applyRules, parseRules, ruleMatches, rulesFingerprint, RuleValidationError } from "../rules";
+import type { NormalizedTransaction } from "../types";
+
+function row(id: string, overrides: Partial<NormalizedTransaction> = {}): NormalizedTransaction {
+  return {
+    id,
+    type: "transfer_received",
+    timestamp: new Date("2024-03-01T12:00:00Z"),
+    sentAmount: null,
+    sentCurrency: null,
+    receivedAmount: 100,
+    receivedCurrency: "DOT",
+    feeAmount: 0,
+    feeCurrency: "DOT",
+    transactionHash: id,
+    notes: "Transfer from 15oF4uVJ...",
+    tag: "receive",
+    ...overrides,
+  };
+}
+
+const EXCHANGE = "14E5nqKAp3oAJcmzgZhUD2RcptBeUBScxKHgJKU4HPNcKVf3";
+
+describe("parseRules", () => {
+  it("fills in ids and drops unset conditions", () => {
+    expect(parseRules([{ match: { currency: "DOT", notes: "" }, action: { tag: "receive" } }])).toEqual([
+      { id: "rule-1", match: { currency: "DOT" }, action: { tag: "receive" } },
+    ]);
+  });
+
+  it("rejects rules that can't be applied, naming the rule", () => {
+    const valid = { match: {}, action: { exclude: true } };
+
+    expect(() => parseRules({})).toThrow("Rules must be an array");
+    expect(() => parseRules([valid, { match: {}, action: {} }])).toThrow("Rule 2: action must set a tag, notes or exclude");
+    expect(() => parseRules([{ match: { type: "teleport" }, action: { exclude: true } }])).toThrow(RuleValidationError);
+    expect(() => parseRules([{ match: {}, action: { tag: "income" } }])).toThrow('Rule 1: unknown tag "income"');
+    expect(() => parseRules([{ match: { notes: "x".repeat(201) }, action: { exclude: true } }])).toThrow(
+      "longer than 200 characters"
+    );
+    expect(() => parseRules([{ match: { startDate: "03/01/2024" }, action: { exclude: true } }])).toThrow("invalid date");
+    expect(() => parseRules([{ match: { minAmount: 5, maxAmount: 1 }, action: { exclude: true } }])).toThrow(
+      "minAmount is above maxAmount"
+    );
+  });
+
+  it("matches notes as plain text with * wildcards, never as a regex", () => {
+    const matches = (notes: string, text: string) =>
+      ruleMatches({ id: "r", match: { notes }, action: { exclude: true } }, row("tx", { notes: text }), "polkadot");
+
+    expect(matches("payroll", "Transfer | PAYROLL March")).toBe(true);
+    expect(matches("payroll*march", "Transfer | PAYROLL for March")).toBe(true);
+    expect(matches("march*payroll", "Transfer | PAYROLL for March")).toBe(false);
+    // Regex syntax is literal text, so backtracking patterns cost nothing
+    expect(matches("(a|a)*b", "a".repeat(5000))).toBe(false);
+    expect(matches("(a|aa)+$", "a".repeat(5000))).toBe(false);
+    expect(matches("(a+)+", "fee (a+)+ refund")).toBe(true);
+    expect(matches("[", "memo [1]")).toBe(true);
+  });
+});
+
+describe("applyRules", () => {
+  const transactions = [
+    row("exchange", { counterparty: EXCHANGE }),
+    row("payroll", { notes: "Transfer | PAYROLL March", receivedAmount: 2500, receivedCurrency: "USDC" }),
+    row("dust", { receivedAmount: 0.0001 }),
+    row("sent", { type: "transfer_sent", sentAmount: 10, sentCurrency: "DOT", receivedAmount: null, receivedCurrency: null, tag: "payment" }),
+  ];
+
+  it("takes the first matching rule for each row", () => {
+    const rules = parseRules([
+      { match: { counterparty: EXCHANGE.toLowerCase() }, action: { tag: "wallet_transfer", notes: "Exchange deposit | {notes}" } },
+      { match: { notes: "payroll", currency: "usdc", minAmount: 1000 }, action: { tag: "receive", notes: "Income: {notes}" } },
+      { match: { currency: "DOT", maxAmount: 0.001 }, action: { exclude: true } },
+      { match: {}, action: { notes: "Catch-all" } },
+    ]);
+
+    const result = applyRules(transactions, rules, "polkadot");
+
+    expect(result.map((tx) => [tx.id, tx.tag, tx.notes])).toEqual([
+      ["exchange", "wallet_transfer", "Exchange deposit | Transfer from 15oF4uVJ..."],
+      ["payroll", "receive", "Income: Transfer | PAYROLL March"],
+      ["sent", "payment", "Catch-all"],
+    ]);
+  });
+
+  it("checks chain, type and the UTC date range", () => {
+    const rules = parseRules([
+      { match: { chain: "Polkadot", type: "transfer_sent", startDate: "2024-03-01", endDate: "2024-03-01" }, action: { tag: "gift_sent" } },
+    ]);
+
+    expect(applyRules(transactions, rules, "polkadot").find((tx) => tx.id === "sent")?.tag).toBe("gift_sent");
+    expect(applyRules(transactions, rules, "kusama")).toEqual(transactions);
+    expect(applyRules([row("later", { type: "transfer_sent", timestamp: new Date("2024-03-02T00:00:00Z") })], rules, "polkadot")[0].tag).toBe(
+      "receive"
+    );
+  });
+
+  it("skips disabled rules and never matches a counterparty the chain didn't report", () => {
+    const rules = parseRules([
+      { enabled: false, match: {}, action: { exclude: true } },
+      { match: { counterparty: EXCHANGE }, action: { exclude: true } },
+    ]);
+
+    expect(applyRules([row("unknown")], rules, "osmosis")).toHaveLength(1);
+  });
+});
+
+describe("rulesFingerprint", () => {
+  it("changes with the enabled rules only", () => {
+    const rules = parseRules([{ match: { currency: "DOT" }, action: { tag: "receive" } }]);
+    const renamed = [{ ...rules[0], id: "other", name: "Renamed" }];
+
+    expect(rulesFingerprint([])).toBe("");
+    expect(rulesFingerprint(renamed)).toBe(rulesFingerprint(rules));
+    expect(rulesFingerprint([{ ...rules[0], enabled: false }])).toBe("");
+    expect(rulesFingerprint([{ ...rules[0], action: { tag: "payment" } }])).not.toBe(rulesFingerprint(rules));
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { matchSelfTransfers } from "../self-transfers";
+import type { PortfolioWalletResult } from "../portfolio";
+import type { NormalizedTransaction } from "../types";
+import { generateAwakenCSV } from "../csv";
+
+function sent(id: string, iso: string, amount: number, currency: string, hash = id): NormalizedTransaction {
+  return {
+    id,
+    type: "transfer_sent",
+    timestamp: new Date(iso),
+    sentAmount: amount,
+    sentCurrency: currency,
+    receivedAmount: null,
+    receivedCurrency: null,
+    feeAmount: 0.01,
+    feeCurrency: currency,
+    transactionHash: hash,
+    notes: "Sent",
+    tag: "payment",
+  };
+}
+
+function received(id: string, iso: string, amount: number, currency: string, hash = id): NormalizedTransaction {
+  return {
+    ...sent(id, iso, 0, currency, hash),
+    type: "transfer_received",
+    sentAmount: null,
+    sentCurrency: null,
+    receivedAmount: amount,
+    receivedCurrency: currency,
+    feeAmount: 0,
+    notes: "Received",
+    tag: "receive",
+  };
+}
+
+const DOT_A = { id: "a", chain: "polkadot", input: "15oF4uVJwmo4TdGW7VfQxNLavjCXviqxT9S1MgbjMNHr6Sp5" };
+const DOT_B = { id: "b", chain: "polkadot", input: "14E5nqKAp3oAJcmzgZhUD2RcptBeUBScxKHgJKU4HPNcKVf3" };
+const OSMO = { id: "c", chain: "osmosis", input: "osmo1clpqr4nrk4khgkxj78fcwwh6dl3uw4epasmvnj" };
+const KAVA = { id: "d", chain: "kava", input: "kava1ypjp0m04pyp73hwgtc0dgkx0e9rrydeckewa42" };
+
+function rowsOf(results: PortfolioWalletResult[], walletId: string) {
+  return results.find((result) => result.wallet.id === walletId)!.transactions as NormalizedTransaction[];
+}
+
+describe("matchSelfTransfers", () => {
+  it("pairs a same-chain transfer by hash and names the other wallet", () => {
+    const results = matchSelfTransfers([
+      { wallet: DOT_A, transactions: [sent("a1", "2024-01-01T00:00:00Z", 10, "DOT", "0xabc")] },
+      { wallet: DOT_B, transactions: [received("b1", "2024-01-01T00:00:00Z", 10, "DOT", "0xabc")] },
+    ]);
+
+    expect(rowsOf(results, "a")[0]).toMatchObject({
+      tag: "wallet_transfer",
+      notes: "Sent | Transfer to own wallet Polkadot 14E5...KVf3",
+      counterpartWallet: "Polkadot 14E5...KVf3",
+    });
+    expect(rowsOf(results, "b")[0]).toMatchObject({
+      tag: "wallet_transfer",
+      notes: "Received | Transfer from own wallet Polkadot 15oF...6Sp5",
+    });
+  });
+
+  it("pairs a cross-chain transfer by asset, amount less fees and arrival window", () => {
+    const results = matchSelfTransfers([
+      { wallet: OSMO, transactions: [sent("o1", "2024-01-01T00:00:00Z", 100, "ATOM")] },
+      {
+        wallet: KAVA,
+        transactions: [
+          // Before the send, then the real arrival, then one outside the window
+          received("k0", "2023-12-31T23:59:00Z", 100, "ATOM"),
+          received("k1", "2024-01-01T00:02:00Z", 99.95, "atom"),
+          received("k2", "2024-01-01T00:05:00Z", 99.95, "ATOM"),
+        ],
+      },
+    ]);
+
+    expect(rowsOf(results, "c")[0].tag).toBe("wallet_transfer");
+    expect(rowsOf(results, "d").map((tx) => [tx.id, tx.tag])).toEqual([
+      ["k0", "receive"],
+      ["k1", "wallet_transfer"],
+      ["k2", "receive"],
+    ]);
+  });
+
+  it("leaves transfers to outside addresses and mismatched amounts alone", () => {
+    const input: PortfolioWalletResult[] = [
+      {
+        wallet: OSMO,
+        transactions: [sent("o1", "2024-01-01T00:00:00Z", 100, "ATOM"), sent("o2", "2024-02-01T00:00:00Z", 5, "OSMO")],
+      },
+      {
+        wallet: KAVA,
+        transactions: [
+          received("k1", "2024-01-01T00:10:00Z", 90, "ATOM"),
+          received("k2", "2024-01-01T03:00:00Z", 100, "ATOM"),
+        ],
+      },
+    ];
+
+    expect(matchSelfTransfers(input)).toBe(input);
+  });
+
+  it("retags perps wallets' deposits and carries the note into the CSV", () => {
+    const results = matchSelfTransfers([
+      { wallet: OSMO, transactions: [sent("o1", "2024-01-01T00:00:00Z", 500, "USDC")] },
+      {
+        wallet: { id: "e", chain: "dydx", input: "dydx1abcdefghijklmnopqrstuvwxyz0123456789" },
+        transactions: [],
+        transfers: [{ ...received("d1", "2024-01-01T00:01:00Z", 500, "USDC"), tag: "wallet_transfer" }],
+      },
+    ]);
+
+    const csv = generateAwakenCSV(rowsOf(results, "c"));
+    expect(csv).toContain("wallet_transfer");
+    expect(csv).toContain("Transfer to own wallet dYdX dydx...6789");
+    expect(results[1].transfers?.[0].notes).toBe("Received | Transfer from own wallet Osmosis osmo...mvnj");
+  });
+});
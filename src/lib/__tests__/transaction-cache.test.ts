@@ -54,6 +54,16 @@ describe("transaction-cache", () => {
       const key = buildCacheKey("  polkadot  ", "  addr  ", "  2024-01-01  ", "");
       expect(key).toBe("polkadot:addr:2024-01-01:");
     });
+
+    it("appends the chain option when set", () => {
+      expect(buildCacheKey("gmx", "0xabc", "", "", "avalanche")).toBe("gmx:0xabc:::avalanche");
+      expect(buildCacheKey("gmx", "0xabc", "", "", "")).toBe("gmx:0xabc::");
+    });
+
+    it("appends the rules fingerprint when rules are sent", () => {
+      expect(buildCacheKey("kava", "kava1abc", "", "", "", "1x9z")).toBe("kava:kava1abc:::rules-1x9z");
+      expect(buildCacheKey("gmx", "0xabc", "", "", "avalanche", "1x9z")).toBe("gmx:0xabc:::avalanche:rules-1x9z");
+    });
   });
 
   describe("setCachedTransactions / getCachedTransactions", () => {
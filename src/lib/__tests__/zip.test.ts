@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { createZip, crc32 } from "../zip";
+
+// Reads the entries back through the central directory, as an unzip tool would
+function readZip(zip: Uint8Array): Record<string, string> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const files: Record<string, string> = {};
+  let position = view.getUint32(end + 16, true);
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = decoder.decode(zip.subarray(position + 46, position + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    const data = zip.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(view.getUint32(position + 16, true));
+
+    files[name] = decoder.decode(data);
+    position += 46 + nameLength;
+  }
+  return files;
+}
+
+describe("createZip", () => {
+  it("computes the standard CRC-32", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("stores each file so it reads back unchanged", () => {
+    const zip = createZip([
+      { name: "polkadot-awaken.csv", content: "Date,Notes\n01/01/2024 00:00:00,Staking reward" },
+      { name: "xrpl-awaken.csv", content: "Date,Notes\n" },
+    ]);
+
+    expect(readZip(zip)).toEqual({
+      "polkadot-awaken.csv": "Date,Notes\n01/01/2024 00:00:00,Staking reward",
+      "xrpl-awaken.csv": "Date,Notes\n",
+    });
+  });
+
+  it("writes an empty archive", () => {
+    expect(readZip(createZip([]))).toEqual({});
+  });
+});
@@ -1,5 +1,12 @@
 import type { NormalizedTransaction, PerpsTransaction } from "./types";
 
+/** Legs that carry value but have no USD price */
+function hasUnpricedLeg(tx: NormalizedTransaction): boolean {
+  const sentMissing = !!tx.sentAmount && tx.sentAmount > 0 && !tx.sentFiatPrice;
+  const receivedMissing = !!tx.receivedAmount && tx.receivedAmount > 0 && !tx.receivedFiatPrice;
+  return sentMissing || receivedMissing;
+}
+
 function calculateStdDev(values: number[]): { mean: number; stdDev: number } {
   if (values.length === 0) return { mean: 0, stdDev: 0 };
   const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
@@ -13,7 +20,9 @@ export function flagAmbiguousTransactions(
   if (transactions.length === 0) return transactions;
 
   // Check if any transactions have fiat prices
-  const hasFiatPrices = transactions.some((tx) => tx.fiatPrice && tx.fiatPrice > 0);
+  const hasFiatPrices = transactions.some(
+    (tx) => (tx.sentFiatPrice ?? 0) > 0 || (tx.receivedFiatPrice ?? 0) > 0
+  );
 
   // Calculate amount statistics for outlier detection
   const amounts = transactions
@@ -25,11 +34,8 @@ export function flagAmbiguousTransactions(
     const reasons: string[] = [];
 
     // 1. Missing fiat price when other txs have prices
-    if (hasFiatPrices && (!tx.fiatPrice || tx.fiatPrice === 0)) {
-      const hasValue = (tx.sentAmount && tx.sentAmount > 0) || (tx.receivedAmount && tx.receivedAmount > 0);
-      if (hasValue) {
-        reasons.push("Missing fiat price");
-      }
+    if (hasFiatPrices && hasUnpricedLeg(tx)) {
+      reasons.push("Missing fiat price");
     }
 
     // 2. Statistical outlier amount (>3 std devs, min 5 txs)
@@ -94,8 +100,9 @@ export function flagAmbiguousPerpsTransactions(
       }
     }
 
+    // Keep the normalizer's reasons (liquidation details, unknown tokens)
     if (reasons.length > 0) {
-      return { ...tx, isAmbiguous: true, ambiguousReasons: reasons };
+      return { ...tx, isAmbiguous: true, ambiguousReasons: [...(tx.ambiguousReasons ?? []), ...reasons] };
     }
 
     return tx;
@@ -0,0 +1,82 @@
+/**
+ * Lossless token amounts (integer base units + decimals)
+ */
+
+import type { TokenAmount } from "./types";
+
+/**
+ * Amount from integer base units (wei, planck, drops, ...)
+ */
+export function toTokenAmount(units: string | number | bigint, decimals: number): TokenAmount {
+  return { units: BigInt(units).toString(), decimals };
+}
+
+/**
+ * Amount from a decimal string such as "12.3400000" or "1.5e-7".
+ * Without explicit decimals, the string's own precision is kept.
+ */
+export function parseTokenAmount(value: string, decimals?: number): TokenAmount {
+  const match = value.trim().match(/^(-?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid decimal amount: ${value}`);
+  }
+
+  const [, sign, intPart, fracPart = "", exponent = "0"] = match;
+  let digits = intPart + fracPart;
+  let scale = fracPart.length - parseInt(exponent, 10);
+  if (scale < 0) {
+    digits += "0".repeat(-scale);
+    scale = 0;
+  }
+
+  const target = decimals ?? scale;
+  if (target >= scale) {
+    digits += "0".repeat(target - scale);
+  } else {
+    // More precision than the token supports: truncate toward zero
+    digits = digits.slice(0, digits.length - (scale - target)) || "0";
+  }
+
+  return toTokenAmount(`${sign}${digits || "0"}`, target);
+}
+
+/**
+ * Exact decimal string without trailing zeros
+ */
+export function formatExactAmount(amount: TokenAmount): string {
+  const units = BigInt(amount.units);
+  const negative = units < BigInt(0);
+  const digits = (negative ? -units : units).toString().padStart(amount.decimals + 1, "0");
+
+  const intPart = digits.slice(0, digits.length - amount.decimals);
+  const fracPart = digits.slice(digits.length - amount.decimals).replace(/0+$/, "");
+
+  const formatted = fracPart ? `${intPart}.${fracPart}` : intPart;
+  return negative ? `-${formatted}` : formatted;
+}
+
+/**
+ * Nearest double to the exact amount, for display and arithmetic
+ */
+export function tokenAmountToNumber(amount: TokenAmount): number {
+  return Number(formatExactAmount(amount));
+}
+
+function rescale(amount: TokenAmount, decimals: number): bigint {
+  return BigInt(amount.units) * BigInt(10) ** BigInt(decimals - amount.decimals);
+}
+
+export function addTokenAmounts(a: TokenAmount, b: TokenAmount): TokenAmount {
+  const decimals = Math.max(a.decimals, b.decimals);
+  return toTokenAmount(rescale(a, decimals) + rescale(b, decimals), decimals);
+}
+
+export function subtractTokenAmounts(a: TokenAmount, b: TokenAmount): TokenAmount {
+  const decimals = Math.max(a.decimals, b.decimals);
+  return toTokenAmount(rescale(a, decimals) - rescale(b, decimals), decimals);
+}
+
+export function absTokenAmount(amount: TokenAmount): TokenAmount {
+  const units = BigInt(amount.units);
+  return units < BigInt(0) ? toTokenAmount(-units, amount.decimals) : amount;
+}
@@ -1,27 +0,0 @@
-export const EXPLORER_URLS: Record<string, string> = {
-  bittensor: "https://taostats.io/extrinsic/",
-  kaspa: "https://explorer.kaspa.org/txs/",
-  polkadot: "https://polkadot.subscan.io/extrinsic/",
-  kusama: "https://kusama.subscan.io/extrinsic/",
-  osmosis: "https://www.mintscan.io/osmosis/tx/",
-  injective: "https://explorer.injective.network/transaction/",
-  ronin: "https://app.roninchain.com/tx/",
-  dydx: "https://www.mintscan.io/dydx/tx/",
-  extended: "",
-  canton: "https://scan.canton.network/tx/",
-  hedera: "https://hashscan.io/mainnet/transaction/",
-  xrpl: "https://xrpscan.com/tx/",
-  kava: "https://www.mintscan.io/kava/tx/",
-  stellar: "https://stellar.expert/explorer/public/tx/",
-  multiversx: "https://explorer.multiversx.com/transactions/",
-  radix: "https://dashboard.radixdlt.com/transaction/",
-  ergo: "https://explorer.ergoplatform.com/en/transactions/",
-  glue: "https://backend.explorer.mainnet.prod.gke.glue.net/tx/",
-  gmx: "https://arbiscan.io/tx/",
-};
-
-export function getExplorerUrl(chainId: string, txHash: string): string | null {
-  const base = EXPLORER_URLS[chainId];
-  if (!base || !txHash) return null;
-  return `${base}${txHash}`;
-}
@@ -0,0 +1,208 @@
+/**
+ * Chain adapters: one module per chain describing how to present, validate,
+ * fetch and normalize it. The registry (./registry) collects them.
+ */
+
+import type { NormalizedTransaction, PerpsTransaction } from "@/lib/types";
+import type { DateRangeParams } from "@/lib/date-filter";
+import type { CurrencyResolver } from "@/lib/pricing/legs";
+import type { ReclassificationRule } from "@/lib/rules";
+
+export type ChainKind = "standard" | "perps";
+
+/**
+ * Optional request field beyond address and date range
+ */
+export interface ChainOption {
+  name: string;
+  /** Other parameter names accepted for the same option */
+  aliases?: string[];
+  type: "string" | "boolean";
+  description: string;
+  /** Value when the request omits the option */
+  defaultValue?: boolean | string;
+  /** The only values a string option accepts; the home page offers them as a select */
+  choices?: { value: string; label: string }[];
+  /** Shown as an extra input on the home page */
+  ui?: {
+    label: string;
+    placeholder: string;
+    help: string;
+  };
+}
+
+export interface ChainInputSchema {
+  /** "apiKey" chains take a secret instead of a public address */
+  type: "address" | "apiKey";
+  label: string;
+  placeholder: string;
+  help: string;
+  /** Short format hint for API docs, e.g. "kaspa:..." */
+  format: string;
+  /** Other parameter names accepted for the address (e.g. Canton's partyId) */
+  aliases?: string[];
+  options?: ChainOption[];
+}
+
+export type ChainOptionValues = Record<string, string | boolean | undefined>;
+
+/**
+ * Validated request for one chain
+ */
+export interface ChainInput extends DateRangeParams {
+  /** Wallet address, or the API key for chains with an apiKey input */
+  address: string;
+  options: ChainOptionValues;
+  /** Reclassification rules applied to the normalized rows, in order */
+  rules?: ReclassificationRule[];
+  /**
+   * Aborts when the caller disconnects or the export times out. Adapters
+   * may pass it to their fetches; the pipeline stops waiting either way.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Machine-readable reason a chain request failed, returned as `code`
+ * alongside `error` and `details` in every error response
+ */
+export type ChainErrorCode =
+  | "MISSING_CHAIN"
+  | "UNSUPPORTED_CHAIN"
+  | "MISSING_ADDRESS"
+  | "INVALID_ADDRESS"
+  | "INVALID_DATE"
+  | "INVALID_REQUEST_BODY"
+  | "INVALID_OPTION"
+  | "INVALID_RULES"
+  | "ACCOUNT_NOT_FOUND"
+  | "INVALID_API_KEY"
+  | "FETCH_FAILED"
+  | "TIMEOUT"
+  | "CANCELLED"
+  | "JOB_NOT_FOUND"
+  | "JOB_NOT_READY"
+  | "JOB_INTERRUPTED";
+
+export const ERROR_STATUS: Record<ChainErrorCode, number> = {
+  MISSING_CHAIN: 400,
+  UNSUPPORTED_CHAIN: 400,
+  MISSING_ADDRESS: 400,
+  INVALID_ADDRESS: 400,
+  INVALID_DATE: 400,
+  INVALID_REQUEST_BODY: 400,
+  INVALID_OPTION: 400,
+  INVALID_RULES: 400,
+  ACCOUNT_NOT_FOUND: 404,
+  INVALID_API_KEY: 401,
+  FETCH_FAILED: 500,
+  TIMEOUT: 504,
+  // Client closed the request; nobody reads the response
+  CANCELLED: 499,
+  JOB_NOT_FOUND: 404,
+  JOB_NOT_READY: 409,
+  JOB_INTERRUPTED: 500,
+};
+
+/**
+ * Failure the caller should see as-is (unknown account, rejected API key, ...)
+ */
+export class ChainRequestError extends Error {
+  readonly status: number;
+
+  constructor(
+    readonly code: ChainErrorCode,
+    message: string,
+    readonly details?: string
+  ) {
+    super(message);
+    this.name = "ChainRequestError";
+    this.status = ERROR_STATUS[code];
+  }
+}
+
+interface ChainAdapterBase<Raw, Tx> {
+  id: string;
+  name: string;
+  symbol: string;
+  description: string;
+  features: string[];
+  logo: string;
+  /** Fallback logo color */
+  color: string;
+  input: ChainInputSchema;
+  warning?: string;
+  /** Transaction URL prefix; the hash is appended */
+  explorerTxUrl?: string;
+  /** Upstream API documentation, linked from the route's GET info */
+  documentation?: string;
+
+  /**
+   * Canonical form of a user-entered address, or null if it is invalid
+   */
+  validateAddress(address: string): string | null;
+  /** Why validateAddress rejected an address */
+  addressHint: string;
+
+  fetchRaw(input: ChainInput): Promise<Raw>;
+  normalize(raw: Raw, input: ChainInput): Tx[] | Promise<Tx[]>;
+  /**
+   * Chain-specific counts and totals over the exported transactions
+   */
+  summarize(transactions: Tx[], raw: Raw): Record<string, unknown>;
+}
+
+export interface StandardChainAdapter<Raw = unknown>
+  extends ChainAdapterBase<Raw, NormalizedTransaction> {
+  kind: "standard";
+  /**
+   * Currency label -> price asset mapping. Chains without a trusted price
+   * source leave it out and stay unpriced.
+   */
+  currencyResolver?(): CurrencyResolver | Promise<CurrencyResolver>;
+}
+
+export interface PerpsChainAdapter<Raw = unknown>
+  extends ChainAdapterBase<Raw, PerpsTransaction> {
+  kind: "perps";
+  /**
+   * Deposits, withdrawals and transfers on and off the exchange as standard
+   * rows tagged wallet_transfer, exported as a companion CSV so the wallet
+   * side of each movement reconciles. Chains offering it list TRANSFERS_OPTION.
+   */
+  transfers?(raw: Raw, input: ChainInput): NormalizedTransaction[];
+}
+
+/**
+ * Lets CSV requests for a perps chain download the companion transfers CSV
+ * (standard Awaken format) instead of the perps CSV
+ */
+export const TRANSFERS_OPTION: ChainOption = {
+  name: "transfers",
+  type: "boolean",
+  description: "true with format=csv returns deposits, withdrawals and transfers as a standard Awaken CSV instead of the perps CSV",
+  defaultValue: false,
+};
+
+/**
+ * Lets a perps chain with hourly funding roll its funding_payment rows up
+ * into daily or weekly totals per market (applied by the pipeline)
+ */
+export const AGGREGATE_FUNDING_OPTION: ChainOption = {
+  name: "aggregateFunding",
+  type: "string",
+  description: "daily or weekly rolls funding payments up into one row per market and period; none (default) keeps every tick",
+  defaultValue: "none",
+  choices: [
+    { value: "none", label: "Every funding payment" },
+    { value: "daily", label: "Daily totals per market" },
+    { value: "weekly", label: "Weekly totals per market" },
+  ],
+  ui: {
+    label: "Funding rows",
+    placeholder: "",
+    help: "Hourly funding can mean thousands of rows; daily or weekly totals keep the CSV small",
+  },
+};
+
+export type ChainAdapter = StandardChainAdapter | PerpsChainAdapter;
@@ -0,0 +1,68 @@
+import { createCurrencyResolver } from "@/lib/pricing/legs";
+import type { StandardChainAdapter } from "../adapter";
+import { fetchAllTransfers, fetchAllDelegationEvents, fetchStakeBalanceHistory } from "./taostats";
+import {
+  normalizeTransfer,
+  normalizeDelegationEvent,
+  calculateEmissionRewards,
+  mergeAndSortTransactions,
+} from "./transactions";
+import { isValidSS58Address } from "./utils";
+import type { RawDelegationEvent, RawStakeBalanceHistory, RawTransfer } from "./types";
+
+interface BittensorRawData {
+  transfers: RawTransfer[];
+  delegationEvents: RawDelegationEvent[];
+  stakeHistory: RawStakeBalanceHistory[];
+}
+
+function toTimestamp(date: string | undefined): number | undefined {
+  return date ? Math.floor(new Date(date).getTime() / 1000) : undefined;
+}
+
+export const bittensorAdapter: StandardChainAdapter<BittensorRawData> = {
+  id: "bittensor",
+  kind: "standard",
+  name: "Bittensor",
+  symbol: "TAO",
+  description: "Export transfers, staking events, and emission rewards",
+  features: ["Transfers", "Staking", "Emission Rewards", "USD Prices"],
+  logo: "/logos/bittensor.png",
+  color: "#000000",
+  input: {
+    type: "address",
+    label: "Bittensor Wallet Address",
+    placeholder: "5...",
+    help: "Enter your Bittensor (TAO) wallet address starting with 5",
+    format: "SS58 (starts with 5)",
+  },
+  warning: "Bittensor API has strict rate limits. Fetching may take longer for wallets with many transactions.",
+  explorerTxUrl: "https://taostats.io/extrinsic/",
+
+  validateAddress: (address) => (isValidSS58Address(address) ? address : null),
+  addressHint: "Address must start with '5' and be 46-48 characters.",
+
+  async fetchRaw({ address, startDate, endDate }) {
+    const timestampStart = toTimestamp(startDate);
+    const timestampEnd = toTimestamp(endDate);
+
+    // Sequential on purpose - the rate limiter handles the 5 req/min limit with burst support
+    const transfers = await fetchAllTransfers(address, timestampStart, timestampEnd);
+    const delegationEvents = await fetchAllDelegationEvents(address, timestampStart, timestampEnd);
+    const stakeHistory = await fetchStakeBalanceHistory(address, timestampStart, timestampEnd);
+    return { transfers, delegationEvents, stakeHistory };
+  },
+  normalize: (raw, { address }) =>
+    mergeAndSortTransactions(
+      raw.transfers.map((t) => normalizeTransfer(t, address)),
+      raw.delegationEvents.map((e) => normalizeDelegationEvent(e)),
+      calculateEmissionRewards(raw.stakeHistory, raw.delegationEvents)
+    ),
+  currencyResolver: () => createCurrencyResolver("TAO"),
+
+  summarize: (transactions, raw) => ({
+    transfers: raw.transfers.length,
+    delegations: raw.delegationEvents.length,
+    emissionRewards: transactions.filter((tx) => tx.type === "emission_reward").length,
+  }),
+};
@@ -3,7 +3,6 @@ import type {
   RawDelegationEvent,
   RawStakeBalanceHistory,
   PaginatedResponse,
-  TaoPrice,
 } from "./types";
 
 const API_BASE = "https://api.taostats.io/api";
@@ -11,10 +10,6 @@ const MAX_LIMIT = 200;
 const BURST_LIMIT = 5; // 5 requests per minute
 const COOLDOWN_MS = 62000; // 62 seconds cooldown (slightly over 1 min to be safe)
 
-// Global price cache - prices don't change per wallet
-let priceCache: { data: Map<string, number>; timestamp: number } | null = null;
-const PRICE_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
 // Rate limiter that allows burst of 5 requests, then waits for cooldown
 class RateLimiter {
   private requestCount = 0;
@@ -229,52 +224,10 @@ export async function fetchStakeBalanceHistory(
   return allHistory;
 }
 
-export async function fetchTaoPriceHistory(
-  timestampStart?: number,
-  timestampEnd?: number
-): Promise<Map<string, number>> {
-  // Check cache first - price data is the same for all wallets
-  const now = Date.now();
-  if (priceCache && (now - priceCache.timestamp) < PRICE_CACHE_TTL) {
-    console.log("Using cached price data");
-    return priceCache.data;
-  }
-
-  const priceMap = new Map<string, number>();
-
-  const params = new URLSearchParams({
-    network: "finney",
-    limit: String(MAX_LIMIT),
-  });
-
-  // Fetch all price history (ignore date filters for caching)
-  try {
-    const url = `${API_BASE}/price/history/v1?${params}`;
-    const response = await fetchWithRetry<PaginatedResponse<TaoPrice>>(url);
-
-    for (const price of response.data) {
-      // Store price by date (YYYY-MM-DD)
-      const date = price.timestamp.split("T")[0];
-      priceMap.set(date, price.price);
-    }
-
-    // Cache the result
-    priceCache = { data: priceMap, timestamp: now };
-    console.log(`Cached ${priceMap.size} price entries`);
-  } catch (error) {
-    console.warn("Failed to fetch price history:", error);
-  }
-
-  return priceMap;
-}
-
-export async function fetchCurrentTaoPrice(): Promise<number | null> {
-  try {
-    const url = `${API_BASE}/price/v1?network=finney`;
-    const response = await fetchWithRetry<{ price: number }>(url);
-    return response.price;
-  } catch (error) {
-    console.warn("Failed to fetch current TAO price:", error);
-    return null;
-  }
+/**
+ * Rate-limited GET against the Taostats API.
+ * Shared with the pricing provider so both stay within one request budget.
+ */
+export async function fetchTaostats<T>(path: string): Promise<T> {
+  return fetchWithRetry<T>(`${API_BASE}${path}`);
 }
@@ -2,13 +2,15 @@ import type {
   NormalizedTransaction,
   TransactionType,
   AwakenTag,
+  TokenAmount,
 } from "@/lib/types";
 import type {
   RawTransfer,
   RawDelegationEvent,
   RawStakeBalanceHistory,
 } from "./types";
-import { raoToTao } from "./utils";
+import { addTokenAmounts, subtractTokenAmounts, tokenAmountToNumber } from "@/lib/amount";
+import { raoToTaoAmount } from "./utils";
 
 function getTagForType(type: TransactionType): AwakenTag {
   switch (type) {
@@ -29,17 +31,16 @@ function getTagForType(type: TransactionType): AwakenTag {
 
 export function normalizeTransfer(
   transfer: RawTransfer,
-  walletAddress: string,
-  priceMap: Map<string, number>
+  walletAddress: string
 ): NormalizedTransaction {
   const isSent = transfer.from.ss58.toLowerCase() === walletAddress.toLowerCase();
   const type: TransactionType = isSent ? "transfer_sent" : "transfer_received";
   const timestamp = new Date(transfer.timestamp);
-  const dateKey = transfer.timestamp.split("T")[0];
-  const fiatPrice = priceMap.get(dateKey);
 
-  const amount = raoToTao(transfer.amount);
-  const fee = raoToTao(transfer.fee);
+  const exactAmount = raoToTaoAmount(transfer.amount);
+  const exactFee = raoToTaoAmount(transfer.fee);
+  const amount = tokenAmountToNumber(exactAmount);
+  const fee = tokenAmountToNumber(exactFee);
 
   return {
     id: transfer.id,
@@ -51,26 +52,28 @@ export function normalizeTransfer(
     receivedCurrency: isSent ? null : "TAO",
     feeAmount: fee,
     feeCurrency: "TAO",
+    sentAmountExact: isSent ? exactAmount : undefined,
+    receivedAmountExact: isSent ? undefined : exactAmount,
+    feeAmountExact: exactFee,
     transactionHash: transfer.transaction_hash,
     notes: isSent
       ? `Transfer to ${transfer.to.ss58.slice(0, 8)}...`
       : `Transfer from ${transfer.from.ss58.slice(0, 8)}...`,
     tag: getTagForType(type),
-    fiatPrice,
+    counterparty: isSent ? transfer.to.ss58 : transfer.from.ss58,
   };
 }
 
 export function normalizeDelegationEvent(
-  event: RawDelegationEvent,
-  priceMap: Map<string, number>
+  event: RawDelegationEvent
 ): NormalizedTransaction {
   const type: TransactionType = event.action === "stake" ? "stake" : "unstake";
   const timestamp = new Date(event.timestamp);
-  const dateKey = event.timestamp.split("T")[0];
-  const fiatPrice = priceMap.get(dateKey);
 
-  const amount = raoToTao(event.amount);
-  const fee = event.fee ? raoToTao(event.fee) : 0;
+  const exactAmount = raoToTaoAmount(event.amount);
+  const exactFee = event.fee ? raoToTaoAmount(event.fee) : undefined;
+  const amount = tokenAmountToNumber(exactAmount);
+  const fee = exactFee ? tokenAmountToNumber(exactFee) : 0;
 
   const isStake = event.action === "stake";
 
@@ -84,34 +87,35 @@ export function normalizeDelegationEvent(
     receivedCurrency: isStake ? null : "TAO",
     feeAmount: fee,
     feeCurrency: "TAO",
+    sentAmountExact: isStake ? exactAmount : undefined,
+    receivedAmountExact: isStake ? undefined : exactAmount,
+    feeAmountExact: exactFee,
     transactionHash: event.transaction_hash || "",
     notes: isStake
       ? `Stake to validator ${event.hotkey.ss58.slice(0, 8)}...`
       : `Unstake from validator ${event.hotkey.ss58.slice(0, 8)}...`,
     tag: getTagForType(type),
-    fiatPrice,
   };
 }
 
 export function calculateEmissionRewards(
   stakeHistory: RawStakeBalanceHistory[],
-  delegationEvents: RawDelegationEvent[],
-  priceMap: Map<string, number>
+  delegationEvents: RawDelegationEvent[]
 ): NormalizedTransaction[] {
   if (stakeHistory.length < 2) return [];
 
   const rewards: NormalizedTransaction[] = [];
 
   // Create a map of delegation events by date for netting out stake changes
-  const delegationByDate = new Map<string, number>();
+  const delegationByDate = new Map<string, TokenAmount>();
   for (const event of delegationEvents) {
     const date = event.timestamp.split("T")[0];
-    const amount = raoToTao(event.amount);
-    const current = delegationByDate.get(date) || 0;
+    const amount = raoToTaoAmount(event.amount);
+    const current = delegationByDate.get(date) || raoToTaoAmount(0);
     // Positive for stake, negative for unstake
     delegationByDate.set(
       date,
-      current + (event.action === "stake" ? amount : -amount)
+      event.action === "stake" ? addTokenAmounts(current, amount) : subtractTokenAmounts(current, amount)
     );
   }
 
@@ -124,24 +128,23 @@ export function calculateEmissionRewards(
     const prev = sortedHistory[i - 1];
     const curr = sortedHistory[i];
 
-    const prevBalance = raoToTao(prev.balance_staked);
-    const currBalance = raoToTao(curr.balance_staked);
+    const prevBalance = raoToTaoAmount(prev.balance_staked);
+    const currBalance = raoToTaoAmount(curr.balance_staked);
 
     // Calculate gross change in stake
-    const grossChange = currBalance - prevBalance;
+    const grossChange = subtractTokenAmounts(currBalance, prevBalance);
 
     // Get net delegation activity for this period
     const date = curr.timestamp.split("T")[0];
-    const delegationNet = delegationByDate.get(date) || 0;
+    const delegationNet = delegationByDate.get(date) || raoToTaoAmount(0);
 
     // Emission reward = change in balance - delegation activity
     // If you staked 10 TAO and balance went up by 12, you earned 2 in rewards
-    const rewardAmount = grossChange - delegationNet;
+    const exactReward = subtractTokenAmounts(grossChange, delegationNet);
+    const rewardAmount = tokenAmountToNumber(exactReward);
 
     // Only record positive rewards (emissions)
     if (rewardAmount > 0.0001) {
-      const fiatPrice = priceMap.get(date);
-
       rewards.push({
         id: `reward-${curr.block_number}`,
         type: "emission_reward",
@@ -152,10 +155,10 @@ export function calculateEmissionRewards(
         receivedCurrency: "TAO",
         feeAmount: 0,
         feeCurrency: "TAO",
+        receivedAmountExact: exactReward,
         transactionHash: "",
         notes: `Staking emission reward (block ${curr.block_number})`,
         tag: "claim_rewards",
-        fiatPrice,
       });
     }
   }
@@ -1,8 +1,17 @@
 // Bittensor-specific utilities
 
+import type { TokenAmount } from "@/lib/types";
+import { toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+
+// 1 TAO = 10^9 rao
+export const TAO_DECIMALS = 9;
+
+export function raoToTaoAmount(rao: string | number): TokenAmount {
+  return toTokenAmount(rao, TAO_DECIMALS);
+}
+
 export function raoToTao(rao: string | number): number {
-  const raoNum = typeof rao === "string" ? BigInt(rao) : BigInt(rao);
-  return Number(raoNum) / 1e9;
+  return tokenAmountToNumber(raoToTaoAmount(rao));
 }
 
 export function formatTaoAmount(tao: number): string {
@@ -0,0 +1,61 @@
+import type { StandardChainAdapter } from "../adapter";
+import { fetchAllUpdatesForParty, fetchWalletBalance, fetchLatestRound, isValidPartyId } from "./api";
+import { normalizeCantonUpdates, calculateSummary } from "./transactions";
+import type { CantonUpdate, CantonWalletBalance } from "./types";
+
+interface CantonRawData {
+  latestRound: number;
+  balance: CantonWalletBalance | null;
+  updates: CantonUpdate[];
+}
+
+// Canton Coin has no historical price source, so rows stay unpriced
+export const cantonAdapter: StandardChainAdapter<CantonRawData> = {
+  id: "canton",
+  kind: "standard",
+  name: "Canton Network",
+  symbol: "CC",
+  description: "Export Canton Coin transfers, rewards, and fees",
+  features: ["Transfers", "Rewards", "Fees", "Locked CC"],
+  logo: "https://www.canton.network/hubfs/canton-logo-black.svg",
+  color: "#4A90D9",
+  input: {
+    type: "address",
+    label: "Canton Participant ID",
+    placeholder: "Enter your participant ID",
+    help: "Enter your Canton Network participant ID",
+    format: "Party ID (hint::hash)",
+    aliases: ["partyId"],
+  },
+  explorerTxUrl: "https://scan.canton.network/tx/",
+
+  validateAddress: (address) => (isValidPartyId(address) ? address : null),
+  addressHint: "Party ID should be in format: hint::hash (e.g., MyWallet::1220abc...)",
+
+  async fetchRaw({ address }) {
+    const latestRound = await fetchLatestRound();
+    const balance = await fetchWalletBalance(address, latestRound);
+    const updates = await fetchAllUpdatesForParty(address, 2000);
+    return { latestRound, balance, updates };
+  },
+  normalize: (raw, { address }) => normalizeCantonUpdates(raw.updates, address),
+
+  summarize(transactions, raw) {
+    const summary = calculateSummary(transactions);
+    return {
+      transfers: summary.transfers,
+      rewards: summary.rewards,
+      totalSent: summary.totalSent,
+      totalReceived: summary.totalReceived,
+      totalFees: summary.totalFees,
+      latestRound: raw.latestRound,
+      balance: raw.balance
+        ? {
+            unlockedBalance: raw.balance.effective_unlocked_qty,
+            lockedBalance: raw.balance.effective_locked_qty,
+            holdingFees: raw.balance.total_holding_fees,
+          }
+        : null,
+    };
+  },
+};
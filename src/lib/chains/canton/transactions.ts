@@ -1,15 +1,26 @@
 // Canton transaction normalizer for Awaken CSV format
 
-import type { NormalizedTransaction, AwakenTag, TransactionType } from "@/lib/types";
+import type { NormalizedTransaction, AwakenTag, TransactionType, TokenAmount } from "@/lib/types";
+import {
+  absTokenAmount,
+  addTokenAmounts,
+  parseTokenAmount,
+  toTokenAmount,
+  tokenAmountToNumber,
+} from "@/lib/amount";
 import type { CantonUpdate, CantonEvent } from "./types";
 import { CANTON_COIN_SYMBOL, CANTON_COIN_DECIMALS, CANTON_TEMPLATES } from "./types";
 
+const ZERO_AMOUNT = toTokenAmount(0, CANTON_COIN_DECIMALS);
+
 // Parse Canton amount (10 decimal places)
-function parseCantonAmount(amount: string | undefined): number {
-  if (!amount) return 0;
-  const parsed = parseFloat(amount);
-  if (isNaN(parsed)) return 0;
-  return parsed;
+function parseCantonAmount(amount: string | undefined): TokenAmount {
+  if (!amount) return ZERO_AMOUNT;
+  try {
+    return parseTokenAmount(amount, CANTON_COIN_DECIMALS);
+  } catch {
+    return ZERO_AMOUNT;
+  }
 }
 
 // Format party ID for display (truncate hash)
@@ -72,9 +83,9 @@ function classifyEvent(
 function extractTransferAmounts(
   event: CantonEvent,
   partyId: string
-): { sent: number; received: number; fee: number } {
+): { sent: TokenAmount; received: TokenAmount; fee: TokenAmount } {
   const args = event.create_arguments || {};
-  const result = { sent: 0, received: 0, fee: 0 };
+  const result = { sent: ZERO_AMOUNT, received: ZERO_AMOUNT, fee: ZERO_AMOUNT };
 
   // Try to extract amounts from create_arguments
   const argsStr = JSON.stringify(args);
@@ -98,7 +109,7 @@ function extractTransferAmounts(
           const rec = receiver as Record<string, unknown>;
           if (String(rec.party || "").toLowerCase().includes(partyIdLower.split("::")[1] || "never_match")) {
             result.received = parseCantonAmount(rec.amount as string);
-            result.fee += parseCantonAmount(rec.receiver_fee as string);
+            result.fee = addTokenAmounts(result.fee, parseCantonAmount(rec.receiver_fee as string));
           }
         }
       }
@@ -111,10 +122,11 @@ function extractTransferAmounts(
           const ch = change as Record<string, unknown>;
           if (String(ch.party || "").toLowerCase().includes(partyIdLower.split("::")[1] || "never_match")) {
             const changeAmount = parseCantonAmount(ch.change_to_initial_amount_as_of_round_zero as string);
-            if (changeAmount > 0) {
+            const changeUnits = BigInt(changeAmount.units);
+            if (changeUnits > BigInt(0)) {
               result.received = changeAmount;
-            } else if (changeAmount < 0) {
-              result.sent = Math.abs(changeAmount);
+            } else if (changeUnits < BigInt(0)) {
+              result.sent = absTokenAmount(changeAmount);
             }
           }
         }
@@ -162,6 +174,8 @@ export function normalizeCantonUpdate(
 
     const classification = classifyEvent(event, partyId);
     const amounts = extractTransferAmounts(event, partyId);
+    const sent = tokenAmountToNumber(amounts.sent);
+    const received = tokenAmountToNumber(amounts.received);
 
     // Build notes from event details
     const templateParts = (event.template_id || "").split(":");
@@ -176,12 +190,15 @@ export function normalizeCantonUpdate(
       id: `${update.update_id}-${eventId}`,
       type: classification.type,
       timestamp: new Date(update.effective_at || update.record_time),
-      sentAmount: amounts.sent > 0 ? amounts.sent : null,
-      sentCurrency: amounts.sent > 0 ? CANTON_COIN_SYMBOL : null,
-      receivedAmount: amounts.received > 0 ? amounts.received : null,
-      receivedCurrency: amounts.received > 0 ? CANTON_COIN_SYMBOL : null,
-      feeAmount: amounts.fee,
+      sentAmount: sent > 0 ? sent : null,
+      sentCurrency: sent > 0 ? CANTON_COIN_SYMBOL : null,
+      receivedAmount: received > 0 ? received : null,
+      receivedCurrency: received > 0 ? CANTON_COIN_SYMBOL : null,
+      feeAmount: tokenAmountToNumber(amounts.fee),
       feeCurrency: CANTON_COIN_SYMBOL,
+      sentAmountExact: sent > 0 ? amounts.sent : undefined,
+      receivedAmountExact: received > 0 ? amounts.received : undefined,
+      feeAmountExact: amounts.fee,
       transactionHash: update.update_id,
       notes: notes,
       tag: classification.tag,
@@ -0,0 +1,57 @@
+import { AGGREGATE_FUNDING_OPTION, ChainRequestError, TRANSFERS_OPTION, type ChainOption, type PerpsChainAdapter } from "../adapter";
+import { fetchAllDataForAddress, validateAddress, type DydxAggregatedData } from "./api";
+import { normalizeDydxData, normalizeDydxTransfers, calculateSummary } from "./transactions";
+
+/**
+ * Limits the export to one subaccount (isolated positions each get their own)
+ */
+const SUBACCOUNT_OPTION: ChainOption = {
+  name: "subaccountNumber",
+  aliases: ["subaccount"],
+  type: "string",
+  description: "Only export this subaccount, e.g. 0 (cross margin) or 128 (an isolated position)",
+};
+
+function readSubaccountNumber(value: string | boolean | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    throw new ChainRequestError(
+      "INVALID_OPTION",
+      `Invalid subaccountNumber: ${value}`,
+      "Expected a subaccount number such as 0 or 128"
+    );
+  }
+  return Number(value);
+}
+
+export const dydxAdapter: PerpsChainAdapter<DydxAggregatedData> = {
+  id: "dydx",
+  kind: "perps",
+  name: "dYdX",
+  symbol: "DYDX",
+  description: "Export perpetuals trades, positions, and funding payments",
+  features: ["Trades", "Positions", "Funding", "P&L", "No API Key"],
+  logo: "https://s2.coinmarketcap.com/static/img/coins/64x64/28324.png",
+  color: "#6966FF",
+  input: {
+    type: "address",
+    label: "dYdX Wallet Address",
+    placeholder: "dydx1...",
+    help: "Enter your dYdX v4 wallet address starting with dydx1",
+    format: "dydx1...",
+    options: [SUBACCOUNT_OPTION, AGGREGATE_FUNDING_OPTION, TRANSFERS_OPTION],
+  },
+  documentation: "https://docs.dydx.exchange/api_integration-indexer/indexer_api",
+  explorerTxUrl: "https://www.mintscan.io/dydx/tx/",
+
+  validateAddress: (address) => (validateAddress(address) ? address : null),
+  addressHint: "dYdX v4 addresses must start with 'dydx1' and be 43 characters long.",
+
+  // Addresses without subaccounts come back empty and export no rows
+  fetchRaw: ({ address, options }) =>
+    fetchAllDataForAddress(address, readSubaccountNumber(options.subaccountNumber)),
+  normalize: (raw) => normalizeDydxData(raw.fills, raw.fundingPayments),
+  transfers: (raw) => normalizeDydxTransfers(raw.transfers),
+
+  summarize: (transactions, raw) => ({ ...calculateSummary(transactions, raw.subaccounts.length) }),
+};
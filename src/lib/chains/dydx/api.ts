@@ -204,11 +204,15 @@ export interface DydxAggregatedData {
   subaccounts: DydxSubaccount[];
 }
 
+// subaccountNumber limits the export to that subaccount
 export async function fetchAllDataForAddress(
-  address: string
+  address: string,
+  subaccountNumber?: number
 ): Promise<DydxAggregatedData> {
   // First get all subaccounts
-  const subaccounts = await fetchSubaccounts(address);
+  const subaccounts = (await fetchSubaccounts(address)).filter(
+    (subaccount) => subaccountNumber === undefined || subaccount.subaccountNumber === subaccountNumber
+  );
 
   if (subaccounts.length === 0) {
     return {
@@ -233,7 +237,9 @@ export async function fetchAllDataForAddress(
 
     allFills.push(...fills);
     allTransfers.push(...transfers);
-    allFundingPayments.push(...fundingPayments);
+    allFundingPayments.push(
+      ...fundingPayments.map((payment) => ({ ...payment, subaccountNumber: subaccount.subaccountNumber }))
+    );
   }
 
   return {
@@ -1,6 +1,8 @@
 // dYdX transaction normalizer for Awaken Perps CSV format
 
-import type { PerpsTransaction, PerpsTag } from "@/lib/types";
+import type { NormalizedTransaction, PerpsTransaction } from "@/lib/types";
+import { absTokenAmount, parseTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+import { replayFills, type PerpsFill } from "@/lib/perps";
 import type {
   DydxFill,
   DydxFundingPayment,
@@ -8,6 +10,11 @@ import type {
 } from "./types";
 import { DYDX_MARKETS } from "./types";
 
+// Trim float noise from summing many rows
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
 // Parse market symbol to extract base asset
 function parseMarketAsset(market: string): string {
   // Check known markets first
@@ -25,29 +32,14 @@ function parseMarketAsset(market: string): string {
   return market;
 }
 
-// Determine if a trade is opening or closing a position
-// Uses realized P&L and liquidation status as heuristics
-function determineTradeTag(fill: DydxFill): PerpsTag {
-  // Liquidations are always closing positions
-  if (fill.type === "LIQUIDATED" || fill.type === "LIQUIDATION" || fill.type === "DELEVERAGED") {
-    return "close_position";
-  }
-
-  // For regular trades, we infer based on the trade type
-  // This is a heuristic - in reality we'd need full position tracking
-  // A more sophisticated approach would maintain running position per market
-
-  // Since dYdX fills don't include realized_pnl directly in the fill,
-  // we use a simple heuristic: check if fee is relatively high (taker)
-  // which often indicates market closes
-
-  // Default to open_position for new trades
-  return "open_position";
+// The liquidated or deleveraged side of a fill can only shrink its position
+// (LIQUIDATION is the liquidator's side, which trades like any other fill)
+function isForcedReduction(fill: DydxFill): boolean {
+  return fill.type === "LIQUIDATED" || fill.type === "DELEVERAGED";
 }
 
-// Normalize dYdX fill to Perps transaction
-export function normalizeDydxFill(fill: DydxFill): PerpsTransaction {
-  const tag = determineTradeTag(fill);
+// Convert a dYdX fill to a ledger fill; positions are per subaccount and market
+export function toDydxLedgerFill(fill: DydxFill): PerpsFill {
   const fee = parseFloat(fill.fee) || 0;
   const size = parseFloat(fill.size) || 0;
   const price = parseFloat(fill.price) || 0;
@@ -59,6 +51,7 @@ export function normalizeDydxFill(fill: DydxFill): PerpsTransaction {
     fill.liquidity === "MAKER" ? "Maker" : "Taker",
     fill.type === "LIQUIDATED" || fill.type === "LIQUIDATION" ? "LIQUIDATION" : "",
     fill.type === "DELEVERAGED" ? "DELEVERAGED" : "",
+    `Subaccount ${fill.subaccountNumber}`,
   ]
     .filter(Boolean)
     .join(" | ");
@@ -66,14 +59,18 @@ export function normalizeDydxFill(fill: DydxFill): PerpsTransaction {
   return {
     id: fill.id,
     date: new Date(fill.createdAt),
+    positionKey: `${fill.subaccountNumber}:${fill.market}`,
     asset: parseMarketAsset(fill.market),
-    amount: size,
-    fee: fee,
-    pnl: 0, // dYdX fills don't include P&L directly - would need position tracking
+    sizeDelta: fill.side === "BUY" ? size : -size,
+    price,
+    fee,
     paymentToken: "USDC", // dYdX v4 uses USDC as settlement
-    notes: notes,
+    notes,
     transactionHash: fill.orderId || fill.id,
-    tag: tag,
+    reduceOnly: isForcedReduction(fill),
+    subaccountNumber: fill.subaccountNumber,
+    // The fee on a liquidated fill is the liquidation penalty
+    ...(isForcedReduction(fill) && { liquidation: { fee } }),
   };
 }
 
@@ -93,10 +90,16 @@ export function normalizeDydxFundingPayment(
     `Rate: ${paymentAmount >= 0 ? "+" : ""}${ratePercentage}%`,
     `Position: ${positionSize}`,
     `Price: ${price.toFixed(2)}`,
-  ].join(" | ");
+    payment.subaccountNumber !== undefined ? `Subaccount ${payment.subaccountNumber}` : "",
+  ]
+    .filter(Boolean)
+    .join(" | ");
 
-  // Create a unique ID from the funding payment data
-  const id = `funding-${payment.market}-${payment.effectiveAtHeight}`;
+  // Create a unique ID from the funding payment data (subaccount 0 keeps
+  // the original form; other subaccounts are paid at the same heights)
+  const id = payment.subaccountNumber
+    ? `funding-${payment.market}-${payment.effectiveAtHeight}-${payment.subaccountNumber}`
+    : `funding-${payment.market}-${payment.effectiveAtHeight}`;
 
   return {
     id: id,
@@ -109,35 +112,68 @@ export function normalizeDydxFundingPayment(
     notes: notes,
     transactionHash: id,
     tag: "funding_payment",
+    market: payment.market,
+    ...(payment.subaccountNumber !== undefined && { subaccountNumber: payment.subaccountNumber }),
   };
 }
 
-// Normalize dYdX transfer to note (not a PerpsTransaction but useful for context)
-export function normalizeDydxTransfer(transfer: DydxTransfer): PerpsTransaction | null {
-  const amount = parseFloat(transfer.size) || 0;
+const TRANSFER_LABELS: Record<DydxTransfer["type"], string> = {
+  DEPOSIT: "Deposit",
+  WITHDRAWAL: "Withdrawal",
+  TRANSFER_IN: "Transfer in",
+  TRANSFER_OUT: "Transfer out",
+};
 
-  // For tax purposes, deposits and withdrawals aren't perps transactions
-  // but we can include them with a special tag if needed
-  // For now, we skip them as they're not part of the perps P&L
+// Normalize dYdX transfer to a wallet_transfer row for the companion CSV,
+// seen from the dYdX subaccount: deposits and transfers in are received
+export function normalizeDydxTransfer(transfer: DydxTransfer): NormalizedTransaction {
+  const incoming = transfer.type === "DEPOSIT" || transfer.type === "TRANSFER_IN";
+  const exact = absTokenAmount(parseTokenAmount(transfer.size));
+  const amount = tokenAmountToNumber(exact);
+  const subaccount = incoming ? transfer.recipient : transfer.sender;
+  const counterparty = incoming ? transfer.sender : transfer.recipient;
 
-  if (transfer.type === "DEPOSIT" || transfer.type === "WITHDRAWAL") {
-    return null;
-  }
+  const notes = [
+    `${TRANSFER_LABELS[transfer.type]} ${incoming ? "to" : "from"} subaccount ${subaccount.subaccountNumber ?? 0}`,
+    counterparty.subaccountNumber !== undefined
+      ? `${incoming ? "From" : "To"} ${counterparty.address} subaccount ${counterparty.subaccountNumber}`
+      : `${incoming ? "From" : "To"} ${counterparty.address}`,
+  ].join(" | ");
+
+  return {
+    id: transfer.id,
+    type: incoming ? "transfer_received" : "transfer_sent",
+    timestamp: new Date(transfer.createdAt),
+    sentAmount: incoming ? null : amount,
+    sentCurrency: incoming ? null : transfer.symbol,
+    receivedAmount: incoming ? amount : null,
+    receivedCurrency: incoming ? transfer.symbol : null,
+    feeAmount: 0,
+    feeCurrency: transfer.symbol,
+    ...(incoming ? { receivedAmountExact: exact } : { sentAmountExact: exact }),
+    transactionHash: transfer.transactionHash,
+    notes,
+    tag: "wallet_transfer",
+  };
+}
 
-  return null;
+// Normalize all dYdX transfers, newest first
+export function normalizeDydxTransfers(transfers: DydxTransfer[]): NormalizedTransaction[] {
+  return transfers
+    .map(normalizeDydxTransfer)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
 }
 
 // Normalize all dYdX data to Perps transactions
 export function normalizeDydxData(
   fills: DydxFill[],
-  fundingPayments: DydxFundingPayment[],
-  _transfers: DydxTransfer[] // For future use
+  fundingPayments: DydxFundingPayment[]
 ): PerpsTransaction[] {
   const allTransactions: PerpsTransaction[] = [];
 
-  // Normalize fills (trades)
-  const normalizedFills = fills.map(normalizeDydxFill);
-  allTransactions.push(...normalizedFills);
+  // Replay fills (trades) through the position ledger for open/close and P&L
+  const { transactions: trades } = replayFills(fills.map(toDydxLedgerFill));
+  allTransactions.push(...trades);
 
   // Normalize funding payments
   const normalizedFunding = fundingPayments.map(normalizeDydxFundingPayment);
@@ -149,6 +185,16 @@ export function normalizeDydxData(
   return allTransactions;
 }
 
+// P&L, fees and funding of one subaccount
+export interface DydxSubaccountTotals {
+  subaccountNumber: number;
+  trades: number;
+  totalPnL: number;
+  totalFees: number;
+  // Net funding, also part of totalPnL
+  funding: number;
+}
+
 // Calculate summary statistics
 export interface DydxSummary {
   totalTrades: number;
@@ -159,6 +205,8 @@ export interface DydxSummary {
   totalFees: number;
   tradedAssets: string[];
   subaccounts: number;
+  // Ordered by subaccount number; rows without one are left out
+  subaccountTotals: DydxSubaccountTotals[];
 }
 
 export function calculateSummary(
@@ -174,15 +222,32 @@ export function calculateSummary(
     totalFees: 0,
     tradedAssets: [],
     subaccounts: subaccountCount,
+    subaccountTotals: [],
   };
 
   const assets = new Set<string>();
+  const bySubaccount = new Map<number, DydxSubaccountTotals>();
 
   for (const tx of transactions) {
     summary.totalPnL += tx.pnl;
     summary.totalFees += tx.fee;
     assets.add(tx.asset);
 
+    if (tx.subaccountNumber !== undefined) {
+      const totals = bySubaccount.get(tx.subaccountNumber) ?? {
+        subaccountNumber: tx.subaccountNumber,
+        trades: 0,
+        totalPnL: 0,
+        totalFees: 0,
+        funding: 0,
+      };
+      bySubaccount.set(tx.subaccountNumber, totals);
+      totals.totalPnL += tx.pnl;
+      totals.totalFees += tx.fee;
+      if (tx.tag === "funding_payment") totals.funding += tx.pnl;
+      else totals.trades++;
+    }
+
     switch (tx.tag) {
       case "open_position":
         summary.totalTrades++;
@@ -199,6 +264,14 @@ export function calculateSummary(
   }
 
   summary.tradedAssets = Array.from(assets).sort();
+  summary.subaccountTotals = [...bySubaccount.values()]
+    .sort((a, b) => a.subaccountNumber - b.subaccountNumber)
+    .map((totals) => ({
+      ...totals,
+      totalPnL: roundUsd(totals.totalPnL),
+      totalFees: roundUsd(totals.totalFees),
+      funding: roundUsd(totals.funding),
+    }));
 
   return summary;
 }
@@ -57,6 +57,7 @@ export interface DydxFundingPayment {
   price: string;
   effectiveAt: string;   // ISO timestamp
   effectiveAtHeight: string;
+  subaccountNumber?: number;  // Set from the request; the endpoint is per subaccount
 }
 
 // Position response from dYdX API
@@ -0,0 +1,58 @@
+import { createCurrencyResolver } from "@/lib/pricing/legs";
+import { ChainRequestError, type StandardChainAdapter } from "../adapter";
+import { fetchAllTransactions, verifyAddress } from "./api";
+import { processTransactions } from "./transactions";
+import { isValidErgoAddress } from "./utils";
+import type { ErgoTransaction } from "./types";
+
+function addressNotFound(): ChainRequestError {
+  return new ChainRequestError("ACCOUNT_NOT_FOUND", "Address not found", "This address has no activity on the Ergo network");
+}
+
+async function fetchTransactions(address: string): Promise<ErgoTransaction[]> {
+  if (!(await verifyAddress(address))) {
+    throw addressNotFound();
+  }
+
+  try {
+    return await fetchAllTransactions(address);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      throw addressNotFound();
+    }
+    throw error;
+  }
+}
+
+export const ergoAdapter: StandardChainAdapter<ErgoTransaction[]> = {
+  id: "ergo",
+  kind: "standard",
+  name: "Ergo",
+  symbol: "ERG",
+  description: "Export ERG transfers, token transactions, and mining rewards",
+  features: ["Transfers", "Tokens", "Mining Rewards", "USD Prices"],
+  logo: "https://s2.coinmarketcap.com/static/img/coins/64x64/1762.png",
+  color: "#FF5733",
+  input: {
+    type: "address",
+    label: "Ergo Wallet Address",
+    placeholder: "9...",
+    help: "Enter your Ergo (ERG) wallet address (typically starts with '9' for P2PK addresses)",
+    format: "9...",
+  },
+  explorerTxUrl: "https://explorer.ergoplatform.com/en/transactions/",
+
+  validateAddress: (address) => (isValidErgoAddress(address) ? address : null),
+  addressHint:
+    "Ergo mainnet addresses are Base58-encoded and typically start with '9' (P2PK), '8' (P2SH), or other prefixes",
+
+  fetchRaw: ({ address }) => fetchTransactions(address),
+  normalize: (raw, { address }) => processTransactions(raw, address),
+  currencyResolver: () => createCurrencyResolver("ERG"),
+
+  summarize: (transactions) => ({
+    sent: transactions.filter((tx) => tx.type === "transfer_sent" || tx.type === "token_sent").length,
+    received: transactions.filter((tx) => tx.type === "transfer_received" || tx.type === "token_received").length,
+    totalFees: transactions.reduce((sum, tx) => sum + tx.feeAmount, 0),
+  }),
+};
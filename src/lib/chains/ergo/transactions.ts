@@ -1,8 +1,15 @@
 // Ergo transaction normalization to Awaken CSV format
 
-import type { NormalizedTransaction, TransactionType, AwakenTag } from "@/lib/types";
+import type { NormalizedTransaction, TransactionType, AwakenTag, TokenAmount } from "@/lib/types";
 import type { ErgoTransaction, ErgoInput, ErgoOutput } from "./types";
-import { toErg, normalizeAddress, parseTimestamp, formatTokenAmount } from "./utils";
+import { toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+import { toErgAmount, normalizeAddress, parseTimestamp } from "./utils";
+
+interface TokenTransfer {
+  amount: number;
+  exact: TokenAmount;
+  name: string;
+}
 
 function getTagForType(type: TransactionType): AwakenTag {
   switch (type) {
@@ -22,17 +29,18 @@ function getTagForType(type: TransactionType): AwakenTag {
 function calculateNetFlow(
   tx: ErgoTransaction,
   walletAddress: string
-): { sent: number; received: number; fee: number } {
+): { sent: TokenAmount; received: TokenAmount; fee: TokenAmount } {
   const normalizedWallet = normalizeAddress(walletAddress);
-  let totalInputFromWallet = 0;
-  let totalOutputToWallet = 0;
-  let totalInputs = 0;
-  let totalOutputs = 0;
+  const zero = BigInt(0);
+  let totalInputFromWallet = zero;
+  let totalOutputToWallet = zero;
+  let totalInputs = zero;
+  let totalOutputs = zero;
 
   // Sum inputs from this wallet
   for (const input of tx.inputs) {
     const inputAddress = normalizeAddress(input.address || "");
-    const amount = input.value || 0;
+    const amount = BigInt(input.value || 0);
     totalInputs += amount;
 
     if (inputAddress === normalizedWallet) {
@@ -43,7 +51,7 @@ function calculateNetFlow(
   // Sum outputs to this wallet
   for (const output of tx.outputs) {
     const outputAddress = normalizeAddress(output.address || "");
-    const amount = output.value || 0;
+    const amount = BigInt(output.value || 0);
     totalOutputs += amount;
 
     if (outputAddress === normalizedWallet) {
@@ -52,26 +60,26 @@ function calculateNetFlow(
   }
 
   // Fee is the difference between inputs and outputs
-  const fee = Math.max(0, totalInputs - totalOutputs);
+  const fee = totalInputs > totalOutputs ? totalInputs - totalOutputs : zero;
 
   // If wallet provided inputs, they sent something
   // Net sent = what we put in - what we got back (change)
-  const sent = totalInputFromWallet > 0
-    ? Math.max(0, totalInputFromWallet - totalOutputToWallet)
-    : 0;
+  const sent = totalInputFromWallet > totalOutputToWallet
+    ? totalInputFromWallet - totalOutputToWallet
+    : zero;
 
   // If wallet received outputs but didn't provide inputs, they received
   // Or if wallet received more than they put in
-  const received = totalInputFromWallet === 0 && totalOutputToWallet > 0
+  const received = totalInputFromWallet === zero && totalOutputToWallet > zero
     ? totalOutputToWallet
-    : totalInputFromWallet > 0 && totalOutputToWallet > totalInputFromWallet
+    : totalInputFromWallet > zero && totalOutputToWallet > totalInputFromWallet
       ? totalOutputToWallet - totalInputFromWallet
-      : 0;
+      : zero;
 
   return {
-    sent: toErg(sent),
-    received: toErg(received),
-    fee: sent > 0 ? toErg(fee) : 0, // Only attribute fee if we sent
+    sent: toErgAmount(sent),
+    received: toErgAmount(received),
+    fee: toErgAmount(sent > zero ? fee : zero), // Only attribute fee if we sent
   };
 }
 
@@ -120,19 +128,19 @@ function getCounterparty(
 function getTokenTransfers(
   tx: ErgoTransaction,
   walletAddress: string
-): { sent: { amount: number; name: string } | null; received: { amount: number; name: string } | null } {
+): { sent: TokenTransfer | null; received: TokenTransfer | null } {
   const normalizedWallet = normalizeAddress(walletAddress);
-  let sent: { amount: number; name: string } | null = null;
-  let received: { amount: number; name: string } | null = null;
+  let sent: TokenTransfer | null = null;
+  let received: TokenTransfer | null = null;
 
   // Check outputs for tokens sent TO wallet
   for (const output of tx.outputs) {
     const outputAddress = normalizeAddress(output.address || "");
     if (outputAddress === normalizedWallet && output.assets && output.assets.length > 0) {
       const token = output.assets[0];
-      const amount = formatTokenAmount(token.amount, token.decimals || 0);
+      const exact = toTokenAmount(token.amount, token.decimals || 0);
       const name = token.name || token.tokenId.slice(0, 8);
-      received = { amount, name };
+      received = { amount: tokenAmountToNumber(exact), exact, name };
       break;
     }
   }
@@ -142,9 +150,9 @@ function getTokenTransfers(
     const inputAddress = normalizeAddress(input.address || "");
     if (inputAddress === normalizedWallet && input.assets && input.assets.length > 0) {
       const token = input.assets[0];
-      const amount = formatTokenAmount(token.amount, token.decimals || 0);
+      const exact = toTokenAmount(token.amount, token.decimals || 0);
       const name = token.name || token.tokenId.slice(0, 8);
-      sent = { amount, name };
+      sent = { amount: tokenAmountToNumber(exact), exact, name };
       break;
     }
   }
@@ -157,10 +165,13 @@ function getTokenTransfers(
  */
 export function normalizeTransaction(
   tx: ErgoTransaction,
-  walletAddress: string,
-  ergPrice: number | null
+  walletAddress: string
 ): NormalizedTransaction | null {
-  const { sent, received, fee } = calculateNetFlow(tx, walletAddress);
+  const flow = calculateNetFlow(tx, walletAddress);
+  const sent = tokenAmountToNumber(flow.sent);
+  const received = tokenAmountToNumber(flow.received);
+  const fee = tokenAmountToNumber(flow.fee);
+  const timestamp = parseTimestamp(tx.timestamp);
 
   // Skip if no ERG movement for this wallet
   if (sent === 0 && received === 0) {
@@ -171,7 +182,6 @@ export function normalizeTransaction(
     }
 
     // Token-only transaction
-    const timestamp = parseTimestamp(tx.timestamp);
     const type: TransactionType = tokenTransfers.sent ? "token_sent" : "token_received";
 
     return {
@@ -184,12 +194,14 @@ export function normalizeTransaction(
       receivedCurrency: tokenTransfers.received?.name || null,
       feeAmount: fee,
       feeCurrency: "ERG",
+      sentAmountExact: tokenTransfers.sent?.exact,
+      receivedAmountExact: tokenTransfers.received?.exact,
+      feeAmountExact: flow.fee,
       transactionHash: tx.id,
       notes: tokenTransfers.sent
         ? `Token transfer: ${tokenTransfers.sent.name}`
         : `Token received: ${tokenTransfers.received?.name}`,
       tag: getTagForType(type),
-      fiatPrice: ergPrice ?? undefined,
     };
   }
 
@@ -223,9 +235,6 @@ export function normalizeTransaction(
     }
   }
 
-  // Timestamp is in milliseconds
-  const timestamp = parseTimestamp(tx.timestamp);
-
   return {
     id: tx.id,
     type,
@@ -236,10 +245,12 @@ export function normalizeTransaction(
     receivedCurrency: received > 0 ? "ERG" : null,
     feeAmount: fee,
     feeCurrency: "ERG",
+    sentAmountExact: sent > 0 ? flow.sent : undefined,
+    receivedAmountExact: received > 0 ? flow.received : undefined,
+    feeAmountExact: flow.fee,
     transactionHash: tx.id,
     notes,
     tag: getTagForType(type),
-    fiatPrice: ergPrice ?? undefined,
   };
 }
 
@@ -248,8 +259,7 @@ export function normalizeTransaction(
  */
 export function processTransactions(
   transactions: ErgoTransaction[],
-  walletAddress: string,
-  ergPrice: number | null
+  walletAddress: string
 ): NormalizedTransaction[] {
   const normalized: NormalizedTransaction[] = [];
   const seenIds = new Set<string>();
@@ -261,7 +271,7 @@ export function processTransactions(
     }
     seenIds.add(tx.id);
 
-    const result = normalizeTransaction(tx, walletAddress, ergPrice);
+    const result = normalizeTransaction(tx, walletAddress);
     if (result) {
       normalized.push(result);
     }
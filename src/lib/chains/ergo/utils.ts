@@ -1,17 +1,24 @@
 // Ergo utility functions
 
+import type { TokenAmount } from "@/lib/types";
+import { toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+
 // 1 ERG = 10^9 nanoERG (9 decimals)
 const ERG_DECIMALS = 9;
 const ERG_DIVISOR = 10 ** ERG_DECIMALS;
 
+/**
+ * Convert nanoERG to an exact ERG amount
+ */
+export function toErgAmount(nanoErg: number | string | bigint): TokenAmount {
+  return toTokenAmount(nanoErg || 0, ERG_DECIMALS);
+}
+
 /**
  * Convert nanoERG to ERG
  */
 export function toErg(nanoErg: number | string): number {
-  if (!nanoErg || nanoErg === 0 || nanoErg === "0") return 0;
-
-  const value = typeof nanoErg === "string" ? parseInt(nanoErg, 10) : nanoErg;
-  return value / ERG_DIVISOR;
+  return tokenAmountToNumber(toErgAmount(nanoErg));
 }
 
 /**
@@ -94,8 +101,7 @@ export function truncateAddress(address: string, chars = 8): string {
  * Format token amount with decimals
  */
 export function formatTokenAmount(amount: number, decimals: number = 0): number {
-  if (decimals === 0) return amount;
-  return amount / 10 ** decimals;
+  return tokenAmountToNumber(toTokenAmount(amount, decimals));
 }
 
 /**
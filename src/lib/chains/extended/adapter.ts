@@ -0,0 +1,101 @@
+import { AGGREGATE_FUNDING_OPTION, ChainRequestError, TRANSFERS_OPTION, type PerpsChainAdapter } from "../adapter";
+import {
+  fetchAllTrades,
+  fetchAllFundingPayments,
+  fetchAllAssetOperations,
+  fetchOpenPositions,
+  fetchPositionHistory,
+  validateApiKey,
+} from "./api";
+import {
+  normalizeExtendedData,
+  normalizeExtendedAssetOperations,
+  flagTradesWithoutPositions,
+  calculateSummary,
+} from "./transactions";
+import type {
+  ExtendedAssetOperation,
+  ExtendedClosedPosition,
+  ExtendedFundingPayment,
+  ExtendedPosition,
+  ExtendedTrade,
+} from "./types";
+
+interface ExtendedRawData {
+  trades: ExtendedTrade[];
+  fundingPayments: ExtendedFundingPayment[];
+  assetOperations: ExtendedAssetOperation[];
+  openPositions: ExtendedPosition[];
+  closedPositions: ExtendedClosedPosition[];
+  /** A position endpoint failed; trades are classified from the ledger alone */
+  positionsUnavailable?: boolean;
+}
+
+// Positions only sharpen how trades are classified, so an export goes on
+// without them
+async function fetchPositions(
+  apiKey: string
+): Promise<Pick<ExtendedRawData, "openPositions" | "closedPositions" | "positionsUnavailable">> {
+  try {
+    const [openPositions, closedPositions] = await Promise.all([
+      fetchOpenPositions(apiKey),
+      fetchPositionHistory(apiKey),
+    ]);
+    return { openPositions, closedPositions };
+  } catch (error) {
+    console.warn("Extended positions not available:", error);
+    return { openPositions: [], closedPositions: [], positionsUnavailable: true };
+  }
+}
+
+export const extendedAdapter: PerpsChainAdapter<ExtendedRawData> = {
+  id: "extended",
+  kind: "perps",
+  name: "Extended",
+  symbol: "PERPS",
+  description: "Export perpetuals trades, positions, and funding payments",
+  features: ["Trades", "Positions", "Funding", "P&L"],
+  logo: "/logos/extended.svg",
+  color: "#EC796B",
+  input: {
+    type: "apiKey",
+    label: "Extended API Key",
+    placeholder: "Enter your Extended API key",
+    help: "Create an API key in your Extended account settings. No Stark key required.",
+    format: "API Key required",
+    options: [AGGREGATE_FUNDING_OPTION, TRANSFERS_OPTION],
+  },
+  documentation: "https://api.docs.extended.exchange/",
+
+  // API keys can only be checked against the API itself, in fetchRaw
+  validateAddress: (apiKey) => apiKey.trim() || null,
+  addressHint: "Create an API key in your Extended account settings.",
+
+  async fetchRaw({ address: apiKey }) {
+    if (!(await validateApiKey(apiKey))) {
+      throw new ChainRequestError(
+        "INVALID_API_KEY",
+        "Invalid API key",
+        "The API key could not be validated. Please check your Extended API key and try again."
+      );
+    }
+
+    const [trades, fundingPayments, assetOperations, positions] = await Promise.all([
+      fetchAllTrades(apiKey),
+      fetchAllFundingPayments(apiKey),
+      fetchAllAssetOperations(apiKey),
+      fetchPositions(apiKey),
+    ]);
+    return { trades, fundingPayments, assetOperations, ...positions };
+  },
+  normalize: (raw) => {
+    const transactions = normalizeExtendedData(raw.trades, raw.fundingPayments, [
+      ...raw.closedPositions,
+      ...raw.openPositions,
+    ]);
+    return raw.positionsUnavailable ? flagTradesWithoutPositions(transactions) : transactions;
+  },
+  transfers: (raw) => normalizeExtendedAssetOperations(raw.assetOperations),
+
+  summarize: (transactions) => ({ ...calculateSummary(transactions) }),
+};
@@ -5,6 +5,8 @@ import {
   type ExtendedTrade,
   type ExtendedFundingPayment,
   type ExtendedAssetOperation,
+  type ExtendedPosition,
+  type ExtendedClosedPosition,
   type ExtendedPaginatedResponse,
   EXTENDED_API_BASE,
 } from "./types";
@@ -186,6 +188,74 @@ export async function fetchAllAssetOperations(
   return allOperations;
 }
 
+// Fetch currently open positions (one page; an account has at most one
+// position per market)
+export async function fetchOpenPositions(apiKey: string): Promise<ExtendedPosition[]> {
+  const url = `${EXTENDED_API_BASE}/v1/positions`;
+
+  const response = await rateLimitedFetch(url, {
+    method: "GET",
+    headers: getAuthHeaders(apiKey),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Extended API error (${response.status}): ${errorText}`);
+  }
+
+  const data: ExtendedPaginatedResponse<ExtendedPosition> = await response.json();
+  return data.data;
+}
+
+// Fetch all closed positions with pagination
+export async function fetchPositionHistory(
+  apiKey: string,
+  options?: {
+    market?: string;
+    startTime?: number;
+    endTime?: number;
+  }
+): Promise<ExtendedClosedPosition[]> {
+  const allPositions: ExtendedClosedPosition[] = [];
+  let cursor: string | undefined;
+  let hasMore = true;
+
+  while (hasMore) {
+    const params = new URLSearchParams();
+    if (options?.market) params.set("market", options.market);
+    if (options?.startTime) params.set("start_time", options.startTime.toString());
+    if (options?.endTime) params.set("end_time", options.endTime.toString());
+    if (cursor) params.set("cursor", cursor);
+    params.set("limit", "100");
+
+    const url = `${EXTENDED_API_BASE}/v1/positions/history?${params.toString()}`;
+
+    const response = await rateLimitedFetch(url, {
+      method: "GET",
+      headers: getAuthHeaders(apiKey),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Extended API error (${response.status}): ${errorText}`);
+    }
+
+    const data: ExtendedPaginatedResponse<ExtendedClosedPosition> = await response.json();
+    allPositions.push(...data.data);
+
+    cursor = data.cursor;
+    hasMore = data.has_more;
+
+    // Safety limit
+    if (allPositions.length >= 10000) {
+      console.warn("Reached 10,000 closed positions limit, stopping pagination");
+      break;
+    }
+  }
+
+  return allPositions;
+}
+
 // Validate API key by making a simple account request
 export async function validateApiKey(apiKey: string): Promise<boolean> {
   try {
@@ -1,10 +1,13 @@
 // Extended transaction normalizer for Awaken Perps CSV format
 
-import type { PerpsTransaction, PerpsTag } from "@/lib/types";
+import type { NormalizedTransaction, PerpsTransaction } from "@/lib/types";
+import { absTokenAmount, parseTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+import { replayFills, type PerpsFill } from "@/lib/perps";
 import type {
   ExtendedTrade,
   ExtendedFundingPayment,
   ExtendedAssetOperation,
+  ExtendedPositionSpan,
 } from "./types";
 import { EXTENDED_MARKETS } from "./types";
 
@@ -25,39 +28,93 @@ function parseMarketAsset(market: string): string {
   return market;
 }
 
-// Determine if a trade is opening or closing a position
-// This is a heuristic - in reality, we'd need position data to be certain
-function determineTradeTag(
-  trade: ExtendedTrade,
-  tradeIndex: number,
-  allTrades: ExtendedTrade[]
-): PerpsTag {
-  // If there's realized PnL, it's closing (at least partially)
-  const realizedPnl = parseFloat(trade.realized_pnl);
-  if (realizedPnl !== 0) {
-    return "close_position";
-  }
+// How a trade relates to the position it traded against
+export interface ExtendedTradeMatch {
+  positionId: string;
+  /** Trades against the position's side */
+  reduces: boolean;
+  /** Closes the position while the next one opens on the other side */
+  flips: boolean;
+  /** A reduction of a position no trade in the history grew */
+  openedBeforeHistory: boolean;
+  /**
+   * A flip of a position opened before the history: the size left of it (its
+   * largest size less the history's earlier reductions), which the trade
+   * closes before reopening the rest
+   */
+  closedSize?: number;
+}
+
+/**
+ * Match each trade to the position on its market whose lifetime covers it,
+ * using the open and closed positions. At a flip one position closes and the
+ * next opens at the trade's time: a trade against the closing position's side
+ * matches that one, any other the new one. Trades no position covers
+ * (positions missing from the history) are left out.
+ */
+export function matchTradesToPositions(
+  trades: ExtendedTrade[],
+  positions: ExtendedPositionSpan[]
+): Map<string, ExtendedTradeMatch> {
+  const matches = new Map<string, ExtendedTradeMatch>();
+  const grown = new Set<string>();
+  // Size each position has been reduced by so far
+  const reduced = new Map<string, number>();
+  const spans = positions.map((position) => ({
+    position,
+    opened: Date.parse(position.created_at),
+    closed: position.closed_at ? Date.parse(position.closed_at) : Infinity,
+  }));
+  const ordered = [...trades].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
 
-  // If it's a liquidation, it's always a close
-  if (trade.is_liquidation) {
-    return "close_position";
+  for (const trade of ordered) {
+    const time = Date.parse(trade.timestamp);
+    const covering = spans.filter(
+      (span) => span.position.market === trade.market && span.opened <= time && time <= span.closed
+    );
+    const against = (candidate: (typeof spans)[number]) =>
+      (trade.side === "buy") !== (candidate.position.side === "long");
+    const span =
+      covering.find((candidate) => candidate.closed === time && against(candidate)) ??
+      covering.find((candidate) => candidate.opened === time && !against(candidate)) ??
+      covering[0];
+    if (!span) continue;
+
+    const { position } = span;
+    const size = parseFloat(trade.size) || 0;
+    const reduces = against(span);
+    const reopened = reduces ? covering.find((other) => other !== span && other.opened === time) : undefined;
+    const openedBeforeHistory = reduces && !grown.has(position.id);
+    if (!reduces) grown.add(position.id);
+    // The flip opened the next position inside the history
+    if (reopened) grown.add(reopened.position.id);
+
+    const match: ExtendedTradeMatch = {
+      positionId: position.id,
+      reduces,
+      flips: reopened !== undefined,
+      openedBeforeHistory,
+    };
+    if (reopened && openedBeforeHistory && position.max_size !== undefined) {
+      const left = (parseFloat(position.max_size) || 0) - (reduced.get(position.id) ?? 0);
+      match.closedSize = Math.min(size, Math.max(0, left));
+    }
+    if (reduces) reduced.set(position.id, (reduced.get(position.id) ?? 0) + (match.closedSize ?? size));
+    matches.set(trade.id, match);
   }
 
-  // Otherwise, assume it's an open
-  // A more sophisticated approach would track running position per market
-  return "open_position";
+  return matches;
 }
 
-// Normalize Extended trade to Perps transaction
-export function normalizeExtendedTrade(
-  trade: ExtendedTrade,
-  tradeIndex: number,
-  allTrades: ExtendedTrade[]
-): PerpsTransaction {
-  const tag = determineTradeTag(trade, tradeIndex, allTrades);
-  const realizedPnl = parseFloat(trade.realized_pnl) || 0;
+// Convert an Extended trade to a ledger fill; positions are per market. With
+// its matched position, a trade against the position's side is a close even
+// when its open is missing from the history, and then carries Extended's
+// realized P&L since there's no entry price to compute it from. A flip of
+// such a position closes only what was left of it and reopens the rest.
+export function toExtendedLedgerFill(trade: ExtendedTrade, match?: ExtendedTradeMatch): PerpsFill {
   const fee = parseFloat(trade.fee) || 0;
   const size = parseFloat(trade.size) || 0;
+  const price = parseFloat(trade.price) || 0;
 
   // Build notes based on trade details
   const notes = [
@@ -72,14 +129,19 @@ export function normalizeExtendedTrade(
   return {
     id: trade.id,
     date: new Date(trade.timestamp),
+    positionKey: trade.market,
     asset: parseMarketAsset(trade.market),
-    amount: size,
-    fee: fee,
-    pnl: realizedPnl,
+    sizeDelta: trade.side === "buy" ? size : -size,
+    price,
+    fee,
     paymentToken: trade.fee_asset || "USDC",
-    notes: notes,
+    notes,
     transactionHash: trade.order_id || trade.id,
-    tag: tag,
+    // A flip is split by the ledger, which needs the position's open to size the close
+    reduceOnly: trade.is_liquidation || (match?.reduces === true && (!match.flips || match.openedBeforeHistory)),
+    ...(match?.closedSize !== undefined && { reduceOnlySize: match.closedSize }),
+    ...(match?.openedBeforeHistory && { realizedPnl: parseFloat(trade.realized_pnl) || 0 }),
+    ...(trade.is_liquidation && { liquidation: { fee } }),
   };
 }
 
@@ -110,20 +172,70 @@ export function normalizeExtendedFundingPayment(
     notes: notes,
     transactionHash: payment.id,
     tag: "funding_payment",
+    market: payment.market,
   };
 }
 
+const OPERATION_LABELS: Record<ExtendedAssetOperation["type"], string> = {
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  transfer_in: "Transfer in",
+  transfer_out: "Transfer out",
+};
+
+// Normalize Extended asset operation to a wallet_transfer row for the
+// companion CSV, seen from the Extended account: deposits are received
+export function normalizeExtendedAssetOperation(operation: ExtendedAssetOperation): NormalizedTransaction {
+  const incoming = operation.type === "deposit" || operation.type === "transfer_in";
+  const exact = absTokenAmount(parseTokenAmount(operation.amount));
+  const amount = tokenAmountToNumber(exact);
+
+  const notes = [
+    OPERATION_LABELS[operation.type],
+    operation.chain ? `via ${operation.chain}` : "",
+  ]
+    .filter(Boolean)
+    .join(" | ");
+
+  return {
+    id: operation.id,
+    type: incoming ? "transfer_received" : "transfer_sent",
+    timestamp: new Date(operation.timestamp),
+    sentAmount: incoming ? null : amount,
+    sentCurrency: incoming ? null : operation.asset,
+    receivedAmount: incoming ? amount : null,
+    receivedCurrency: incoming ? operation.asset : null,
+    feeAmount: 0,
+    feeCurrency: operation.asset,
+    ...(incoming ? { receivedAmountExact: exact } : { sentAmountExact: exact }),
+    transactionHash: operation.tx_hash || operation.id,
+    notes,
+    tag: "wallet_transfer",
+  };
+}
+
+// Normalize completed asset operations, newest first (pending and failed
+// operations never moved funds)
+export function normalizeExtendedAssetOperations(operations: ExtendedAssetOperation[]): NormalizedTransaction[] {
+  return operations
+    .filter((operation) => operation.status === "completed")
+    .map(normalizeExtendedAssetOperation)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
 // Normalize all Extended data to Perps transactions
 export function normalizeExtendedData(
   trades: ExtendedTrade[],
   fundingPayments: ExtendedFundingPayment[],
-  _assetOperations: ExtendedAssetOperation[]  // For future use (deposits/withdrawals)
+  positions: ExtendedPositionSpan[] = []
 ): PerpsTransaction[] {
   const allTransactions: PerpsTransaction[] = [];
 
-  // Normalize trades
-  const normalizedTrades = trades.map((trade, index) =>
-    normalizeExtendedTrade(trade, index, trades)
+  // Replay trades through the position ledger for open/close and P&L, each
+  // classified against the position it traded on
+  const matches = matchTradesToPositions(trades, positions);
+  const { transactions: normalizedTrades } = replayFills(
+    trades.map((trade) => toExtendedLedgerFill(trade, matches.get(trade.id)))
   );
   allTransactions.push(...normalizedTrades);
 
@@ -137,6 +249,23 @@ export function normalizeExtendedData(
   return allTransactions;
 }
 
+// Flag trade rows classified without the position endpoints: the ledger
+// only sees the history's own trades, so opens before it are guesses
+export function flagTradesWithoutPositions(transactions: PerpsTransaction[]): PerpsTransaction[] {
+  return transactions.map((tx) =>
+    tx.tag === "funding_payment"
+      ? tx
+      : {
+          ...tx,
+          isAmbiguous: true,
+          ambiguousReasons: [
+            ...(tx.ambiguousReasons ?? []),
+            "Positions unavailable; open/close inferred from the trade history alone",
+          ],
+        }
+  );
+}
+
 // Calculate summary statistics
 export interface ExtendedSummary {
   totalTrades: number;
@@ -58,8 +58,9 @@ export interface ExtendedAssetOperation {
   chain?: string;
 }
 
-// Position from Extended API
+// Open position from /v1/positions
 export interface ExtendedPosition {
+  id: string;
   market: string;
   side: "long" | "short";
   size: string;
@@ -70,8 +71,29 @@ export interface ExtendedPosition {
   realized_pnl: string;
   margin: string;
   leverage: string;
+  created_at: string;  // ISO 8601
+}
+
+// Closed position from /v1/positions/history
+export interface ExtendedClosedPosition {
+  id: string;
+  market: string;
+  side: "long" | "short";
+  max_size: string;
+  entry_price: string;
+  exit_price: string;
+  realized_pnl: string;
+  leverage: string;
+  created_at: string;  // ISO 8601
+  closed_at: string;  // ISO 8601
+  exit_type: "trade" | "liquidation" | "adl";
 }
 
+// What trades are matched against: a position's market, side and lifetime
+// (and, once closed, its largest size)
+export type ExtendedPositionSpan = Pick<ExtendedPosition, "id" | "market" | "side" | "created_at"> &
+  Partial<Pick<ExtendedClosedPosition, "closed_at" | "max_size">>;
+
 // Account balance
 export interface ExtendedBalance {
   asset: string;
@@ -0,0 +1,54 @@
+import { createCurrencyResolver } from "@/lib/pricing/legs";
+import { ChainRequestError, type StandardChainAdapter } from "../adapter";
+import { fetchAllTransactions, fetchTokenTransfers, verifyAddress } from "./api";
+import { processTransactions } from "./transactions";
+import { isValidGlueAddress } from "./utils";
+import type { GlueTokenTransfer, GlueTransaction } from "./types";
+
+interface GlueRawData {
+  transactions: GlueTransaction[];
+  tokenTransfers: GlueTokenTransfer[];
+}
+
+export const glueAdapter: StandardChainAdapter<GlueRawData> = {
+  id: "glue",
+  kind: "standard",
+  name: "Glue Network",
+  symbol: "GLUE",
+  description: "Export GLUE transfers, token transactions, and cross-chain activity",
+  features: ["Transfers", "Tokens", "Cross-Chain", "USD Prices"],
+  logo: "https://glue.net/wp-content/themes/glue/dist/img/favicon/apple-touch-icon.png",
+  color: "#00D4AA",
+  input: {
+    type: "address",
+    label: "Glue Network Address",
+    placeholder: "0x...",
+    help: "Enter your Glue Network (GLUE) wallet address starting with '0x'",
+    format: "0x...",
+  },
+  explorerTxUrl: "https://backend.explorer.mainnet.prod.gke.glue.net/tx/",
+
+  validateAddress: (address) => (isValidGlueAddress(address) ? address : null),
+  addressHint: "Glue addresses are EVM-compatible and start with '0x' followed by 40 hex characters",
+
+  async fetchRaw({ address }) {
+    if (!(await verifyAddress(address))) {
+      throw new ChainRequestError("ACCOUNT_NOT_FOUND", "Address not found", "This address has no activity on the Glue network");
+    }
+
+    // Transactions and token transfers come from separate endpoints
+    const [transactions, tokenTransfers] = await Promise.all([
+      fetchAllTransactions(address),
+      fetchTokenTransfers(address),
+    ]);
+    return { transactions, tokenTransfers };
+  },
+  normalize: (raw, { address }) => processTransactions(raw.transactions, raw.tokenTransfers, address),
+  currencyResolver: () => createCurrencyResolver("GLUE"),
+
+  summarize: (transactions) => ({
+    sent: transactions.filter((tx) => tx.type === "transfer_sent" || tx.type === "token_sent").length,
+    received: transactions.filter((tx) => tx.type === "transfer_received" || tx.type === "token_received").length,
+    totalFees: transactions.reduce((sum, tx) => sum + tx.feeAmount, 0),
+  }),
+};
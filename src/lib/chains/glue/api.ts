@@ -9,10 +9,6 @@ import type {
 const API_BASE = "https://backend.explorer.mainnet.prod.gke.glue.net/api";
 const MAX_PAGE_SIZE = 100;
 
-// Price cache
-let priceCache: { price: number; timestamp: number } | null = null;
-const PRICE_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
 async function fetchWithRetry<T>(
   url: string,
   retries = 3
@@ -146,40 +142,6 @@ export async function fetchTokenTransfers(
   return allTransfers;
 }
 
-/**
- * Get current GLUE price in USD from CoinGecko
- */
-export async function getGluePrice(): Promise<number | null> {
-  // Check cache
-  const now = Date.now();
-  if (priceCache && now - priceCache.timestamp < PRICE_CACHE_TTL) {
-    return priceCache.price;
-  }
-
-  try {
-    const response = await fetch(
-      "https://api.coingecko.com/api/v3/simple/price?ids=glue&vs_currencies=usd"
-    );
-
-    if (!response.ok) {
-      throw new Error(`CoinGecko API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const price = data.glue?.usd;
-
-    if (typeof price === "number") {
-      priceCache = { price, timestamp: now };
-      return price;
-    }
-
-    return null;
-  } catch (error) {
-    console.warn("Failed to fetch GLUE price:", error);
-    return null;
-  }
-}
-
 /**
  * Verify an address exists by checking its balance or transactions
  */
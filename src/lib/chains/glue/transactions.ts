@@ -2,7 +2,8 @@
 
 import type { NormalizedTransaction, TransactionType, AwakenTag } from "@/lib/types";
 import type { GlueTransaction, GlueTokenTransfer } from "./types";
-import { toGlue, normalizeAddress, parseTimestamp, calculateGasCost } from "./utils";
+import { toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+import { toGlueAmount, normalizeAddress, parseTimestamp, calculateGasCostAmount } from "./utils";
 
 function getTagForType(type: TransactionType): AwakenTag {
   switch (type) {
@@ -24,8 +25,7 @@ function getTagForType(type: TransactionType): AwakenTag {
  */
 export function normalizeTransaction(
   tx: GlueTransaction,
-  walletAddress: string,
-  gluePrice: number | null
+  walletAddress: string
 ): NormalizedTransaction | null {
   const normalizedWallet = normalizeAddress(walletAddress);
   const from = normalizeAddress(tx.from);
@@ -45,8 +45,10 @@ export function normalizeTransaction(
     return null;
   }
 
-  const value = toGlue(tx.value);
-  const gasCost = calculateGasCost(tx.gasUsed, tx.gasPrice);
+  const exactValue = toGlueAmount(tx.value);
+  const exactGas = calculateGasCostAmount(tx.gasUsed, tx.gasPrice);
+  const value = tokenAmountToNumber(exactValue);
+  const gasCost = tokenAmountToNumber(exactGas);
   const timestamp = parseTimestamp(tx.timeStamp);
 
   // Self-transfer (same address sends to itself)
@@ -61,10 +63,11 @@ export function normalizeTransaction(
       receivedCurrency: null,
       feeAmount: gasCost,
       feeCurrency: "GLUE",
+      sentAmountExact: exactGas,
+      feeAmountExact: exactGas,
       transactionHash: tx.hash,
       notes: "Self-transfer (gas only)",
       tag: "payment",
-      fiatPrice: gluePrice ?? undefined,
     };
   }
 
@@ -87,10 +90,11 @@ export function normalizeTransaction(
         receivedCurrency: null,
         feeAmount: gasCost,
         feeCurrency: "GLUE",
+        sentAmountExact: exactGas,
+        feeAmountExact: exactGas,
         transactionHash: tx.hash,
         notes: "Contract interaction (gas only)",
         tag: "payment",
-        fiatPrice: gluePrice ?? undefined,
       };
     }
 
@@ -104,10 +108,11 @@ export function normalizeTransaction(
       receivedCurrency: null,
       feeAmount: gasCost,
       feeCurrency: "GLUE",
+      sentAmountExact: exactValue,
+      feeAmountExact: exactGas,
       transactionHash: tx.hash,
       notes,
       tag: getTagForType(type),
-      fiatPrice: gluePrice ?? undefined,
     };
   }
 
@@ -128,10 +133,10 @@ export function normalizeTransaction(
       receivedCurrency: "GLUE",
       feeAmount: 0, // Receiver doesn't pay gas
       feeCurrency: "GLUE",
+      receivedAmountExact: exactValue,
       transactionHash: tx.hash,
       notes,
       tag: getTagForType(type),
-      fiatPrice: gluePrice ?? undefined,
     };
   }
 
@@ -143,8 +148,7 @@ export function normalizeTransaction(
  */
 export function normalizeTokenTransfer(
   transfer: GlueTokenTransfer,
-  walletAddress: string,
-  gluePrice: number | null
+  walletAddress: string
 ): NormalizedTransaction | null {
   const normalizedWallet = normalizeAddress(walletAddress);
   const from = normalizeAddress(transfer.from);
@@ -158,10 +162,12 @@ export function normalizeTokenTransfer(
   }
 
   const decimals = parseInt(transfer.tokenDecimal, 10) || 18;
-  const amount = Number(BigInt(transfer.value)) / 10 ** decimals;
+  const exactAmount = toTokenAmount(transfer.value, decimals);
+  const amount = tokenAmountToNumber(exactAmount);
   const tokenSymbol = transfer.tokenSymbol || "TOKEN";
   const timestamp = parseTimestamp(transfer.timeStamp);
-  const gasCost = calculateGasCost(transfer.gasUsed, transfer.gasPrice);
+  const exactGas = calculateGasCostAmount(transfer.gasUsed, transfer.gasPrice);
+  const gasCost = tokenAmountToNumber(exactGas);
 
   if (isSender) {
     return {
@@ -174,10 +180,11 @@ export function normalizeTokenTransfer(
       receivedCurrency: null,
       feeAmount: gasCost,
       feeCurrency: "GLUE",
+      sentAmountExact: exactAmount,
+      feeAmountExact: exactGas,
       transactionHash: transfer.hash,
       notes: `Token transfer: ${tokenSymbol} to ${to.slice(0, 10)}...`,
       tag: "payment",
-      fiatPrice: gluePrice ?? undefined,
     };
   }
 
@@ -191,10 +198,10 @@ export function normalizeTokenTransfer(
     receivedCurrency: tokenSymbol,
     feeAmount: 0,
     feeCurrency: "GLUE",
+    receivedAmountExact: exactAmount,
     transactionHash: transfer.hash,
     notes: `Token received: ${tokenSymbol} from ${from.slice(0, 10)}...`,
     tag: "receive",
-    fiatPrice: gluePrice ?? undefined,
   };
 }
 
@@ -204,8 +211,7 @@ export function normalizeTokenTransfer(
 export function processTransactions(
   transactions: GlueTransaction[],
   tokenTransfers: GlueTokenTransfer[],
-  walletAddress: string,
-  gluePrice: number | null
+  walletAddress: string
 ): NormalizedTransaction[] {
   const normalized: NormalizedTransaction[] = [];
   const seenIds = new Set<string>();
@@ -214,7 +220,7 @@ export function processTransactions(
   for (const tx of transactions) {
     if (seenIds.has(tx.hash)) continue;
 
-    const result = normalizeTransaction(tx, walletAddress, gluePrice);
+    const result = normalizeTransaction(tx, walletAddress);
     if (result) {
       seenIds.add(result.id);
       normalized.push(result);
@@ -226,7 +232,7 @@ export function processTransactions(
     const id = `${transfer.hash}-${transfer.logIndex}`;
     if (seenIds.has(id)) continue;
 
-    const result = normalizeTokenTransfer(transfer, walletAddress, gluePrice);
+    const result = normalizeTokenTransfer(transfer, walletAddress);
     if (result) {
       seenIds.add(result.id);
       normalized.push(result);
@@ -1,19 +1,25 @@
 // Glue Network utility functions
 
+import type { TokenAmount } from "@/lib/types";
+import { toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+
 // GLUE uses 18 decimals (standard EVM)
 const GLUE_DECIMALS = 18;
 const GLUE_DIVISOR = 10 ** GLUE_DECIMALS;
 
+/**
+ * Convert wei to an exact GLUE amount
+ */
+export function toGlueAmount(wei: string | number | bigint): TokenAmount {
+  const value = typeof wei === "number" ? Math.floor(wei) : wei || 0;
+  return toTokenAmount(value, GLUE_DECIMALS);
+}
+
 /**
  * Convert wei to GLUE
  */
 export function toGlue(wei: string | number): number {
-  if (!wei || wei === "0") return 0;
-
-  const value = typeof wei === "string" ? BigInt(wei) : BigInt(Math.floor(wei));
-  // Use BigInt division for precision, then convert to number
-  const glue = Number(value) / GLUE_DIVISOR;
-  return glue;
+  return tokenAmountToNumber(toGlueAmount(wei));
 }
 
 /**
@@ -74,12 +80,16 @@ export function parseTimestamp(timestamp: string | number): Date {
   return new Date(ts * 1000);
 }
 
+/**
+ * Calculate the exact gas cost in GLUE
+ */
+export function calculateGasCostAmount(gasUsed: string, gasPrice: string): TokenAmount {
+  return toGlueAmount(BigInt(gasUsed) * BigInt(gasPrice));
+}
+
 /**
  * Calculate gas cost in GLUE
  */
 export function calculateGasCost(gasUsed: string, gasPrice: string): number {
-  const used = BigInt(gasUsed);
-  const price = BigInt(gasPrice);
-  const costWei = used * price;
-  return toGlue(costWei.toString());
+  return tokenAmountToNumber(calculateGasCostAmount(gasUsed, gasPrice));
 }
@@ -0,0 +1,58 @@
+import { TRANSFERS_OPTION, type ChainOption, type PerpsChainAdapter } from "../adapter";
+import { fetchAllDataForAddress, validateAddress, type GmxAggregatedData } from "./api";
+import { normalizeGmxDeployments, normalizeGmxDeploymentTransfers, calculateSummary } from "./transactions";
+import { GMX_DEFAULT_DEPLOYMENT, GMX_DEPLOYMENTS, type GmxNetwork } from "./types";
+
+function toTimestamp(date: string | undefined): number | undefined {
+  return date ? Math.floor(new Date(date).getTime() / 1000) : undefined;
+}
+
+/**
+ * Which GMX deployment to export, or all of them into one CSV
+ */
+const NETWORK_OPTION: ChainOption = {
+  name: "network",
+  type: "string",
+  description: "arbitrum (default), avalanche, arbitrum-v1, avalanche-v1, or all to export every deployment into one CSV",
+  defaultValue: GMX_DEFAULT_DEPLOYMENT.id,
+  choices: [
+    ...Object.values(GMX_DEPLOYMENTS).map((deployment) => ({ value: deployment.id, label: deployment.name })),
+    { value: "all", label: "All deployments" },
+  ],
+  ui: {
+    label: "Deployment",
+    placeholder: "",
+    help: "Where you traded (V1 or V2, Arbitrum or Avalanche), or all of them combined into one CSV",
+  },
+};
+
+export const gmxAdapter: PerpsChainAdapter<GmxAggregatedData> = {
+  id: "gmx",
+  kind: "perps",
+  name: "GMX",
+  symbol: "GMX",
+  description: "Export perpetuals trades, positions, and funding payments on Arbitrum and Avalanche (V1 and V2)",
+  features: ["Trades", "Positions", "Funding", "P&L", "Arbitrum", "Avalanche"],
+  logo: "https://s2.coinmarketcap.com/static/img/coins/64x64/11857.png",
+  color: "#2D42FC",
+  input: {
+    type: "address",
+    label: "Ethereum Wallet Address",
+    placeholder: "0x...",
+    help: "Enter your Ethereum wallet address used on GMX (Arbitrum or Avalanche)",
+    format: "0x...",
+    options: [NETWORK_OPTION, TRANSFERS_OPTION],
+  },
+  documentation: "https://docs.gmx.io/",
+  explorerTxUrl: "https://arbiscan.io/tx/",
+
+  validateAddress: (address) => (validateAddress(address) ? address : null),
+  addressHint: "GMX uses Ethereum addresses. Must be a 42-character hex address starting with 0x.",
+
+  fetchRaw: ({ address, startDate, endDate, options }) =>
+    fetchAllDataForAddress(address, toTimestamp(startDate), toTimestamp(endDate), options.network as GmxNetwork),
+  normalize: (raw) => normalizeGmxDeployments(raw.deployments),
+  transfers: (raw) => normalizeGmxDeploymentTransfers(raw.deployments),
+
+  summarize: (transactions) => ({ ...calculateSummary(transactions) }),
+};
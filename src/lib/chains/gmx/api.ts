@@ -1,4 +1,4 @@
-// GMX V2 (Arbitrum) Subsquid API Client
+// GMX API Client: V2 Subsquid and V1 stats subgraphs, per deployment
 // Docs: https://gmx.io/
 
 import {
@@ -6,7 +6,20 @@ import {
   type GmxGraphQLResponse,
   type GmxClaimAction,
   type GmxClaimGraphQLResponse,
-  GMX_SUBSQUID_URL,
+  type GmxMarketInfo,
+  type GmxMarketInfosGraphQLResponse,
+  type GmxMetadata,
+  type GmxToken,
+  type GmxTokensResponse,
+  type GmxDeployment,
+  type GmxDeploymentId,
+  type GmxNetwork,
+  type GmxV1Events,
+  type GmxV1GraphQLResponse,
+  type GmxV1Liquidation,
+  type GmxV1PositionChange,
+  GMX_DEPLOYMENTS,
+  GMX_DEFAULT_DEPLOYMENT,
 } from "./types";
 
 // Rate limiter for GMX Subsquid API
@@ -48,6 +61,7 @@ const TRADE_ACTIONS_QUERY = `
       account
       marketAddress
       collateralTokenAddress
+      isLong
       sizeDeltaUsd
       collateralDeltaAmount
       basePnlUsd
@@ -77,6 +91,7 @@ const CLAIM_ACTIONS_QUERY = `
       eventName
       account
       marketAddresses
+      tokenAddresses
       amounts
       transaction {
         hash
@@ -87,11 +102,92 @@ const CLAIM_ACTIONS_QUERY = `
   }
 `;
 
+// GraphQL query for market definitions (index, long and short tokens)
+const MARKET_INFOS_QUERY = `
+  query GetMarketInfos($limit: Int!) {
+    marketInfos(limit: $limit) {
+      marketTokenAddress
+      indexTokenAddress
+      longTokenAddress
+      shortTokenAddress
+    }
+  }
+`;
+
+// Markets get listed over time, so the lookup is refreshed hourly
+const METADATA_TTL_MS = 60 * 60 * 1000;
+
+const metadataCache = new Map<GmxDeploymentId, { metadata: GmxMetadata; loadedAt: number }>();
+
+async function fetchMarketInfos(deployment: GmxDeployment): Promise<GmxMarketInfo[]> {
+  const response = await rateLimitedFetch(deployment.graphqlUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ query: MARKET_INFOS_QUERY, variables: { limit: 1000 } }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`GMX Subsquid API error (${response.status})`);
+  }
+
+  const result: GmxMarketInfosGraphQLResponse = await response.json();
+  if (result.errors && result.errors.length > 0) {
+    throw new Error(`GMX GraphQL error: ${result.errors[0].message}`);
+  }
+  return result.data?.marketInfos || [];
+}
+
+async function fetchTokens(deployment: GmxDeployment): Promise<GmxToken[]> {
+  if (!deployment.tokensUrl) return [];
+  const response = await fetch(deployment.tokensUrl);
+  if (!response.ok) {
+    throw new Error(`GMX tokens API error (${response.status})`);
+  }
+  const result: GmxTokensResponse = await response.json();
+  return result.tokens || [];
+}
+
+/**
+ * Markets and tokens of a V2 deployment by lowercase address, cached for an
+ * hour. A failed lookup leaves that map empty (and uncached) so the
+ * normalizer falls back to the static tables instead of failing the export.
+ */
+export async function fetchGmxMetadata(deployment: GmxDeployment = GMX_DEFAULT_DEPLOYMENT): Promise<GmxMetadata> {
+  const cached = metadataCache.get(deployment.id);
+  if (cached && Date.now() - cached.loadedAt < METADATA_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const [marketInfos, tokens] = await Promise.allSettled([fetchMarketInfos(deployment), fetchTokens(deployment)]);
+  for (const failed of [marketInfos, tokens]) {
+    if (failed.status === "rejected") {
+      console.error(`Failed to load ${deployment.name} market metadata:`, failed.reason);
+    }
+  }
+
+  const metadata: GmxMetadata = {
+    markets: new Map(
+      (marketInfos.status === "fulfilled" ? marketInfos.value : [])
+        .map((market): [string, GmxMarketInfo] => [market.marketTokenAddress.toLowerCase(), market])
+    ),
+    tokens: new Map(
+      (tokens.status === "fulfilled" ? tokens.value : [])
+        .map((token): [string, GmxToken] => [token.address.toLowerCase(), token])
+    ),
+  };
+
+  if (marketInfos.status === "fulfilled" && tokens.status === "fulfilled") {
+    metadataCache.set(deployment.id, { metadata, loadedAt: Date.now() });
+  }
+  return metadata;
+}
+
 // Fetch all trade actions for an address with pagination
 export async function fetchAllTradeActions(
   address: string,
   timestampStart?: number,
-  timestampEnd?: number
+  timestampEnd?: number,
+  deployment: GmxDeployment = GMX_DEFAULT_DEPLOYMENT
 ): Promise<GmxTradeAction[]> {
   const allActions: GmxTradeAction[] = [];
   let skip = 0;
@@ -99,7 +195,7 @@ export async function fetchAllTradeActions(
   const MAX_PAGES = 50;
 
   for (let page = 0; page < MAX_PAGES; page++) {
-    const response = await rateLimitedFetch(GMX_SUBSQUID_URL, {
+    const response = await rateLimitedFetch(deployment.graphqlUrl, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
@@ -155,7 +251,8 @@ export async function fetchAllTradeActions(
 export async function fetchAllClaimActions(
   address: string,
   timestampStart?: number,
-  timestampEnd?: number
+  timestampEnd?: number,
+  deployment: GmxDeployment = GMX_DEFAULT_DEPLOYMENT
 ): Promise<GmxClaimAction[]> {
   const allClaims: GmxClaimAction[] = [];
   let skip = 0;
@@ -163,7 +260,7 @@ export async function fetchAllClaimActions(
   const MAX_PAGES = 20;
 
   for (let page = 0; page < MAX_PAGES; page++) {
-    const response = await rateLimitedFetch(GMX_SUBSQUID_URL, {
+    const response = await rateLimitedFetch(deployment.graphqlUrl, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
@@ -209,26 +306,190 @@ export async function fetchAllClaimActions(
   return allClaims;
 }
 
+// GraphQL query for V1 position changes. Liquidations close the whole
+// position, so they carry its size and collateral instead of deltas.
+const V1_POSITION_EVENTS_QUERY = `
+  query GetV1PositionEvents($account: String!, $skip: Int!, $first: Int!) {
+    increasePositions(
+      where: { account: $account }
+      orderBy: timestamp
+      orderDirection: asc
+      first: $first
+      skip: $skip
+    ) {
+      id
+      account
+      collateralToken
+      indexToken
+      isLong
+      sizeDelta
+      collateralDelta
+      fee
+      price
+      timestamp
+    }
+    decreasePositions(
+      where: { account: $account }
+      orderBy: timestamp
+      orderDirection: asc
+      first: $first
+      skip: $skip
+    ) {
+      id
+      account
+      collateralToken
+      indexToken
+      isLong
+      sizeDelta
+      collateralDelta
+      fee
+      price
+      timestamp
+    }
+    liquidatePositions(
+      where: { account: $account }
+      orderBy: timestamp
+      orderDirection: asc
+      first: $first
+      skip: $skip
+    ) {
+      id
+      account
+      collateralToken
+      indexToken
+      isLong
+      size
+      collateral
+      markPrice
+      timestamp
+    }
+  }
+`;
+
+// Fetch every V1 increase, decrease and liquidation for an address. The
+// whole history is fetched regardless of dates: V1 reports no realized P&L,
+// so the ledger needs every open to price the closes (the pipeline trims
+// rows to the requested range afterwards).
+export async function fetchAllV1PositionEvents(
+  address: string,
+  deployment: GmxDeployment
+): Promise<GmxV1Events> {
+  const events: GmxV1Events = { increases: [], decreases: [], liquidations: [] };
+  let skip = 0;
+  const first = 1000;
+  const MAX_PAGES = 20;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const response = await rateLimitedFetch(deployment.graphqlUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: V1_POSITION_EVENTS_QUERY,
+        variables: {
+          account: address.toLowerCase(),
+          skip,
+          first,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${deployment.name} subgraph error (${response.status}): ${errorText}`);
+    }
+
+    const result: GmxV1GraphQLResponse = await response.json();
+
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(`${deployment.name} GraphQL error: ${result.errors[0].message}`);
+    }
+
+    const increases: GmxV1PositionChange[] = result.data?.increasePositions || [];
+    const decreases: GmxV1PositionChange[] = result.data?.decreasePositions || [];
+    const liquidations: GmxV1Liquidation[] = result.data?.liquidatePositions || [];
+
+    events.increases.push(...increases);
+    events.decreases.push(...decreases);
+    events.liquidations.push(...liquidations);
+
+    // The three lists page together; stop once all of them ran out
+    if (Math.max(increases.length, decreases.length, liquidations.length) < first) break;
+
+    skip += first;
+  }
+
+  return events;
+}
+
+// Data from one deployment: trade and claim actions on V2, position events on V1
+export type GmxDeploymentData =
+  | {
+      deployment: GmxDeploymentId;
+      version: 2;
+      tradeActions: GmxTradeAction[];
+      claimActions: GmxClaimAction[];
+      metadata: GmxMetadata;
+    }
+  | {
+      deployment: GmxDeploymentId;
+      version: 1;
+      events: GmxV1Events;
+    };
+
 // Aggregated data structure
 export interface GmxAggregatedData {
-  tradeActions: GmxTradeAction[];
-  claimActions: GmxClaimAction[];
+  deployments: GmxDeploymentData[];
 }
 
-// Fetch all data for an address
-export async function fetchAllDataForAddress(
+// Fetch all data for an address on one deployment
+export async function fetchDeploymentData(
   address: string,
+  deployment: GmxDeployment,
   timestampStart?: number,
   timestampEnd?: number
-): Promise<GmxAggregatedData> {
-  // Fetch trade actions and claim actions in parallel
-  const [tradeActions, claimActions] = await Promise.all([
-    fetchAllTradeActions(address, timestampStart, timestampEnd),
-    fetchAllClaimActions(address, timestampStart, timestampEnd),
+): Promise<GmxDeploymentData> {
+  if (deployment.version === 1) {
+    return {
+      deployment: deployment.id,
+      version: 1,
+      events: await fetchAllV1PositionEvents(address, deployment),
+    };
+  }
+
+  // Fetch trade actions, claim actions and market metadata in parallel
+  const [tradeActions, claimActions, metadata] = await Promise.all([
+    fetchAllTradeActions(address, timestampStart, timestampEnd, deployment),
+    fetchAllClaimActions(address, timestampStart, timestampEnd, deployment),
+    fetchGmxMetadata(deployment),
   ]);
 
   return {
+    deployment: deployment.id,
+    version: 2,
     tradeActions,
     claimActions,
+    metadata,
   };
 }
+
+// Fetch all data for an address on one deployment, or on every deployment
+// for "all". Any deployment failing fails the export: a CSV silently missing
+// a deployment's trades would misstate P&L.
+export async function fetchAllDataForAddress(
+  address: string,
+  timestampStart?: number,
+  timestampEnd?: number,
+  network: GmxNetwork = GMX_DEFAULT_DEPLOYMENT.id
+): Promise<GmxAggregatedData> {
+  const deployments = network === "all"
+    ? Object.values(GMX_DEPLOYMENTS)
+    : [GMX_DEPLOYMENTS[network]];
+
+  const data: GmxDeploymentData[] = [];
+  // One deployment at a time keeps to the shared rate limit
+  for (const deployment of deployments) {
+    data.push(await fetchDeploymentData(address, deployment, timestampStart, timestampEnd));
+  }
+
+  return { deployments: data };
+}
@@ -1,8 +1,21 @@
-// GMX V2 transaction normalizer for Awaken Perps CSV format
-
-import type { PerpsTransaction, PerpsTag } from "@/lib/types";
-import type { GmxTradeAction, GmxClaimAction } from "./types";
+// GMX V1 and V2 transaction normalizer for Awaken Perps CSV format
+
+import type { NormalizedTransaction, PerpsTransaction } from "@/lib/types";
+import { absTokenAmount, toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+import { replayFills, type PerpsFill } from "@/lib/perps";
+import type { GmxDeploymentData } from "./api";
+import type {
+  GmxTradeAction,
+  GmxClaimAction,
+  GmxMetadata,
+  GmxDeployment,
+  GmxV1Events,
+  GmxV1Liquidation,
+  GmxV1PositionChange,
+} from "./types";
 import {
+  GMX_DEFAULT_DEPLOYMENT,
+  GMX_DEPLOYMENTS,
   GMX_MARKET_SYMBOLS,
   INCREASE_EVENTS,
   DECREASE_EVENTS,
@@ -14,11 +27,11 @@ const USD_DECIMALS = 1e30;
 
 // Token decimals for collateral amounts
 const TOKEN_DECIMALS: Record<string, number> = {
-  USDC: 1e6,
-  "USDC.e": 1e6,
-  USDT: 1e6,
-  WETH: 1e18,
-  WBTC: 1e8,
+  USDC: 6,
+  "USDC.e": 6,
+  USDT: 6,
+  WETH: 18,
+  WBTC: 8,
 };
 
 // Truncate to reasonable precision
@@ -26,16 +39,44 @@ function truncateDecimals(value: number, decimals: number = 6): number {
   return Math.round(value * Math.pow(10, decimals)) / Math.pow(10, decimals);
 }
 
-// Get market symbol from address
-function getMarketSymbol(marketAddress: string): string {
+// No dynamic lookup: resolve from the static tables only
+const EMPTY_METADATA: GmxMetadata = { markets: new Map(), tokens: new Map() };
+
+// Index tokens that are wrapped or bridged versions of the traded asset
+const UNDERLYING_SYMBOLS: Record<string, string> = {
+  WETH: "ETH",
+  WBTC: "BTC",
+  "WBTC.b": "BTC",
+  "BTC.b": "BTC",
+  "WBTC.e": "BTC",
+  "WETH.e": "ETH",
+  WAVAX: "AVAX",
+};
+
+// Token symbol and decimals, from the token list or the static fallback
+function getToken(tokenAddress: string, metadata: GmxMetadata): { symbol: string; decimals: number } | undefined {
+  const lower = tokenAddress.toLowerCase();
+  const token = metadata.tokens.get(lower);
+  if (token) return { symbol: token.symbol, decimals: token.decimals };
+
+  const symbol = COLLATERAL_TOKENS[lower];
+  return symbol ? { symbol, decimals: TOKEN_DECIMALS[symbol] } : undefined;
+}
+
+// Get market symbol (its index token) from address
+function getMarketSymbol(marketAddress: string, metadata: GmxMetadata): string {
   const lower = marketAddress.toLowerCase();
+  const market = metadata.markets.get(lower);
+  const indexToken = market && metadata.tokens.get(market.indexTokenAddress.toLowerCase());
+  if (indexToken) {
+    return UNDERLYING_SYMBOLS[indexToken.symbol] ?? indexToken.symbol;
+  }
   return GMX_MARKET_SYMBOLS[lower] || marketAddress.slice(0, 10);
 }
 
 // Get collateral token symbol
-function getCollateralSymbol(tokenAddress: string): string {
-  const lower = tokenAddress.toLowerCase();
-  return COLLATERAL_TOKENS[lower] || "USD";
+function getCollateralSymbol(tokenAddress: string, metadata: GmxMetadata): string {
+  return getToken(tokenAddress, metadata)?.symbol ?? "USD";
 }
 
 // Determine if event is position increase
@@ -48,37 +89,32 @@ function isDecreaseEvent(eventName: string): boolean {
   return DECREASE_EVENTS.some((e) => eventName.includes(e));
 }
 
-// Determine the tag for a trade action
-function determineTradeTag(action: GmxTradeAction): PerpsTag {
-  const eventName = action.eventName;
-
-  // Check for liquidation
-  if (eventName.includes("Liquidated") || eventName.includes("Liquidation")) {
-    return "close_position";
-  }
+function isLiquidationEvent(eventName: string): boolean {
+  return eventName.includes("Liquidated") || eventName.includes("Liquidation");
+}
 
-  // Check for increase/decrease
-  if (isIncreaseEvent(eventName)) {
-    return "open_position";
-  }
+// Whether a trade action shrinks its position (everything else grows it)
+function reducesPosition(action: GmxTradeAction): boolean {
+  const eventName = action.eventName;
 
-  if (isDecreaseEvent(eventName)) {
-    return "close_position";
-  }
+  if (isLiquidationEvent(eventName)) return true;
+  if (isIncreaseEvent(eventName)) return false;
+  if (isDecreaseEvent(eventName)) return true;
 
   // Check P&L as fallback - if there's realized P&L, it's likely a close
   const basePnl = parseFloat(action.basePnlUsd || "0") / USD_DECIMALS;
-  if (Math.abs(basePnl) > 0.01) {
-    return "close_position";
-  }
-
-  // Default to open
-  return "open_position";
+  return Math.abs(basePnl) > 0.01;
 }
 
-// Normalize GMX trade action to Perps transaction
-export function normalizeTradeAction(action: GmxTradeAction): PerpsTransaction {
-  const tag = determineTradeTag(action);
+// Convert a GMX trade action to a ledger fill. GMX keeps separate long and
+// short positions per market and collateral, sized in USD, and reports the
+// realized P&L of each decrease, so the ledger only has to net out fees.
+export function toGmxLedgerFill(
+  action: GmxTradeAction,
+  metadata: GmxMetadata = EMPTY_METADATA,
+  deployment: GmxDeployment = GMX_DEFAULT_DEPLOYMENT
+): PerpsFill {
+  const reduces = reducesPosition(action);
 
   // Parse values (GMX uses 30 decimals for USD values)
   const sizeDeltaUsd = truncateDecimals(
@@ -100,57 +136,75 @@ export function normalizeTradeAction(action: GmxTradeAction): PerpsTransaction {
   const positionFee = parseFloat(action.positionFeeAmount || "0") / USD_DECIMALS;
   const totalFees = truncateDecimals(Math.abs(borrowingFee) + Math.abs(fundingFee) + Math.abs(positionFee));
 
-  const marketSymbol = getMarketSymbol(action.marketAddress);
-  const collateralSymbol = getCollateralSymbol(action.collateralTokenAddress);
+  const marketSymbol = getMarketSymbol(action.marketAddress, metadata);
+  const collateralSymbol = getCollateralSymbol(action.collateralTokenAddress, metadata);
 
   // Determine if it's a liquidation
-  const isLiquidation = action.eventName.includes("Liquidated") || action.eventName.includes("Liquidation");
+  const isLiquidation = isLiquidationEvent(action.eventName);
 
   // Build notes
   const notes = [
     action.eventName,
     `${marketSymbol}-USD`,
+    action.isLong ? "Long" : "Short",
     `Size: $${sizeDeltaUsd.toFixed(2)}`,
     totalPnl !== 0 ? `P&L: ${totalPnl >= 0 ? "+" : ""}$${totalPnl.toFixed(2)}` : "",
     isLiquidation ? "LIQUIDATION" : "",
+    deployment.name,
   ]
     .filter(Boolean)
     .join(" | ");
 
+  // Longs grow with positive deltas, shorts with negative ones
+  const direction = action.isLong ? 1 : -1;
+
   return {
     id: action.id,
     date: new Date(action.transaction.timestamp * 1000),
+    positionKey: [
+      deployment.id,
+      action.marketAddress.toLowerCase(),
+      action.collateralTokenAddress.toLowerCase(),
+      action.isLong ? "long" : "short",
+    ].join(":"),
     asset: marketSymbol,
-    amount: sizeDeltaUsd,
+    sizeDelta: (reduces ? -direction : direction) * sizeDeltaUsd,
+    price: 0,
     fee: totalFees,
-    pnl: tag === "close_position" ? totalPnl : 0,
     paymentToken: collateralSymbol === "WETH" || collateralSymbol === "WBTC" ? collateralSymbol : "USDC",
     notes,
     transactionHash: action.transaction.hash,
-    tag,
-    isAmbiguous: isLiquidation,
-    ambiguousReasons: isLiquidation ? ["Position was liquidated"] : undefined,
+    realizedPnl: reduces ? totalPnl : undefined,
+    reduceOnly: reduces,
+    // The position fee is what GMX charges for the forced close
+    ...(isLiquidation && { liquidation: { fee: truncateDecimals(Math.abs(positionFee)) } }),
   };
 }
 
 // Normalize GMX claim action (funding fee claim) to Perps transaction
-export function normalizeClaimAction(action: GmxClaimAction): PerpsTransaction[] {
+export function normalizeClaimAction(
+  action: GmxClaimAction,
+  metadata: GmxMetadata = EMPTY_METADATA,
+  deployment: GmxDeployment = GMX_DEFAULT_DEPLOYMENT
+): PerpsTransaction[] {
   const transactions: PerpsTransaction[] = [];
 
-  // Each claim can have multiple markets/amounts
+  // Each claim can have multiple markets/tokens/amounts
   const marketAddresses = action.marketAddresses || [];
+  const tokenAddresses = action.tokenAddresses || [];
   const amounts = action.amounts || [];
 
   for (let i = 0; i < marketAddresses.length; i++) {
     const marketAddress = marketAddresses[i];
-    const amount = amounts[i] || "0";
-
-    // Claims are typically in USDC (6 decimals)
-    const claimAmount = truncateDecimals(parseFloat(amount) / 1e6);
+    const units = BigInt(amounts[i] || "0");
+    if (units === BigInt(0)) continue;
 
-    if (Math.abs(claimAmount) < 0.01) continue; // Skip negligible claims
+    // Funding is paid in either of the market's collateral tokens
+    const token = tokenAddresses[i] ? getToken(tokenAddresses[i], metadata) : undefined;
+    const symbol = token?.symbol ?? "USDC";
+    const claimAmount = tokenAmountToNumber(toTokenAmount(units, token?.decimals ?? 6));
 
-    const marketSymbol = getMarketSymbol(marketAddress);
+    const marketSymbol = getMarketSymbol(marketAddress, metadata);
 
     transactions.push({
       id: `${action.id}-${i}`,
@@ -159,31 +213,95 @@ export function normalizeClaimAction(action: GmxClaimAction): PerpsTransaction[]
       amount: 0,
       fee: 0,
       pnl: claimAmount, // Positive = received funding
-      paymentToken: "USDC",
-      notes: `Funding claim ${marketSymbol}-USD | Amount: ${claimAmount >= 0 ? "+" : ""}$${claimAmount.toFixed(2)}`,
+      paymentToken: symbol,
+      notes: `Funding claim ${marketSymbol}-USD | Amount: ${claimAmount >= 0 ? "+" : ""}${claimAmount} ${symbol} | ${deployment.name}`,
       transactionHash: action.transaction.hash,
       tag: "funding_payment",
+      ...(!token && {
+        isAmbiguous: true,
+        ambiguousReasons: [`Unknown claim token ${tokenAddresses[i] || "(missing)"}; amount assumes USDC decimals`],
+      }),
     });
   }
 
   return transactions;
 }
 
+// Collateral a trade action moved between the wallet and its position, as a
+// wallet_transfer row for the companion CSV (seen from the GMX position:
+// increases receive collateral, decreases send it back). Null when none moved.
+export function normalizeCollateralDelta(
+  action: GmxTradeAction,
+  metadata: GmxMetadata = EMPTY_METADATA,
+  deployment: GmxDeployment = GMX_DEFAULT_DEPLOYMENT
+): NormalizedTransaction | null {
+  const units = BigInt(action.collateralDeltaAmount || "0");
+  if (units === BigInt(0)) return null;
+
+  const token = getToken(action.collateralTokenAddress, metadata);
+  const symbol = token?.symbol ?? "USD";
+  const decimals = token?.decimals;
+  const exact = absTokenAmount(toTokenAmount(units, decimals ?? 18));
+  const amount = tokenAmountToNumber(exact);
+  const incoming = !reducesPosition(action);
+  const marketSymbol = getMarketSymbol(action.marketAddress, metadata);
+
+  return {
+    id: `${action.id}-collateral`,
+    type: incoming ? "transfer_received" : "transfer_sent",
+    timestamp: new Date(action.transaction.timestamp * 1000),
+    sentAmount: incoming ? null : amount,
+    sentCurrency: incoming ? null : symbol,
+    receivedAmount: incoming ? amount : null,
+    receivedCurrency: incoming ? symbol : null,
+    feeAmount: 0,
+    feeCurrency: symbol,
+    ...(incoming ? { receivedAmountExact: exact } : { sentAmountExact: exact }),
+    transactionHash: action.transaction.hash,
+    notes: [
+      `Collateral ${incoming ? "deposit" : "withdrawal"}`,
+      `${marketSymbol}-USD ${action.isLong ? "Long" : "Short"}`,
+      action.eventName,
+      deployment.name,
+    ].join(" | "),
+    tag: "wallet_transfer",
+    ...(decimals === undefined && {
+      isAmbiguous: true,
+      ambiguousReasons: [`Unknown collateral token ${action.collateralTokenAddress}; amount assumes 18 decimals`],
+    }),
+  };
+}
+
+// Normalize collateral movements of all trade actions, newest first
+export function normalizeCollateralDeltas(
+  tradeActions: GmxTradeAction[],
+  metadata: GmxMetadata = EMPTY_METADATA,
+  deployment: GmxDeployment = GMX_DEFAULT_DEPLOYMENT
+): NormalizedTransaction[] {
+  return tradeActions
+    .map((action) => normalizeCollateralDelta(action, metadata, deployment))
+    .filter((tx): tx is NormalizedTransaction => tx !== null)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
 // Normalize all GMX data to Perps transactions
 export function normalizeGmxData(
   tradeActions: GmxTradeAction[],
-  claimActions: GmxClaimAction[]
+  claimActions: GmxClaimAction[],
+  metadata: GmxMetadata = EMPTY_METADATA,
+  deployment: GmxDeployment = GMX_DEFAULT_DEPLOYMENT
 ): PerpsTransaction[] {
   const allTransactions: PerpsTransaction[] = [];
 
-  // Normalize trade actions
-  for (const action of tradeActions) {
-    allTransactions.push(normalizeTradeAction(action));
-  }
+  // Replay trade actions through the position ledger for open/close and P&L
+  const { transactions: trades } = replayFills(
+    tradeActions.map((action) => toGmxLedgerFill(action, metadata, deployment))
+  );
+  allTransactions.push(...trades);
 
   // Normalize claim actions
   for (const claim of claimActions) {
-    allTransactions.push(...normalizeClaimAction(claim));
+    allTransactions.push(...normalizeClaimAction(claim, metadata, deployment));
   }
 
   // Sort by date descending (newest first)
@@ -192,6 +310,172 @@ export function normalizeGmxData(
   return allTransactions;
 }
 
+// Parse a V1 USD value or price (30 decimals)
+function fromV1Usd(value: string): number {
+  return parseFloat(value || "0") / USD_DECIMALS;
+}
+
+// V1 index token symbol from the deployment's fixed token set
+function getV1Symbol(tokenAddress: string, deployment: GmxDeployment): string {
+  const symbol = deployment.tokens?.[tokenAddress.toLowerCase()];
+  return symbol ? UNDERLYING_SYMBOLS[symbol] ?? symbol : tokenAddress.slice(0, 10);
+}
+
+type GmxV1Event =
+  | { kind: "increase" | "decrease"; change: GmxV1PositionChange }
+  | { kind: "liquidation"; liquidation: GmxV1Liquidation };
+
+function v1EventOf(event: GmxV1Event): GmxV1PositionChange | GmxV1Liquidation {
+  return event.kind === "liquidation" ? event.liquidation : event.change;
+}
+
+// Convert V1 position events to ledger fills, oldest first. V1 reports no
+// realized P&L per decrease, so each position is replayed the way the V1
+// vault prices it: the average price weights by index tokens (size / price)
+// and a decrease realizes size x (price - average) / average. Sizes stay in
+// USD like V2. A liquidation loses the position's remaining collateral.
+export function toGmxV1LedgerFills(
+  events: GmxV1Events,
+  deployment: GmxDeployment
+): PerpsFill[] {
+  const ordered: GmxV1Event[] = [
+    ...events.increases.map((change): GmxV1Event => ({ kind: "increase", change })),
+    ...events.decreases.map((change): GmxV1Event => ({ kind: "decrease", change })),
+    ...events.liquidations.map((liquidation): GmxV1Event => ({ kind: "liquidation", liquidation })),
+  ].sort((a, b) => {
+    const first = v1EventOf(a);
+    const second = v1EventOf(b);
+    return first.timestamp - second.timestamp || first.id.localeCompare(second.id);
+  });
+
+  const positions = new Map<string, { size: number; averagePrice: number }>();
+  const fills: PerpsFill[] = [];
+
+  for (const event of ordered) {
+    const data = v1EventOf(event);
+    const positionKey = [
+      deployment.id,
+      data.collateralToken.toLowerCase(),
+      data.indexToken.toLowerCase(),
+      data.isLong ? "long" : "short",
+    ].join(":");
+    const position = positions.get(positionKey) ?? { size: 0, averagePrice: 0 };
+    positions.set(positionKey, position);
+
+    const asset = getV1Symbol(data.indexToken, deployment);
+    const direction = data.isLong ? 1 : -1;
+    const base = {
+      id: data.id,
+      date: new Date(data.timestamp * 1000),
+      positionKey,
+      asset,
+      price: 0,
+      paymentToken: "USDC",
+      // Subgraph ids are "{transaction hash}:{log index}"
+      transactionHash: data.id.split(":")[0],
+    };
+
+    if (event.kind === "liquidation") {
+      const size = truncateDecimals(fromV1Usd(event.liquidation.size));
+      const collateral = truncateDecimals(fromV1Usd(event.liquidation.collateral));
+      const markPrice = fromV1Usd(event.liquidation.markPrice);
+      positions.delete(positionKey);
+
+      fills.push({
+        ...base,
+        sizeDelta: -direction * size,
+        fee: 0,
+        notes: [
+          "LiquidatePosition",
+          `${asset}-USD`,
+          data.isLong ? "Long" : "Short",
+          `Size: $${size.toFixed(2)}`,
+          `Mark price: $${markPrice.toFixed(2)}`,
+          "LIQUIDATION",
+          deployment.name,
+        ].join(" | "),
+        realizedPnl: -collateral,
+        reduceOnly: true,
+        // The subgraph doesn't report the fixed liquidation fee; it comes out of the collateral
+        liquidation: { fee: 0, collateralLost: collateral, markPrice },
+      });
+      continue;
+    }
+
+    const { change } = event;
+    const sizeDeltaUsd = truncateDecimals(Math.abs(fromV1Usd(change.sizeDelta)));
+    const price = fromV1Usd(change.price);
+    const increase = event.kind === "increase";
+    let realizedPnl: number | undefined;
+
+    if (increase) {
+      if (sizeDeltaUsd > 0 && price > 0) {
+        const heldTokens = position.size > 0 ? position.size / position.averagePrice : 0;
+        position.size += sizeDeltaUsd;
+        position.averagePrice = position.size / (heldTokens + sizeDeltaUsd / price);
+      }
+    } else {
+      // Unknown average (opened before this history): the ledger flags the close
+      if (position.averagePrice > 0) {
+        realizedPnl = truncateDecimals(
+          (sizeDeltaUsd * (price - position.averagePrice) / position.averagePrice) * direction
+        );
+      }
+      position.size = Math.max(0, position.size - sizeDeltaUsd);
+      if (position.size === 0) position.averagePrice = 0;
+    }
+
+    fills.push({
+      ...base,
+      sizeDelta: (increase ? direction : -direction) * sizeDeltaUsd,
+      fee: truncateDecimals(fromV1Usd(change.fee)),
+      notes: [
+        increase ? "IncreasePosition" : "DecreasePosition",
+        `${asset}-USD`,
+        change.isLong ? "Long" : "Short",
+        `Size: $${sizeDeltaUsd.toFixed(2)}`,
+        `Price: $${price.toFixed(2)}`,
+        realizedPnl !== undefined && realizedPnl !== 0
+          ? `P&L: ${realizedPnl >= 0 ? "+" : ""}$${realizedPnl.toFixed(2)}`
+          : "",
+        deployment.name,
+      ]
+        .filter(Boolean)
+        .join(" | "),
+      realizedPnl,
+      reduceOnly: !increase,
+    });
+  }
+
+  return fills;
+}
+
+// Normalize V1 position events to Perps transactions (newest first)
+export function normalizeGmxV1Data(events: GmxV1Events, deployment: GmxDeployment): PerpsTransaction[] {
+  return replayFills(toGmxV1LedgerFills(events, deployment)).transactions
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+// Normalize every fetched deployment into one list, newest first. Position
+// keys carry the deployment, so positions never mix across deployments.
+export function normalizeGmxDeployments(deployments: GmxDeploymentData[]): PerpsTransaction[] {
+  return deployments
+    .flatMap((data) => data.version === 1
+      ? normalizeGmxV1Data(data.events, GMX_DEPLOYMENTS[data.deployment])
+      : normalizeGmxData(data.tradeActions, data.claimActions, data.metadata, GMX_DEPLOYMENTS[data.deployment]))
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+// Collateral movements of every fetched deployment, newest first. V1 only
+// reports collateral in USD, so only V2 deployments contribute.
+export function normalizeGmxDeploymentTransfers(deployments: GmxDeploymentData[]): NormalizedTransaction[] {
+  return deployments
+    .flatMap((data) => data.version === 1
+      ? []
+      : normalizeCollateralDeltas(data.tradeActions, data.metadata, GMX_DEPLOYMENTS[data.deployment]))
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
 // Summary statistics
 export interface GmxSummary {
   totalTrades: number;
@@ -1,5 +1,6 @@
-// GMX V2 (Arbitrum) Subsquid API Types
-// API: https://gmx.squids.live/gmx-synthetics-arbitrum/graphql
+// GMX API Types
+// V2: https://gmx.squids.live/gmx-synthetics-{arbitrum,avalanche}/graphql
+// V1: gmx-{arbitrum,avalanche}-stats subgraphs
 
 // Trade action from GMX Subsquid
 export interface GmxTradeAction {
@@ -8,6 +9,7 @@ export interface GmxTradeAction {
   account: string;
   marketAddress: string;
   collateralTokenAddress: string;
+  isLong: boolean;
   sizeDeltaUsd: string;
   collateralDeltaAmount: string;
   basePnlUsd: string;
@@ -36,6 +38,8 @@ export interface GmxClaimAction {
   eventName: string;
   account: string;
   marketAddresses: string[];
+  // Token each amount is paid in (same order as amounts)
+  tokenAddresses: string[];
   amounts: string[];
   transaction: {
     hash: string;
@@ -52,11 +56,152 @@ export interface GmxClaimGraphQLResponse {
   errors?: Array<{ message: string }>;
 }
 
-// GMX Subsquid API endpoint
-export const GMX_SUBSQUID_URL = "https://gmx.squids.live/gmx-synthetics-arbitrum/graphql";
+// Market from the Subsquid marketInfos entity
+export interface GmxMarketInfo {
+  marketTokenAddress: string;
+  indexTokenAddress: string;
+  longTokenAddress: string;
+  shortTokenAddress: string;
+}
+
+export interface GmxMarketInfosGraphQLResponse {
+  data: {
+    marketInfos: GmxMarketInfo[];
+  };
+  errors?: Array<{ message: string }>;
+}
+
+// Token from the GMX tokens API (includes synthetic index tokens)
+export interface GmxToken {
+  symbol: string;
+  address: string;
+  decimals: number;
+}
+
+export interface GmxTokensResponse {
+  tokens: GmxToken[];
+}
+
+// Markets and tokens by lowercase address. Either map may be empty when the
+// lookup failed; the static tables below are the fallback.
+export interface GmxMetadata {
+  markets: Map<string, GmxMarketInfo>;
+  tokens: Map<string, GmxToken>;
+}
+
+// V1 position change from the stats subgraph. USD values and prices use
+// 30 decimals; sizeDelta and collateralDelta are USD.
+export interface GmxV1PositionChange {
+  id: string;
+  account: string;
+  collateralToken: string;
+  indexToken: string;
+  isLong: boolean;
+  sizeDelta: string;
+  collateralDelta: string;
+  fee: string;
+  price: string;
+  timestamp: number;
+}
+
+// V1 liquidation: the whole position (size and collateral, USD) is closed
+export interface GmxV1Liquidation {
+  id: string;
+  account: string;
+  collateralToken: string;
+  indexToken: string;
+  isLong: boolean;
+  size: string;
+  collateral: string;
+  markPrice: string;
+  timestamp: number;
+}
+
+export interface GmxV1GraphQLResponse {
+  data: {
+    increasePositions?: GmxV1PositionChange[];
+    decreasePositions?: GmxV1PositionChange[];
+    liquidatePositions?: GmxV1Liquidation[];
+  };
+  errors?: Array<{ message: string }>;
+}
+
+export interface GmxV1Events {
+  increases: GmxV1PositionChange[];
+  decreases: GmxV1PositionChange[];
+  liquidations: GmxV1Liquidation[];
+}
+
+export type GmxDeploymentId = "arbitrum" | "avalanche" | "arbitrum-v1" | "avalanche-v1";
+
+// A deployment, or every deployment at once
+export type GmxNetwork = GmxDeploymentId | "all";
+
+export interface GmxDeployment {
+  id: GmxDeploymentId;
+  // Appended to notes so rows from different deployments stay apart
+  name: string;
+  version: 1 | 2;
+  graphqlUrl: string;
+  // V2 token list (symbol and decimals per token address)
+  tokensUrl?: string;
+  // V1 index and collateral tokens (V1 has a fixed token set)
+  tokens?: Record<string, string>;
+}
+
+export const GMX_DEPLOYMENTS: Record<GmxDeploymentId, GmxDeployment> = {
+  arbitrum: {
+    id: "arbitrum",
+    name: "GMX V2 Arbitrum",
+    version: 2,
+    graphqlUrl: "https://gmx.squids.live/gmx-synthetics-arbitrum/graphql",
+    tokensUrl: "https://arbitrum-api.gmxinfra.io/tokens",
+  },
+  avalanche: {
+    id: "avalanche",
+    name: "GMX V2 Avalanche",
+    version: 2,
+    graphqlUrl: "https://gmx.squids.live/gmx-synthetics-avalanche/graphql",
+    tokensUrl: "https://avalanche-api.gmxinfra.io/tokens",
+  },
+  "arbitrum-v1": {
+    id: "arbitrum-v1",
+    name: "GMX V1 Arbitrum",
+    version: 1,
+    graphqlUrl: "https://subgraph.satsuma-prod.com/3b2ced13c8d9/gmx/gmx-arbitrum-stats/api",
+    tokens: {
+      "0x82af49447d8a07e3bd95bd0d56f35241523fbab1": "WETH",
+      "0x2f2a2543b76a4166549f7aab2e75bef0aefc5b0f": "WBTC",
+      "0xf97f4df75117a78c1a5a0dbb814af92458539fb4": "LINK",
+      "0xfa7f8980b0f1e64a2062791cc3b0871572f1f7f0": "UNI",
+      "0xff970a61a04b1ca14834a43f5de4533ebddb5cc8": "USDC.e",
+      "0xaf88d065e77c8cc2239327c5edb3a432268e5831": "USDC",
+      "0xfd086bc7cd5c481dcc9c85ebe478a1c0b69fcbb9": "USDT",
+      "0xda10009cbd5d07dd0cecc66161fc93d7c9000da1": "DAI",
+      "0x17fc002b466eec40dae837fc4be5c67993ddbd6f": "FRAX",
+    },
+  },
+  "avalanche-v1": {
+    id: "avalanche-v1",
+    name: "GMX V1 Avalanche",
+    version: 1,
+    graphqlUrl: "https://subgraph.satsuma-prod.com/3b2ced13c8d9/gmx/gmx-avalanche-stats/api",
+    tokens: {
+      "0xb31f66aa3c1e785363f0875a1b74e27b85fd66c7": "WAVAX",
+      "0x49d5c2bdffac6ce2bfdb6640f4f80f226bc10bab": "WETH.e",
+      "0x152b9d0fdc40c096757f570a51e494bd4b943e50": "BTC.b",
+      "0x50b7545627a5162f82a992c33b87adc75187b218": "WBTC.e",
+      "0xb97ef9ef8734c71904d8002f8b6bc66dd9c48a6e": "USDC",
+      "0xa7d7079b0fead91f3e65f86e8915cb59c1a4c664": "USDC.e",
+    },
+  },
+};
+
+// Default deployment (and the one the static market table below covers)
+export const GMX_DEFAULT_DEPLOYMENT = GMX_DEPLOYMENTS.arbitrum;
 
 // Market address to symbol mapping for GMX V2 on Arbitrum
-// These are the main perpetual markets
+// These are the main perpetual markets; only used when marketInfos can't be loaded
 export const GMX_MARKET_SYMBOLS: Record<string, string> = {
   // ETH markets
   "0x70d95587d40a2caf56bd97485ab3eec10bee6336": "ETH",
@@ -115,7 +260,7 @@ export const DECREASE_EVENTS = [
   "OrderFrozen",
 ] as const;
 
-// Collateral token addresses to symbols
+// Collateral token addresses to symbols (fallback when the token list is unavailable)
 export const COLLATERAL_TOKENS: Record<string, string> = {
   "0xaf88d065e77c8cc2239327c5edb3a432268e5831": "USDC",
   "0xff970a61a04b1ca14834a43f5de4533ebddb5cc8": "USDC.e",
@@ -0,0 +1,41 @@
+import { createCurrencyResolver } from "@/lib/pricing/legs";
+import { ChainRequestError, type StandardChainAdapter } from "../adapter";
+import { isValidAccountId, normalizeAccountId, fetchAccountInfo, fetchAllTransactions } from "./api";
+import { normalizeHederaTransactions, calculateSummary } from "./transactions";
+import type { HederaTransaction } from "./types";
+
+export const hederaAdapter: StandardChainAdapter<HederaTransaction[]> = {
+  id: "hedera",
+  kind: "standard",
+  name: "Hedera",
+  symbol: "HBAR",
+  description: "Export HBAR transfers, staking rewards, and token transactions",
+  features: ["Transfers", "Staking Rewards", "HTS Tokens", "NFTs", "USD Prices"],
+  logo: "https://s2.coinmarketcap.com/static/img/coins/64x64/4642.png",
+  color: "#000000",
+  input: {
+    type: "address",
+    label: "Hedera Account ID",
+    placeholder: "0.0.12345",
+    help: "Enter your Hedera account ID in format 0.0.xxxxx",
+    format: "0.0.xxxxx",
+  },
+  explorerTxUrl: "https://hashscan.io/mainnet/transaction/",
+
+  validateAddress(address) {
+    const accountId = normalizeAccountId(address);
+    return isValidAccountId(accountId) ? accountId : null;
+  },
+  addressHint: "Account ID should be in format 0.0.xxxxx (e.g., 0.0.12345)",
+
+  async fetchRaw({ address }) {
+    if (!(await fetchAccountInfo(address))) {
+      throw new ChainRequestError("ACCOUNT_NOT_FOUND", "Account not found", `No Hedera account found with ID ${address}`);
+    }
+    return fetchAllTransactions(address);
+  },
+  normalize: (raw, { address }) => normalizeHederaTransactions(raw, address),
+  currencyResolver: () => createCurrencyResolver("HBAR"),
+
+  summarize: (transactions) => calculateSummary(transactions),
+};
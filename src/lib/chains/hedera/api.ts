@@ -179,44 +179,6 @@ export async function fetchTokenInfoBatch(tokenIds: string[]): Promise<Map<strin
   return results;
 }
 
-// Fetch HBAR price from CoinGecko
-export async function fetchHbarPrice(timestamp: Date): Promise<number | null> {
-  try {
-    const dateStr = timestamp.toISOString().split("T")[0];
-    const [year, month, day] = dateStr.split("-");
-    const formattedDate = `${day}-${month}-${year}`;
-
-    const response = await fetch(
-      `https://api.coingecko.com/api/v3/coins/hedera-hashgraph/history?date=${formattedDate}`,
-      {
-        headers: { Accept: "application/json" },
-      }
-    );
-
-    if (!response.ok) {
-      return null;
-    }
-
-    const data = await response.json();
-    return data.market_data?.current_price?.usd ?? null;
-  } catch {
-    return null;
-  }
-}
-
-// Get all unique dates from transactions for batch price fetching
-export function getUniqueDates(transactions: HederaTransaction[]): string[] {
-  const dates = new Set<string>();
-
-  for (const tx of transactions) {
-    const timestamp = parseConsensusTimestamp(tx.consensus_timestamp);
-    const dateStr = timestamp.toISOString().split("T")[0];
-    dates.add(dateStr);
-  }
-
-  return Array.from(dates);
-}
-
 // Parse Hedera consensus timestamp (seconds.nanoseconds)
 export function parseConsensusTimestamp(consensusTimestamp: string): Date {
   const [seconds] = consensusTimestamp.split(".");
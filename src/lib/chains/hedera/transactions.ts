@@ -4,22 +4,22 @@ import type {
   NormalizedTransaction,
   TransactionType,
   AwakenTag,
+  TokenAmount,
 } from "@/lib/types";
+import { toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
 import {
   type HederaTransaction,
   type HederaTokenInfo,
-  TINYBARS_PER_HBAR,
+  HBAR_DECIMALS,
 } from "./types";
 import {
   parseConsensusTimestamp,
   fetchTokenInfoBatch,
-  fetchHbarPrice,
-  getUniqueDates,
 } from "./api";
 
-// Convert tinybars to HBAR
-function tinybarsToHbar(tinybars: number): number {
-  return tinybars / TINYBARS_PER_HBAR;
+// Convert tinybars to an exact HBAR amount
+function tinybarsToHbarAmount(tinybars: number): TokenAmount {
+  return toTokenAmount(tinybars, HBAR_DECIMALS);
 }
 
 // Map transaction type to Awaken tag
@@ -68,16 +68,15 @@ function determineType(
 function processTransaction(
   tx: HederaTransaction,
   accountId: string,
-  tokenInfoMap: Map<string, HederaTokenInfo>,
-  hbarPrices: Map<string, number>
+  tokenInfoMap: Map<string, HederaTokenInfo>
 ): NormalizedTransaction[] {
   const results: NormalizedTransaction[] = [];
   const timestamp = parseConsensusTimestamp(tx.consensus_timestamp);
-  const dateStr = timestamp.toISOString().split("T")[0];
-  const hbarPrice = hbarPrices.get(dateStr);
 
   // Calculate fee
-  const fee = tx.charged_tx_fee > 0 ? tinybarsToHbar(tx.charged_tx_fee) : 0;
+  const feeTinybars = Math.max(tx.charged_tx_fee, 0);
+  const feeExact = tinybarsToHbarAmount(feeTinybars);
+  const fee = tokenAmountToNumber(feeExact);
 
   // Process staking rewards first
   if (tx.staking_reward_transfers && tx.staking_reward_transfers.length > 0) {
@@ -86,7 +85,8 @@ function processTransaction(
     );
 
     if (rewardTransfer && rewardTransfer.amount > 0) {
-      const amount = tinybarsToHbar(rewardTransfer.amount);
+      const exactAmount = tinybarsToHbarAmount(rewardTransfer.amount);
+      const amount = tokenAmountToNumber(exactAmount);
       results.push({
         id: `reward-${tx.consensus_timestamp}`,
         type: "emission_reward",
@@ -97,10 +97,10 @@ function processTransaction(
         receivedCurrency: "HBAR",
         feeAmount: 0,
         feeCurrency: "HBAR",
+        receivedAmountExact: exactAmount,
         transactionHash: tx.transaction_hash,
         notes: "Staking reward",
         tag: "claim_rewards",
-        fiatPrice: hbarPrice,
       });
     }
   }
@@ -119,7 +119,8 @@ function processTransaction(
     if (isStakingReward && results.length > 0) {
       // Already processed as staking reward
     } else if (netAmount !== 0) {
-      const amount = tinybarsToHbar(Math.abs(netAmount));
+      const exactAmount = tinybarsToHbarAmount(Math.abs(netAmount));
+      const amount = tokenAmountToNumber(exactAmount);
       const type = determineType(tx, accountId, false, netAmount);
       const memo = tx.memo_base64
         ? Buffer.from(tx.memo_base64, "base64").toString("utf8")
@@ -137,14 +138,15 @@ function processTransaction(
           receivedCurrency: "HBAR",
           feeAmount: 0,
           feeCurrency: "HBAR",
+          receivedAmountExact: exactAmount,
           transactionHash: tx.transaction_hash,
           notes: memo || "Received HBAR",
           tag: "receive",
-          fiatPrice: hbarPrice,
         });
       } else {
         // Sent HBAR (excluding fee)
-        const sentAmount = amount - fee;
+        const exactSent = tinybarsToHbarAmount(Math.abs(netAmount) - feeTinybars);
+        const sentAmount = tokenAmountToNumber(exactSent);
 
         if (sentAmount > 0) {
           results.push({
@@ -157,10 +159,11 @@ function processTransaction(
             receivedCurrency: null,
             feeAmount: fee,
             feeCurrency: "HBAR",
+            sentAmountExact: exactSent,
+            feeAmountExact: feeExact,
             transactionHash: tx.transaction_hash,
             notes: memo || "Sent HBAR",
             tag: "payment",
-            fiatPrice: hbarPrice,
           });
         }
       }
@@ -177,7 +180,8 @@ function processTransaction(
       const tokenInfo = tokenInfoMap.get(transfer.token_id);
       const symbol = tokenInfo?.symbol || transfer.token_id;
       const decimals = parseInt(tokenInfo?.decimals || "0");
-      const amount = transfer.amount / Math.pow(10, decimals);
+      const exactAmount = toTokenAmount(Math.abs(transfer.amount), decimals);
+      const amount = tokenAmountToNumber(exactAmount);
 
       if (transfer.amount > 0) {
         // Received token
@@ -191,10 +195,10 @@ function processTransaction(
           receivedCurrency: symbol,
           feeAmount: 0,
           feeCurrency: "HBAR",
+          receivedAmountExact: exactAmount,
           transactionHash: tx.transaction_hash,
           notes: `Received ${symbol}`,
           tag: "receive",
-          fiatPrice: hbarPrice,
         });
       } else {
         // Sent token
@@ -208,10 +212,10 @@ function processTransaction(
           receivedCurrency: null,
           feeAmount: 0,
           feeCurrency: "HBAR",
+          sentAmountExact: exactAmount,
           transactionHash: tx.transaction_hash,
           notes: `Sent ${symbol}`,
           tag: "payment",
-          fiatPrice: hbarPrice,
         });
       }
     }
@@ -238,7 +242,6 @@ function processTransaction(
           transactionHash: tx.transaction_hash,
           notes: `Received NFT: ${nftName} #${nft.serial_number}`,
           tag: "receive",
-          fiatPrice: hbarPrice,
         });
       } else if (nft.sender_account_id === accountId) {
         // Sent NFT
@@ -255,7 +258,6 @@ function processTransaction(
           transactionHash: tx.transaction_hash,
           notes: `Sent NFT: ${nftName} #${nft.serial_number}`,
           tag: "gift_sent",
-          fiatPrice: hbarPrice,
         });
       }
     }
@@ -290,31 +292,13 @@ export async function normalizeHederaTransactions(
   // Fetch token info
   const tokenInfoMap = await fetchTokenInfoBatch(Array.from(tokenIds));
 
-  onProgress?.("Fetching historical prices...");
-
-  // Fetch HBAR prices for unique dates
-  const uniqueDates = getUniqueDates(transactions);
-  const hbarPrices = new Map<string, number>();
-
-  // Limit price fetches to avoid rate limiting
-  const datesToFetch = uniqueDates.slice(0, 30); // Max 30 unique dates
-
-  for (const dateStr of datesToFetch) {
-    const [year, month, day] = dateStr.split("-");
-    const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-    const price = await fetchHbarPrice(date);
-    if (price !== null) {
-      hbarPrices.set(dateStr, price);
-    }
-  }
-
   onProgress?.("Processing transactions...");
 
   // Process all transactions
   const normalizedTxs: NormalizedTransaction[] = [];
 
   for (const tx of transactions) {
-    const processed = processTransaction(tx, accountId, tokenInfoMap, hbarPrices);
+    const processed = processTransaction(tx, accountId, tokenInfoMap);
     normalizedTxs.push(...processed);
   }
 
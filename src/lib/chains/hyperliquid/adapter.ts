@@ -0,0 +1,38 @@
+import { AGGREGATE_FUNDING_OPTION, TRANSFERS_OPTION, type PerpsChainAdapter } from "../adapter";
+import { fetchAllDataForAddress, validateAddress } from "./api";
+import { normalizeHyperliquidData, normalizeHyperliquidLedgerUpdates, calculateSummary } from "./transactions";
+import type { HyperliquidAggregatedData } from "./types";
+
+function toMillis(date: string | undefined): number | undefined {
+  return date ? new Date(date).getTime() : undefined;
+}
+
+export const hyperliquidAdapter: PerpsChainAdapter<HyperliquidAggregatedData> = {
+  id: "hyperliquid",
+  kind: "perps",
+  name: "Hyperliquid",
+  symbol: "HYPE",
+  description: "Export perpetuals trades, positions, and funding payments",
+  features: ["Trades", "Positions", "Funding", "P&L", "No API Key"],
+  logo: "https://s2.coinmarketcap.com/static/img/coins/64x64/32196.png",
+  color: "#50D2C1",
+  input: {
+    type: "address",
+    label: "Wallet Address",
+    placeholder: "0x...",
+    help: "Enter the wallet address you trade with on Hyperliquid",
+    format: "0x...",
+    options: [AGGREGATE_FUNDING_OPTION, TRANSFERS_OPTION],
+  },
+  documentation: "https://hyperliquid.gitbook.io/hyperliquid-docs/for-developers/api/info-endpoint",
+  explorerTxUrl: "https://app.hyperliquid.xyz/explorer/tx/",
+
+  validateAddress: (address) => (validateAddress(address) ? address.toLowerCase() : null),
+  addressHint: "Hyperliquid uses Ethereum addresses. Must be a 42-character hex address starting with 0x.",
+
+  fetchRaw: ({ address, startDate, signal }) => fetchAllDataForAddress(address, toMillis(startDate), signal),
+  normalize: (raw, { address }) => normalizeHyperliquidData(raw.fills, raw.funding, address),
+  transfers: (raw, { address }) => normalizeHyperliquidLedgerUpdates(raw.ledgerUpdates, address),
+
+  summarize: (transactions) => ({ ...calculateSummary(transactions) }),
+};
@@ -0,0 +1,128 @@
+// Hyperliquid Info API Client
+// Docs: https://hyperliquid.gitbook.io/hyperliquid-docs/for-developers/api/info-endpoint
+
+import { fetchWithRetry } from "@/lib/fetch-with-retry";
+import {
+  type HyperliquidAggregatedData,
+  type HyperliquidFill,
+  type HyperliquidFunding,
+  type HyperliquidLedgerUpdate,
+  HYPERLIQUID_INFO_URL,
+} from "./types";
+
+// Rate limiter for the info endpoint (weight-based limit of 1200/min per IP)
+const RATE_LIMIT_DELAY = 250; // ms between requests
+let lastRequestTime = 0;
+
+async function rateLimitedPost(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+  const now = Date.now();
+  const timeSinceLastRequest = now - lastRequestTime;
+
+  if (timeSinceLastRequest < RATE_LIMIT_DELAY) {
+    await new Promise((resolve) =>
+      setTimeout(resolve, RATE_LIMIT_DELAY - timeSinceLastRequest)
+    );
+  }
+
+  lastRequestTime = Date.now();
+  return fetchWithRetry(HYPERLIQUID_INFO_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+}
+
+// Validate Ethereum address format (Hyperliquid accounts are EVM addresses)
+export function validateAddress(address: string): boolean {
+  if (!address) return false;
+  const ethAddressRegex = /^0x[a-fA-F0-9]{40}$/;
+  return ethAddressRegex.test(address);
+}
+
+// Safety limit per endpoint
+const MAX_PAGES = 100;
+
+/**
+ * Page through a time-ranged info request. Each response is capped (2000
+ * fills, 500 funding rows) and returned oldest first, so the next page starts
+ * at the last time seen; rows at that boundary come back twice and are
+ * de-duplicated by key. Stops once a page adds nothing new.
+ */
+async function fetchAllByTime<T extends { time: number }>(
+  type: string,
+  user: string,
+  startTime: number,
+  key: (item: T) => string,
+  signal?: AbortSignal
+): Promise<T[]> {
+  const items = new Map<string, T>();
+  let from = startTime;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const response = await rateLimitedPost({ type, user, startTime: from }, signal);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Hyperliquid API error (${response.status}): ${errorText}`);
+    }
+
+    const batch: T[] = await response.json();
+    if (!Array.isArray(batch) || batch.length === 0) break;
+
+    const before = items.size;
+    for (const item of batch) items.set(key(item), item);
+    if (items.size === before) break;
+
+    from = Math.max(from, ...batch.map((item) => item.time));
+  }
+
+  return [...items.values()].sort((a, b) => a.time - b.time);
+}
+
+// Fetch every fill for an address. Only the 10,000 most recent fills are
+// available from the API.
+export function fetchAllFills(address: string, signal?: AbortSignal): Promise<HyperliquidFill[]> {
+  return fetchAllByTime<HyperliquidFill>("userFillsByTime", address.toLowerCase(), 0, (fill) => String(fill.tid), signal);
+}
+
+// Fetch hourly funding payments since startTime (ms)
+export function fetchAllFunding(address: string, startTime = 0, signal?: AbortSignal): Promise<HyperliquidFunding[]> {
+  return fetchAllByTime<HyperliquidFunding>(
+    "userFunding",
+    address.toLowerCase(),
+    startTime,
+    (funding) => `${funding.time}-${funding.delta.coin}`,
+    signal
+  );
+}
+
+// Fetch deposits, withdrawals and transfers since startTime (ms)
+export function fetchAllLedgerUpdates(
+  address: string,
+  startTime = 0,
+  signal?: AbortSignal
+): Promise<HyperliquidLedgerUpdate[]> {
+  return fetchAllByTime<HyperliquidLedgerUpdate>(
+    "userNonFundingLedgerUpdates",
+    address.toLowerCase(),
+    startTime,
+    (update) => `${update.hash}-${update.time}-${update.delta.type}`,
+    signal
+  );
+}
+
+// Fetch all data for an address. Fills always come from the start of the
+// history, so closes in range are tagged against their opens; funding and
+// ledger updates only from startTime.
+export async function fetchAllDataForAddress(
+  address: string,
+  startTime?: number,
+  signal?: AbortSignal
+): Promise<HyperliquidAggregatedData> {
+  const fills = await fetchAllFills(address, signal);
+  const funding = await fetchAllFunding(address, startTime, signal);
+  const ledgerUpdates = await fetchAllLedgerUpdates(address, startTime, signal);
+
+  return { fills, funding, ledgerUpdates };
+}
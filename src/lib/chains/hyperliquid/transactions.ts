@@ -0,0 +1,243 @@
+// Hyperliquid transaction normalizer for Awaken Perps CSV format
+
+import type { NormalizedTransaction, PerpsTransaction } from "@/lib/types";
+import { absTokenAmount, parseTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+import { replayFills, type PerpsFill } from "@/lib/perps";
+import type {
+  HyperliquidFill,
+  HyperliquidFunding,
+  HyperliquidLedgerUpdate,
+  HyperliquidTransferDelta,
+} from "./types";
+import { HYPERLIQUID_SETTLEMENT_TOKEN, HYPERLIQUID_TRANSFER_TYPES } from "./types";
+
+// Spot fills trade "@{index}" or "BASE/QUOTE" pairs; everything else is a perp
+export function isPerpFill(fill: HyperliquidFill): boolean {
+  return !fill.coin.startsWith("@") && !fill.coin.includes("/");
+}
+
+// Whether a fill is the forced close of the address's own position. The
+// liquidator's fills carry the liquidated user too.
+function isLiquidatedFill(fill: HyperliquidFill, address?: string): boolean {
+  if (!fill.liquidation) return false;
+  const { liquidatedUser } = fill.liquidation;
+  return !liquidatedUser || !address || liquidatedUser.toLowerCase() === address.toLowerCase();
+}
+
+// Convert a Hyperliquid fill to a ledger fill; positions are per coin.
+// Hyperliquid reports closedPnl per fill, and only the most recent fills are
+// available, so "Close ..." fills are reduce-only: a close of a position
+// opened before the available history still counts as a close.
+export function toHyperliquidLedgerFill(fill: HyperliquidFill, address?: string): PerpsFill {
+  const size = parseFloat(fill.sz) || 0;
+  const price = parseFloat(fill.px) || 0;
+  const fee = parseFloat(fill.fee) || 0;
+  const closedPnl = parseFloat(fill.closedPnl) || 0;
+  const isLiquidation = fill.liquidation !== undefined;
+
+  const notes = [
+    `${fill.dir} ${fill.coin}-PERP`,
+    `@ ${price.toFixed(2)}`,
+    fill.crossed ? "Taker" : "Maker",
+    isLiquidation ? "LIQUIDATION" : "",
+  ]
+    .filter(Boolean)
+    .join(" | ");
+
+  return {
+    id: String(fill.tid),
+    date: new Date(fill.time),
+    positionKey: fill.coin,
+    asset: fill.coin,
+    sizeDelta: fill.side === "B" ? size : -size,
+    price,
+    fee,
+    paymentToken: fill.feeToken || HYPERLIQUID_SETTLEMENT_TOKEN,
+    notes,
+    transactionHash: fill.hash,
+    realizedPnl: closedPnl,
+    reduceOnly: fill.dir.startsWith("Close"),
+    ...(isLiquidatedFill(fill, address) && {
+      liquidation: { fee, markPrice: parseFloat(fill.liquidation?.markPx ?? "") || undefined },
+    }),
+  };
+}
+
+// Normalize Hyperliquid funding payment to Perps transaction
+export function normalizeHyperliquidFunding(funding: HyperliquidFunding): PerpsTransaction {
+  const { coin } = funding.delta;
+  const paymentAmount = parseFloat(funding.delta.usdc) || 0;
+  const positionSize = parseFloat(funding.delta.szi) || 0;
+  const fundingRate = parseFloat(funding.delta.fundingRate) || 0;
+
+  const notes = [
+    `Funding ${coin}-PERP`,
+    `Rate: ${(fundingRate * 100).toFixed(6)}%`,
+    `Position: ${positionSize}`,
+  ].join(" | ");
+
+  // Funding isn't an L1 transaction (its hash is all zeros), so the id
+  // doubles as the hash
+  const id = `funding-${coin}-${funding.time}`;
+
+  return {
+    id,
+    date: new Date(funding.time),
+    asset: coin,
+    amount: Math.abs(positionSize),
+    fee: 0,
+    pnl: paymentAmount, // Positive = received, negative = paid
+    paymentToken: HYPERLIQUID_SETTLEMENT_TOKEN,
+    notes,
+    transactionHash: id,
+    tag: "funding_payment",
+    market: coin,
+  };
+}
+
+function isTransferDelta(delta: HyperliquidLedgerUpdate["delta"]): delta is HyperliquidTransferDelta {
+  return (HYPERLIQUID_TRANSFER_TYPES as readonly string[]).includes(delta.type);
+}
+
+// Direction, fee and notes of a transfer, seen from the address's perps account
+function describeTransfer(
+  delta: HyperliquidTransferDelta,
+  address: string
+): { incoming: boolean; fee: number; notes: string } {
+  switch (delta.type) {
+    case "deposit":
+      return { incoming: true, fee: 0, notes: "Deposit from Arbitrum" };
+    case "withdraw":
+      return { incoming: false, fee: parseFloat(delta.fee) || 0, notes: "Withdrawal to Arbitrum" };
+    case "internalTransfer":
+    case "subAccountTransfer": {
+      const incoming = delta.destination.toLowerCase() === address.toLowerCase();
+      const label = delta.type === "internalTransfer" ? "Transfer" : "Sub-account transfer";
+      return {
+        incoming,
+        fee: incoming || delta.type === "subAccountTransfer" ? 0 : parseFloat(delta.fee) || 0,
+        notes: incoming ? `${label} from ${delta.user}` : `${label} to ${delta.destination}`,
+      };
+    }
+    case "accountClassTransfer":
+      return {
+        incoming: delta.toPerp,
+        fee: 0,
+        notes: delta.toPerp ? "Transfer from spot to perps" : "Transfer from perps to spot",
+      };
+  }
+}
+
+// Normalize a ledger update to a wallet_transfer row for the companion CSV.
+// Null for ledger kinds that aren't perps deposits, withdrawals or transfers.
+export function normalizeHyperliquidLedgerUpdate(
+  update: HyperliquidLedgerUpdate,
+  address: string
+): NormalizedTransaction | null {
+  const { delta } = update;
+  if (!isTransferDelta(delta)) return null;
+
+  const { incoming, fee, notes } = describeTransfer(delta, address);
+  const exact = absTokenAmount(parseTokenAmount(delta.usdc));
+  const amount = tokenAmountToNumber(exact);
+  const currency = HYPERLIQUID_SETTLEMENT_TOKEN;
+
+  return {
+    id: `${update.hash}-${delta.type}`,
+    type: incoming ? "transfer_received" : "transfer_sent",
+    timestamp: new Date(update.time),
+    sentAmount: incoming ? null : amount,
+    sentCurrency: incoming ? null : currency,
+    receivedAmount: incoming ? amount : null,
+    receivedCurrency: incoming ? currency : null,
+    feeAmount: fee,
+    feeCurrency: currency,
+    ...(incoming ? { receivedAmountExact: exact } : { sentAmountExact: exact }),
+    transactionHash: update.hash,
+    notes,
+    tag: "wallet_transfer",
+  };
+}
+
+// Normalize deposits, withdrawals and transfers, newest first
+export function normalizeHyperliquidLedgerUpdates(
+  updates: HyperliquidLedgerUpdate[],
+  address: string
+): NormalizedTransaction[] {
+  return updates
+    .map((update) => normalizeHyperliquidLedgerUpdate(update, address))
+    .filter((tx): tx is NormalizedTransaction => tx !== null)
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
+// Normalize all Hyperliquid data to Perps transactions
+export function normalizeHyperliquidData(
+  fills: HyperliquidFill[],
+  funding: HyperliquidFunding[],
+  address?: string
+): PerpsTransaction[] {
+  const allTransactions: PerpsTransaction[] = [];
+
+  // Replay perp fills through the position ledger for open/close and P&L
+  const { transactions: trades } = replayFills(
+    fills.filter(isPerpFill).map((fill) => toHyperliquidLedgerFill(fill, address))
+  );
+  allTransactions.push(...trades);
+
+  // Normalize funding payments
+  allTransactions.push(...funding.map(normalizeHyperliquidFunding));
+
+  // Sort by date descending (newest first)
+  allTransactions.sort((a, b) => b.date.getTime() - a.date.getTime());
+
+  return allTransactions;
+}
+
+// Calculate summary statistics
+export interface HyperliquidSummary {
+  totalTrades: number;
+  openPositions: number;
+  closePositions: number;
+  fundingPayments: number;
+  totalPnL: number;
+  totalFees: number;
+  tradedAssets: string[];
+}
+
+export function calculateSummary(transactions: PerpsTransaction[]): HyperliquidSummary {
+  const summary: HyperliquidSummary = {
+    totalTrades: 0,
+    openPositions: 0,
+    closePositions: 0,
+    fundingPayments: 0,
+    totalPnL: 0,
+    totalFees: 0,
+    tradedAssets: [],
+  };
+
+  const assets = new Set<string>();
+
+  for (const tx of transactions) {
+    summary.totalPnL += tx.pnl;
+    summary.totalFees += tx.fee;
+    assets.add(tx.asset);
+
+    switch (tx.tag) {
+      case "open_position":
+        summary.totalTrades++;
+        summary.openPositions++;
+        break;
+      case "close_position":
+        summary.totalTrades++;
+        summary.closePositions++;
+        break;
+      case "funding_payment":
+        summary.fundingPayments++;
+        break;
+    }
+  }
+
+  summary.tradedAssets = Array.from(assets).sort();
+
+  return summary;
+}
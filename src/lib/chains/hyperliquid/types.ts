@@ -0,0 +1,74 @@
+// Hyperliquid Info API Types
+// Docs: https://hyperliquid.gitbook.io/hyperliquid-docs/for-developers/api/info-endpoint
+
+// Fill from userFillsByTime. Numbers are decimal strings; times are ms.
+export interface HyperliquidFill {
+  coin: string;          // "BTC" for perps; "@107" or "PURR/USDC" for spot
+  px: string;
+  sz: string;
+  side: "B" | "A";       // B = buy, A = sell
+  time: number;
+  startPosition: string; // Signed position before the fill
+  dir: string;           // "Open Long", "Close Short", "Long > Short", "Buy", ...
+  closedPnl: string;     // Realized P&L before fees
+  hash: string;
+  oid: number;
+  crossed: boolean;
+  fee: string;
+  tid: number;
+  feeToken: string;
+  liquidation?: {
+    liquidatedUser?: string;
+    markPx: string;
+    method: string;
+  };
+}
+
+// Hourly funding from userFunding
+export interface HyperliquidFunding {
+  time: number;
+  hash: string;
+  delta: {
+    type: "funding";
+    coin: string;
+    usdc: string;        // Positive = received, negative = paid
+    szi: string;         // Signed position size
+    fundingRate: string;
+    nSamples?: number | null;
+  };
+}
+
+// Deposits, withdrawals and transfers from userNonFundingLedgerUpdates
+export type HyperliquidTransferDelta =
+  | { type: "deposit"; usdc: string }
+  | { type: "withdraw"; usdc: string; nonce: number; fee: string }
+  | { type: "internalTransfer"; usdc: string; user: string; destination: string; fee: string }
+  | { type: "subAccountTransfer"; usdc: string; user: string; destination: string }
+  | { type: "accountClassTransfer"; usdc: string; toPerp: boolean };
+
+export const HYPERLIQUID_TRANSFER_TYPES: readonly HyperliquidTransferDelta["type"][] = [
+  "deposit",
+  "withdraw",
+  "internalTransfer",
+  "subAccountTransfer",
+  "accountClassTransfer",
+];
+
+// Other kinds (vault, spot, rewards, ...) aren't perps transfers and are skipped
+export interface HyperliquidLedgerUpdate {
+  time: number;
+  hash: string;
+  delta: HyperliquidTransferDelta | { type: string };
+}
+
+export interface HyperliquidAggregatedData {
+  fills: HyperliquidFill[];
+  funding: HyperliquidFunding[];
+  ledgerUpdates: HyperliquidLedgerUpdate[];
+}
+
+// Hyperliquid info endpoint (POST, public)
+export const HYPERLIQUID_INFO_URL = "https://api.hyperliquid.xyz/info";
+
+// Perps margin and P&L settle in USDC
+export const HYPERLIQUID_SETTLEMENT_TOKEN = "USDC";
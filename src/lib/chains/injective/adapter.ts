@@ -0,0 +1,61 @@
+import { createCurrencyResolver } from "@/lib/pricing/legs";
+import type { StandardChainAdapter } from "../adapter";
+import { fetchAllTransactions } from "./api";
+import { normalizeTransaction, mergeAndSortTransactions } from "./transactions";
+import { isValidInjectiveAddress, INJECTIVE_PRICE_ASSETS } from "./utils";
+import type { ProcessedInjTx } from "./types";
+
+export const injectiveAdapter: StandardChainAdapter<ProcessedInjTx[]> = {
+  id: "injective",
+  kind: "standard",
+  name: "Injective",
+  symbol: "INJ",
+  description: "Export transfers, staking, IBC, and trading activity",
+  features: ["Transfers", "Staking", "IBC", "Trading", "USD Prices"],
+  logo: "https://s2.coinmarketcap.com/static/img/coins/64x64/7226.png",
+  color: "#00F2FE",
+  input: {
+    type: "address",
+    label: "Injective Wallet Address",
+    placeholder: "inj1...",
+    help: "Enter your Injective wallet address starting with inj1",
+    format: "inj1...",
+  },
+  explorerTxUrl: "https://explorer.injective.network/transaction/",
+
+  validateAddress: (address) => (isValidInjectiveAddress(address) ? address : null),
+  addressHint: "Address must start with 'inj1' and be 43 characters.",
+
+  fetchRaw: ({ address }) => fetchAllTransactions(address),
+  normalize: (raw, { address }) =>
+    mergeAndSortTransactions(raw.flatMap((tx) => normalizeTransaction(tx, address))),
+  currencyResolver: () => createCurrencyResolver("INJ", INJECTIVE_PRICE_ASSETS),
+
+  summarize(transactions) {
+    const breakdown = {
+      transfers: 0,
+      staking: 0,
+      rewards: 0,
+      trades: 0,
+      ibc: 0,
+    };
+
+    for (const tx of transactions) {
+      if (tx.type === "transfer_sent" || tx.type === "transfer_received") {
+        if (tx.tag === "wallet_transfer") {
+          breakdown.ibc++;
+        } else {
+          breakdown.transfers++;
+        }
+      } else if (tx.type === "stake" || tx.type === "unstake" || tx.type === "bond" || tx.type === "unbond") {
+        breakdown.staking++;
+      } else if (tx.type === "emission_reward") {
+        breakdown.rewards++;
+      } else if (tx.type === "swap") {
+        breakdown.trades++;
+      }
+    }
+
+    return breakdown;
+  },
+};
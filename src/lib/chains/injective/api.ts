@@ -18,7 +18,6 @@ const LCD_ENDPOINTS = [
   "https://sentry.lcd.injective.network:443",
   "https://lcd.injective.network",
 ];
-const COINGECKO_API = "https://api.coingecko.com/api/v3";
 
 // Rate limiting - conservative for public endpoints
 class RateLimiter {
@@ -389,77 +388,3 @@ export function extractStakingRewards(events: RpcEvent[]): Coin[] {
 
   return rewards;
 }
-
-// Price cache
-let priceCache: { data: Map<string, number>; timestamp: number } | null = null;
-const PRICE_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
-/**
- * Fetches INJ price history from CoinGecko.
- */
-export async function fetchPriceHistory(
-  startDate: string,
-  endDate: string
-): Promise<Map<string, number>> {
-  // Check cache
-  const now = Date.now();
-  if (priceCache && now - priceCache.timestamp < PRICE_CACHE_TTL) {
-    console.log("Using cached INJ price data");
-    return priceCache.data;
-  }
-
-  const priceMap = new Map<string, number>();
-
-  // Convert to timestamps
-  const start = new Date(startDate).getTime() / 1000;
-  const end = new Date(endDate).getTime() / 1000;
-
-  try {
-    await rateLimiter.waitForSlot();
-    const response = await fetch(
-      `${COINGECKO_API}/coins/injective-protocol/market_chart/range?vs_currency=usd&from=${start}&to=${end}`
-    );
-
-    if (response.ok) {
-      const data = await response.json();
-      const prices = data.prices || [];
-
-      for (const [timestamp, price] of prices) {
-        const date = new Date(timestamp).toISOString().split("T")[0];
-        priceMap.set(date, price);
-      }
-
-      priceCache = { data: priceMap, timestamp: now };
-      console.log(`Cached ${priceMap.size} price entries for INJ`);
-    }
-  } catch (error) {
-    console.error("Failed to fetch INJ price history:", error);
-  }
-
-  return priceMap;
-}
-
-/**
- * Fetches INJ price for a specific date.
- */
-export async function fetchPriceAtDate(date: string): Promise<number | null> {
-  try {
-    // Convert YYYY-MM-DD to DD-MM-YYYY for CoinGecko
-    const [year, month, day] = date.split("-");
-    const cgDate = `${day}-${month}-${year}`;
-
-    await rateLimiter.waitForSlot();
-    const response = await fetch(
-      `${COINGECKO_API}/coins/injective-protocol/history?date=${cgDate}&localization=false`
-    );
-
-    if (response.ok) {
-      const data = await response.json();
-      return data.market_data?.current_price?.usd || null;
-    }
-  } catch (error) {
-    console.error(`Failed to fetch INJ price for ${date}:`, error);
-  }
-
-  return null;
-}
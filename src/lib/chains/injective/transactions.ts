@@ -2,7 +2,9 @@ import type {
   NormalizedTransaction,
   TransactionType,
   AwakenTag,
+  TokenAmount,
 } from "@/lib/types";
+import { addTokenAmounts, tokenAmountToNumber } from "@/lib/amount";
 import type {
   ProcessedInjTx,
   TxMessage,
@@ -15,7 +17,7 @@ import type {
   Coin,
 } from "./types";
 import {
-  denomAmountToStandard,
+  denomAmountToExact,
   getSymbolFromDenom,
   INJECTIVE_UNBONDING_DAYS,
 } from "./utils";
@@ -47,22 +49,21 @@ function getTagForType(type: TransactionType): AwakenTag {
  */
 export function normalizeTransaction(
   tx: ProcessedInjTx,
-  walletAddress: string,
-  priceMap: Map<string, number>
+  walletAddress: string
 ): NormalizedTransaction[] {
   const results: NormalizedTransaction[] = [];
-  const dateKey = tx.timestamp.toISOString().split("T")[0];
-  const fiatPrice = priceMap.get(dateKey);
 
   // Calculate fee (usually in inj)
-  let totalFee = 0;
+  let totalFeeExact: TokenAmount | undefined;
   let feeCurrency = "INJ";
   for (const feeCoin of tx.fee) {
     if (feeCoin.denom === "inj") {
-      totalFee += denomAmountToStandard(feeCoin.amount, "inj");
+      const feeAmount = denomAmountToExact(feeCoin.amount, "inj");
+      totalFeeExact = totalFeeExact ? addTokenAmounts(totalFeeExact, feeAmount) : feeAmount;
       feeCurrency = "INJ";
     }
   }
+  const totalFee = totalFeeExact ? tokenAmountToNumber(totalFeeExact) : 0;
 
   // Process each message in the transaction
   for (let i = 0; i < tx.messages.length; i++) {
@@ -71,8 +72,8 @@ export function normalizeTransaction(
       msg,
       tx,
       walletAddress,
-      priceMap,
       i === 0 ? totalFee : 0, // Only first message gets fee
+      i === 0 ? totalFeeExact : undefined,
       feeCurrency,
       i
     );
@@ -84,7 +85,7 @@ export function normalizeTransaction(
 
   // If no messages were normalized but we have token movements, create from events
   if (results.length === 0 && tx.code === 0) {
-    const eventBased = normalizeFromEvents(tx, walletAddress, priceMap, totalFee, feeCurrency);
+    const eventBased = normalizeFromEvents(tx, walletAddress, totalFee, totalFeeExact, feeCurrency);
     if (eventBased) {
       results.push(...eventBased);
     }
@@ -100,48 +101,46 @@ function normalizeMessage(
   msg: TxMessage,
   tx: ProcessedInjTx,
   walletAddress: string,
-  priceMap: Map<string, number>,
   fee: number,
+  feeExact: TokenAmount | undefined,
   feeCurrency: string,
   msgIndex: number
 ): NormalizedTransaction | NormalizedTransaction[] | null {
   const msgType = msg["@type"];
-  const dateKey = tx.timestamp.toISOString().split("T")[0];
-  const fiatPrice = priceMap.get(dateKey);
 
   // Bank Send
   if (msgType === "/cosmos.bank.v1beta1.MsgSend") {
-    return normalizeMsgSend(msg as unknown as MsgSend, tx, walletAddress, fiatPrice, fee, feeCurrency, msgIndex);
+    return normalizeMsgSend(msg as unknown as MsgSend, tx, walletAddress, fee, feeExact, feeCurrency, msgIndex);
   }
 
   // IBC Transfer
   if (msgType === "/ibc.applications.transfer.v1.MsgTransfer") {
-    return normalizeMsgTransfer(msg as unknown as MsgTransfer, tx, walletAddress, fiatPrice, fee, feeCurrency, msgIndex);
+    return normalizeMsgTransfer(msg as unknown as MsgTransfer, tx, walletAddress, fee, feeExact, feeCurrency, msgIndex);
   }
 
   // Delegate (Stake)
   if (msgType === "/cosmos.staking.v1beta1.MsgDelegate") {
-    return normalizeMsgDelegate(msg as unknown as MsgDelegate, tx, fiatPrice, fee, feeCurrency, msgIndex);
+    return normalizeMsgDelegate(msg as unknown as MsgDelegate, tx, fee, feeExact, feeCurrency, msgIndex);
   }
 
   // Undelegate (Unstake)
   if (msgType === "/cosmos.staking.v1beta1.MsgUndelegate") {
-    return normalizeMsgUndelegate(msg as unknown as MsgUndelegate, tx, fiatPrice, fee, feeCurrency, msgIndex);
+    return normalizeMsgUndelegate(msg as unknown as MsgUndelegate, tx, fee, feeExact, feeCurrency, msgIndex);
   }
 
   // Redelegate
   if (msgType === "/cosmos.staking.v1beta1.MsgBeginRedelegate") {
-    return normalizeMsgRedelegate(msg as unknown as MsgBeginRedelegate, tx, fiatPrice, fee, feeCurrency, msgIndex);
+    return normalizeMsgRedelegate(msg as unknown as MsgBeginRedelegate, tx, fee, feeExact, feeCurrency, msgIndex);
   }
 
   // Withdraw Rewards
   if (msgType === "/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward") {
-    return normalizeMsgWithdrawReward(msg as unknown as MsgWithdrawDelegatorReward, tx, walletAddress, fiatPrice, fee, feeCurrency, msgIndex);
+    return normalizeMsgWithdrawReward(msg as unknown as MsgWithdrawDelegatorReward, tx, walletAddress, fee, feeExact, feeCurrency, msgIndex);
   }
 
   // Exchange module messages (spot trading)
   if (msgType.includes("injective.exchange")) {
-    return normalizeExchangeMessage(msg, tx, walletAddress, fiatPrice, fee, feeCurrency, msgIndex);
+    return normalizeExchangeMessage(msg, tx, walletAddress, fee, feeExact, feeCurrency, msgIndex);
   }
 
   return null;
@@ -154,8 +153,8 @@ function normalizeMsgSend(
   msg: MsgSend,
   tx: ProcessedInjTx,
   walletAddress: string,
-  fiatPrice: number | undefined,
   fee: number,
+  feeExact: TokenAmount | undefined,
   feeCurrency: string,
   msgIndex: number
 ): NormalizedTransaction | null {
@@ -165,13 +164,15 @@ function normalizeMsgSend(
   if (!isSender && !isReceiver) return null;
 
   // Sum up all coins in the transfer
-  let totalAmount = 0;
+  let exactAmount: TokenAmount | undefined;
   let currency = "INJ";
 
   for (const coin of msg.amount) {
-    totalAmount += denomAmountToStandard(coin.amount, coin.denom);
+    const coinAmount = denomAmountToExact(coin.amount, coin.denom);
+    exactAmount = exactAmount ? addTokenAmounts(exactAmount, coinAmount) : coinAmount;
     currency = getSymbolFromDenom(coin.denom);
   }
+  const totalAmount = exactAmount ? tokenAmountToNumber(exactAmount) : 0;
 
   const type: TransactionType = isSender ? "transfer_sent" : "transfer_received";
 
@@ -185,12 +186,15 @@ function normalizeMsgSend(
     receivedCurrency: isReceiver ? currency : null,
     feeAmount: isSender ? fee : 0,
     feeCurrency,
+    sentAmountExact: isSender ? exactAmount : undefined,
+    receivedAmountExact: isReceiver ? exactAmount : undefined,
+    feeAmountExact: isSender ? feeExact : undefined,
     transactionHash: tx.hash,
     notes: isSender
       ? `Transfer to ${msg.to_address.slice(0, 10)}...`
       : `Transfer from ${msg.from_address.slice(0, 10)}...`,
     tag: getTagForType(type),
-    fiatPrice,
+    counterparty: isSender ? msg.to_address : msg.from_address,
   };
 }
 
@@ -201,8 +205,8 @@ function normalizeMsgTransfer(
   msg: MsgTransfer,
   tx: ProcessedInjTx,
   walletAddress: string,
-  fiatPrice: number | undefined,
   fee: number,
+  feeExact: TokenAmount | undefined,
   feeCurrency: string,
   msgIndex: number
 ): NormalizedTransaction | null {
@@ -210,7 +214,8 @@ function normalizeMsgTransfer(
 
   if (!isSender) return null;
 
-  const amount = denomAmountToStandard(msg.token.amount, msg.token.denom);
+  const exactAmount = denomAmountToExact(msg.token.amount, msg.token.denom);
+  const amount = tokenAmountToNumber(exactAmount);
   const currency = getSymbolFromDenom(msg.token.denom);
 
   return {
@@ -223,10 +228,11 @@ function normalizeMsgTransfer(
     receivedCurrency: null,
     feeAmount: fee,
     feeCurrency,
+    sentAmountExact: exactAmount,
+    feeAmountExact: feeExact,
     transactionHash: tx.hash,
     notes: `IBC Transfer to ${msg.receiver.slice(0, 10)}... via ${msg.source_channel}`,
     tag: "wallet_transfer",
-    fiatPrice,
   };
 }
 
@@ -236,12 +242,13 @@ function normalizeMsgTransfer(
 function normalizeMsgDelegate(
   msg: MsgDelegate,
   tx: ProcessedInjTx,
-  fiatPrice: number | undefined,
   fee: number,
+  feeExact: TokenAmount | undefined,
   feeCurrency: string,
   msgIndex: number
 ): NormalizedTransaction {
-  const amount = denomAmountToStandard(msg.amount.amount, msg.amount.denom);
+  const exactAmount = denomAmountToExact(msg.amount.amount, msg.amount.denom);
+  const amount = tokenAmountToNumber(exactAmount);
   const currency = getSymbolFromDenom(msg.amount.denom);
 
   return {
@@ -254,10 +261,11 @@ function normalizeMsgDelegate(
     receivedCurrency: null,
     feeAmount: fee,
     feeCurrency,
+    sentAmountExact: exactAmount,
+    feeAmountExact: feeExact,
     transactionHash: tx.hash,
     notes: `Delegate to ${msg.validator_address.slice(0, 15)}...`,
     tag: "staking_deposit",
-    fiatPrice,
   };
 }
 
@@ -267,12 +275,13 @@ function normalizeMsgDelegate(
 function normalizeMsgUndelegate(
   msg: MsgUndelegate,
   tx: ProcessedInjTx,
-  fiatPrice: number | undefined,
   fee: number,
+  feeExact: TokenAmount | undefined,
   feeCurrency: string,
   msgIndex: number
 ): NormalizedTransaction {
-  const amount = denomAmountToStandard(msg.amount.amount, msg.amount.denom);
+  const exactAmount = denomAmountToExact(msg.amount.amount, msg.amount.denom);
+  const amount = tokenAmountToNumber(exactAmount);
   const currency = getSymbolFromDenom(msg.amount.denom);
 
   return {
@@ -285,10 +294,11 @@ function normalizeMsgUndelegate(
     receivedCurrency: currency,
     feeAmount: fee,
     feeCurrency,
+    receivedAmountExact: exactAmount,
+    feeAmountExact: feeExact,
     transactionHash: tx.hash,
     notes: `Undelegate from ${msg.validator_address.slice(0, 15)}... (${INJECTIVE_UNBONDING_DAYS} day wait)`,
     tag: "unstaking_withdraw",
-    fiatPrice,
   };
 }
 
@@ -298,12 +308,13 @@ function normalizeMsgUndelegate(
 function normalizeMsgRedelegate(
   msg: MsgBeginRedelegate,
   tx: ProcessedInjTx,
-  fiatPrice: number | undefined,
   fee: number,
+  feeExact: TokenAmount | undefined,
   feeCurrency: string,
   msgIndex: number
 ): NormalizedTransaction {
-  const amount = denomAmountToStandard(msg.amount.amount, msg.amount.denom);
+  const exactAmount = denomAmountToExact(msg.amount.amount, msg.amount.denom);
+  const amount = tokenAmountToNumber(exactAmount);
   const currency = getSymbolFromDenom(msg.amount.denom);
 
   // Redelegate is an internal move, not a taxable event
@@ -318,10 +329,12 @@ function normalizeMsgRedelegate(
     receivedCurrency: currency,
     feeAmount: fee,
     feeCurrency,
+    sentAmountExact: exactAmount,
+    receivedAmountExact: exactAmount,
+    feeAmountExact: feeExact,
     transactionHash: tx.hash,
     notes: `Redelegate from ${msg.validator_src_address.slice(0, 10)}... to ${msg.validator_dst_address.slice(0, 10)}...`,
     tag: "staking_deposit",
-    fiatPrice,
   };
 }
 
@@ -332,24 +345,27 @@ function normalizeMsgWithdrawReward(
   msg: MsgWithdrawDelegatorReward,
   tx: ProcessedInjTx,
   walletAddress: string,
-  fiatPrice: number | undefined,
   fee: number,
+  feeExact: TokenAmount | undefined,
   feeCurrency: string,
   msgIndex: number
 ): NormalizedTransaction | null {
   // Extract actual reward amount from events
   const rewards = extractStakingRewards(tx.events);
 
-  let totalReward = 0;
+  let exactReward: TokenAmount | undefined;
   let currency = "INJ";
 
   for (const reward of rewards) {
-    totalReward += denomAmountToStandard(reward.amount, reward.denom);
+    const rewardAmount = denomAmountToExact(reward.amount, reward.denom);
+    exactReward = exactReward ? addTokenAmounts(exactReward, rewardAmount) : rewardAmount;
     if (reward.denom === "inj") {
       currency = "INJ";
     }
   }
 
+  const totalReward = exactReward ? tokenAmountToNumber(exactReward) : 0;
+
   // If no rewards extracted from events, skip
   if (totalReward === 0) {
     return null;
@@ -365,10 +381,11 @@ function normalizeMsgWithdrawReward(
     receivedCurrency: currency,
     feeAmount: fee,
     feeCurrency,
+    receivedAmountExact: exactReward,
+    feeAmountExact: feeExact,
     transactionHash: tx.hash,
     notes: `Staking reward from ${msg.validator_address.slice(0, 15)}...`,
     tag: "claim_rewards",
-    fiatPrice,
   };
 }
 
@@ -379,8 +396,8 @@ function normalizeExchangeMessage(
   msg: TxMessage,
   tx: ProcessedInjTx,
   walletAddress: string,
-  fiatPrice: number | undefined,
   fee: number,
+  feeExact: TokenAmount | undefined,
   feeCurrency: string,
   msgIndex: number
 ): NormalizedTransaction | null {
@@ -392,21 +409,26 @@ function normalizeExchangeMessage(
     return null;
   }
 
-  let sentAmount = 0;
+  let exactSent: TokenAmount | undefined;
   let sentCurrency = "";
-  let receivedAmount = 0;
+  let exactReceived: TokenAmount | undefined;
   let receivedCurrency = "";
 
   for (const coin of sent) {
-    sentAmount += denomAmountToStandard(coin.amount, coin.denom);
+    const coinAmount = denomAmountToExact(coin.amount, coin.denom);
+    exactSent = exactSent ? addTokenAmounts(exactSent, coinAmount) : coinAmount;
     sentCurrency = getSymbolFromDenom(coin.denom);
   }
 
   for (const coin of received) {
-    receivedAmount += denomAmountToStandard(coin.amount, coin.denom);
+    const coinAmount = denomAmountToExact(coin.amount, coin.denom);
+    exactReceived = exactReceived ? addTokenAmounts(exactReceived, coinAmount) : coinAmount;
     receivedCurrency = getSymbolFromDenom(coin.denom);
   }
 
+  const sentAmount = exactSent ? tokenAmountToNumber(exactSent) : 0;
+  const receivedAmount = exactReceived ? tokenAmountToNumber(exactReceived) : 0;
+
   // Determine if this is a trade (both sent and received) or just transfer
   const isSwap = sentAmount > 0 && receivedAmount > 0;
 
@@ -420,10 +442,12 @@ function normalizeExchangeMessage(
     receivedCurrency: receivedAmount > 0 ? receivedCurrency : null,
     feeAmount: fee,
     feeCurrency,
+    sentAmountExact: sentAmount > 0 ? exactSent : undefined,
+    receivedAmountExact: receivedAmount > 0 ? exactReceived : undefined,
+    feeAmountExact: feeExact,
     transactionHash: tx.hash,
     notes: isSwap ? `Swap ${sentCurrency} for ${receivedCurrency}` : "Exchange transaction",
     tag: isSwap ? "trade" : getTagForType(sentAmount > 0 ? "transfer_sent" : "transfer_received"),
-    fiatPrice,
   };
 }
 
@@ -433,20 +457,19 @@ function normalizeExchangeMessage(
 function normalizeFromEvents(
   tx: ProcessedInjTx,
   walletAddress: string,
-  priceMap: Map<string, number>,
   fee: number,
+  feeExact: TokenAmount | undefined,
   feeCurrency: string
 ): NormalizedTransaction[] | null {
   const { received, sent } = extractTokenMovements(tx.events, walletAddress);
-  const dateKey = tx.timestamp.toISOString().split("T")[0];
-  const fiatPrice = priceMap.get(dateKey);
 
   const results: NormalizedTransaction[] = [];
 
   // Process received tokens
   for (let i = 0; i < received.length; i++) {
     const coin = received[i];
-    const amount = denomAmountToStandard(coin.amount, coin.denom);
+    const exactAmount = denomAmountToExact(coin.amount, coin.denom);
+    const amount = tokenAmountToNumber(exactAmount);
     const currency = getSymbolFromDenom(coin.denom);
 
     results.push({
@@ -459,17 +482,18 @@ function normalizeFromEvents(
       receivedCurrency: currency,
       feeAmount: 0,
       feeCurrency,
+      receivedAmountExact: exactAmount,
       transactionHash: tx.hash,
       notes: `Received ${currency}`,
       tag: "receive",
-      fiatPrice,
     });
   }
 
   // Process sent tokens
   for (let i = 0; i < sent.length; i++) {
     const coin = sent[i];
-    const amount = denomAmountToStandard(coin.amount, coin.denom);
+    const exactAmount = denomAmountToExact(coin.amount, coin.denom);
+    const amount = tokenAmountToNumber(exactAmount);
     const currency = getSymbolFromDenom(coin.denom);
 
     results.push({
@@ -482,10 +506,11 @@ function normalizeFromEvents(
       receivedCurrency: null,
       feeAmount: i === 0 ? fee : 0, // Only first gets fee
       feeCurrency,
+      sentAmountExact: exactAmount,
+      feeAmountExact: i === 0 ? feeExact : undefined,
       transactionHash: tx.hash,
       notes: `Sent ${currency}`,
       tag: "payment",
-      fiatPrice,
     });
   }
 
@@ -1,5 +1,8 @@
 // Injective-specific utilities
 
+import type { TokenAmount } from "@/lib/types";
+import { toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+
 /**
  * Validates an Injective address (Bech32 with "inj" prefix)
  * Format: inj1 + 38 lowercase alphanumeric characters
@@ -24,20 +27,7 @@ export function isValidInjectiveAddress(address: string): boolean {
  * INJ uses 18 decimals like Ethereum
  */
 export function weiToInj(wei: string | number | bigint): number {
-  const weiBigInt = typeof wei === "string" ? BigInt(wei) : BigInt(wei);
-  // Use string manipulation for precision with large numbers
-  const weiStr = weiBigInt.toString();
-
-  if (weiStr.length <= 18) {
-    // Less than 1 INJ
-    return Number(weiBigInt) / 1e18;
-  }
-
-  // Split into integer and decimal parts
-  const integerPart = weiStr.slice(0, -18) || "0";
-  const decimalPart = weiStr.slice(-18).padStart(18, "0");
-
-  return parseFloat(`${integerPart}.${decimalPart}`);
+  return tokenAmountToNumber(toTokenAmount(wei, INJECTIVE_DECIMALS));
 }
 
 /**
@@ -45,8 +35,7 @@ export function weiToInj(wei: string | number | bigint): number {
  * Used for some IBC tokens and USDT/USDC
  */
 export function microToStandard(micro: string | number): number {
-  const microBigInt = typeof micro === "string" ? BigInt(micro) : BigInt(micro);
-  return Number(microBigInt) / 1e6;
+  return tokenAmountToNumber(toTokenAmount(micro, 6));
 }
 
 /**
@@ -93,6 +82,16 @@ export const TOKEN_DECIMALS: Record<string, number> = {
   factory: 18, // Factory tokens default
 };
 
+/**
+ * Price asset ids for token symbols with a trusted USD price
+ */
+export const INJECTIVE_PRICE_ASSETS: Record<string, string> = {
+  USDT: "coingecko:tether",
+  USDC: "USDC",
+  WETH: "WETH",
+  WBTC: "coingecko:wrapped-bitcoin",
+};
+
 /**
  * Get decimals for a denom
  */
@@ -123,9 +122,14 @@ export function getDecimalsForDenom(denom: string): number {
  * Convert amount based on denom decimals
  */
 export function denomAmountToStandard(amount: string, denom: string): number {
-  const decimals = getDecimalsForDenom(denom);
-  const amountBigInt = BigInt(amount);
-  return Number(amountBigInt) / Math.pow(10, decimals);
+  return tokenAmountToNumber(denomAmountToExact(amount, denom));
+}
+
+/**
+ * Convert amount to an exact amount with the denom's decimals
+ */
+export function denomAmountToExact(amount: string, denom: string): TokenAmount {
+  return toTokenAmount(amount, getDecimalsForDenom(denom));
 }
 
 /**
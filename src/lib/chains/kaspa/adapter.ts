@@ -0,0 +1,38 @@
+import { createCurrencyResolver } from "@/lib/pricing/legs";
+import type { StandardChainAdapter } from "../adapter";
+import { fetchAllTransactions } from "./api";
+import { processTransactions } from "./transactions";
+import { isValidKaspaAddress } from "./utils";
+import type { KaspaTransaction } from "./types";
+
+export const kaspaAdapter: StandardChainAdapter<KaspaTransaction[]> = {
+  id: "kaspa",
+  kind: "standard",
+  name: "Kaspa",
+  symbol: "KAS",
+  description: "Export KAS transfers and mining rewards",
+  features: ["Transfers", "Mining Rewards", "USD Prices"],
+  logo: "https://s2.coinmarketcap.com/static/img/coins/64x64/20396.png",
+  color: "#70C7BA",
+  input: {
+    type: "address",
+    label: "Kaspa Wallet Address",
+    placeholder: "kaspa:qp...",
+    help: "Enter your Kaspa (KAS) wallet address starting with 'kaspa:'",
+    format: "kaspa:...",
+  },
+  explorerTxUrl: "https://explorer.kaspa.org/txs/",
+
+  validateAddress: (address) => (isValidKaspaAddress(address) ? address : null),
+  addressHint: "Kaspa addresses must start with 'kaspa:' followed by a bech32-encoded payload",
+
+  fetchRaw: ({ address }) => fetchAllTransactions(address),
+  normalize: (raw, { address }) => processTransactions(raw, address),
+  currencyResolver: () => createCurrencyResolver("KAS"),
+
+  summarize: (transactions) => ({
+    sent: transactions.filter((tx) => tx.type === "transfer_sent").length,
+    received: transactions.filter((tx) => tx.type === "transfer_received").length,
+    totalFees: transactions.reduce((sum, tx) => sum + tx.feeAmount, 0),
+  }),
+};
@@ -1,14 +1,10 @@
 // Kaspa API functions
 
-import type { KaspaTransaction, KaspaPrice } from "./types";
+import type { KaspaTransaction } from "./types";
 
 const API_BASE = "https://api.kaspa.org";
 const MAX_LIMIT = 500; // Max allowed by API
 
-// Cache for price to avoid repeated calls
-let priceCache: { price: number; timestamp: number } | null = null;
-const PRICE_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
 async function fetchWithRetry<T>(
   url: string,
   retries = 3
@@ -95,30 +91,6 @@ export async function fetchAllTransactions(
   return allTransactions;
 }
 
-/**
- * Fetch current KAS price in USD
- */
-export async function fetchKaspaPrice(): Promise<number | null> {
-  // Check cache first
-  const now = Date.now();
-  if (priceCache && now - priceCache.timestamp < PRICE_CACHE_TTL) {
-    return priceCache.price;
-  }
-
-  try {
-    const url = `${API_BASE}/info/price`;
-    const data = await fetchWithRetry<KaspaPrice>(url);
-
-    // Cache the price
-    priceCache = { price: data.price, timestamp: now };
-
-    return data.price;
-  } catch (error) {
-    console.warn("Failed to fetch KAS price:", error);
-    return null;
-  }
-}
-
 /**
  * Get transaction count for an address
  */
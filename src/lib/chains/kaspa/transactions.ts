@@ -1,8 +1,9 @@
 // Kaspa transaction normalization
 
-import type { NormalizedTransaction, TransactionType, AwakenTag } from "@/lib/types";
+import type { NormalizedTransaction, TransactionType, AwakenTag, TokenAmount } from "@/lib/types";
 import type { KaspaTransaction } from "./types";
-import { sompiToKas, normalizeAddress } from "./utils";
+import { tokenAmountToNumber } from "@/lib/amount";
+import { sompiToKasAmount, normalizeAddress } from "./utils";
 
 function getTagForType(type: TransactionType): AwakenTag {
   switch (type) {
@@ -30,17 +31,18 @@ function isCoinbase(tx: KaspaTransaction): boolean {
 function calculateNetFlow(
   tx: KaspaTransaction,
   walletAddress: string
-): { sent: number; received: number; fee: number } {
+): { sent: TokenAmount; received: TokenAmount; fee: TokenAmount } {
   const normalizedWallet = normalizeAddress(walletAddress);
-  let totalInputFromWallet = 0;
-  let totalOutputToWallet = 0;
-  let totalInputs = 0;
-  let totalOutputs = 0;
+  const zero = BigInt(0);
+  let totalInputFromWallet = zero;
+  let totalOutputToWallet = zero;
+  let totalInputs = zero;
+  let totalOutputs = zero;
 
   // Sum inputs from this wallet
   for (const input of tx.inputs) {
     const inputAddress = normalizeAddress(input.previous_outpoint_address);
-    const amount = input.previous_outpoint_amount;
+    const amount = BigInt(input.previous_outpoint_amount);
     totalInputs += amount;
 
     if (inputAddress === normalizedWallet) {
@@ -51,7 +53,7 @@ function calculateNetFlow(
   // Sum outputs to this wallet
   for (const output of tx.outputs) {
     const outputAddress = normalizeAddress(output.script_public_key_address);
-    const amount = output.amount;
+    const amount = BigInt(output.amount);
     totalOutputs += amount;
 
     if (outputAddress === normalizedWallet) {
@@ -65,20 +67,20 @@ function calculateNetFlow(
   // If wallet provided inputs, they sent something
   // Net sent = what we put in - what we got back (change)
   // If wallet received outputs but didn't provide inputs, they received
-  const sent = totalInputFromWallet > 0
-    ? Math.max(0, totalInputFromWallet - totalOutputToWallet)
-    : 0;
+  const sent = totalInputFromWallet > totalOutputToWallet
+    ? totalInputFromWallet - totalOutputToWallet
+    : zero;
 
-  const received = totalInputFromWallet === 0 && totalOutputToWallet > 0
+  const received = totalInputFromWallet === zero && totalOutputToWallet > zero
     ? totalOutputToWallet
-    : totalInputFromWallet > 0 && totalOutputToWallet > totalInputFromWallet
+    : totalInputFromWallet > zero && totalOutputToWallet > totalInputFromWallet
       ? totalOutputToWallet - totalInputFromWallet
-      : 0;
+      : zero;
 
   return {
-    sent: sompiToKas(sent),
-    received: sompiToKas(received),
-    fee: sent > 0 ? sompiToKas(fee) : 0, // Only attribute fee if we sent
+    sent: sompiToKasAmount(sent),
+    received: sompiToKasAmount(received),
+    fee: sompiToKasAmount(sent > zero ? fee : zero), // Only attribute fee if we sent
   };
 }
 
@@ -118,15 +120,17 @@ function getCounterparty(
  */
 export function normalizeTransaction(
   tx: KaspaTransaction,
-  walletAddress: string,
-  kasPrice: number | null
+  walletAddress: string
 ): NormalizedTransaction | null {
   // Skip unaccepted transactions
   if (!tx.is_accepted) {
     return null;
   }
 
-  const { sent, received, fee } = calculateNetFlow(tx, walletAddress);
+  const flow = calculateNetFlow(tx, walletAddress);
+  const sent = tokenAmountToNumber(flow.sent);
+  const received = tokenAmountToNumber(flow.received);
+  const fee = tokenAmountToNumber(flow.fee);
 
   // Skip if no movement for this wallet
   if (sent === 0 && received === 0) {
@@ -176,10 +180,12 @@ export function normalizeTransaction(
     receivedCurrency: received > 0 ? "KAS" : null,
     feeAmount: fee,
     feeCurrency: "KAS",
+    sentAmountExact: sent > 0 ? flow.sent : undefined,
+    receivedAmountExact: received > 0 ? flow.received : undefined,
+    feeAmountExact: flow.fee,
     transactionHash: tx.transaction_id,
     notes,
     tag: getTagForType(type),
-    fiatPrice: kasPrice ?? undefined,
   };
 }
 
@@ -188,13 +194,12 @@ export function normalizeTransaction(
  */
 export function processTransactions(
   transactions: KaspaTransaction[],
-  walletAddress: string,
-  kasPrice: number | null
+  walletAddress: string
 ): NormalizedTransaction[] {
   const normalized: NormalizedTransaction[] = [];
 
   for (const tx of transactions) {
-    const result = normalizeTransaction(tx, walletAddress, kasPrice);
+    const result = normalizeTransaction(tx, walletAddress);
     if (result) {
       normalized.push(result);
     }
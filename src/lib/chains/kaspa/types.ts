@@ -36,10 +36,6 @@ export interface KaspaTransaction {
   outputs: KaspaOutput[];
 }
 
-export interface KaspaPrice {
-  price: number;
-}
-
 export interface KaspaBalance {
   address: string;
   balance: number;
@@ -1,14 +1,23 @@
 // Kaspa utility functions
 
+import type { TokenAmount } from "@/lib/types";
+import { toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+
 // 1 KAS = 100,000,000 sompi (8 decimals)
-const SOMPI_PER_KAS = 100_000_000;
+const KAS_DECIMALS = 8;
+
+/**
+ * Convert sompi (smallest unit) to an exact KAS amount
+ */
+export function sompiToKasAmount(sompi: number | string | bigint): TokenAmount {
+  return toTokenAmount(sompi, KAS_DECIMALS);
+}
 
 /**
  * Convert sompi (smallest unit) to KAS
  */
 export function sompiToKas(sompi: number | string): number {
-  const value = typeof sompi === "string" ? parseFloat(sompi) : sompi;
-  return value / SOMPI_PER_KAS;
+  return tokenAmountToNumber(sompiToKasAmount(sompi));
 }
 
 /**
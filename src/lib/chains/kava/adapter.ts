@@ -0,0 +1,89 @@
+import { createCurrencyResolver } from "@/lib/pricing/legs";
+import { ChainRequestError, type StandardChainAdapter } from "../adapter";
+import {
+  isValidKavaAddress,
+  isValidEvmAddress,
+  normalizeAddress,
+  fetchAccountInfo,
+  fetchAllTransactions,
+} from "./api";
+import { normalizeKavaTransactions, calculateSummary } from "./transactions";
+import { KAVA_PRICE_ASSETS, type EVMTokenTransfer, type KavaTxResponse } from "./types";
+
+interface KavaRawData {
+  cosmos: KavaTxResponse[];
+  evmTransfers: EVMTokenTransfer[];
+  /** Validated EVM address, if one was given */
+  evmAddress: string | null;
+}
+
+function validateEvmAddress(evmAddress: unknown): string | null {
+  if (typeof evmAddress !== "string" || !evmAddress) return null;
+
+  const normalized = evmAddress.trim().toLowerCase();
+  if (isValidEvmAddress(normalized)) return normalized;
+
+  console.warn(`Invalid EVM address provided: ${evmAddress}, skipping EVM transactions`);
+  return null;
+}
+
+export const kavaAdapter: StandardChainAdapter<KavaRawData> = {
+  id: "kava",
+  kind: "standard",
+  name: "Kava",
+  symbol: "KAVA",
+  description: "Export KAVA transfers, staking, CDP, lending, swaps, and rewards",
+  features: ["Transfers", "Staking", "CDP/USDX", "Lending", "Swaps", "Rewards", "EVM Tokens", "USD Prices"],
+  logo: "https://s2.coinmarketcap.com/static/img/coins/64x64/4846.png",
+  color: "#FF564F",
+  input: {
+    type: "address",
+    label: "Kava Address",
+    placeholder: "kava1...",
+    help: "Enter your Kava address starting with 'kava1'",
+    format: "kava1...",
+    options: [
+      {
+        name: "evmAddress",
+        type: "string",
+        description: "EVM address (0x...) whose ERC-20 token transfers are included",
+        ui: {
+          label: "EVM Address (Optional)",
+          placeholder: "0x...",
+          help: "Optional: Add your Kava EVM address (0x...) to include ERC-20 token transfers",
+        },
+      },
+    ],
+  },
+  explorerTxUrl: "https://www.mintscan.io/kava/tx/",
+
+  validateAddress(address) {
+    const kavaAddress = normalizeAddress(address);
+    return isValidKavaAddress(kavaAddress) ? kavaAddress : null;
+  },
+  addressHint:
+    "Kava addresses start with 'kava1' followed by 38 alphanumeric characters (e.g., kava1abc123...)",
+
+  async fetchRaw({ address, options }) {
+    const evmAddress = validateEvmAddress(options.evmAddress);
+
+    if (!(await fetchAccountInfo(address))) {
+      throw new ChainRequestError(
+        "ACCOUNT_NOT_FOUND",
+        "Account not found",
+        `No Kava account found with address ${address}. The account may not have any transactions yet.`
+      );
+    }
+
+    const { cosmos, evmTransfers } = await fetchAllTransactions(address, evmAddress || undefined);
+    return { cosmos, evmTransfers, evmAddress };
+  },
+  normalize: (raw, { address }) =>
+    normalizeKavaTransactions(raw.cosmos, raw.evmTransfers, address, raw.evmAddress),
+  currencyResolver: () => createCurrencyResolver("KAVA", KAVA_PRICE_ASSETS),
+
+  summarize: (transactions, raw) => ({
+    ...calculateSummary(transactions),
+    evmAddress: raw.evmAddress,
+  }),
+};
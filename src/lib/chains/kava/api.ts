@@ -1,5 +1,7 @@
 // Kava API Client - Cosmos SDK + EVM Support
 
+import type { TokenAmount } from "@/lib/types";
+import { toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
 import {
   type KavaTxResponse,
   type KavaTxSearchResponse,
@@ -515,9 +517,13 @@ export async function fetchAllTransactions(
 
 // Convert micro units to standard units
 export function microToStandard(amount: string, decimals: number = 6): number {
-  const amountNum = parseInt(amount, 10);
-  if (isNaN(amountNum)) return 0;
-  return amountNum / Math.pow(10, decimals);
+  return tokenAmountToNumber(microToExact(amount, decimals));
+}
+
+// Convert micro units to an exact amount (zero if the amount is not an integer)
+export function microToExact(amount: string, decimals: number = 6): TokenAmount {
+  const match = amount.trim().match(/^\d+/);
+  return toTokenAmount(match ? match[0] : 0, decimals);
 }
 
 // Resolve IBC denom to token info
@@ -542,9 +548,16 @@ export function resolveIbcDenom(
   return null;
 }
 
+// Display and exact amounts of a coin
+function coinAmounts(amount: string, decimals: number): { amount: number; exact: TokenAmount } {
+  const exact = microToExact(amount, decimals);
+  return { amount: tokenAmountToNumber(exact), exact };
+}
+
 // Parse coin amount with full token resolution
 export function parseCoin(coin: CosmosCoin): {
   amount: number;
+  exact: TokenAmount;
   symbol: string;
   denom: string;
   coingeckoId: string;
@@ -553,7 +566,7 @@ export function parseCoin(coin: CosmosCoin): {
   const nativeToken = KAVA_TOKENS[coin.denom];
   if (nativeToken) {
     return {
-      amount: microToStandard(coin.amount, nativeToken.decimals),
+      ...coinAmounts(coin.amount, nativeToken.decimals),
       symbol: nativeToken.symbol,
       denom: coin.denom,
       coingeckoId: nativeToken.coingeckoId,
@@ -564,7 +577,7 @@ export function parseCoin(coin: CosmosCoin): {
   const ibcToken = resolveIbcDenom(coin.denom);
   if (ibcToken) {
     return {
-      amount: microToStandard(coin.amount, ibcToken.decimals),
+      ...coinAmounts(coin.amount, ibcToken.decimals),
       symbol: ibcToken.symbol,
       denom: coin.denom,
       coingeckoId: ibcToken.coingeckoId,
@@ -574,7 +587,7 @@ export function parseCoin(coin: CosmosCoin): {
   // Handle bkava variants (bkava-xxx for different validators)
   if (coin.denom.startsWith("bkava")) {
     return {
-      amount: microToStandard(coin.amount, 6),
+      ...coinAmounts(coin.amount, 6),
       symbol: "bKAVA",
       denom: coin.denom,
       coingeckoId: "kava",
@@ -583,7 +596,7 @@ export function parseCoin(coin: CosmosCoin): {
 
   // Unknown denom
   return {
-    amount: microToStandard(coin.amount, 6),
+    ...coinAmounts(coin.amount, 6),
     symbol: coin.denom.toUpperCase(),
     denom: coin.denom,
     coingeckoId: "",
@@ -593,12 +606,12 @@ export function parseCoin(coin: CosmosCoin): {
 // Parse coins array
 export function parseCoins(
   coins: CosmosCoin[]
-): Array<{ amount: number; symbol: string; denom: string; coingeckoId: string }> {
+): Array<{ amount: number; exact: TokenAmount; symbol: string; denom: string; coingeckoId: string }> {
   return coins.map(parseCoin);
 }
 
 // Get fee from transaction
-export function getTxFee(tx: KavaTxResponse): { amount: number; symbol: string } {
+export function getTxFee(tx: KavaTxResponse): { amount: number; exact?: TokenAmount; symbol: string } {
   const feeCoins = tx.tx?.auth_info?.fee?.amount || [];
 
   if (feeCoins.length === 0) {
@@ -608,68 +621,17 @@ export function getTxFee(tx: KavaTxResponse): { amount: number; symbol: string }
   // Usually fee is in ukava
   const ukavaFee = feeCoins.find((c) => c.denom === "ukava");
   if (ukavaFee) {
+    const exact = microToExact(ukavaFee.amount, 6);
     return {
-      amount: microToStandard(ukavaFee.amount, 6),
+      amount: tokenAmountToNumber(exact),
+      exact,
       symbol: "KAVA",
     };
   }
 
   // Fallback to first fee
   const parsed = parseCoin(feeCoins[0]);
-  return { amount: parsed.amount, symbol: parsed.symbol };
-}
-
-// Price cache to reduce API calls
-const priceCache = new Map<string, number>();
-
-// Fetch KAVA price from CoinGecko
-export async function fetchKavaPrice(timestamp: Date): Promise<number | null> {
-  const dateStr = timestamp.toISOString().split("T")[0];
-
-  // Check cache first
-  if (priceCache.has(dateStr)) {
-    return priceCache.get(dateStr)!;
-  }
-
-  try {
-    const [year, month, day] = dateStr.split("-");
-    const formattedDate = `${day}-${month}-${year}`;
-
-    const response = await fetch(
-      `https://api.coingecko.com/api/v3/coins/kava/history?date=${formattedDate}`,
-      {
-        headers: { Accept: "application/json" },
-      }
-    );
-
-    if (!response.ok) {
-      return null;
-    }
-
-    const data = await response.json();
-    const price = data.market_data?.current_price?.usd ?? null;
-
-    if (price !== null) {
-      priceCache.set(dateStr, price);
-    }
-
-    return price;
-  } catch {
-    return null;
-  }
-}
-
-// Get unique dates from transactions
-export function getUniqueDates(transactions: KavaTxResponse[]): string[] {
-  const dates = new Set<string>();
-
-  for (const tx of transactions) {
-    const timestamp = new Date(tx.timestamp);
-    const dateStr = timestamp.toISOString().split("T")[0];
-    dates.add(dateStr);
-  }
-
-  return Array.from(dates);
+  return { amount: parsed.amount, exact: parsed.exact, symbol: parsed.symbol };
 }
 
 // Extract events from transaction logs (improved version)
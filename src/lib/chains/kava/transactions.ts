@@ -4,7 +4,9 @@ import type {
   NormalizedTransaction,
   TransactionType,
   AwakenTag,
+  TokenAmount,
 } from "@/lib/types";
+import { toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
 import {
   type KavaTxResponse,
   type KavaMessage,
@@ -15,8 +17,6 @@ import {
 import {
   parseCoin,
   getTxFee,
-  fetchKavaPrice,
-  getUniqueDates,
   extractEvents,
   extractTransferEvents,
   microToStandard,
@@ -267,7 +267,9 @@ function getAwakenTag(
 }
 
 // Parse coin amount string like "1234ukava" or "1234567usdx"
-function parseAmountString(amountStr: string): { amount: number; symbol: string } | null {
+function parseAmountString(
+  amountStr: string
+): { amount: number; exact: TokenAmount; symbol: string } | null {
   if (!amountStr) return null;
 
   // Handle multiple coins separated by comma
@@ -277,7 +279,7 @@ function parseAmountString(amountStr: string): { amount: number; symbol: string
     const match = firstPart.match(/^(\d+)(.+)$/);
     if (match) {
       const parsed = parseCoin({ denom: match[2], amount: match[1] });
-      return { amount: parsed.amount, symbol: parsed.symbol };
+      return { amount: parsed.amount, exact: parsed.exact, symbol: parsed.symbol };
     }
   }
 
@@ -295,11 +297,15 @@ function extractAmounts(
   sentCurrency: string | null;
   receivedAmount: number | null;
   receivedCurrency: string | null;
+  sentAmountExact?: TokenAmount;
+  receivedAmountExact?: TokenAmount;
 } {
   let sentAmount: number | null = null;
   let sentCurrency: string | null = null;
   let receivedAmount: number | null = null;
   let receivedCurrency: string | null = null;
+  let sentAmountExact: TokenAmount | undefined;
+  let receivedAmountExact: TokenAmount | undefined;
 
   switch (msgType) {
     // Bank transfer
@@ -308,9 +314,11 @@ function extractAmounts(
         const parsed = parseCoin(msg.amount[0]);
         if (msg.from_address === address) {
           sentAmount = parsed.amount;
+          sentAmountExact = parsed.exact;
           sentCurrency = parsed.symbol;
         } else {
           receivedAmount = parsed.amount;
+          receivedAmountExact = parsed.exact;
           receivedCurrency = parsed.symbol;
         }
       }
@@ -325,6 +333,7 @@ function extractAmounts(
         if (coin.denom && coin.amount) {
           const parsed = parseCoin(coin);
           sentAmount = parsed.amount;
+          sentAmountExact = parsed.exact;
           sentCurrency = parsed.symbol;
         }
       }
@@ -337,6 +346,7 @@ function extractAmounts(
         if (coin.denom && coin.amount) {
           const parsed = parseCoin(coin);
           receivedAmount = parsed.amount;
+          receivedAmountExact = parsed.exact;
           receivedCurrency = parsed.symbol;
         }
       }
@@ -355,6 +365,7 @@ function extractAmounts(
         const parsed = parseAmountString(rewardEvents[0].amount);
         if (parsed) {
           receivedAmount = parsed.amount;
+          receivedAmountExact = parsed.exact;
           receivedCurrency = parsed.symbol;
         }
       }
@@ -366,6 +377,7 @@ function extractAmounts(
             const parsed = parseAmountString(event.amount);
             if (parsed) {
               receivedAmount = parsed.amount;
+              receivedAmountExact = parsed.exact;
               receivedCurrency = parsed.symbol;
               break;
             }
@@ -381,6 +393,7 @@ function extractAmounts(
             const parsed = parseAmountString(transfer.amount);
             if (parsed) {
               receivedAmount = parsed.amount;
+              receivedAmountExact = parsed.exact;
               receivedCurrency = parsed.symbol;
               break;
             }
@@ -395,11 +408,13 @@ function extractAmounts(
       if (msg.collateral) {
         const parsed = parseCoin(msg.collateral);
         sentAmount = parsed.amount;
+        sentAmountExact = parsed.exact;
         sentCurrency = parsed.symbol;
       }
       if (msg.principal) {
         const parsed = parseCoin(msg.principal);
         receivedAmount = parsed.amount;
+        receivedAmountExact = parsed.exact;
         receivedCurrency = parsed.symbol;
       }
       break;
@@ -409,6 +424,7 @@ function extractAmounts(
       if (msg.collateral) {
         const parsed = parseCoin(msg.collateral);
         sentAmount = parsed.amount;
+        sentAmountExact = parsed.exact;
         sentCurrency = parsed.symbol;
       }
       break;
@@ -418,6 +434,7 @@ function extractAmounts(
       if (msg.collateral) {
         const parsed = parseCoin(msg.collateral);
         receivedAmount = parsed.amount;
+        receivedAmountExact = parsed.exact;
         receivedCurrency = parsed.symbol;
       }
       break;
@@ -427,6 +444,7 @@ function extractAmounts(
       if (msg.principal) {
         const parsed = parseCoin(msg.principal);
         receivedAmount = parsed.amount;
+        receivedAmountExact = parsed.exact;
         receivedCurrency = parsed.symbol;
       }
       break;
@@ -436,6 +454,7 @@ function extractAmounts(
       if (msg.payment) {
         const parsed = parseCoin(msg.payment);
         sentAmount = parsed.amount;
+        sentAmountExact = parsed.exact;
         sentCurrency = parsed.symbol;
       }
       break;
@@ -447,6 +466,7 @@ function extractAmounts(
       if (msg.amount && Array.isArray(msg.amount) && msg.amount.length > 0) {
         const parsed = parseCoin(msg.amount[0]);
         sentAmount = parsed.amount;
+        sentAmountExact = parsed.exact;
         sentCurrency = parsed.symbol;
       }
       break;
@@ -457,6 +477,7 @@ function extractAmounts(
       if (msg.amount && Array.isArray(msg.amount) && msg.amount.length > 0) {
         const parsed = parseCoin(msg.amount[0]);
         receivedAmount = parsed.amount;
+        receivedAmountExact = parsed.exact;
         receivedCurrency = parsed.symbol;
       }
       break;
@@ -467,6 +488,7 @@ function extractAmounts(
       if (msg.exact_token_a) {
         const parsed = parseCoin(msg.exact_token_a);
         sentAmount = parsed.amount;
+        sentAmountExact = parsed.exact;
         sentCurrency = parsed.symbol;
       }
       // Get actual received amount from events
@@ -475,12 +497,14 @@ function extractAmounts(
         const parsed = parseAmountString(swapEvents[0].output);
         if (parsed) {
           receivedAmount = parsed.amount;
+          receivedAmountExact = parsed.exact;
           receivedCurrency = parsed.symbol;
         }
       } else if (msg.token_b) {
         // Fallback to expected amount
         const parsed = parseCoin(msg.token_b);
         receivedAmount = parsed.amount;
+        receivedAmountExact = parsed.exact;
         receivedCurrency = parsed.symbol;
       }
       break;
@@ -490,6 +514,7 @@ function extractAmounts(
       if (msg.exact_token_b) {
         const parsed = parseCoin(msg.exact_token_b);
         receivedAmount = parsed.amount;
+        receivedAmountExact = parsed.exact;
         receivedCurrency = parsed.symbol;
       }
       // Get actual sent amount from events
@@ -498,11 +523,13 @@ function extractAmounts(
         const parsed = parseAmountString(swapEvents[0].input);
         if (parsed) {
           sentAmount = parsed.amount;
+          sentAmountExact = parsed.exact;
           sentCurrency = parsed.symbol;
         }
       } else if (msg.token_a) {
         const parsed = parseCoin(msg.token_a);
         sentAmount = parsed.amount;
+        sentAmountExact = parsed.exact;
         sentCurrency = parsed.symbol;
       }
       break;
@@ -523,6 +550,7 @@ function extractAmounts(
           const parsed = parseAmountString(amountStr);
           if (parsed) {
             receivedAmount = parsed.amount;
+            receivedAmountExact = parsed.exact;
             receivedCurrency = parsed.symbol;
           }
         }
@@ -536,6 +564,7 @@ function extractAmounts(
             const parsed = parseAmountString(event.amount);
             if (parsed) {
               receivedAmount = parsed.amount;
+              receivedAmountExact = parsed.exact;
               receivedCurrency = parsed.symbol;
               break;
             }
@@ -550,6 +579,7 @@ function extractAmounts(
           const parsed = parseAmountString(transfers[0].amount);
           if (parsed) {
             receivedAmount = parsed.amount;
+            receivedAmountExact = parsed.exact;
             receivedCurrency = parsed.symbol;
           }
         }
@@ -562,6 +592,7 @@ function extractAmounts(
       if (msg.token) {
         const parsed = parseCoin(msg.token);
         sentAmount = parsed.amount;
+        sentAmountExact = parsed.exact;
         sentCurrency = parsed.symbol;
       }
       break;
@@ -574,9 +605,11 @@ function extractAmounts(
         if (coin.denom && coin.amount) {
           const parsed = parseCoin(coin);
           sentAmount = parsed.amount;
+          sentAmountExact = parsed.exact;
           sentCurrency = parsed.symbol;
           // bKAVA received is 1:1
           receivedAmount = parsed.amount;
+          receivedAmountExact = parsed.exact;
           receivedCurrency = "bKAVA";
         }
       }
@@ -589,8 +622,10 @@ function extractAmounts(
         if (coin.denom && coin.amount) {
           const parsed = parseCoin(coin);
           sentAmount = parsed.amount;
+          sentAmountExact = parsed.exact;
           sentCurrency = "bKAVA";
           receivedAmount = parsed.amount;
+          receivedAmountExact = parsed.exact;
           receivedCurrency = "KAVA";
         }
       }
@@ -604,6 +639,7 @@ function extractAmounts(
         if (coin.denom && coin.amount) {
           const parsed = parseCoin(coin);
           sentAmount = parsed.amount;
+          sentAmountExact = parsed.exact;
           sentCurrency = parsed.symbol;
         }
       }
@@ -616,6 +652,7 @@ function extractAmounts(
         if (coin.denom && coin.amount) {
           const parsed = parseCoin(coin);
           receivedAmount = parsed.amount;
+          receivedAmountExact = parsed.exact;
           receivedCurrency = parsed.symbol;
         }
       }
@@ -623,19 +660,23 @@ function extractAmounts(
     }
   }
 
-  return { sentAmount, sentCurrency, receivedAmount, receivedCurrency };
+  return {
+    sentAmount,
+    sentCurrency,
+    receivedAmount,
+    receivedCurrency,
+    sentAmountExact,
+    receivedAmountExact,
+  };
 }
 
 // Process a single Cosmos transaction
 function processCosmosTransaction(
   tx: KavaTxResponse,
-  address: string,
-  kavaPrices: Map<string, number>
+  address: string
 ): NormalizedTransaction[] {
   const results: NormalizedTransaction[] = [];
   const timestamp = new Date(tx.timestamp);
-  const dateStr = timestamp.toISOString().split("T")[0];
-  const kavaPrice = kavaPrices.get(dateStr);
 
   const fee = getTxFee(tx);
   const messages = tx.tx?.body?.messages || [];
@@ -646,8 +687,14 @@ function processCosmosTransaction(
 
     const type = getTransactionType(msgType, address, msg);
     const tag = getAwakenTag(msgType, address, msg);
-    const { sentAmount, sentCurrency, receivedAmount, receivedCurrency } =
-      extractAmounts(msg, msgType, address, tx);
+    const {
+      sentAmount,
+      sentCurrency,
+      receivedAmount,
+      receivedCurrency,
+      sentAmountExact,
+      receivedAmountExact,
+    } = extractAmounts(msg, msgType, address, tx);
 
     const notes =
       KAVA_MSG_DESCRIPTIONS[msgType] ||
@@ -667,10 +714,15 @@ function processCosmosTransaction(
       receivedCurrency,
       feeAmount,
       feeCurrency: fee.symbol,
+      sentAmountExact,
+      receivedAmountExact,
+      feeAmountExact: i === 0 ? fee.exact : undefined,
       transactionHash: tx.txhash,
       notes,
       tag,
-      fiatPrice: kavaPrice,
+      ...(msgType === "/cosmos.bank.v1beta1.MsgSend" && {
+        counterparty: msg.from_address === address ? msg.to_address : msg.from_address,
+      }),
     });
   }
 
@@ -680,12 +732,9 @@ function processCosmosTransaction(
 // Process EVM token transfer
 function processEvmTransfer(
   transfer: EVMTokenTransfer,
-  evmAddress: string,
-  kavaPrices: Map<string, number>
+  evmAddress: string
 ): NormalizedTransaction {
   const timestamp = new Date(parseInt(transfer.timeStamp) * 1000);
-  const dateStr = timestamp.toISOString().split("T")[0];
-  const kavaPrice = kavaPrices.get(dateStr);
 
   const tokenAddress = transfer.contractAddress.toLowerCase();
   const tokenInfo = EVM_TOKENS[tokenAddress] || {
@@ -696,8 +745,8 @@ function processEvmTransfer(
 
   // Parse value from hex
   const valueHex = transfer.value;
-  const valueBigInt = BigInt(valueHex);
-  const amount = Number(valueBigInt) / Math.pow(10, tokenInfo.decimals);
+  const exactAmount = toTokenAmount(valueHex, tokenInfo.decimals);
+  const amount = tokenAmountToNumber(exactAmount);
 
   const isReceived = transfer.to.toLowerCase() === evmAddress.toLowerCase();
 
@@ -711,10 +760,12 @@ function processEvmTransfer(
     receivedCurrency: isReceived ? tokenInfo.symbol : null,
     feeAmount: 0, // EVM fees are in the native transaction, not the transfer
     feeCurrency: "KAVA",
+    sentAmountExact: isReceived ? undefined : exactAmount,
+    receivedAmountExact: isReceived ? exactAmount : undefined,
     transactionHash: transfer.hash,
     notes: `EVM ${isReceived ? "Receive" : "Send"} ${tokenInfo.symbol}`,
     tag: isReceived ? "receive" : "payment",
-    fiatPrice: kavaPrice,
+    counterparty: isReceived ? transfer.from : transfer.to,
   };
 }
 
@@ -730,43 +781,13 @@ export async function normalizeKavaTransactions(
     return [];
   }
 
-  onProgress?.("Fetching historical KAVA prices...");
-
-  // Collect all unique dates
-  const allDates = new Set<string>();
-
-  for (const tx of cosmosTransactions) {
-    const timestamp = new Date(tx.timestamp);
-    const dateStr = timestamp.toISOString().split("T")[0];
-    allDates.add(dateStr);
-  }
-
-  for (const transfer of evmTransfers) {
-    const timestamp = new Date(parseInt(transfer.timeStamp) * 1000);
-    const dateStr = timestamp.toISOString().split("T")[0];
-    allDates.add(dateStr);
-  }
-
-  // Fetch KAVA prices for unique dates (limit to 30 to avoid rate limiting)
-  const kavaPrices = new Map<string, number>();
-  const datesToFetch = Array.from(allDates).slice(0, 30);
-
-  for (const dateStr of datesToFetch) {
-    const [year, month, day] = dateStr.split("-");
-    const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-    const price = await fetchKavaPrice(date);
-    if (price !== null) {
-      kavaPrices.set(dateStr, price);
-    }
-  }
-
   onProgress?.("Processing Cosmos transactions...");
 
   // Process Cosmos transactions
   const normalizedTxs: NormalizedTransaction[] = [];
 
   for (const tx of cosmosTransactions) {
-    const processed = processCosmosTransaction(tx, address, kavaPrices);
+    const processed = processCosmosTransaction(tx, address);
     normalizedTxs.push(...processed);
   }
 
@@ -775,7 +796,7 @@ export async function normalizeKavaTransactions(
     onProgress?.("Processing EVM transactions...");
 
     for (const transfer of evmTransfers) {
-      const processed = processEvmTransfer(transfer, evmAddress, kavaPrices);
+      const processed = processEvmTransfer(transfer, evmAddress);
       normalizedTxs.push(processed);
     }
   }
@@ -103,6 +103,13 @@ export const EVM_TOKENS: Record<string, { symbol: string; decimals: number; coin
   },
 };
 
+// Price asset ids for token symbols with a CoinGecko listing
+export const KAVA_PRICE_ASSETS: Record<string, string> = Object.fromEntries(
+  [...Object.values(KAVA_TOKENS), ...Object.values(IBC_DENOMS), ...Object.values(EVM_TOKENS)]
+    .filter((token) => token.coingeckoId)
+    .map((token) => [token.symbol, `coingecko:${token.coingeckoId}`])
+);
+
 // EVM Transaction types
 export interface EVMTransaction {
   hash: string;
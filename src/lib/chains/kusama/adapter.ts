@@ -0,0 +1,142 @@
+import { createCurrencyResolver } from "@/lib/pricing/legs";
+import type { NormalizedTransaction } from "@/lib/types";
+import type { StandardChainAdapter } from "../adapter";
+import {
+  fetchAllTransfers,
+  fetchAllRewards,
+  fetchAllSlashes,
+  fetchStakingExtrinsics,
+  fetchAllCrowdloanContributions,
+  fetchAllAuctionBids,
+  fetchCrowdloanFunds,
+} from "./subscan";
+import {
+  normalizeTransfer,
+  normalizeReward,
+  normalizeSlash,
+  normalizeStakingExtrinsic,
+  normalizeCrowdloanContribution,
+  normalizeAuctionBid,
+  mergeAndSortTransactions,
+} from "./transactions";
+import { isValidKusamaAddress } from "./utils";
+import type {
+  RawAuctionBid,
+  RawCrowdloanContribution,
+  RawExtrinsic,
+  RawRewardSlash,
+  RawTransfer,
+} from "./types";
+
+interface KusamaRawData {
+  transfers: RawTransfer[];
+  rewards: RawRewardSlash[];
+  slashes: RawRewardSlash[];
+  stakingExtrinsics: RawExtrinsic[];
+  crowdloanContributions: RawCrowdloanContribution[];
+  auctionBids: RawAuctionBid[];
+  /** Para ids with a crowdloan fund, used to label contributions and bids */
+  parachainIds: number[];
+}
+
+export const kusamaAdapter: StandardChainAdapter<KusamaRawData> = {
+  id: "kusama",
+  kind: "standard",
+  name: "Kusama",
+  symbol: "KSM",
+  description: "Export transfers, staking, crowdloans, and auction bids",
+  features: ["Transfers", "Staking", "Crowdloans", "Auctions", "USD Prices"],
+  logo: "https://coin-images.coingecko.com/coins/images/9568/small/m4zRhP5e_400x400.jpg",
+  color: "#000000",
+  input: {
+    type: "address",
+    label: "Kusama Wallet Address",
+    placeholder: "C... or D... or F...",
+    help: "Enter your Kusama (KSM) wallet address",
+    format: "SS58 (starts with C, D, or F)",
+    options: [
+      {
+        name: "crowdloans",
+        type: "boolean",
+        description: "Include crowdloan contributions and refunds",
+        defaultValue: true,
+      },
+      {
+        name: "auctions",
+        type: "boolean",
+        description: "Include parachain auction bids",
+        defaultValue: true,
+      },
+    ],
+  },
+  explorerTxUrl: "https://kusama.subscan.io/extrinsic/",
+
+  validateAddress: (address) => (isValidKusamaAddress(address) ? address : null),
+  addressHint: "Address must start with C, D, E, F, G, H, or J and be 47-48 characters.",
+
+  async fetchRaw({ address, options }) {
+    const includeCrowdloans = options.crowdloans !== false;
+    const includeAuctions = options.auctions !== false;
+
+    const [transfers, rewards, slashes, stakingExtrinsics] = await Promise.all([
+      fetchAllTransfers(address),
+      fetchAllRewards(address),
+      fetchAllSlashes(address),
+      fetchStakingExtrinsics(address),
+    ]);
+
+    if (!includeCrowdloans && !includeAuctions) {
+      return {
+        transfers,
+        rewards,
+        slashes,
+        stakingExtrinsics,
+        crowdloanContributions: [],
+        auctionBids: [],
+        parachainIds: [],
+      };
+    }
+
+    const funds = await fetchCrowdloanFunds();
+    const [crowdloanContributions, auctionBids] = await Promise.all([
+      includeCrowdloans ? fetchAllCrowdloanContributions(address) : Promise.resolve([]),
+      includeAuctions ? fetchAllAuctionBids(address) : Promise.resolve([]),
+    ]);
+
+    return {
+      transfers,
+      rewards,
+      slashes,
+      stakingExtrinsics,
+      crowdloanContributions,
+      auctionBids,
+      parachainIds: Array.from(funds.values()).map((fund) => fund.para_id),
+    };
+  },
+  normalize(raw, { address }) {
+    const parachainNames = new Map<number, string>(
+      raw.parachainIds.map((paraId) => [paraId, `Parachain #${paraId}`])
+    );
+
+    return mergeAndSortTransactions(
+      raw.transfers.map((t) => normalizeTransfer(t, address)),
+      raw.rewards.map((r) => normalizeReward(r)),
+      raw.slashes.map((s) => normalizeSlash(s)),
+      raw.stakingExtrinsics
+        .map((e) => normalizeStakingExtrinsic(e))
+        .filter((tx): tx is NormalizedTransaction => tx !== null),
+      raw.crowdloanContributions.map((c) => normalizeCrowdloanContribution(c, parachainNames)),
+      raw.auctionBids.map((b) => normalizeAuctionBid(b, parachainNames))
+    );
+  },
+  currencyResolver: () => createCurrencyResolver("KSM"),
+
+  summarize: (_transactions, raw) => ({
+    transfers: raw.transfers.length,
+    rewards: raw.rewards.length,
+    slashes: raw.slashes.length,
+    staking: raw.stakingExtrinsics.length,
+    crowdloans: raw.crowdloanContributions.length,
+    auctions: raw.auctionBids.length,
+  }),
+};
@@ -2,6 +2,7 @@ import type {
   NormalizedTransaction,
   TransactionType,
   AwakenTag,
+  TokenAmount,
 } from "@/lib/types";
 import type {
   RawTransfer,
@@ -10,7 +11,8 @@ import type {
   RawCrowdloanContribution,
   RawAuctionBid,
 } from "./types";
-import { planckToKsm, KUSAMA_UNBONDING_DAYS } from "./utils";
+import { tokenAmountToNumber } from "@/lib/amount";
+import { planckToKsmAmount, KUSAMA_UNBONDING_DAYS } from "./utils";
 
 function getTagForType(type: TransactionType): AwakenTag {
   switch (type) {
@@ -36,19 +38,18 @@ function getTagForType(type: TransactionType): AwakenTag {
 
 export function normalizeTransfer(
   transfer: RawTransfer,
-  walletAddress: string,
-  priceMap: Map<string, number>
+  walletAddress: string
 ): NormalizedTransaction {
   const isSent = transfer.from.toLowerCase() === walletAddress.toLowerCase();
   const type: TransactionType = isSent ? "transfer_sent" : "transfer_received";
   const timestamp = new Date(transfer.block_timestamp * 1000);
-  const dateKey = timestamp.toISOString().split("T")[0];
-  const fiatPrice = priceMap.get(dateKey);
 
   // Use amount_v2 if available (more precise), fallback to amount
   const amountStr = transfer.amount_v2 || transfer.amount;
-  const amount = planckToKsm(amountStr);
-  const fee = transfer.fee ? planckToKsm(transfer.fee) : 0;
+  const exactAmount = planckToKsmAmount(amountStr);
+  const amount = tokenAmountToNumber(exactAmount);
+  const exactFee = transfer.fee ? planckToKsmAmount(transfer.fee) : undefined;
+  const fee = exactFee ? tokenAmountToNumber(exactFee) : 0;
 
   return {
     id: `transfer-${transfer.extrinsic_index}`,
@@ -60,23 +61,24 @@ export function normalizeTransfer(
     receivedCurrency: isSent ? null : "KSM",
     feeAmount: isSent ? fee : 0, // Only sender pays fee
     feeCurrency: "KSM",
+    sentAmountExact: isSent ? exactAmount : undefined,
+    receivedAmountExact: isSent ? undefined : exactAmount,
+    feeAmountExact: isSent ? exactFee : undefined,
     transactionHash: transfer.hash,
     notes: isSent
       ? `Transfer to ${transfer.to.slice(0, 8)}...`
       : `Transfer from ${transfer.from.slice(0, 8)}...`,
     tag: getTagForType(type),
-    fiatPrice,
+    counterparty: isSent ? transfer.to : transfer.from,
   };
 }
 
 export function normalizeReward(
-  reward: RawRewardSlash,
-  priceMap: Map<string, number>
+  reward: RawRewardSlash
 ): NormalizedTransaction {
   const timestamp = new Date(reward.block_timestamp * 1000);
-  const dateKey = timestamp.toISOString().split("T")[0];
-  const fiatPrice = priceMap.get(dateKey);
-  const amount = planckToKsm(reward.amount);
+  const exactAmount = planckToKsmAmount(reward.amount);
+  const amount = tokenAmountToNumber(exactAmount);
 
   return {
     id: `reward-${reward.event_index}`,
@@ -88,21 +90,19 @@ export function normalizeReward(
     receivedCurrency: "KSM",
     feeAmount: 0,
     feeCurrency: "KSM",
+    receivedAmountExact: exactAmount,
     transactionHash: reward.extrinsic_hash || "",
     notes: `Staking reward (${reward.event_method})`,
     tag: "claim_rewards",
-    fiatPrice,
   };
 }
 
 export function normalizeSlash(
-  slash: RawRewardSlash,
-  priceMap: Map<string, number>
+  slash: RawRewardSlash
 ): NormalizedTransaction {
   const timestamp = new Date(slash.block_timestamp * 1000);
-  const dateKey = timestamp.toISOString().split("T")[0];
-  const fiatPrice = priceMap.get(dateKey);
-  const amount = planckToKsm(slash.amount);
+  const exactAmount = planckToKsmAmount(slash.amount);
+  const amount = tokenAmountToNumber(exactAmount);
 
   return {
     id: `slash-${slash.event_index}`,
@@ -114,35 +114,34 @@ export function normalizeSlash(
     receivedCurrency: null,
     feeAmount: 0,
     feeCurrency: "KSM",
+    sentAmountExact: exactAmount,
     transactionHash: slash.extrinsic_hash || "",
     notes: `Slashing penalty (${slash.event_method})`,
     tag: "lost",
-    fiatPrice,
   };
 }
 
 export function normalizeStakingExtrinsic(
-  extrinsic: RawExtrinsic,
-  priceMap: Map<string, number>
+  extrinsic: RawExtrinsic
 ): NormalizedTransaction | null {
   const timestamp = new Date(extrinsic.block_timestamp * 1000);
-  const dateKey = timestamp.toISOString().split("T")[0];
-  const fiatPrice = priceMap.get(dateKey);
-  const fee = extrinsic.fee ? planckToKsm(extrinsic.fee) : 0;
+  const exactFee = extrinsic.fee ? planckToKsmAmount(extrinsic.fee) : undefined;
+  const fee = exactFee ? tokenAmountToNumber(exactFee) : 0;
 
   // Parse the params to get the amount
-  let amount = 0;
+  let exactAmount: TokenAmount | undefined;
   try {
     const params = JSON.parse(extrinsic.params || "[]");
     const valueParam = params.find((p: { name: string; value: string }) =>
       p.name === "value" || p.name === "amount" || p.name === "max_additional"
     );
     if (valueParam) {
-      amount = planckToKsm(valueParam.value);
+      exactAmount = planckToKsmAmount(valueParam.value);
     }
   } catch {
     // Params parsing failed, amount stays 0
   }
+  const amount = exactAmount ? tokenAmountToNumber(exactAmount) : 0;
 
   const func = extrinsic.call_module_function.toLowerCase();
 
@@ -158,10 +157,11 @@ export function normalizeStakingExtrinsic(
       receivedCurrency: null,
       feeAmount: fee,
       feeCurrency: "KSM",
+      sentAmountExact: exactAmount,
+      feeAmountExact: exactFee,
       transactionHash: extrinsic.extrinsic_hash,
       notes: func === "bond" ? "Initial staking bond" : "Add to staking bond",
       tag: "staking_deposit",
-      fiatPrice,
     };
   }
 
@@ -177,10 +177,11 @@ export function normalizeStakingExtrinsic(
       receivedCurrency: "KSM",
       feeAmount: fee,
       feeCurrency: "KSM",
+      receivedAmountExact: exactAmount,
+      feeAmountExact: exactFee,
       transactionHash: extrinsic.extrinsic_hash,
       notes: `Unbonding started (${KUSAMA_UNBONDING_DAYS} day wait)`,
       tag: "unstaking_withdraw",
-      fiatPrice,
     };
   }
 
@@ -196,10 +197,11 @@ export function normalizeStakingExtrinsic(
       receivedCurrency: "KSM",
       feeAmount: fee,
       feeCurrency: "KSM",
+      receivedAmountExact: exactAmount,
+      feeAmountExact: exactFee,
       transactionHash: extrinsic.extrinsic_hash,
       notes: "Withdrew unbonded KSM",
       tag: "unstaking_withdraw",
-      fiatPrice,
     };
   }
 
@@ -215,10 +217,11 @@ export function normalizeStakingExtrinsic(
       receivedCurrency: null,
       feeAmount: fee,
       feeCurrency: "KSM",
+      sentAmountExact: exactAmount,
+      feeAmountExact: exactFee,
       transactionHash: extrinsic.extrinsic_hash,
       notes: "Rebonded (cancelled unstaking)",
       tag: "staking_deposit",
-      fiatPrice,
     };
   }
 
@@ -232,13 +235,11 @@ export function normalizeStakingExtrinsic(
 
 export function normalizeCrowdloanContribution(
   contribution: RawCrowdloanContribution,
-  priceMap: Map<string, number>,
   parachainNames: Map<number, string>
 ): NormalizedTransaction {
   const timestamp = new Date(contribution.block_timestamp * 1000);
-  const dateKey = timestamp.toISOString().split("T")[0];
-  const fiatPrice = priceMap.get(dateKey);
-  const amount = planckToKsm(contribution.contributed);
+  const exactAmount = planckToKsmAmount(contribution.contributed);
+  const amount = tokenAmountToNumber(exactAmount);
 
   // Get parachain name if available
   const parachainName = parachainNames.get(contribution.para_id) || `Parachain #${contribution.para_id}`;
@@ -259,10 +260,10 @@ export function normalizeCrowdloanContribution(
       receivedCurrency: "KSM",
       feeAmount: 0,
       feeCurrency: "KSM",
+      receivedAmountExact: exactAmount,
       transactionHash: contribution.extrinsic_hash || "",
       notes: `Crowdloan refund from ${parachainName}${isDissolved ? " (dissolved)" : ""}`,
       tag: "receive",
-      fiatPrice,
     };
   }
 
@@ -277,10 +278,10 @@ export function normalizeCrowdloanContribution(
     receivedCurrency: null,
     feeAmount: 0, // Fee is included in extrinsic
     feeCurrency: "KSM",
+    sentAmountExact: exactAmount,
     transactionHash: contribution.extrinsic_hash || "",
     notes: `Crowdloan contribution to ${parachainName}${contribution.memo ? ` (memo: ${contribution.memo})` : ""}`,
     tag: "staking_deposit", // Funds are locked, similar to staking
-    fiatPrice,
   };
 }
 
@@ -290,13 +291,11 @@ export function normalizeCrowdloanContribution(
 
 export function normalizeAuctionBid(
   bid: RawAuctionBid,
-  priceMap: Map<string, number>,
   parachainNames: Map<number, string>
 ): NormalizedTransaction {
   const timestamp = new Date(bid.block_timestamp * 1000);
-  const dateKey = timestamp.toISOString().split("T")[0];
-  const fiatPrice = priceMap.get(dateKey);
-  const amount = planckToKsm(bid.amount);
+  const exactAmount = planckToKsmAmount(bid.amount);
+  const amount = tokenAmountToNumber(exactAmount);
 
   // Get parachain name if available
   const parachainName = parachainNames.get(bid.para_id) || `Parachain #${bid.para_id}`;
@@ -312,10 +311,10 @@ export function normalizeAuctionBid(
     receivedCurrency: null,
     feeAmount: 0,
     feeCurrency: "KSM",
+    sentAmountExact: exactAmount,
     transactionHash: bid.extrinsic_hash || "",
     notes: `Auction bid for ${parachainName} (Slots ${bid.first_slot}-${bid.last_slot}, Auction #${bid.auction_index})`,
     tag: "staking_deposit",
-    fiatPrice,
   };
 }
 
@@ -79,16 +79,6 @@ export interface RawExtrinsic {
   account_id: string;
 }
 
-export interface SubscanPriceHistory {
-  feed_at: number;
-  price: string;
-}
-
-export interface SubscanPrice {
-  price: string;
-  time: number;
-}
-
 // Kusama-specific: Crowdloan contribution
 export interface RawCrowdloanContribution {
   fund_id: number;
@@ -1,5 +1,8 @@
 // Kusama-specific utilities
 
+import type { TokenAmount } from "@/lib/types";
+import { toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+
 /**
  * Validates a Kusama SS58 address
  * Kusama addresses have SS58 prefix 2 and start with capital letters C, D, E, F, G, H, or J
@@ -20,13 +23,19 @@ export function isValidKusamaAddress(address: string): boolean {
   return base58Regex.test(address);
 }
 
+/**
+ * Convert Planck to an exact KSM amount
+ */
+export function planckToKsmAmount(planck: string | number): TokenAmount {
+  return toTokenAmount(planck, KUSAMA_DECIMALS);
+}
+
 /**
  * Convert Planck (smallest unit) to KSM
  * 1 KSM = 10^12 Planck (note: different from DOT which is 10^10)
  */
 export function planckToKsm(planck: string | number): number {
-  const planckBigInt = typeof planck === "string" ? BigInt(planck) : BigInt(planck);
-  return Number(planckBigInt) / 1e12;
+  return tokenAmountToNumber(planckToKsmAmount(planck));
 }
 
 /**
@@ -0,0 +1,74 @@
+import { createCurrencyResolver } from "@/lib/pricing/legs";
+import { ChainRequestError, type StandardChainAdapter } from "../adapter";
+import { fetchAllTransfers, getAccount, getDelegation } from "./api";
+import { processTransactions } from "./transactions";
+import { isValidMultiversXAddress } from "./utils";
+import type { MultiversXDelegation, MultiversXTransfer } from "./types";
+
+interface MultiversXRawData {
+  transfers: MultiversXTransfer[];
+  delegations: MultiversXDelegation[];
+}
+
+function toTimestamp(date: string | undefined): number | undefined {
+  return date ? Math.floor(new Date(date).getTime() / 1000) : undefined;
+}
+
+export const multiversxAdapter: StandardChainAdapter<MultiversXRawData> = {
+  id: "multiversx",
+  kind: "standard",
+  name: "MultiversX",
+  symbol: "EGLD",
+  description: "Export EGLD transfers, ESDT tokens, staking, and delegation rewards",
+  features: ["Transfers", "ESDT Tokens", "Staking", "Delegation", "Rewards", "USD Prices"],
+  logo: "https://s2.coinmarketcap.com/static/img/coins/64x64/6892.png",
+  color: "#23F7DD",
+  input: {
+    type: "address",
+    label: "MultiversX Wallet Address",
+    placeholder: "erd1...",
+    help: "Enter your MultiversX (EGLD) wallet address starting with 'erd1'",
+    format: "erd1...",
+    options: [
+      {
+        name: "includePendingRewards",
+        aliases: ["includePending"],
+        type: "boolean",
+        description: "Add claimable delegation rewards as pending reward rows",
+        defaultValue: false,
+      },
+    ],
+  },
+  explorerTxUrl: "https://explorer.multiversx.com/transactions/",
+
+  validateAddress: (address) => (isValidMultiversXAddress(address) ? address : null),
+  addressHint: "MultiversX addresses must start with 'erd1' and be exactly 62 characters",
+
+  async fetchRaw({ address, startDate, endDate, options }) {
+    try {
+      await getAccount(address);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("not found")) {
+        throw new ChainRequestError("ACCOUNT_NOT_FOUND", "Account not found", "This address has no activity on MultiversX mainnet");
+      }
+      throw error;
+    }
+
+    const [transfers, delegations] = await Promise.all([
+      fetchAllTransfers(address, toTimestamp(startDate), toTimestamp(endDate)),
+      options.includePendingRewards ? getDelegation(address) : Promise.resolve([]),
+    ]);
+    return { transfers, delegations };
+  },
+  normalize: (raw, { address, options }) =>
+    processTransactions(raw.transfers, address, options.includePendingRewards === true, raw.delegations),
+  currencyResolver: () => createCurrencyResolver("EGLD"),
+
+  summarize: (transactions) => ({
+    sent: transactions.filter((tx) => tx.type === "transfer_sent" || tx.type === "token_sent").length,
+    received: transactions.filter((tx) => tx.type === "transfer_received" || tx.type === "token_received").length,
+    staking: transactions.filter((tx) => tx.type === "stake" || tx.type === "unstake").length,
+    rewards: transactions.filter((tx) => tx.type === "emission_reward").length,
+    totalFees: transactions.reduce((sum, tx) => sum + tx.feeAmount, 0),
+  }),
+};
@@ -11,10 +11,6 @@ import type {
 const API_BASE = "https://api.multiversx.com";
 const MAX_PAGE_SIZE = 100; // API max is 10000, but 100 is safer for pagination
 
-// Price cache
-let priceCache: { price: number; timestamp: number } | null = null;
-const PRICE_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
 async function fetchWithRetry<T>(
   url: string,
   retries = 3
@@ -147,26 +143,6 @@ export async function getEconomics(): Promise<MultiversXEconomics> {
   return fetchWithRetry<MultiversXEconomics>(url);
 }
 
-/**
- * Get current EGLD price in USD
- */
-export async function getEgldPrice(): Promise<number | null> {
-  // Check cache
-  const now = Date.now();
-  if (priceCache && now - priceCache.timestamp < PRICE_CACHE_TTL) {
-    return priceCache.price;
-  }
-
-  try {
-    const economics = await getEconomics();
-    priceCache = { price: economics.price, timestamp: now };
-    return economics.price;
-  } catch (error) {
-    console.warn("Failed to fetch EGLD price:", error);
-    return null;
-  }
-}
-
 /**
  * Get transaction count for an account
  */
@@ -1,8 +1,9 @@
 // MultiversX transaction normalization
 
-import type { NormalizedTransaction, TransactionType, AwakenTag } from "@/lib/types";
+import type { NormalizedTransaction, TransactionType, AwakenTag, TokenAmount } from "@/lib/types";
 import type { MultiversXTransfer, MultiversXDelegation } from "./types";
-import { toEgld, normalizeAddress, parseFunctionFromData } from "./utils";
+import { tokenAmountToNumber } from "@/lib/amount";
+import { toEgldAmount, normalizeAddress, parseFunctionFromData } from "./utils";
 
 // Known staking/delegation function names
 const STAKING_FUNCTIONS = [
@@ -120,8 +121,7 @@ function determineTransactionType(
  */
 export function normalizeTransaction(
   transfer: MultiversXTransfer,
-  walletAddress: string,
-  egldPrice: number | null
+  walletAddress: string
 ): NormalizedTransaction | null {
   // Skip failed transactions
   if (transfer.status !== "success") {
@@ -146,6 +146,8 @@ export function normalizeTransaction(
   let sentCurrency: string | null = null;
   let receivedAmount: number | null = null;
   let receivedCurrency: string | null = null;
+  let sentAmountExact: TokenAmount | undefined;
+  let receivedAmountExact: TokenAmount | undefined;
 
   // Check for token transfer
   const isTokenTransfer = transfer.token || transfer.tokenIdentifier;
@@ -156,32 +158,40 @@ export function normalizeTransaction(
     // ESDT token transfer
     // Extract token ticker from identifier (e.g., "USDC-c76f1d" -> "USDC")
     const tokenTicker = tokenName.split("-")[0];
-    const amount = toEgld(tokenValue); // Most tokens use 18 decimals too
+    const exactAmount = toEgldAmount(tokenValue); // Most tokens use 18 decimals too
+    const amount = tokenAmountToNumber(exactAmount);
 
     if (isSender && !isReceiver) {
       sentAmount = amount;
       sentCurrency = tokenTicker;
+      sentAmountExact = exactAmount;
     } else if (isReceiver && !isSender) {
       receivedAmount = amount;
       receivedCurrency = tokenTicker;
+      receivedAmountExact = exactAmount;
     }
   } else {
     // Native EGLD transfer
-    const egldAmount = toEgld(transfer.value);
+    const exactEgld = toEgldAmount(transfer.value);
+    const egldAmount = tokenAmountToNumber(exactEgld);
 
     // For staking transactions, handle differently
     if (type === "stake" || type === "bond") {
       sentAmount = egldAmount > 0 ? egldAmount : null;
       sentCurrency = egldAmount > 0 ? "EGLD" : null;
+      sentAmountExact = egldAmount > 0 ? exactEgld : undefined;
     } else if (type === "unstake" || type === "unbond" || type === "emission_reward") {
       receivedAmount = egldAmount > 0 ? egldAmount : null;
       receivedCurrency = egldAmount > 0 ? "EGLD" : null;
+      receivedAmountExact = egldAmount > 0 ? exactEgld : undefined;
     } else if (isSender && !isReceiver) {
       sentAmount = egldAmount > 0 ? egldAmount : null;
       sentCurrency = egldAmount > 0 ? "EGLD" : null;
+      sentAmountExact = egldAmount > 0 ? exactEgld : undefined;
     } else if (isReceiver && !isSender) {
       receivedAmount = egldAmount > 0 ? egldAmount : null;
       receivedCurrency = egldAmount > 0 ? "EGLD" : null;
+      receivedAmountExact = egldAmount > 0 ? exactEgld : undefined;
     }
   }
 
@@ -194,7 +204,8 @@ export function normalizeTransaction(
   }
 
   // Fee handling - only the sender pays fees
-  const feeAmount = isSender && transfer.fee ? toEgld(transfer.fee) : 0;
+  const feeAmountExact = isSender && transfer.fee ? toEgldAmount(transfer.fee) : undefined;
+  const feeAmount = feeAmountExact ? tokenAmountToNumber(feeAmountExact) : 0;
 
   // Timestamp is in seconds
   const timestamp = new Date(transfer.timestamp * 1000);
@@ -209,10 +220,12 @@ export function normalizeTransaction(
     receivedCurrency,
     feeAmount,
     feeCurrency: "EGLD",
+    sentAmountExact,
+    receivedAmountExact,
+    feeAmountExact,
     transactionHash: transfer.txHash,
     notes,
     tag: getTagForType(type),
-    fiatPrice: egldPrice ?? undefined,
   };
 }
 
@@ -221,28 +234,29 @@ export function normalizeTransaction(
  * These may not show as transfers but are important for tax purposes
  */
 export function createDelegationRewardTransactions(
-  delegations: MultiversXDelegation[],
-  egldPrice: number | null
+  delegations: MultiversXDelegation[]
 ): NormalizedTransaction[] {
   const rewards: NormalizedTransaction[] = [];
+  const now = new Date();
 
   for (const delegation of delegations) {
-    const claimable = toEgld(delegation.claimableRewards);
+    const exactClaimable = toEgldAmount(delegation.claimableRewards);
+    const claimable = tokenAmountToNumber(exactClaimable);
     if (claimable > 0) {
       rewards.push({
         id: `delegation-reward-${delegation.contract}`,
         type: "emission_reward",
-        timestamp: new Date(), // Current time since these are pending
+        timestamp: now, // Current time since these are pending
         sentAmount: null,
         sentCurrency: null,
         receivedAmount: claimable,
         receivedCurrency: "EGLD",
         feeAmount: 0,
         feeCurrency: "EGLD",
+        receivedAmountExact: exactClaimable,
         transactionHash: delegation.contract,
         notes: `Pending staking reward from ${delegation.address.slice(0, 16)}...`,
         tag: "claim_rewards",
-        fiatPrice: egldPrice ?? undefined,
         isAmbiguous: true,
         ambiguousReasons: ["Pending reward - not yet claimed"],
       });
@@ -258,7 +272,6 @@ export function createDelegationRewardTransactions(
 export function processTransactions(
   transfers: MultiversXTransfer[],
   walletAddress: string,
-  egldPrice: number | null,
   includePendingRewards: boolean = false,
   delegations: MultiversXDelegation[] = []
 ): NormalizedTransaction[] {
@@ -273,7 +286,7 @@ export function processTransactions(
     }
     seenHashes.add(key);
 
-    const result = normalizeTransaction(transfer, walletAddress, egldPrice);
+    const result = normalizeTransaction(transfer, walletAddress);
     if (result) {
       normalized.push(result);
     }
@@ -281,7 +294,7 @@ export function processTransactions(
 
   // Optionally include pending delegation rewards
   if (includePendingRewards && delegations.length > 0) {
-    const rewardTxs = createDelegationRewardTransactions(delegations, egldPrice);
+    const rewardTxs = createDelegationRewardTransactions(delegations);
     normalized.push(...rewardTxs);
   }
 
@@ -1,30 +1,24 @@
 // MultiversX utility functions
 
+import type { TokenAmount } from "@/lib/types";
+import { toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+
 // 1 EGLD = 10^18 smallest units (18 decimals)
 const EGLD_DECIMALS = 18;
-const EGLD_DIVISOR = BigInt(10 ** EGLD_DECIMALS);
+
+/**
+ * Convert smallest units to an exact EGLD amount
+ */
+export function toEgldAmount(value: string | number): TokenAmount {
+  return toTokenAmount(value || 0, EGLD_DECIMALS);
+}
 
 /**
  * Convert smallest units to EGLD
  * Uses BigInt for precision with large numbers
  */
 export function toEgld(value: string | number): number {
-  if (!value || value === "0") return 0;
-
-  try {
-    const bigValue = BigInt(value);
-    // Convert to number with proper decimal places
-    const wholePart = bigValue / EGLD_DIVISOR;
-    const fractionalPart = bigValue % EGLD_DIVISOR;
-
-    // Combine whole and fractional parts
-    const result = Number(wholePart) + Number(fractionalPart) / Number(EGLD_DIVISOR);
-    return result;
-  } catch {
-    // Fallback for smaller numbers
-    const num = typeof value === "string" ? parseFloat(value) : value;
-    return num / 10 ** EGLD_DECIMALS;
-  }
+  return tokenAmountToNumber(toEgldAmount(value));
 }
 
 /**
@@ -0,0 +1,73 @@
+import { createCurrencyResolver } from "@/lib/pricing/legs";
+import type { StandardChainAdapter } from "../adapter";
+import { fetchAllTransactions, getPriceAssetsBySymbol } from "./api";
+import { normalizeTransactions } from "./transactions";
+import { isValidOsmosisAddress } from "./utils";
+import type { ProcessedOsmoTx } from "./types";
+
+export const osmosisAdapter: StandardChainAdapter<ProcessedOsmoTx[]> = {
+  id: "osmosis",
+  kind: "standard",
+  name: "Osmosis",
+  symbol: "OSMO",
+  description: "Export transfers, swaps, LP positions, and staking rewards",
+  features: ["Transfers", "Swaps", "LP Positions", "Staking", "IBC", "USD Prices"],
+  logo: "https://s2.coinmarketcap.com/static/img/coins/64x64/12220.png",
+  color: "#5E12A0",
+  input: {
+    type: "address",
+    label: "Osmosis Wallet Address",
+    placeholder: "osmo1...",
+    help: "Enter your Osmosis wallet address starting with osmo1",
+    format: "osmo1...",
+  },
+  explorerTxUrl: "https://www.mintscan.io/osmosis/tx/",
+
+  validateAddress: (address) => (isValidOsmosisAddress(address) ? address : null),
+  addressHint: "Osmosis addresses start with 'osmo1'.",
+
+  fetchRaw: ({ address }) => fetchAllTransactions(address),
+  normalize: (raw, { address }) => normalizeTransactions(raw, address),
+  // Token symbols are resolved against the Osmosis asset list
+  currencyResolver: async () => createCurrencyResolver("OSMO", await getPriceAssetsBySymbol()),
+
+  summarize(transactions) {
+    const breakdown = {
+      transfers: 0,
+      staking: 0,
+      rewards: 0,
+      swaps: 0,
+      lp: 0,
+    };
+
+    for (const tx of transactions) {
+      switch (tx.type) {
+        case "transfer_sent":
+        case "transfer_received":
+          if (tx.notes?.includes("Swap")) {
+            breakdown.swaps++;
+          } else if (tx.notes?.includes("liquidity")) {
+            breakdown.lp++;
+          } else {
+            breakdown.transfers++;
+          }
+          break;
+        case "stake":
+        case "unstake":
+          if (tx.notes?.includes("Locked") || tx.notes?.includes("Unlocking")) {
+            breakdown.lp++;
+          } else {
+            breakdown.staking++;
+          }
+          break;
+        case "emission_reward":
+          breakdown.rewards++;
+          break;
+        default:
+          breakdown.transfers++;
+      }
+    }
+
+    return breakdown;
+  },
+};
@@ -10,6 +10,7 @@ import type {
   RpcEvent,
   Coin,
 } from "./types";
+import { getDenomSymbol } from "./utils";
 
 // API endpoints
 const RPC_ENDPOINT = "https://rpc.osmosis.zone";
@@ -18,7 +19,6 @@ const LCD_ENDPOINTS = [
   "https://osmosis-api.polkachu.com",
   "https://rest.lavenderfive.com:443/osmosis",
 ];
-const COINGECKO_API = "https://api.coingecko.com/api/v3";
 const CHAIN_REGISTRY_ASSETS = "https://raw.githubusercontent.com/cosmos/chain-registry/master/osmosis/assetlist.json";
 
 // Rate limiting
@@ -96,6 +96,32 @@ export async function getAssetMetadata(denom: string): Promise<AssetMetadata | u
   return assets.get(denom);
 }
 
+/**
+ * Maps token symbols (as produced by getDenomSymbol) to CoinGecko price
+ * asset ids from chain-registry. Symbols shared by assets with different
+ * CoinGecko ids are left out rather than guessed.
+ */
+export async function getPriceAssetsBySymbol(): Promise<Record<string, string>> {
+  const assets = await loadAssetMetadata();
+  const priceAssets: Record<string, string> = {};
+  const ambiguous = new Set<string>();
+
+  for (const asset of assets.values()) {
+    if (!asset.coingeckoId) continue;
+    const symbol = getDenomSymbol(asset.base);
+    const assetId = `coingecko:${asset.coingeckoId}`;
+    if (priceAssets[symbol] && priceAssets[symbol] !== assetId) {
+      ambiguous.add(symbol);
+    }
+    priceAssets[symbol] = assetId;
+  }
+
+  for (const symbol of ambiguous) {
+    delete priceAssets[symbol];
+  }
+  return priceAssets;
+}
+
 /**
  * Resolves an IBC denom to its base denom using the LCD endpoint.
  */
@@ -294,66 +320,6 @@ export async function getBlockTimestamp(height: string): Promise<Date | null> {
   return null;
 }
 
-/**
- * Fetches OSMO price history from CoinGecko.
- */
-export async function fetchOsmoPrice(date: string): Promise<number | null> {
-  try {
-    // Convert YYYY-MM-DD to DD-MM-YYYY for CoinGecko
-    const [year, month, day] = date.split("-");
-    const cgDate = `${day}-${month}-${year}`;
-
-    await rateLimiter.waitForSlot();
-    const response = await fetch(
-      `${COINGECKO_API}/coins/osmosis/history?date=${cgDate}&localization=false`
-    );
-
-    if (response.ok) {
-      const data = await response.json();
-      return data.market_data?.current_price?.usd || null;
-    }
-  } catch (error) {
-    console.error(`Failed to fetch OSMO price for ${date}:`, error);
-  }
-
-  return null;
-}
-
-/**
- * Fetches price history for a date range.
- */
-export async function fetchPriceHistory(
-  startDate: string,
-  endDate: string
-): Promise<Map<string, number>> {
-  const priceMap = new Map<string, number>();
-
-  // Convert to timestamps
-  const start = new Date(startDate).getTime() / 1000;
-  const end = new Date(endDate).getTime() / 1000;
-
-  try {
-    await rateLimiter.waitForSlot();
-    const response = await fetch(
-      `${COINGECKO_API}/coins/osmosis/market_chart/range?vs_currency=usd&from=${start}&to=${end}`
-    );
-
-    if (response.ok) {
-      const data = await response.json();
-      const prices = data.prices || [];
-
-      for (const [timestamp, price] of prices) {
-        const date = new Date(timestamp).toISOString().split("T")[0];
-        priceMap.set(date, price);
-      }
-    }
-  } catch (error) {
-    console.error("Failed to fetch price history:", error);
-  }
-
-  return priceMap;
-}
-
 /**
  * Extracts token movements from transaction events.
  */
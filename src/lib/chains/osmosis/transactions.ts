@@ -1,6 +1,7 @@
 // Normalizes Osmosis transactions to the Awaken.tax CSV format
 
 import type { NormalizedTransaction, TransactionType, AwakenTag } from "@/lib/types";
+import { tokenAmountToNumber } from "@/lib/amount";
 import type {
   ProcessedOsmoTx,
   TxMessage,
@@ -19,9 +20,8 @@ import type {
   MsgBeginUnlocking,
 } from "./types";
 import {
-  formatTokenAmount,
+  toDenomAmount,
   getDenomSymbol,
-  uosmoToOsmo,
 } from "./utils";
 import { extractTokenMovements, extractStakingRewards } from "./api";
 
@@ -52,13 +52,12 @@ function getTagForType(type: TransactionType): AwakenTag {
  */
 export function normalizeTransactions(
   transactions: ProcessedOsmoTx[],
-  walletAddress: string,
-  priceMap: Map<string, number>
+  walletAddress: string
 ): NormalizedTransaction[] {
   const normalized: NormalizedTransaction[] = [];
 
   for (const tx of transactions) {
-    const txResults = normalizeTransaction(tx, walletAddress, priceMap);
+    const txResults = normalizeTransaction(tx, walletAddress);
     normalized.push(...txResults);
   }
 
@@ -73,16 +72,14 @@ export function normalizeTransactions(
  */
 function normalizeTransaction(
   tx: ProcessedOsmoTx,
-  walletAddress: string,
-  priceMap: Map<string, number>
+  walletAddress: string
 ): NormalizedTransaction[] {
   const results: NormalizedTransaction[] = [];
-  const dateStr = tx.timestamp.toISOString().split("T")[0];
-  const fiatPrice = priceMap.get(dateStr);
 
   // Calculate fee in OSMO
   const feeAmount = tx.fee.find((f) => f.denom === "uosmo");
-  const feeOsmo = feeAmount ? uosmoToOsmo(feeAmount.amount) : 0;
+  const feeExact = feeAmount ? toDenomAmount(feeAmount.amount, "uosmo") : undefined;
+  const feeOsmo = feeExact ? tokenAmountToNumber(feeExact) : 0;
 
   // Process each message in the transaction
   for (let i = 0; i < tx.messages.length; i++) {
@@ -93,7 +90,6 @@ function normalizeTransaction(
       msg,
       tx,
       walletAddress,
-      fiatPrice,
       isFirstMessage ? feeOsmo : 0,
       i
     );
@@ -107,16 +103,19 @@ function normalizeTransaction(
 
     for (let i = 0; i < received.length; i++) {
       const coin = received[i];
-      results.push(createReceivedTransaction(coin, tx, fiatPrice, 0, i));
+      results.push(createReceivedTransaction(coin, tx, 0, i));
     }
 
     for (let i = 0; i < sent.length; i++) {
       const coin = sent[i];
-      results.push(createSentTransaction(coin, tx, fiatPrice, feeOsmo, i));
+      results.push(createSentTransaction(coin, tx, feeOsmo, i));
     }
   }
 
-  return results;
+  // Rows carry either the whole fee or none of it
+  return results.map((row) =>
+    row.feeAmount > 0 ? { ...row, feeAmountExact: feeExact } : row
+  );
 }
 
 /**
@@ -126,48 +125,47 @@ function normalizeMessage(
   msg: TxMessage,
   tx: ProcessedOsmoTx,
   walletAddress: string,
-  fiatPrice: number | undefined,
   fee: number,
   msgIndex: number
 ): NormalizedTransaction[] {
   switch (msg["@type"]) {
     case "/cosmos.bank.v1beta1.MsgSend":
-      return normalizeMsgSend(msg as unknown as MsgSend, tx, walletAddress, fiatPrice, fee, msgIndex);
+      return normalizeMsgSend(msg as unknown as MsgSend, tx, walletAddress, fee, msgIndex);
 
     case "/ibc.applications.transfer.v1.MsgTransfer":
-      return normalizeMsgTransfer(msg as unknown as MsgTransfer, tx, fiatPrice, fee, msgIndex);
+      return normalizeMsgTransfer(msg as unknown as MsgTransfer, tx, fee, msgIndex);
 
     case "/cosmos.staking.v1beta1.MsgDelegate":
-      return normalizeMsgDelegate(msg as unknown as MsgDelegate, tx, fiatPrice, fee, msgIndex);
+      return normalizeMsgDelegate(msg as unknown as MsgDelegate, tx, fee, msgIndex);
 
     case "/cosmos.staking.v1beta1.MsgUndelegate":
-      return normalizeMsgUndelegate(msg as unknown as MsgUndelegate, tx, fiatPrice, fee, msgIndex);
+      return normalizeMsgUndelegate(msg as unknown as MsgUndelegate, tx, fee, msgIndex);
 
     case "/cosmos.staking.v1beta1.MsgBeginRedelegate":
-      return normalizeMsgRedelegate(msg as unknown as MsgBeginRedelegate, tx, fiatPrice, fee, msgIndex);
+      return normalizeMsgRedelegate(msg as unknown as MsgBeginRedelegate, tx, fee, msgIndex);
 
     case "/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward":
-      return normalizeMsgWithdrawReward(msg as unknown as MsgWithdrawDelegatorReward, tx, walletAddress, fiatPrice, fee, msgIndex);
+      return normalizeMsgWithdrawReward(msg as unknown as MsgWithdrawDelegatorReward, tx, walletAddress, fee, msgIndex);
 
     case "/osmosis.gamm.v1beta1.MsgSwapExactAmountIn":
-      return normalizeMsgSwapIn(msg as unknown as MsgSwapExactAmountIn, tx, walletAddress, fiatPrice, fee, msgIndex);
+      return normalizeMsgSwapIn(msg as unknown as MsgSwapExactAmountIn, tx, walletAddress, fee, msgIndex);
 
     case "/osmosis.gamm.v1beta1.MsgSwapExactAmountOut":
-      return normalizeMsgSwapOut(msg as unknown as MsgSwapExactAmountOut, tx, walletAddress, fiatPrice, fee, msgIndex);
+      return normalizeMsgSwapOut(msg as unknown as MsgSwapExactAmountOut, tx, walletAddress, fee, msgIndex);
 
     case "/osmosis.gamm.v1beta1.MsgJoinPool":
     case "/osmosis.gamm.v1beta1.MsgJoinSwapExternAmountIn":
-      return normalizeMsgJoinPool(msg as unknown as MsgJoinPool, tx, fiatPrice, fee, msgIndex);
+      return normalizeMsgJoinPool(msg as unknown as MsgJoinPool, tx, fee, msgIndex);
 
     case "/osmosis.gamm.v1beta1.MsgExitPool":
     case "/osmosis.gamm.v1beta1.MsgExitSwapShareAmountIn":
-      return normalizeMsgExitPool(msg as unknown as MsgExitPool, tx, fiatPrice, fee, msgIndex);
+      return normalizeMsgExitPool(msg as unknown as MsgExitPool, tx, fee, msgIndex);
 
     case "/osmosis.lockup.MsgLockTokens":
-      return normalizeMsgLockTokens(msg as unknown as MsgLockTokens, tx, fiatPrice, fee, msgIndex);
+      return normalizeMsgLockTokens(msg as unknown as MsgLockTokens, tx, fee, msgIndex);
 
     case "/osmosis.lockup.MsgBeginUnlocking":
-      return normalizeMsgUnlockTokens(msg as unknown as MsgBeginUnlocking, tx, fiatPrice, fee, msgIndex);
+      return normalizeMsgUnlockTokens(msg as unknown as MsgBeginUnlocking, tx, fee, msgIndex);
 
     default:
       return [];
@@ -181,7 +179,6 @@ function normalizeMsgSend(
   msg: MsgSend,
   tx: ProcessedOsmoTx,
   walletAddress: string,
-  fiatPrice: number | undefined,
   fee: number,
   msgIndex: number
 ): NormalizedTransaction[] {
@@ -191,7 +188,8 @@ function normalizeMsgSend(
 
   for (let i = 0; i < msg.amount.length; i++) {
     const coin = msg.amount[i];
-    const amount = formatTokenAmount(coin.amount, coin.denom);
+    const exactAmount = toDenomAmount(coin.amount, coin.denom);
+    const amount = tokenAmountToNumber(exactAmount);
     const symbol = getDenomSymbol(coin.denom);
 
     if (isReceived) {
@@ -205,10 +203,11 @@ function normalizeMsgSend(
         receivedCurrency: symbol,
         feeAmount: fee > 0 ? fee : 0,
         feeCurrency: "OSMO",
+        receivedAmountExact: exactAmount,
         transactionHash: tx.hash,
         notes: `Received from ${msg.from_address.slice(0, 12)}...`,
         tag: "receive",
-        fiatPrice,
+        counterparty: msg.from_address,
       });
     }
 
@@ -223,10 +222,11 @@ function normalizeMsgSend(
         receivedCurrency: null,
         feeAmount: fee,
         feeCurrency: "OSMO",
+        sentAmountExact: exactAmount,
         transactionHash: tx.hash,
         notes: `Sent to ${msg.to_address.slice(0, 12)}...`,
         tag: "payment",
-        fiatPrice,
+        counterparty: msg.to_address,
       });
     }
   }
@@ -240,11 +240,11 @@ function normalizeMsgSend(
 function normalizeMsgTransfer(
   msg: MsgTransfer,
   tx: ProcessedOsmoTx,
-  fiatPrice: number | undefined,
   fee: number,
   msgIndex: number
 ): NormalizedTransaction[] {
-  const amount = formatTokenAmount(msg.token.amount, msg.token.denom);
+  const exactAmount = toDenomAmount(msg.token.amount, msg.token.denom);
+  const amount = tokenAmountToNumber(exactAmount);
   const symbol = getDenomSymbol(msg.token.denom);
 
   return [{
@@ -257,10 +257,10 @@ function normalizeMsgTransfer(
     receivedCurrency: null,
     feeAmount: fee,
     feeCurrency: "OSMO",
+    sentAmountExact: exactAmount,
     transactionHash: tx.hash,
     notes: `IBC transfer to ${msg.receiver.slice(0, 12)}... via ${msg.source_channel}`,
     tag: "wallet_transfer",
-    fiatPrice,
   }];
 }
 
@@ -270,11 +270,11 @@ function normalizeMsgTransfer(
 function normalizeMsgDelegate(
   msg: MsgDelegate,
   tx: ProcessedOsmoTx,
-  fiatPrice: number | undefined,
   fee: number,
   msgIndex: number
 ): NormalizedTransaction[] {
-  const amount = formatTokenAmount(msg.amount.amount, msg.amount.denom);
+  const exactAmount = toDenomAmount(msg.amount.amount, msg.amount.denom);
+  const amount = tokenAmountToNumber(exactAmount);
   const symbol = getDenomSymbol(msg.amount.denom);
 
   return [{
@@ -287,10 +287,10 @@ function normalizeMsgDelegate(
     receivedCurrency: null,
     feeAmount: fee,
     feeCurrency: "OSMO",
+    sentAmountExact: exactAmount,
     transactionHash: tx.hash,
     notes: `Delegated to ${msg.validator_address.slice(0, 16)}...`,
     tag: "staking_deposit",
-    fiatPrice,
   }];
 }
 
@@ -300,11 +300,11 @@ function normalizeMsgDelegate(
 function normalizeMsgUndelegate(
   msg: MsgUndelegate,
   tx: ProcessedOsmoTx,
-  fiatPrice: number | undefined,
   fee: number,
   msgIndex: number
 ): NormalizedTransaction[] {
-  const amount = formatTokenAmount(msg.amount.amount, msg.amount.denom);
+  const exactAmount = toDenomAmount(msg.amount.amount, msg.amount.denom);
+  const amount = tokenAmountToNumber(exactAmount);
   const symbol = getDenomSymbol(msg.amount.denom);
 
   return [{
@@ -317,10 +317,10 @@ function normalizeMsgUndelegate(
     receivedCurrency: symbol,
     feeAmount: fee,
     feeCurrency: "OSMO",
+    receivedAmountExact: exactAmount,
     transactionHash: tx.hash,
     notes: `Undelegated from ${msg.validator_address.slice(0, 16)}...`,
     tag: "unstaking_withdraw",
-    fiatPrice,
   }];
 }
 
@@ -330,11 +330,11 @@ function normalizeMsgUndelegate(
 function normalizeMsgRedelegate(
   msg: MsgBeginRedelegate,
   tx: ProcessedOsmoTx,
-  fiatPrice: number | undefined,
   fee: number,
   msgIndex: number
 ): NormalizedTransaction[] {
-  const amount = formatTokenAmount(msg.amount.amount, msg.amount.denom);
+  const exactAmount = toDenomAmount(msg.amount.amount, msg.amount.denom);
+  const amount = tokenAmountToNumber(exactAmount);
   const symbol = getDenomSymbol(msg.amount.denom);
 
   // Redelegate is a non-taxable event (no change in ownership)
@@ -351,7 +351,6 @@ function normalizeMsgRedelegate(
     transactionHash: tx.hash,
     notes: `Redelegated ${amount} ${symbol} from ${msg.validator_src_address.slice(0, 12)}... to ${msg.validator_dst_address.slice(0, 12)}...`,
     tag: "staking_deposit",
-    fiatPrice,
   }];
 }
 
@@ -362,7 +361,6 @@ function normalizeMsgWithdrawReward(
   msg: MsgWithdrawDelegatorReward,
   tx: ProcessedOsmoTx,
   walletAddress: string,
-  fiatPrice: number | undefined,
   fee: number,
   msgIndex: number
 ): NormalizedTransaction[] {
@@ -381,7 +379,8 @@ function normalizeMsgWithdrawReward(
 
   for (let i = 0; i < rewards.length; i++) {
     const reward = rewards[i];
-    const amount = formatTokenAmount(reward.amount, reward.denom);
+    const exactAmount = toDenomAmount(reward.amount, reward.denom);
+    const amount = tokenAmountToNumber(exactAmount);
     const symbol = getDenomSymbol(reward.denom);
 
     results.push({
@@ -394,10 +393,10 @@ function normalizeMsgWithdrawReward(
       receivedCurrency: symbol,
       feeAmount: results.length === 0 ? fee : 0,
       feeCurrency: "OSMO",
+      receivedAmountExact: exactAmount,
       transactionHash: tx.hash,
       notes: `Staking reward from ${msg.validator_address.slice(0, 16)}...`,
       tag: "claim_rewards",
-      fiatPrice,
     });
   }
 
@@ -416,7 +415,6 @@ function normalizeMsgWithdrawReward(
       transactionHash: tx.hash,
       notes: "Claimed staking rewards (0 rewards)",
       tag: "claim_rewards",
-      fiatPrice,
     });
   }
 
@@ -430,18 +428,19 @@ function normalizeMsgSwapIn(
   msg: MsgSwapExactAmountIn,
   tx: ProcessedOsmoTx,
   walletAddress: string,
-  fiatPrice: number | undefined,
   fee: number,
   msgIndex: number
 ): NormalizedTransaction[] {
-  const sentAmount = formatTokenAmount(msg.token_in.amount, msg.token_in.denom);
+  const exactSent = toDenomAmount(msg.token_in.amount, msg.token_in.denom);
+  const sentAmount = tokenAmountToNumber(exactSent);
   const sentSymbol = getDenomSymbol(msg.token_in.denom);
 
   // Get the output token from events
   const { received } = extractTokenMovements(tx.events, walletAddress);
   const outputToken = received.length > 0 ? received[0] : null;
 
-  const receivedAmount = outputToken ? formatTokenAmount(outputToken.amount, outputToken.denom) : null;
+  const exactReceived = outputToken ? toDenomAmount(outputToken.amount, outputToken.denom) : undefined;
+  const receivedAmount = exactReceived ? tokenAmountToNumber(exactReceived) : null;
   const receivedSymbol = outputToken ? getDenomSymbol(outputToken.denom) : null;
 
   return [{
@@ -454,10 +453,11 @@ function normalizeMsgSwapIn(
     receivedCurrency: receivedSymbol,
     feeAmount: fee,
     feeCurrency: "OSMO",
+    sentAmountExact: exactSent,
+    receivedAmountExact: exactReceived,
     transactionHash: tx.hash,
     notes: `Swap ${sentSymbol} for ${receivedSymbol || "unknown"}`,
     tag: "payment",
-    fiatPrice,
   }];
 }
 
@@ -468,18 +468,19 @@ function normalizeMsgSwapOut(
   msg: MsgSwapExactAmountOut,
   tx: ProcessedOsmoTx,
   walletAddress: string,
-  fiatPrice: number | undefined,
   fee: number,
   msgIndex: number
 ): NormalizedTransaction[] {
-  const receivedAmount = formatTokenAmount(msg.token_out.amount, msg.token_out.denom);
+  const exactReceived = toDenomAmount(msg.token_out.amount, msg.token_out.denom);
+  const receivedAmount = tokenAmountToNumber(exactReceived);
   const receivedSymbol = getDenomSymbol(msg.token_out.denom);
 
   // Get the input token from events
   const { sent } = extractTokenMovements(tx.events, walletAddress);
   const inputToken = sent.length > 0 ? sent[0] : null;
 
-  const sentAmount = inputToken ? formatTokenAmount(inputToken.amount, inputToken.denom) : null;
+  const exactSent = inputToken ? toDenomAmount(inputToken.amount, inputToken.denom) : undefined;
+  const sentAmount = exactSent ? tokenAmountToNumber(exactSent) : null;
   const sentSymbol = inputToken ? getDenomSymbol(inputToken.denom) : null;
 
   return [{
@@ -492,10 +493,11 @@ function normalizeMsgSwapOut(
     receivedCurrency: receivedSymbol,
     feeAmount: fee,
     feeCurrency: "OSMO",
+    sentAmountExact: exactSent,
+    receivedAmountExact: exactReceived,
     transactionHash: tx.hash,
     notes: `Swap ${sentSymbol || "unknown"} for ${receivedSymbol}`,
     tag: "payment",
-    fiatPrice,
   }];
 }
 
@@ -505,7 +507,6 @@ function normalizeMsgSwapOut(
 function normalizeMsgJoinPool(
   msg: MsgJoinPool,
   tx: ProcessedOsmoTx,
-  fiatPrice: number | undefined,
   fee: number,
   msgIndex: number
 ): NormalizedTransaction[] {
@@ -514,7 +515,8 @@ function normalizeMsgJoinPool(
 
   for (let i = 0; i < tokens.length; i++) {
     const token = tokens[i];
-    const amount = formatTokenAmount(token.amount, token.denom);
+    const exactAmount = toDenomAmount(token.amount, token.denom);
+    const amount = tokenAmountToNumber(exactAmount);
     const symbol = getDenomSymbol(token.denom);
 
     results.push({
@@ -527,10 +529,10 @@ function normalizeMsgJoinPool(
       receivedCurrency: null,
       feeAmount: results.length === 0 ? fee : 0,
       feeCurrency: "OSMO",
+      sentAmountExact: exactAmount,
       transactionHash: tx.hash,
       notes: `Added liquidity to pool ${msg.pool_id}`,
       tag: "payment",
-      fiatPrice,
     });
   }
 
@@ -543,7 +545,6 @@ function normalizeMsgJoinPool(
 function normalizeMsgExitPool(
   msg: MsgExitPool,
   tx: ProcessedOsmoTx,
-  fiatPrice: number | undefined,
   fee: number,
   msgIndex: number
 ): NormalizedTransaction[] {
@@ -552,7 +553,8 @@ function normalizeMsgExitPool(
 
   for (let i = 0; i < tokens.length; i++) {
     const token = tokens[i];
-    const amount = formatTokenAmount(token.amount, token.denom);
+    const exactAmount = toDenomAmount(token.amount, token.denom);
+    const amount = tokenAmountToNumber(exactAmount);
     const symbol = getDenomSymbol(token.denom);
 
     results.push({
@@ -565,10 +567,10 @@ function normalizeMsgExitPool(
       receivedCurrency: symbol,
       feeAmount: results.length === 0 ? fee : 0,
       feeCurrency: "OSMO",
+      receivedAmountExact: exactAmount,
       transactionHash: tx.hash,
       notes: `Removed liquidity from pool ${msg.pool_id}`,
       tag: "receive",
-      fiatPrice,
     });
   }
 
@@ -581,7 +583,6 @@ function normalizeMsgExitPool(
 function normalizeMsgLockTokens(
   msg: MsgLockTokens,
   tx: ProcessedOsmoTx,
-  fiatPrice: number | undefined,
   fee: number,
   msgIndex: number
 ): NormalizedTransaction[] {
@@ -590,7 +591,8 @@ function normalizeMsgLockTokens(
 
   for (let i = 0; i < coins.length; i++) {
     const coin = coins[i];
-    const amount = formatTokenAmount(coin.amount, coin.denom);
+    const exactAmount = toDenomAmount(coin.amount, coin.denom);
+    const amount = tokenAmountToNumber(exactAmount);
     const symbol = getDenomSymbol(coin.denom);
 
     results.push({
@@ -603,10 +605,10 @@ function normalizeMsgLockTokens(
       receivedCurrency: null,
       feeAmount: results.length === 0 ? fee : 0,
       feeCurrency: "OSMO",
+      sentAmountExact: exactAmount,
       transactionHash: tx.hash,
       notes: `Locked ${symbol} for ${msg.duration}`,
       tag: "staking_deposit",
-      fiatPrice,
     });
   }
 
@@ -619,7 +621,6 @@ function normalizeMsgLockTokens(
 function normalizeMsgUnlockTokens(
   msg: MsgBeginUnlocking,
   tx: ProcessedOsmoTx,
-  fiatPrice: number | undefined,
   fee: number,
   msgIndex: number
 ): NormalizedTransaction[] {
@@ -628,7 +629,8 @@ function normalizeMsgUnlockTokens(
 
   for (let i = 0; i < coins.length; i++) {
     const coin = coins[i];
-    const amount = formatTokenAmount(coin.amount, coin.denom);
+    const exactAmount = toDenomAmount(coin.amount, coin.denom);
+    const amount = tokenAmountToNumber(exactAmount);
     const symbol = getDenomSymbol(coin.denom);
 
     results.push({
@@ -641,10 +643,10 @@ function normalizeMsgUnlockTokens(
       receivedCurrency: symbol,
       feeAmount: results.length === 0 ? fee : 0,
       feeCurrency: "OSMO",
+      receivedAmountExact: exactAmount,
       transactionHash: tx.hash,
       notes: `Unlocking ${symbol} (lock ID: ${msg.ID})`,
       tag: "unstaking_withdraw",
-      fiatPrice,
     });
   }
 
@@ -657,11 +659,11 @@ function normalizeMsgUnlockTokens(
 function createReceivedTransaction(
   coin: Coin,
   tx: ProcessedOsmoTx,
-  fiatPrice: number | undefined,
   fee: number,
   index: number
 ): NormalizedTransaction {
-  const amount = formatTokenAmount(coin.amount, coin.denom);
+  const exactAmount = toDenomAmount(coin.amount, coin.denom);
+  const amount = tokenAmountToNumber(exactAmount);
   const symbol = getDenomSymbol(coin.denom);
 
   return {
@@ -674,10 +676,10 @@ function createReceivedTransaction(
     receivedCurrency: symbol,
     feeAmount: fee,
     feeCurrency: "OSMO",
+    receivedAmountExact: exactAmount,
     transactionHash: tx.hash,
     notes: "Token received",
     tag: "receive",
-    fiatPrice,
   };
 }
 
@@ -687,11 +689,11 @@ function createReceivedTransaction(
 function createSentTransaction(
   coin: Coin,
   tx: ProcessedOsmoTx,
-  fiatPrice: number | undefined,
   fee: number,
   index: number
 ): NormalizedTransaction {
-  const amount = formatTokenAmount(coin.amount, coin.denom);
+  const exactAmount = toDenomAmount(coin.amount, coin.denom);
+  const amount = tokenAmountToNumber(exactAmount);
   const symbol = getDenomSymbol(coin.denom);
 
   return {
@@ -704,9 +706,9 @@ function createSentTransaction(
     receivedCurrency: null,
     feeAmount: fee,
     feeCurrency: "OSMO",
+    sentAmountExact: exactAmount,
     transactionHash: tx.hash,
     notes: "Token sent",
     tag: "payment",
-    fiatPrice,
   };
 }
@@ -1,5 +1,8 @@
 // Osmosis utility functions
 
+import type { TokenAmount } from "@/lib/types";
+import { toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+
 /**
  * Validates an Osmosis address format.
  * Osmosis uses Bech32 encoding with "osmo" prefix.
@@ -29,8 +32,7 @@ export function isValidOsmosisAddress(address: string): boolean {
  * 1 OSMO = 1,000,000 uosmo
  */
 export function uosmoToOsmo(uosmo: string | number | bigint): number {
-  const value = typeof uosmo === "string" ? BigInt(uosmo) : BigInt(uosmo);
-  return Number(value) / 1_000_000;
+  return tokenAmountToNumber(toTokenAmount(uosmo, 6));
 }
 
 /**
@@ -81,9 +83,14 @@ export function getDecimalsForDenom(denom: string): number {
  * Converts a token amount to human-readable format based on its denom.
  */
 export function formatTokenAmount(amount: string | number | bigint, denom: string): number {
-  const value = typeof amount === "string" ? BigInt(amount) : BigInt(amount);
-  const decimals = getDecimalsForDenom(denom);
-  return Number(value) / Math.pow(10, decimals);
+  return tokenAmountToNumber(toDenomAmount(amount, denom));
+}
+
+/**
+ * Converts a token amount to an exact amount with the denom's decimals.
+ */
+export function toDenomAmount(amount: string | number | bigint, denom: string): TokenAmount {
+  return toTokenAmount(amount, getDecimalsForDenom(denom));
 }
 
 /**
@@ -0,0 +1,144 @@
+/**
+ * Server-side export pipeline shared by every chain:
+ * fetch -> normalize -> date filter -> rules -> price -> flag -> summarize.
+ * Kept apart from the registry, which client components import.
+ */
+
+import type { NormalizedTransaction, PerpsTransaction } from "@/lib/types";
+import { flagAmbiguousTransactions, flagAmbiguousPerpsTransactions } from "@/lib/ambiguous";
+import { generateAwakenCSV, generateAwakenPerpsCSV } from "@/lib/csv";
+import { filterByDateRange } from "@/lib/date-filter";
+import { priceTransactions } from "@/lib/pricing";
+import { aggregateFunding } from "@/lib/perps";
+import { applyRules } from "@/lib/rules";
+import { ChainRequestError, type ChainAdapter, type ChainInput } from "./adapter";
+
+export type ChainExport =
+  | { kind: "standard"; transactions: NormalizedTransaction[]; summary: Record<string, unknown> }
+  | {
+      kind: "perps";
+      transactions: PerpsTransaction[];
+      summary: Record<string, unknown>;
+      /** Companion wallet_transfer rows, for adapters that export them */
+      transfers?: NormalizedTransaction[];
+    };
+
+export type ExportPhase = "fetching" | "normalizing" | "pricing" | "summarizing";
+
+/**
+ * Reported as the pipeline moves between phases. Counts appear once known:
+ * transactions after normalizing, inRange after the date filter.
+ */
+export interface ExportProgress {
+  phase: ExportPhase;
+  transactions?: number;
+  inRange?: number;
+}
+
+function abortError(signal: AbortSignal): ChainRequestError {
+  const reason: unknown = signal.reason;
+  if (reason instanceof ChainRequestError) return reason;
+  if (reason instanceof DOMException && reason.name === "TimeoutError") {
+    return new ChainRequestError(
+      "TIMEOUT",
+      "Export timed out",
+      "The chain's API did not respond in time; try a narrower date range"
+    );
+  }
+  return new ChainRequestError("CANCELLED", "Export cancelled");
+}
+
+/**
+ * Settle with the value, or reject as soon as the signal aborts. Requests
+ * already in flight are left to finish; the export just stops waiting.
+ */
+function untilAborted<T>(value: T | Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return Promise.resolve(value);
+  if (signal.aborted) return Promise.reject(abortError(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    Promise.resolve(value)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+export async function runChainExport(
+  adapter: ChainAdapter,
+  input: ChainInput,
+  onProgress: (progress: ExportProgress) => void = () => {}
+): Promise<ChainExport> {
+  const { signal } = input;
+
+  onProgress({ phase: "fetching" });
+  const raw = await untilAborted(adapter.fetchRaw(input), signal);
+
+  onProgress({ phase: "normalizing" });
+
+  if (adapter.kind === "perps") {
+    const normalized = await untilAborted(adapter.normalize(raw, input), signal);
+    const filtered = filterByDateRange(normalized, input);
+    onProgress({ phase: "summarizing", transactions: normalized.length, inRange: filtered.length });
+    // Roll funding up after the date filter, so periods only sum ticks in range
+    const period = input.options.aggregateFunding;
+    const rows = period === "daily" || period === "weekly" ? aggregateFunding(filtered, period) : filtered;
+    const flagged = flagAmbiguousPerpsTransactions(rows);
+    const transfers = adapter.transfers
+      ? flagAmbiguousTransactions(
+          applyRules(filterByDateRange(adapter.transfers(raw, input), input), input.rules ?? [], adapter.id)
+        )
+      : undefined;
+    return {
+      kind: "perps",
+      transactions: flagged,
+      summary: adapter.summarize(flagged, raw),
+      ...(transfers && { transfers }),
+    };
+  }
+
+  const normalized = await untilAborted(adapter.normalize(raw, input), signal);
+  // User rules retag or drop rows before pricing, so excluded rows cost no lookups
+  const filtered = applyRules(filterByDateRange(normalized, input), input.rules ?? [], adapter.id);
+  const counts = { transactions: normalized.length, inRange: filtered.length };
+
+  // Price each leg at its currency's daily rate
+  let priced = filtered;
+  if (adapter.currencyResolver) {
+    onProgress({ phase: "pricing", ...counts });
+    priced = await untilAborted(
+      Promise.resolve(adapter.currencyResolver()).then((resolve) => priceTransactions(filtered, resolve)),
+      signal
+    );
+  }
+
+  onProgress({ phase: "summarizing", ...counts });
+  const flagged = flagAmbiguousTransactions(priced);
+  return { kind: "standard", transactions: flagged, summary: adapter.summarize(flagged, raw) };
+}
+
+/**
+ * The export's CSV; `transfers` picks a perps chain's companion transfers CSV
+ */
+export function exportToCSV(result: ChainExport, transfers = false): string {
+  if (result.kind === "standard") return generateAwakenCSV(result.transactions);
+  return transfers
+    ? generateAwakenCSV(result.transfers ?? [])
+    : generateAwakenPerpsCSV(result.transactions);
+}
+
+/**
+ * {chain}[-perps|-transfers][-{address prefix}]-awaken.csv. API keys never
+ * appear in the name.
+ */
+export function exportFilename(adapter: ChainAdapter, address: string, transfers = false): string {
+  const parts = [adapter.id];
+  if (adapter.kind === "perps") parts.push(transfers ? "transfers" : "perps");
+  if (adapter.input.type === "address") {
+    const prefix = address.replace(/[^A-Za-z0-9]/g, "").slice(0, 12);
+    if (prefix) parts.push(prefix);
+  }
+  parts.push("awaken");
+  return `${parts.join("-")}.csv`;
+}
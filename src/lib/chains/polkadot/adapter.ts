@@ -0,0 +1,69 @@
+import { createCurrencyResolver } from "@/lib/pricing/legs";
+import type { NormalizedTransaction } from "@/lib/types";
+import type { StandardChainAdapter } from "../adapter";
+import { fetchAllTransfers, fetchAllRewards, fetchAllSlashes, fetchStakingExtrinsics } from "./subscan";
+import {
+  normalizeTransfer,
+  normalizeReward,
+  normalizeSlash,
+  normalizeStakingExtrinsic,
+  mergeAndSortTransactions,
+} from "./transactions";
+import { isValidPolkadotAddress } from "./utils";
+import type { RawExtrinsic, RawRewardSlash, RawTransfer } from "./types";
+
+interface PolkadotRawData {
+  transfers: RawTransfer[];
+  rewards: RawRewardSlash[];
+  slashes: RawRewardSlash[];
+  stakingExtrinsics: RawExtrinsic[];
+}
+
+export const polkadotAdapter: StandardChainAdapter<PolkadotRawData> = {
+  id: "polkadot",
+  kind: "standard",
+  name: "Polkadot",
+  symbol: "DOT",
+  description: "Export transfers, staking rewards, and slashing events",
+  features: ["Transfers", "Staking", "Rewards", "Slashing", "USD Prices"],
+  logo: "https://s2.coinmarketcap.com/static/img/coins/64x64/6636.png",
+  color: "#E6007A",
+  input: {
+    type: "address",
+    label: "Polkadot Wallet Address",
+    placeholder: "1...",
+    help: "Enter your Polkadot (DOT) wallet address",
+    format: "SS58 (starts with 1)",
+  },
+  explorerTxUrl: "https://polkadot.subscan.io/extrinsic/",
+
+  validateAddress: (address) => (isValidPolkadotAddress(address) ? address : null),
+  addressHint: "Address must start with '1' and be 47-48 characters.",
+
+  async fetchRaw({ address }) {
+    const [transfers, rewards, slashes, stakingExtrinsics] = await Promise.all([
+      fetchAllTransfers(address),
+      fetchAllRewards(address),
+      fetchAllSlashes(address),
+      fetchStakingExtrinsics(address),
+    ]);
+    return { transfers, rewards, slashes, stakingExtrinsics };
+  },
+  normalize: (raw, { address }) =>
+    mergeAndSortTransactions(
+      raw.transfers.map((t) => normalizeTransfer(t, address)),
+      raw.rewards.map((r) => normalizeReward(r)),
+      raw.slashes.map((s) => normalizeSlash(s)),
+      raw.stakingExtrinsics
+        .map((e) => normalizeStakingExtrinsic(e))
+        .filter((tx): tx is NormalizedTransaction => tx !== null)
+    ),
+  currencyResolver: () => createCurrencyResolver("DOT"),
+
+  summarize: (_transactions, raw) => ({
+    transfers: raw.transfers.length,
+    rewards: raw.rewards.length,
+    slashes: raw.slashes.length,
+    staking: raw.stakingExtrinsics.length,
+  }),
+};
@@ -4,8 +4,6 @@ import type {
   RawTransfer,
   RawRewardSlash,
   RawExtrinsic,
-  SubscanPriceHistory,
-  SubscanPrice,
 } from "./types";
 
 const API_BASE = "https://polkadot.api.subscan.io";
@@ -253,61 +251,3 @@ export async function fetchStakingExtrinsics(
 
   return allExtrinsics;
 }
-
-// Price cache
-let priceCache: { data: Map<string, number>; timestamp: number } | null = null;
-const PRICE_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
-export async function fetchPriceHistory(
-  startDate: string,
-  endDate: string
-): Promise<Map<string, number>> {
-  // Check cache
-  const now = Date.now();
-  if (priceCache && now - priceCache.timestamp < PRICE_CACHE_TTL) {
-    console.log("Using cached price data");
-    return priceCache.data;
-  }
-
-  const priceMap = new Map<string, number>();
-
-  try {
-    const response = await fetchWithRetry<SubscanResponse<{ list: SubscanPriceHistory[] }>>(
-      "/api/scan/price/history",
-      {
-        start: startDate,
-        end: endDate,
-        format: "day",
-      }
-    );
-
-    for (const item of response.data?.list || []) {
-      // Convert timestamp to date string
-      const date = new Date(item.feed_at * 1000).toISOString().split("T")[0];
-      priceMap.set(date, parseFloat(item.price));
-    }
-
-    priceCache = { data: priceMap, timestamp: now };
-    console.log(`Cached ${priceMap.size} price entries for DOT`);
-  } catch (error) {
-    console.warn("Failed to fetch DOT price history:", error);
-  }
-
-  return priceMap;
-}
-
-export async function fetchPriceAtTime(timestamp: number): Promise<number | null> {
-  try {
-    const response = await fetchWithRetry<SubscanResponse<SubscanPrice>>(
-      "/api/scan/open/price",
-      {
-        time: timestamp,
-      }
-    );
-
-    return response.data?.price ? parseFloat(response.data.price) : null;
-  } catch (error) {
-    console.warn("Failed to fetch price at time:", error);
-    return null;
-  }
-}
@@ -2,13 +2,15 @@ import type {
   NormalizedTransaction,
   TransactionType,
   AwakenTag,
+  TokenAmount,
 } from "@/lib/types";
 import type {
   RawTransfer,
   RawRewardSlash,
   RawExtrinsic,
 } from "./types";
-import { planckToDot } from "./utils";
+import { tokenAmountToNumber } from "@/lib/amount";
+import { planckToDotAmount } from "./utils";
 
 function getTagForType(type: TransactionType): AwakenTag {
   switch (type) {
@@ -34,19 +36,18 @@ function getTagForType(type: TransactionType): AwakenTag {
 
 export function normalizeTransfer(
   transfer: RawTransfer,
-  walletAddress: string,
-  priceMap: Map<string, number>
+  walletAddress: string
 ): NormalizedTransaction {
   const isSent = transfer.from.toLowerCase() === walletAddress.toLowerCase();
   const type: TransactionType = isSent ? "transfer_sent" : "transfer_received";
   const timestamp = new Date(transfer.block_timestamp * 1000);
-  const dateKey = timestamp.toISOString().split("T")[0];
-  const fiatPrice = priceMap.get(dateKey);
 
   // Use amount_v2 if available (more precise), fallback to amount
   const amountStr = transfer.amount_v2 || transfer.amount;
-  const amount = planckToDot(amountStr);
-  const fee = transfer.fee ? planckToDot(transfer.fee) : 0;
+  const exactAmount = planckToDotAmount(amountStr);
+  const amount = tokenAmountToNumber(exactAmount);
+  const exactFee = transfer.fee ? planckToDotAmount(transfer.fee) : undefined;
+  const fee = exactFee ? tokenAmountToNumber(exactFee) : 0;
 
   return {
     id: `transfer-${transfer.extrinsic_index}`,
@@ -58,23 +59,24 @@ export function normalizeTransfer(
     receivedCurrency: isSent ? null : "DOT",
     feeAmount: isSent ? fee : 0, // Only sender pays fee
     feeCurrency: "DOT",
+    sentAmountExact: isSent ? exactAmount : undefined,
+    receivedAmountExact: isSent ? undefined : exactAmount,
+    feeAmountExact: isSent ? exactFee : undefined,
     transactionHash: transfer.hash,
     notes: isSent
       ? `Transfer to ${transfer.to.slice(0, 8)}...`
       : `Transfer from ${transfer.from.slice(0, 8)}...`,
     tag: getTagForType(type),
-    fiatPrice,
+    counterparty: isSent ? transfer.to : transfer.from,
   };
 }
 
 export function normalizeReward(
-  reward: RawRewardSlash,
-  priceMap: Map<string, number>
+  reward: RawRewardSlash
 ): NormalizedTransaction {
   const timestamp = new Date(reward.block_timestamp * 1000);
-  const dateKey = timestamp.toISOString().split("T")[0];
-  const fiatPrice = priceMap.get(dateKey);
-  const amount = planckToDot(reward.amount);
+  const exactAmount = planckToDotAmount(reward.amount);
+  const amount = tokenAmountToNumber(exactAmount);
 
   return {
     id: `reward-${reward.event_index}`,
@@ -86,21 +88,19 @@ export function normalizeReward(
     receivedCurrency: "DOT",
     feeAmount: 0,
     feeCurrency: "DOT",
+    receivedAmountExact: exactAmount,
     transactionHash: reward.extrinsic_hash || "",
     notes: `Staking reward (${reward.event_method})`,
     tag: "claim_rewards",
-    fiatPrice,
   };
 }
 
 export function normalizeSlash(
-  slash: RawRewardSlash,
-  priceMap: Map<string, number>
+  slash: RawRewardSlash
 ): NormalizedTransaction {
   const timestamp = new Date(slash.block_timestamp * 1000);
-  const dateKey = timestamp.toISOString().split("T")[0];
-  const fiatPrice = priceMap.get(dateKey);
-  const amount = planckToDot(slash.amount);
+  const exactAmount = planckToDotAmount(slash.amount);
+  const amount = tokenAmountToNumber(exactAmount);
 
   return {
     id: `slash-${slash.event_index}`,
@@ -112,35 +112,34 @@ export function normalizeSlash(
     receivedCurrency: null,
     feeAmount: 0,
     feeCurrency: "DOT",
+    sentAmountExact: exactAmount,
     transactionHash: slash.extrinsic_hash || "",
     notes: `Slashing penalty (${slash.event_method})`,
     tag: "lost",
-    fiatPrice,
   };
 }
 
 export function normalizeStakingExtrinsic(
-  extrinsic: RawExtrinsic,
-  priceMap: Map<string, number>
+  extrinsic: RawExtrinsic
 ): NormalizedTransaction | null {
   const timestamp = new Date(extrinsic.block_timestamp * 1000);
-  const dateKey = timestamp.toISOString().split("T")[0];
-  const fiatPrice = priceMap.get(dateKey);
-  const fee = extrinsic.fee ? planckToDot(extrinsic.fee) : 0;
+  const exactFee = extrinsic.fee ? planckToDotAmount(extrinsic.fee) : undefined;
+  const fee = exactFee ? tokenAmountToNumber(exactFee) : 0;
 
   // Parse the params to get the amount
-  let amount = 0;
+  let exactAmount: TokenAmount | undefined;
   try {
     const params = JSON.parse(extrinsic.params || "[]");
     const valueParam = params.find((p: { name: string; value: string }) =>
       p.name === "value" || p.name === "amount" || p.name === "max_additional"
     );
     if (valueParam) {
-      amount = planckToDot(valueParam.value);
+      exactAmount = planckToDotAmount(valueParam.value);
     }
   } catch {
     // Params parsing failed, amount stays 0
   }
+  const amount = exactAmount ? tokenAmountToNumber(exactAmount) : 0;
 
   const func = extrinsic.call_module_function.toLowerCase();
 
@@ -156,10 +155,11 @@ export function normalizeStakingExtrinsic(
       receivedCurrency: null,
       feeAmount: fee,
       feeCurrency: "DOT",
+      sentAmountExact: exactAmount,
+      feeAmountExact: exactFee,
       transactionHash: extrinsic.extrinsic_hash,
       notes: func === "bond" ? "Initial staking bond" : "Add to staking bond",
       tag: "staking_deposit",
-      fiatPrice,
     };
   }
 
@@ -175,10 +175,11 @@ export function normalizeStakingExtrinsic(
       receivedCurrency: "DOT",
       feeAmount: fee,
       feeCurrency: "DOT",
+      receivedAmountExact: exactAmount,
+      feeAmountExact: exactFee,
       transactionHash: extrinsic.extrinsic_hash,
       notes: "Unbonding started (28 day wait)",
       tag: "unstaking_withdraw",
-      fiatPrice,
     };
   }
 
@@ -194,10 +195,11 @@ export function normalizeStakingExtrinsic(
       receivedCurrency: "DOT",
       feeAmount: fee,
       feeCurrency: "DOT",
+      receivedAmountExact: exactAmount,
+      feeAmountExact: exactFee,
       transactionHash: extrinsic.extrinsic_hash,
       notes: "Withdrew unbonded DOT",
       tag: "unstaking_withdraw",
-      fiatPrice,
     };
   }
 
@@ -213,10 +215,11 @@ export function normalizeStakingExtrinsic(
       receivedCurrency: null,
       feeAmount: fee,
       feeCurrency: "DOT",
+      sentAmountExact: exactAmount,
+      feeAmountExact: exactFee,
       transactionHash: extrinsic.extrinsic_hash,
       notes: "Rebonded (cancelled unstaking)",
       tag: "staking_deposit",
-      fiatPrice,
     };
   }
 
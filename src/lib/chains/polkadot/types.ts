@@ -77,13 +77,3 @@ export interface RawExtrinsic {
   params: string;
   account_id: string;
 }
-
-export interface SubscanPriceHistory {
-  feed_at: number;
-  price: string;
-}
-
-export interface SubscanPrice {
-  price: string;
-  time: number;
-}
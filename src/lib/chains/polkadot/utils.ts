@@ -1,5 +1,8 @@
 // Polkadot-specific utilities
 
+import type { TokenAmount } from "@/lib/types";
+import { toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+
 /**
  * Validates a Polkadot SS58 address
  * Polkadot addresses start with "1" (SS58 prefix 0) and are 47-48 characters
@@ -18,13 +21,24 @@ export function isValidPolkadotAddress(address: string): boolean {
   return base58Regex.test(address);
 }
 
+/**
+ * Polkadot decimals (1 DOT = 10^10 Planck)
+ */
+export const POLKADOT_DECIMALS = 10;
+
+/**
+ * Convert Planck to an exact DOT amount
+ */
+export function planckToDotAmount(planck: string | number): TokenAmount {
+  return toTokenAmount(planck, POLKADOT_DECIMALS);
+}
+
 /**
  * Convert Planck (smallest unit) to DOT
  * 1 DOT = 10^10 Planck
  */
 export function planckToDot(planck: string | number): number {
-  const planckBigInt = typeof planck === "string" ? BigInt(planck) : BigInt(planck);
-  return Number(planckBigInt) / 1e10;
+  return tokenAmountToNumber(planckToDotAmount(planck));
 }
 
 /**
@@ -0,0 +1,50 @@
+import { createCurrencyResolver } from "@/lib/pricing/legs";
+import { ChainRequestError, type StandardChainAdapter } from "../adapter";
+import { fetchAllTransactions, verifyAccount } from "./api";
+import { processTransactions } from "./transactions";
+import { isValidRadixAddress } from "./utils";
+import type { RadixTransaction } from "./types";
+
+export const radixAdapter: StandardChainAdapter<RadixTransaction[]> = {
+  id: "radix",
+  kind: "standard",
+  name: "Radix",
+  symbol: "XRD",
+  description: "Export XRD transfers, staking rewards, swaps, and pool operations",
+  features: ["Transfers", "Staking", "Rewards", "Swaps", "Pools", "USD Prices"],
+  logo: "https://s2.coinmarketcap.com/static/img/coins/64x64/11948.png",
+  color: "#052CC0",
+  input: {
+    type: "address",
+    label: "Radix Account Address",
+    placeholder: "account_rdx1...",
+    help: "Enter your Radix account address starting with 'account_rdx1'",
+    format: "account_rdx1...",
+  },
+  explorerTxUrl: "https://dashboard.radixdlt.com/transaction/",
+
+  validateAddress: (address) => (isValidRadixAddress(address) ? address : null),
+  addressHint: "Radix account addresses must start with 'account_rdx1' followed by Bech32m-encoded data",
+
+  async fetchRaw({ address, startDate, endDate }) {
+    if (!(await verifyAccount(address))) {
+      throw new ChainRequestError("ACCOUNT_NOT_FOUND", "Account not found", "This address has no activity on Radix mainnet");
+    }
+
+    // The gateway filters by date server-side
+    const fromDate = startDate ? new Date(startDate) : undefined;
+    const toDate = endDate ? new Date(endDate) : undefined;
+    return fetchAllTransactions(address, fromDate, toDate);
+  },
+  normalize: (raw, { address }) => processTransactions(raw, address),
+  currencyResolver: () => createCurrencyResolver("XRD"),
+
+  summarize: (transactions) => ({
+    sent: transactions.filter((tx) => tx.type === "transfer_sent" || tx.type === "token_sent").length,
+    received: transactions.filter((tx) => tx.type === "transfer_received" || tx.type === "token_received").length,
+    staking: transactions.filter((tx) => tx.type === "stake" || tx.type === "unstake").length,
+    rewards: transactions.filter((tx) => tx.type === "emission_reward").length,
+    swaps: transactions.filter((tx) => tx.type === "swap").length,
+    totalFees: transactions.reduce((sum, tx) => sum + tx.feeAmount, 0),
+  }),
+};
@@ -9,10 +9,6 @@ import type {
 const GATEWAY_BASE = "https://mainnet.radixdlt.com";
 const MAX_PAGE_SIZE = 100; // API supports up to 100
 
-// Price cache
-let priceCache: { price: number; timestamp: number } | null = null;
-const PRICE_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
 async function fetchWithRetry<T>(
   url: string,
   options: RequestInit,
@@ -161,40 +157,6 @@ export async function fetchAllTransactions(
   return allTransactions;
 }
 
-/**
- * Get current XRD price in USD from CoinGecko
- */
-export async function getXrdPrice(): Promise<number | null> {
-  // Check cache
-  const now = Date.now();
-  if (priceCache && now - priceCache.timestamp < PRICE_CACHE_TTL) {
-    return priceCache.price;
-  }
-
-  try {
-    const response = await fetch(
-      "https://api.coingecko.com/api/v3/simple/price?ids=radix&vs_currencies=usd"
-    );
-
-    if (!response.ok) {
-      throw new Error(`CoinGecko API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const price = data.radix?.usd;
-
-    if (typeof price === "number") {
-      priceCache = { price, timestamp: now };
-      return price;
-    }
-
-    return null;
-  } catch (error) {
-    console.warn("Failed to fetch XRD price:", error);
-    return null;
-  }
-}
-
 /**
  * Get transaction count for an account
  * Note: This makes a request with limit 1 just to get the total_count
@@ -1,8 +1,9 @@
 // Radix transaction normalization to Awaken CSV format
 
-import type { NormalizedTransaction, TransactionType, AwakenTag } from "@/lib/types";
+import type { NormalizedTransaction, TransactionType, AwakenTag, TokenAmount } from "@/lib/types";
 import type { RadixTransaction, RadixTransactionBalanceChange, RadixManifestClass } from "./types";
-import { toXrd, normalizeAddress, extractTokenSymbol, parseTimestamp } from "./utils";
+import { absTokenAmount, addTokenAmounts, tokenAmountToNumber } from "@/lib/amount";
+import { toXrdAmount, normalizeAddress, extractTokenSymbol, parseTimestamp } from "./utils";
 import { XRD_RESOURCE_ADDRESS } from "./types";
 
 /**
@@ -63,6 +64,9 @@ function analyzeBalanceChanges(
   receivedCurrency: string | null;
   feeAmount: number;
   feeCurrency: string;
+  sentAmountExact?: TokenAmount;
+  receivedAmountExact?: TokenAmount;
+  feeAmountExact?: TokenAmount;
   isSender: boolean;
   isReceiver: boolean;
 } {
@@ -72,6 +76,9 @@ function analyzeBalanceChanges(
   let receivedCurrency: string | null = null;
   let feeAmount = 0;
   const feeCurrency = "XRD";
+  let sentAmountExact: TokenAmount | undefined;
+  let receivedAmountExact: TokenAmount | undefined;
+  let feeAmountExact: TokenAmount | undefined;
 
   const normalizedWallet = normalizeAddress(walletAddress);
 
@@ -106,25 +113,32 @@ function analyzeBalanceChanges(
 
   // Process fee balance changes
   if (balanceChanges.fee_balance_change) {
-    const feeChange = toXrd(balanceChanges.fee_balance_change.balance_change);
-    if (feeChange < 0) {
-      feeAmount = Math.abs(feeChange);
+    const feeChange = toXrdAmount(balanceChanges.fee_balance_change.balance_change);
+    if (tokenAmountToNumber(feeChange) < 0) {
+      feeAmountExact = absTokenAmount(feeChange);
     }
   }
 
   if (balanceChanges.fee_balance_changes) {
     for (const change of balanceChanges.fee_balance_changes) {
-      const amount = toXrd(change.balance_change);
-      if (amount < 0) {
-        feeAmount += Math.abs(amount);
+      const amount = toXrdAmount(change.balance_change);
+      if (tokenAmountToNumber(amount) < 0) {
+        feeAmountExact = feeAmountExact
+          ? addTokenAmounts(feeAmountExact, absTokenAmount(amount))
+          : absTokenAmount(amount);
       }
     }
   }
 
+  if (feeAmountExact) {
+    feeAmount = tokenAmountToNumber(feeAmountExact);
+  }
+
   // Process non-fee balance changes
   if (balanceChanges.non_fee_balance_changes) {
     for (const change of balanceChanges.non_fee_balance_changes) {
-      const amount = toXrd(change.balance_change);
+      const exactAmount = toXrdAmount(change.balance_change);
+      const amount = tokenAmountToNumber(exactAmount);
       const isXrd = change.resource_address === XRD_RESOURCE_ADDRESS;
       const currency = isXrd ? "XRD" : extractTokenSymbol(change.resource_address);
 
@@ -133,6 +147,7 @@ function analyzeBalanceChanges(
         if (!receivedAmount || amount > receivedAmount) {
           receivedAmount = amount;
           receivedCurrency = currency;
+          receivedAmountExact = exactAmount;
         }
       } else if (amount < 0) {
         // Sent
@@ -140,6 +155,7 @@ function analyzeBalanceChanges(
         if (!sentAmount || absAmount > sentAmount) {
           sentAmount = absAmount;
           sentCurrency = currency;
+          sentAmountExact = absTokenAmount(exactAmount);
         }
       }
     }
@@ -152,6 +168,9 @@ function analyzeBalanceChanges(
     receivedCurrency,
     feeAmount,
     feeCurrency,
+    sentAmountExact,
+    receivedAmountExact,
+    feeAmountExact,
     isSender: sentAmount !== null || feeAmount > 0,
     isReceiver: receivedAmount !== null,
   };
@@ -162,8 +181,7 @@ function analyzeBalanceChanges(
  */
 export function normalizeTransaction(
   tx: RadixTransaction,
-  walletAddress: string,
-  xrdPrice: number | null
+  walletAddress: string
 ): NormalizedTransaction | null {
   // Skip failed transactions
   if (tx.transaction_status !== "CommittedSuccess") {
@@ -221,10 +239,11 @@ export function normalizeTransaction(
       receivedCurrency: null,
       feeAmount: balanceAnalysis.feeAmount,
       feeCurrency: "XRD",
+      sentAmountExact: balanceAnalysis.sentAmountExact,
+      feeAmountExact: balanceAnalysis.feeAmountExact,
       transactionHash: tx.intent_hash,
       notes,
       tag,
-      fiatPrice: xrdPrice ?? undefined,
     };
   }
 
@@ -240,10 +259,11 @@ export function normalizeTransaction(
       receivedCurrency: balanceAnalysis.receivedCurrency || "XRD",
       feeAmount: balanceAnalysis.feeAmount,
       feeCurrency: "XRD",
+      receivedAmountExact: balanceAnalysis.receivedAmountExact,
+      feeAmountExact: balanceAnalysis.feeAmountExact,
       transactionHash: tx.intent_hash,
       notes,
       tag,
-      fiatPrice: xrdPrice ?? undefined,
     };
   }
 
@@ -259,10 +279,11 @@ export function normalizeTransaction(
       receivedCurrency: balanceAnalysis.receivedCurrency || "XRD",
       feeAmount: balanceAnalysis.feeAmount,
       feeCurrency: "XRD",
+      receivedAmountExact: balanceAnalysis.receivedAmountExact,
+      feeAmountExact: balanceAnalysis.feeAmountExact,
       transactionHash: tx.intent_hash,
       notes,
       tag,
-      fiatPrice: xrdPrice ?? undefined,
     };
   }
 
@@ -277,10 +298,12 @@ export function normalizeTransaction(
     receivedCurrency: balanceAnalysis.receivedCurrency,
     feeAmount: balanceAnalysis.feeAmount,
     feeCurrency: "XRD",
+    sentAmountExact: balanceAnalysis.sentAmountExact,
+    receivedAmountExact: balanceAnalysis.receivedAmountExact,
+    feeAmountExact: balanceAnalysis.feeAmountExact,
     transactionHash: tx.intent_hash,
     notes,
     tag,
-    fiatPrice: xrdPrice ?? undefined,
   };
 }
 
@@ -289,8 +312,7 @@ export function normalizeTransaction(
  */
 export function processTransactions(
   transactions: RadixTransaction[],
-  walletAddress: string,
-  xrdPrice: number | null
+  walletAddress: string
 ): NormalizedTransaction[] {
   const normalized: NormalizedTransaction[] = [];
   const seenHashes = new Set<string>();
@@ -302,7 +324,7 @@ export function processTransactions(
     }
     seenHashes.add(tx.intent_hash);
 
-    const result = normalizeTransaction(tx, walletAddress, xrdPrice);
+    const result = normalizeTransaction(tx, walletAddress);
     if (result) {
       normalized.push(result);
     }
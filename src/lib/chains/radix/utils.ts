@@ -1,36 +1,29 @@
 // Radix utility functions
 
+import type { TokenAmount } from "@/lib/types";
+import { parseTokenAmount, toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+
 // 1 XRD = 10^18 smallest units (18 decimals)
 const XRD_DECIMALS = 18;
-const XRD_DIVISOR = BigInt(10 ** XRD_DECIMALS);
+
+/**
+ * Convert a balance change to an exact XRD amount.
+ * Integer values are smallest units (atto); decimal strings are already XRD.
+ */
+export function toXrdAmount(value: string | number): TokenAmount {
+  const str = String(value || 0);
+  if (/[.e]/i.test(str)) {
+    return parseTokenAmount(str, XRD_DECIMALS);
+  }
+  return toTokenAmount(str, XRD_DECIMALS);
+}
 
 /**
  * Convert smallest units (atto) to XRD
  * Uses BigInt for precision with large numbers
  */
 export function toXrd(value: string | number): number {
-  if (!value || value === "0") return 0;
-
-  try {
-    // Handle negative values (for balance changes)
-    const isNegative = String(value).startsWith("-");
-    const absValue = isNegative ? String(value).slice(1) : String(value);
-
-    const bigValue = BigInt(absValue);
-    const wholePart = bigValue / XRD_DIVISOR;
-    const fractionalPart = bigValue % XRD_DIVISOR;
-
-    const result = Number(wholePart) + Number(fractionalPart) / Number(XRD_DIVISOR);
-    return isNegative ? -result : result;
-  } catch {
-    // Fallback for decimal strings or smaller numbers
-    const num = typeof value === "string" ? parseFloat(value) : value;
-    if (String(value).includes(".")) {
-      // Already in decimal format
-      return num;
-    }
-    return num / 10 ** XRD_DECIMALS;
-  }
+  return tokenAmountToNumber(toXrdAmount(value));
 }
 
 /**
@@ -0,0 +1,65 @@
+/**
+ * Every supported chain, in the order the UI lists them.
+ * Adding a chain means writing its adapter module and listing it here.
+ */
+
+import type { ChainAdapter } from "./adapter";
+import { bittensorAdapter } from "./bittensor/adapter";
+import { kaspaAdapter } from "./kaspa/adapter";
+import { polkadotAdapter } from "./polkadot/adapter";
+import { kusamaAdapter } from "./kusama/adapter";
+import { osmosisAdapter } from "./osmosis/adapter";
+import { injectiveAdapter } from "./injective/adapter";
+import { roninAdapter } from "./ronin/adapter";
+import { extendedAdapter } from "./extended/adapter";
+import { dydxAdapter } from "./dydx/adapter";
+import { gmxAdapter } from "./gmx/adapter";
+import { hyperliquidAdapter } from "./hyperliquid/adapter";
+import { cantonAdapter } from "./canton/adapter";
+import { hederaAdapter } from "./hedera/adapter";
+import { xrplAdapter } from "./xrpl/adapter";
+import { kavaAdapter } from "./kava/adapter";
+import { stellarAdapter } from "./stellar/adapter";
+import { multiversxAdapter } from "./multiversx/adapter";
+import { radixAdapter } from "./radix/adapter";
+import { ergoAdapter } from "./ergo/adapter";
+import { glueAdapter } from "./glue/adapter";
+
+export const CHAIN_ADAPTERS: readonly ChainAdapter[] = [
+  bittensorAdapter,
+  kaspaAdapter,
+  polkadotAdapter,
+  kusamaAdapter,
+  osmosisAdapter,
+  injectiveAdapter,
+  roninAdapter,
+  extendedAdapter,
+  dydxAdapter,
+  gmxAdapter,
+  hyperliquidAdapter,
+  cantonAdapter,
+  hederaAdapter,
+  xrplAdapter,
+  kavaAdapter,
+  stellarAdapter,
+  multiversxAdapter,
+  radixAdapter,
+  ergoAdapter,
+  glueAdapter,
+];
+
+const ADAPTERS_BY_ID = new Map(CHAIN_ADAPTERS.map((adapter) => [adapter.id, adapter]));
+
+export function getChainAdapter(chainId: string): ChainAdapter | undefined {
+  return ADAPTERS_BY_ID.get(chainId);
+}
+
+export function getChainIds(): string[] {
+  return CHAIN_ADAPTERS.map((adapter) => adapter.id);
+}
+
+export function getExplorerUrl(chainId: string, txHash: string): string | null {
+  const base = getChainAdapter(chainId)?.explorerTxUrl;
+  if (!base || !txHash) return null;
+  return `${base}${txHash}`;
+}
@@ -0,0 +1,72 @@
+import { createCurrencyResolver } from "@/lib/pricing/legs";
+import type { StandardChainAdapter } from "../adapter";
+import { fetchAllWalletHistory } from "./moralis";
+import { normalizeWalletHistoryTx, mergeAndSortTransactions } from "./transactions";
+import { isValidRoninAddress, normalizeRoninAddress } from "./utils";
+import { RONIN_PRICE_ASSETS, type MoralisTransaction } from "./types";
+
+export const roninAdapter: StandardChainAdapter<MoralisTransaction[]> = {
+  id: "ronin",
+  kind: "standard",
+  name: "Ronin",
+  symbol: "RON",
+  description: "Export transfers, swaps, NFT trades, and gaming transactions",
+  features: ["Transfers", "Swaps", "NFTs", "Staking", "Gaming", "USD Prices"],
+  logo: "https://s2.coinmarketcap.com/static/img/coins/64x64/14101.png",
+  color: "#1273EA",
+  input: {
+    type: "address",
+    label: "Ronin Wallet Address",
+    placeholder: "0x... or ronin:...",
+    help: "Enter your Ronin wallet address",
+    format: "0x... or ronin:...",
+  },
+  explorerTxUrl: "https://app.roninchain.com/tx/",
+
+  validateAddress: (address) => (isValidRoninAddress(address) ? normalizeRoninAddress(address) : null),
+  addressHint: "Use 0x... or ronin:... format (40 hex characters).",
+
+  fetchRaw: ({ address }) => fetchAllWalletHistory(address),
+  normalize: (raw, { address }) =>
+    mergeAndSortTransactions(raw.map((tx) => normalizeWalletHistoryTx(tx, address))),
+  currencyResolver: () => createCurrencyResolver("RON", RONIN_PRICE_ASSETS),
+
+  summarize(transactions) {
+    const breakdown = {
+      transfers: 0,
+      swaps: 0,
+      nfts: 0,
+      staking: 0,
+      tokens: 0,
+    };
+
+    for (const tx of transactions) {
+      switch (tx.type) {
+        case "transfer_sent":
+        case "transfer_received":
+          breakdown.transfers++;
+          break;
+        case "swap":
+          breakdown.swaps++;
+          break;
+        case "nft_sent":
+        case "nft_received":
+        case "nft_purchase":
+        case "nft_sale":
+          breakdown.nfts++;
+          break;
+        case "stake":
+        case "unstake":
+        case "emission_reward":
+          breakdown.staking++;
+          break;
+        case "token_sent":
+        case "token_received":
+          breakdown.tokens++;
+          break;
+      }
+    }
+
+    return breakdown;
+  },
+};
@@ -5,12 +5,10 @@ import type {
   MoralisTokenTransfer,
   MoralisNftTransfersResponse,
   MoralisNftTransferItem,
-  CoinGeckoMarketChartResponse,
 } from "./types";
 import { normalizeRoninAddress } from "./utils";
 
 const MORALIS_API_BASE = "https://deep-index.moralis.io/api/v2.2";
-const COINGECKO_API_BASE = "https://api.coingecko.com/api/v3";
 const RONIN_CHAIN = "0x7e4"; // Chain ID 2020 in hex
 
 // Rate limiter for Moralis API
@@ -45,9 +43,6 @@ class RateLimiter {
 // Moralis rate limiter: 25 req/sec (conservative)
 const moralisRateLimiter = new RateLimiter(25, 1000);
 
-// CoinGecko rate limiter: 25 req/min for free tier with API key
-const coingeckoRateLimiter = new RateLimiter(25, 60000);
-
 function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -63,17 +58,6 @@ function getMoralisHeaders(): HeadersInit {
   };
 }
 
-function getCoinGeckoHeaders(): HeadersInit {
-  const apiKey = process.env.COINGECKO_API_KEY;
-  const headers: HeadersInit = {
-    "Accept": "application/json",
-  };
-  if (apiKey) {
-    headers["x-cg-demo-api-key"] = apiKey;
-  }
-  return headers;
-}
-
 async function fetchMoralisWithRetry<T>(
   endpoint: string,
   retries = 3
@@ -255,124 +239,3 @@ export async function fetchAllNftTransfers(
 
   return allTransfers;
 }
-
-// Price cache for CoinGecko
-let priceCache: { data: Map<string, number>; timestamp: number } | null = null;
-const PRICE_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
-
-/**
- * Fetch historical RON prices from CoinGecko
- * Returns a map of date strings (YYYY-MM-DD) to USD prices
- */
-export async function fetchPriceHistory(
-  fromTimestamp: number,
-  toTimestamp: number
-): Promise<Map<string, number>> {
-  // Check cache
-  const now = Date.now();
-  if (priceCache && now - priceCache.timestamp < PRICE_CACHE_TTL) {
-    console.log("Using cached RON price data");
-    return priceCache.data;
-  }
-
-  const priceMap = new Map<string, number>();
-
-  try {
-    await coingeckoRateLimiter.waitForSlot();
-
-    // CoinGecko uses seconds for timestamps
-    const from = Math.floor(fromTimestamp / 1000);
-    const to = Math.floor(toTimestamp / 1000);
-
-    const response = await fetch(
-      `${COINGECKO_API_BASE}/coins/ronin/market_chart/range?vs_currency=usd&from=${from}&to=${to}`,
-      {
-        headers: getCoinGeckoHeaders(),
-      }
-    );
-
-    if (!response.ok) {
-      console.warn(`CoinGecko API error: ${response.status}`);
-      return priceMap;
-    }
-
-    const data: CoinGeckoMarketChartResponse = await response.json();
-
-    // Convert to date -> price map
-    for (const [timestampMs, price] of data.prices) {
-      const date = new Date(timestampMs).toISOString().split("T")[0];
-      // Keep the most recent price for each day
-      priceMap.set(date, price);
-    }
-
-    priceCache = { data: priceMap, timestamp: now };
-    console.log(`Cached ${priceMap.size} RON price entries`);
-  } catch (error) {
-    console.warn("Failed to fetch RON price history:", error);
-  }
-
-  return priceMap;
-}
-
-/**
- * Fetch prices for multiple tokens (AXS, SLP, etc.)
- */
-export async function fetchMultiTokenPriceHistory(
-  tokenIds: string[],
-  fromTimestamp: number,
-  toTimestamp: number
-): Promise<Map<string, Map<string, number>>> {
-  const result = new Map<string, Map<string, number>>();
-
-  for (const tokenId of tokenIds) {
-    try {
-      await coingeckoRateLimiter.waitForSlot();
-
-      const from = Math.floor(fromTimestamp / 1000);
-      const to = Math.floor(toTimestamp / 1000);
-
-      const response = await fetch(
-        `${COINGECKO_API_BASE}/coins/${tokenId}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`,
-        {
-          headers: getCoinGeckoHeaders(),
-        }
-      );
-
-      if (!response.ok) {
-        console.warn(`CoinGecko API error for ${tokenId}: ${response.status}`);
-        continue;
-      }
-
-      const data: CoinGeckoMarketChartResponse = await response.json();
-      const priceMap = new Map<string, number>();
-
-      for (const [timestampMs, price] of data.prices) {
-        const date = new Date(timestampMs).toISOString().split("T")[0];
-        priceMap.set(date, price);
-      }
-
-      result.set(tokenId, priceMap);
-    } catch (error) {
-      console.warn(`Failed to fetch ${tokenId} price history:`, error);
-    }
-  }
-
-  return result;
-}
-
-// CoinGecko token IDs for Ronin ecosystem tokens
-export const TOKEN_COINGECKO_IDS: Record<string, string> = {
-  RON: "ronin",
-  AXS: "axie-infinity",
-  SLP: "smooth-love-potion",
-  WETH: "weth",
-  USDC: "usd-coin",
-  PIXEL: "pixels",
-};
-
-/**
- * Get CoinGecko ID for a token symbol
- */
-export function getCoinGeckoId(symbol: string): string | undefined {
-  return TOKEN_COINGECKO_IDS[symbol.toUpperCase()];
-}
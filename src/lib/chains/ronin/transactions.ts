@@ -2,14 +2,21 @@ import type {
   NormalizedTransaction,
   TransactionType,
   AwakenTag,
+  TokenAmount,
 } from "@/lib/types";
+import { tokenAmountToNumber } from "@/lib/amount";
 import type {
   MoralisTransaction,
   MoralisCategory,
   MoralisTokenTransfer,
   MoralisNftTransferItem,
 } from "./types";
-import { weiToRon, convertTokenAmount, normalizeRoninAddress, isStakingContract } from "./utils";
+import {
+  weiToRonAmount,
+  convertTokenAmountExact,
+  normalizeRoninAddress,
+  isStakingContract,
+} from "./utils";
 
 /**
  * Map Moralis category to our transaction type
@@ -108,13 +115,10 @@ function getTagForType(type: TransactionType): AwakenTag {
  */
 export function normalizeWalletHistoryTx(
   tx: MoralisTransaction,
-  walletAddress: string,
-  priceMap: Map<string, number>
+  walletAddress: string
 ): NormalizedTransaction | NormalizedTransaction[] | null {
   const normalizedWallet = normalizeRoninAddress(walletAddress).toLowerCase();
   const timestamp = new Date(tx.block_timestamp);
-  const dateKey = timestamp.toISOString().split("T")[0];
-  const ronPrice = priceMap.get(dateKey);
 
   // Skip spam transactions
   if (tx.possible_spam) {
@@ -127,17 +131,18 @@ export function normalizeWalletHistoryTx(
   }
 
   // Calculate fee (always paid by sender in RON)
-  const fee = weiToRon(tx.transaction_fee || "0");
+  const feeExact = weiToRonAmount(tx.transaction_fee || "0");
+  const fee = feeExact ? tokenAmountToNumber(feeExact) : 0;
   const isSender = tx.from_address.toLowerCase() === normalizedWallet;
 
   // Handle swaps - these have both sent and received tokens
   if (tx.category === "token swap" && tx.erc20_transfers.length >= 2) {
-    return normalizeSwapTransaction(tx, normalizedWallet, timestamp, fee, priceMap);
+    return normalizeSwapTransaction(tx, normalizedWallet, timestamp, fee, feeExact);
   }
 
   // Handle NFT purchases/sales
   if ((tx.category === "nft purchase" || tx.category === "nft sale") && tx.nft_transfers.length > 0) {
-    return normalizeNftTransaction(tx, normalizedWallet, timestamp, fee, priceMap);
+    return normalizeNftTransaction(tx, normalizedWallet, timestamp, fee, feeExact);
   }
 
   // Determine transaction type
@@ -150,7 +155,8 @@ export function normalizeWalletHistoryTx(
     );
 
     if (nativeTransfer) {
-      const amount = weiToRon(nativeTransfer.value);
+      const exactAmount = weiToRonAmount(nativeTransfer.value);
+      const amount = exactAmount ? tokenAmountToNumber(exactAmount) : 0;
       const isOutgoing = nativeTransfer.direction === "send";
 
       return {
@@ -163,10 +169,12 @@ export function normalizeWalletHistoryTx(
         receivedCurrency: isOutgoing ? null : "RON",
         feeAmount: isSender ? fee : 0,
         feeCurrency: "RON",
+        sentAmountExact: isOutgoing ? exactAmount : undefined,
+        receivedAmountExact: isOutgoing ? undefined : exactAmount,
+        feeAmountExact: isSender ? feeExact : undefined,
         transactionHash: tx.hash,
         notes: tx.summary || (isOutgoing ? "RON transfer out" : "RON transfer in"),
         tag: getTagForType(isOutgoing ? "transfer_sent" : "transfer_received"),
-        fiatPrice: ronPrice,
       };
     }
   }
@@ -180,6 +188,7 @@ export function normalizeWalletHistoryTx(
       if (transfer.possible_spam) continue;
 
       const amount = parseFloat(transfer.value_formatted || "0");
+      const exactAmount = convertTokenAmountExact(transfer.value, parseInt(transfer.token_decimals || "18"));
       const isOutgoing = transfer.direction === "send";
       const symbol = transfer.token_symbol || "UNKNOWN";
 
@@ -193,10 +202,12 @@ export function normalizeWalletHistoryTx(
         receivedCurrency: isOutgoing ? null : symbol,
         feeAmount: isSender && results.length === 0 ? fee : 0, // Only first transfer gets the fee
         feeCurrency: "RON",
+        sentAmountExact: isOutgoing ? exactAmount : undefined,
+        receivedAmountExact: isOutgoing ? undefined : exactAmount,
+        feeAmountExact: isSender && results.length === 0 ? feeExact : undefined,
         transactionHash: tx.hash,
         notes: `${symbol} ${isOutgoing ? "sent" : "received"}`,
         tag: getTagForType(isOutgoing ? "token_sent" : "token_received"),
-        fiatPrice: ronPrice,
       });
     }
 
@@ -223,10 +234,10 @@ export function normalizeWalletHistoryTx(
         receivedCurrency: isOutgoing ? null : nftName,
         feeAmount: isSender && results.length === 0 ? fee : 0,
         feeCurrency: "RON",
+        feeAmountExact: isSender && results.length === 0 ? feeExact : undefined,
         transactionHash: tx.hash,
         notes: `NFT ${isOutgoing ? "sent" : "received"}: ${nftName}`,
         tag: getTagForType(isOutgoing ? "nft_sent" : "nft_received"),
-        fiatPrice: ronPrice,
       });
     }
 
@@ -234,7 +245,8 @@ export function normalizeWalletHistoryTx(
   }
 
   // Handle contract interactions with value
-  const value = weiToRon(tx.value);
+  const exactValue = weiToRonAmount(tx.value);
+  const value = exactValue ? tokenAmountToNumber(exactValue) : 0;
   if (value > 0) {
     const isOutgoing = isSender;
 
@@ -248,10 +260,12 @@ export function normalizeWalletHistoryTx(
       receivedCurrency: isOutgoing ? null : "RON",
       feeAmount: isSender ? fee : 0,
       feeCurrency: "RON",
+      sentAmountExact: isOutgoing ? exactValue : undefined,
+      receivedAmountExact: isOutgoing ? undefined : exactValue,
+      feeAmountExact: isSender ? feeExact : undefined,
       transactionHash: tx.hash,
       notes: tx.summary || tx.method_label || "Contract interaction",
       tag: getTagForType(type),
-      fiatPrice: ronPrice,
     };
   }
 
@@ -267,10 +281,8 @@ function normalizeSwapTransaction(
   walletAddress: string,
   timestamp: Date,
   fee: number,
-  priceMap: Map<string, number>
+  feeExact: TokenAmount | undefined
 ): NormalizedTransaction | null {
-  const dateKey = timestamp.toISOString().split("T")[0];
-  const ronPrice = priceMap.get(dateKey);
 
   // Find sent and received tokens
   const sentTransfer = tx.erc20_transfers.find((t) => t.direction === "send" && !t.possible_spam);
@@ -282,6 +294,11 @@ function normalizeSwapTransaction(
 
   const sentAmount = parseFloat(sentTransfer.value_formatted || "0");
   const receivedAmount = parseFloat(receivedTransfer.value_formatted || "0");
+  const exactSent = convertTokenAmountExact(sentTransfer.value, parseInt(sentTransfer.token_decimals || "18"));
+  const exactReceived = convertTokenAmountExact(
+    receivedTransfer.value,
+    parseInt(receivedTransfer.token_decimals || "18")
+  );
 
   return {
     id: `${tx.hash}-swap`,
@@ -293,10 +310,12 @@ function normalizeSwapTransaction(
     receivedCurrency: receivedTransfer.token_symbol,
     feeAmount: fee,
     feeCurrency: "RON",
+    sentAmountExact: exactSent,
+    receivedAmountExact: exactReceived,
+    feeAmountExact: feeExact,
     transactionHash: tx.hash,
     notes: `Swapped ${sentTransfer.token_symbol} for ${receivedTransfer.token_symbol}`,
     tag: "trade",
-    fiatPrice: ronPrice,
   };
 }
 
@@ -308,10 +327,8 @@ function normalizeNftTransaction(
   walletAddress: string,
   timestamp: Date,
   fee: number,
-  priceMap: Map<string, number>
+  feeExact: TokenAmount | undefined
 ): NormalizedTransaction | null {
-  const dateKey = timestamp.toISOString().split("T")[0];
-  const ronPrice = priceMap.get(dateKey);
 
   const nft = tx.nft_transfers[0];
   if (!nft || nft.possible_spam) return null;
@@ -321,11 +338,13 @@ function normalizeNftTransaction(
 
   // Find payment (native RON or ERC20)
   let paymentAmount = 0;
+  let exactPayment: TokenAmount | undefined;
   let paymentCurrency = "RON";
 
   if (tx.native_transfers.length > 0) {
     const payment = tx.native_transfers[0];
-    paymentAmount = weiToRon(payment.value);
+    exactPayment = weiToRonAmount(payment.value);
+    paymentAmount = exactPayment ? tokenAmountToNumber(exactPayment) : 0;
     paymentCurrency = "RON";
   } else if (tx.erc20_transfers.length > 0) {
     const payment = tx.erc20_transfers.find((t) =>
@@ -333,6 +352,7 @@ function normalizeNftTransaction(
     );
     if (payment) {
       paymentAmount = parseFloat(payment.value_formatted || "0");
+      exactPayment = convertTokenAmountExact(payment.value, parseInt(payment.token_decimals || "18"));
       paymentCurrency = payment.token_symbol;
     }
   }
@@ -348,10 +368,11 @@ function normalizeNftTransaction(
       receivedCurrency: nftName,
       feeAmount: fee,
       feeCurrency: "RON",
+      sentAmountExact: exactPayment,
+      feeAmountExact: feeExact,
       transactionHash: tx.hash,
       notes: `Purchased NFT: ${nftName}`,
       tag: "payment",
-      fiatPrice: ronPrice,
     };
   } else {
     return {
@@ -364,10 +385,11 @@ function normalizeNftTransaction(
       receivedCurrency: paymentCurrency,
       feeAmount: fee,
       feeCurrency: "RON",
+      receivedAmountExact: exactPayment,
+      feeAmountExact: feeExact,
       transactionHash: tx.hash,
       notes: `Sold NFT: ${nftName}`,
       tag: "receive",
-      fiatPrice: ronPrice,
     };
   }
 }
@@ -377,8 +399,7 @@ function normalizeNftTransaction(
  */
 export function normalizeTokenTransfer(
   transfer: MoralisTokenTransfer,
-  walletAddress: string,
-  priceMap: Map<string, number>
+  walletAddress: string
 ): NormalizedTransaction | null {
   const normalizedWallet = normalizeRoninAddress(walletAddress).toLowerCase();
 
@@ -386,12 +407,11 @@ export function normalizeTokenTransfer(
   if (transfer.possible_spam) return null;
 
   const timestamp = new Date(transfer.block_timestamp);
-  const dateKey = timestamp.toISOString().split("T")[0];
-  const ronPrice = priceMap.get(dateKey);
 
   const isSent = transfer.from_address.toLowerCase() === normalizedWallet;
   const decimals = parseInt(transfer.token_decimals || "18");
-  const amount = convertTokenAmount(transfer.value, decimals);
+  const exactAmount = convertTokenAmountExact(transfer.value, decimals);
+  const amount = exactAmount ? tokenAmountToNumber(exactAmount) : 0;
   const symbol = transfer.token_symbol || "UNKNOWN";
 
   return {
@@ -404,10 +424,11 @@ export function normalizeTokenTransfer(
     receivedCurrency: isSent ? null : symbol,
     feeAmount: 0, // Fee included in wallet history
     feeCurrency: "RON",
+    sentAmountExact: isSent ? exactAmount : undefined,
+    receivedAmountExact: isSent ? undefined : exactAmount,
     transactionHash: transfer.transaction_hash,
     notes: `${symbol} ${isSent ? "sent" : "received"}`,
     tag: isSent ? "payment" : "receive",
-    fiatPrice: ronPrice,
   };
 }
 
@@ -416,8 +437,7 @@ export function normalizeTokenTransfer(
  */
 export function normalizeNftTransfer(
   transfer: MoralisNftTransferItem,
-  walletAddress: string,
-  priceMap: Map<string, number>
+  walletAddress: string
 ): NormalizedTransaction | null {
   const normalizedWallet = normalizeRoninAddress(walletAddress).toLowerCase();
 
@@ -425,8 +445,6 @@ export function normalizeNftTransfer(
   if (transfer.possible_spam) return null;
 
   const timestamp = new Date(transfer.block_timestamp);
-  const dateKey = timestamp.toISOString().split("T")[0];
-  const ronPrice = priceMap.get(dateKey);
 
   const isSent = transfer.from_address.toLowerCase() === normalizedWallet;
   const nftId = `NFT #${transfer.token_id}`;
@@ -445,7 +463,6 @@ export function normalizeNftTransfer(
     transactionHash: transfer.transaction_hash,
     notes: `NFT ${isSent ? "sent" : "received"}: ${nftId}`,
     tag: isSent ? "gift_sent" : "gift_received",
-    fiatPrice: ronPrice,
   };
 }
 
@@ -179,13 +179,6 @@ export interface MoralisNftTransferItem {
   possible_spam: boolean;
 }
 
-// CoinGecko Price Response
-export interface CoinGeckoMarketChartResponse {
-  prices: [number, number][]; // [timestamp_ms, price]
-  market_caps: [number, number][];
-  total_volumes: [number, number][];
-}
-
 // Known token contracts on Ronin
 export const RONIN_TOKENS: Record<string, { symbol: string; decimals: number; name: string }> = {
   // Native RON is handled separately
@@ -197,6 +190,16 @@ export const RONIN_TOKENS: Record<string, { symbol: string; decimals: number; na
   "0x7eae20d11ef8c779433eb24503def900b9d28ad7": { symbol: "PIXEL", decimals: 18, name: "Pixels" },
 };
 
+// Price asset ids for known token symbols (WRON trades 1:1 with RON)
+export const RONIN_PRICE_ASSETS: Record<string, string> = {
+  AXS: "AXS",
+  SLP: "SLP",
+  WETH: "WETH",
+  USDC: "USDC",
+  WRON: "RON",
+  PIXEL: "PIXEL",
+};
+
 // Ronin staking contract address
 export const RONIN_STAKING_CONTRACT = "0x9C245671791834daf3885533D24dce516B763B28".toLowerCase();
 
@@ -1,5 +1,8 @@
 // Ronin-specific utilities
 
+import type { TokenAmount } from "@/lib/types";
+import { toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
+
 /**
  * Validates a Ronin address
  * Supports both formats:
@@ -50,24 +53,36 @@ export function formatRoninAddress(address: string): string {
  * 1 RON = 10^18 Wei
  */
 export function weiToRon(wei: string | number | bigint): number {
-  try {
-    const weiBigInt = typeof wei === "bigint" ? wei : BigInt(wei);
-    // Convert to number with 18 decimal precision
-    return Number(weiBigInt) / 1e18;
-  } catch {
-    return 0;
-  }
+  const amount = weiToRonAmount(wei);
+  return amount ? tokenAmountToNumber(amount) : 0;
+}
+
+/**
+ * Exact RON amount from Wei, or undefined if the value is not an integer
+ */
+export function weiToRonAmount(wei: string | number | bigint): TokenAmount | undefined {
+  return convertTokenAmountExact(wei, 18);
 }
 
 /**
  * Convert token amount based on decimals
  */
 export function convertTokenAmount(amount: string | number, decimals: number): number {
+  const exact = convertTokenAmountExact(amount, decimals);
+  return exact ? tokenAmountToNumber(exact) : 0;
+}
+
+/**
+ * Exact token amount from base units, or undefined if the value is not an integer
+ */
+export function convertTokenAmountExact(
+  amount: string | number | bigint,
+  decimals: number
+): TokenAmount | undefined {
   try {
-    const amountBigInt = BigInt(amount);
-    return Number(amountBigInt) / Math.pow(10, decimals);
+    return toTokenAmount(amount, decimals);
   } catch {
-    return 0;
+    return undefined;
   }
 }
 
@@ -0,0 +1,258 @@
+/**
+ * GET/POST handlers for /api/{chain}/transactions, built from the chain's
+ * adapter so every chain validates, reports errors and responds the same way.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  bodyReader,
+  isValidDateParam,
+  readBoolean,
+  readRequestParams,
+  readString,
+  searchParamReader,
+  type ExportFormat,
+  type ParamReader,
+} from "@/lib/request-params";
+import { analyzePerps } from "@/lib/perps";
+import { parseRules, RuleValidationError, type ReclassificationRule } from "@/lib/rules";
+import {
+  ChainRequestError,
+  ERROR_STATUS,
+  type ChainAdapter,
+  type ChainErrorCode,
+  type ChainInput,
+  type ChainOptionValues,
+} from "./adapter";
+import { getChainIds } from "./registry";
+import { exportFilename, exportToCSV, runChainExport, type ChainExport } from "./pipeline";
+
+export interface ChainRequest extends ChainInput {
+  format: ExportFormat;
+}
+
+export interface ChainErrorBody {
+  error: string;
+  code: ChainErrorCode;
+  details?: string;
+}
+
+export function errorResponse(code: ChainErrorCode, error: string, details?: string) {
+  const body: ChainErrorBody = details ? { error, code, details } : { error, code };
+  return NextResponse.json(body, { status: ERROR_STATUS[code] });
+}
+
+export function unsupportedChainResponse(chain: string) {
+  return NextResponse.json(
+    {
+      error: `Unsupported chain: ${chain}`,
+      code: "UNSUPPORTED_CHAIN",
+      supportedChains: getChainIds(),
+    },
+    { status: ERROR_STATUS.UNSUPPORTED_CHAIN }
+  );
+}
+
+// String options also take a JSON number, e.g. dYdX's { "subaccountNumber": 0 }
+function readNumber(read: ParamReader, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = read(name);
+    if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  }
+  return undefined;
+}
+
+// A JSON array in a body, a JSON string in a query string
+function readRules(read: ParamReader): ReclassificationRule[] {
+  const value = read("rules");
+  try {
+    return parseRules(typeof value === "string" ? JSON.parse(value) : value);
+  } catch (error) {
+    if (error instanceof RuleValidationError || error instanceof SyntaxError) {
+      throw new ChainRequestError("INVALID_RULES", "Invalid rules", error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read and validate a request against the adapter's input schema.
+ * Throws ChainRequestError on anything the caller has to fix.
+ */
+export function readChainRequest(adapter: ChainAdapter, read: ParamReader): ChainRequest {
+  const { input } = adapter;
+  const isApiKey = input.type === "apiKey";
+  const params = readRequestParams(read, [isApiKey ? "apiKey" : "address", ...(input.aliases ?? [])]);
+
+  if (!params.address) {
+    throw new ChainRequestError(
+      "MISSING_ADDRESS",
+      isApiKey ? "API key is required" : "Address is required",
+      `Expected ${input.label} (${input.format})`
+    );
+  }
+
+  const address = adapter.validateAddress(params.address);
+  if (!address) {
+    throw new ChainRequestError(
+      "INVALID_ADDRESS",
+      isApiKey ? "Invalid API key" : `Invalid ${adapter.name} address format`,
+      adapter.addressHint
+    );
+  }
+
+  for (const date of [params.startDate, params.endDate]) {
+    if (date && !isValidDateParam(date)) {
+      throw new ChainRequestError("INVALID_DATE", `Invalid date: ${date}`, "Dates must be YYYY-MM-DD");
+    }
+  }
+  if (params.startDate && params.endDate && params.startDate > params.endDate) {
+    throw new ChainRequestError("INVALID_DATE", "Start date is after end date");
+  }
+
+  const options: ChainOptionValues = {};
+  for (const option of input.options ?? []) {
+    const names = [option.name, ...(option.aliases ?? [])];
+    if (option.type === "boolean") {
+      options[option.name] = readBoolean(read, names, option.defaultValue === true);
+      continue;
+    }
+
+    const value = readString(read, names) ?? readNumber(read, names);
+    if (value && option.choices && !option.choices.some((choice) => choice.value === value)) {
+      throw new ChainRequestError(
+        "INVALID_OPTION",
+        `Invalid ${option.name}: ${value}`,
+        `Expected one of: ${option.choices.map((choice) => choice.value).join(", ")}`
+      );
+    }
+    options[option.name] = value ?? (typeof option.defaultValue === "string" ? option.defaultValue : undefined);
+  }
+
+  const rules = readRules(read);
+
+  return { ...params, address, options, ...(rules.length > 0 && { rules }) };
+}
+
+/**
+ * What GET returns without an address: how to call this chain's endpoint
+ */
+export function describeChain(adapter: ChainAdapter) {
+  const { input } = adapter;
+  const parameters: Record<string, string> = {
+    [input.type === "apiKey" ? "apiKey" : "address"]: `Required - ${input.label} (${input.format})`,
+    format: "Optional - json (default) or csv",
+    start: "Optional - YYYY-MM-DD (alias startDate)",
+    end: "Optional - YYYY-MM-DD (alias endDate)",
+    rules: "Optional - reclassification rules (JSON array) applied after normalization",
+  };
+  for (const option of input.options ?? []) {
+    parameters[option.name] = `Optional - ${option.description}`;
+  }
+
+  return {
+    chain: adapter.name,
+    id: adapter.id,
+    kind: adapter.kind,
+    description: adapter.description,
+    parameters,
+    supportedData: adapter.features,
+    csvFormat: adapter.kind === "perps" ? "Awaken Perps CSV format" : "Awaken CSV format",
+    ...(adapter.documentation && { documentation: adapter.documentation }),
+  };
+}
+
+/**
+ * CSV download or the uniform JSON body for a finished export. JSON always
+ * carries a perps chain's transfers and its analytics (per-market and monthly
+ * P&L, funding, fee split) under `summary.analytics`; CSV returns the
+ * transfers instead of the perps rows when `transfers` is set.
+ */
+export function exportResponse(
+  adapter: ChainAdapter,
+  address: string,
+  format: ExportFormat,
+  result: ChainExport,
+  transfers = false
+) {
+  if (format === "csv") {
+    const asTransfers = transfers && result.kind === "perps";
+    return new NextResponse(exportToCSV(result, asTransfers), {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="${exportFilename(adapter, address, asTransfers)}"`,
+      },
+    });
+  }
+
+  return NextResponse.json({
+    chain: adapter.id,
+    // API keys are secrets; only echo public addresses
+    ...(adapter.input.type === "address" && { address }),
+    totalTransactions: result.transactions.length,
+    summary: result.kind === "perps"
+      ? { ...result.summary, analytics: analyzePerps(result.transactions) }
+      : result.summary,
+    transactions: result.transactions,
+    ...(result.kind === "perps" && result.transfers && { transfers: result.transfers }),
+  });
+}
+
+/**
+ * Validate, export and respond: the whole request for one chain. The signal
+ * (client disconnect, timeout) cuts the export short with TIMEOUT/CANCELLED.
+ */
+export async function handleChainRequest(adapter: ChainAdapter, read: ParamReader, signal?: AbortSignal) {
+  try {
+    const request = readChainRequest(adapter, read);
+    const result = await runChainExport(adapter, { ...request, signal });
+    return exportResponse(adapter, request.address, request.format, result, request.options.transfers === true);
+  } catch (error) {
+    if (error instanceof ChainRequestError) {
+      return errorResponse(error.code, error.message, error.details);
+    }
+
+    console.error(`Error fetching ${adapter.name} transactions:`, error);
+    return errorResponse(
+      "FETCH_FAILED",
+      "Failed to fetch transactions",
+      error instanceof Error ? error.message : "Unknown error"
+    );
+  }
+}
+
+/**
+ * JSON object body of a POST, or null if it is missing or malformed
+ */
+export async function readJsonBody(request: NextRequest): Promise<Record<string, unknown> | null> {
+  try {
+    const body: unknown = await request.json();
+    return body && typeof body === "object" && !Array.isArray(body) ? (body as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Route module exports for one chain:
+ * export const { GET, POST } = createTransactionRoute(kaspaAdapter);
+ */
+export function createTransactionRoute(adapter: ChainAdapter) {
+  return {
+    async GET(request: NextRequest) {
+      const { searchParams } = request.nextUrl;
+      if (!searchParams.toString()) {
+        return NextResponse.json(describeChain(adapter));
+      }
+      return handleChainRequest(adapter, searchParamReader(searchParams), request.signal);
+    },
+
+    async POST(request: NextRequest) {
+      const body = await readJsonBody(request);
+      if (!body) {
+        return errorResponse("INVALID_REQUEST_BODY", "Request body must be a JSON object");
+      }
+      return handleChainRequest(adapter, bodyReader(body), request.signal);
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { createCurrencyResolver } from "@/lib/pricing/legs";
+import { ChainRequestError, type StandardChainAdapter } from "../adapter";
+import { isValidStellarAddress, normalizeAddress, fetchAccountInfo, fetchAllOperations } from "./api";
+import { normalizeStellarOperations, calculateSummary } from "./transactions";
+import type { StellarOperation } from "./types";
+
+export const stellarAdapter: StandardChainAdapter<StellarOperation[]> = {
+  id: "stellar",
+  kind: "standard",
+  name: "Stellar",
+  symbol: "XLM",
+  description: "Export XLM transfers, DEX trades, liquidity pools, and claimable balances",
+  features: ["Transfers", "DEX Trades", "Liquidity Pools", "Path Payments", "Claimable Balances", "USD Prices"],
+  logo: "https://s2.coinmarketcap.com/static/img/coins/64x64/512.png",
+  color: "#000000",
+  input: {
+    type: "address",
+    label: "Stellar Address",
+    placeholder: "GCZST3XVCDTUJ76ZAV2HA72KYPRPMK5V54ZFZAKBNRVVVBXJSKHVD6ZT",
+    help: "Enter your Stellar address starting with 'G'",
+    format: "G...",
+  },
+  explorerTxUrl: "https://stellar.expert/explorer/public/tx/",
+
+  validateAddress(address) {
+    const stellarAddress = normalizeAddress(address);
+    return isValidStellarAddress(stellarAddress) ? stellarAddress : null;
+  },
+  addressHint:
+    "Stellar addresses start with 'G' followed by 55 uppercase alphanumeric characters (e.g., GCZST3XVCDTUJ76ZAV2HA72KYPRPMK5V54ZFZAKBNRVVVBXJSKHVD6ZT)",
+
+  async fetchRaw({ address }) {
+    if (!(await fetchAccountInfo(address))) {
+      throw new ChainRequestError(
+        "ACCOUNT_NOT_FOUND",
+        "Account not found",
+        `No Stellar account found with address ${address}. The account may not be activated (requires minimum 1 XLM reserve).`
+      );
+    }
+    return fetchAllOperations(address);
+  },
+  normalize: (raw, { address }) => normalizeStellarOperations(raw, address),
+  currencyResolver: () => createCurrencyResolver("XLM"),
+
+  summarize: (transactions) => calculateSummary(transactions),
+};
@@ -1,12 +1,14 @@
 // Stellar Horizon API Client
 
+import type { TokenAmount } from "@/lib/types";
+import { parseTokenAmount, toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
 import {
   type StellarOperation,
   type StellarOperationsResponse,
   type StellarAccountResponse,
   type StellarTransactionDetails,
   STELLAR_HORIZON_URL,
-  STROOPS_PER_XLM,
+  XLM_DECIMALS,
 } from "./types";
 
 // Rate limiter - Horizon is generally permissive but we add small delays
@@ -155,9 +157,12 @@ export async function fetchAllOperations(
 
 // Convert stroops to XLM
 export function stroopsToXLM(stroops: string | number): number {
-  const stroopsNum =
-    typeof stroops === "string" ? parseInt(stroops, 10) : stroops;
-  return stroopsNum / STROOPS_PER_XLM;
+  return tokenAmountToNumber(stroopsToXLMAmount(stroops));
+}
+
+// Convert stroops to an exact XLM amount
+export function stroopsToXLMAmount(stroops: string | number): TokenAmount {
+  return toTokenAmount(stroops, XLM_DECIMALS);
 }
 
 // Parse amount string to number
@@ -165,6 +170,11 @@ export function parseAmount(amount: string): number {
   return parseFloat(amount);
 }
 
+// Parse amount string to an exact amount (Horizon amounts have 7 decimals)
+export function parseAmountExact(amount: string): TokenAmount {
+  return parseTokenAmount(amount, XLM_DECIMALS);
+}
+
 // Get asset display name
 export function getAssetName(
   assetType?: string,
@@ -176,44 +186,6 @@ export function getAssetName(
   return assetCode || "UNKNOWN";
 }
 
-// Fetch XLM price from CoinGecko
-export async function fetchXLMPrice(timestamp: Date): Promise<number | null> {
-  try {
-    const dateStr = timestamp.toISOString().split("T")[0];
-    const [year, month, day] = dateStr.split("-");
-    const formattedDate = `${day}-${month}-${year}`;
-
-    const response = await fetch(
-      `https://api.coingecko.com/api/v3/coins/stellar/history?date=${formattedDate}`,
-      {
-        headers: { Accept: "application/json" },
-      }
-    );
-
-    if (!response.ok) {
-      return null;
-    }
-
-    const data = await response.json();
-    return data.market_data?.current_price?.usd ?? null;
-  } catch {
-    return null;
-  }
-}
-
-// Get unique dates from operations for batch price fetching
-export function getUniqueDates(operations: StellarOperation[]): string[] {
-  const dates = new Set<string>();
-
-  for (const op of operations) {
-    const timestamp = new Date(op.created_at);
-    const dateStr = timestamp.toISOString().split("T")[0];
-    dates.add(dateStr);
-  }
-
-  return Array.from(dates);
-}
-
 // Decode memo value if present
 export function decodeMemo(
   memoType: string,
@@ -4,17 +4,18 @@ import type {
   NormalizedTransaction,
   TransactionType,
   AwakenTag,
+  TokenAmount,
 } from "@/lib/types";
+import { tokenAmountToNumber } from "@/lib/amount";
 import {
   type StellarOperation,
   STELLAR_OP_DESCRIPTIONS,
 } from "./types";
 import {
   parseAmount,
-  stroopsToXLM,
-  fetchXLMPrice,
+  parseAmountExact,
+  stroopsToXLMAmount,
   fetchTransactionDetails,
-  getUniqueDates,
   getAssetName,
 } from "./api";
 
@@ -158,22 +159,29 @@ function extractAmounts(
   sentCurrency: string | null;
   receivedAmount: number | null;
   receivedCurrency: string | null;
+  sentAmountExact?: TokenAmount;
+  receivedAmountExact?: TokenAmount;
 } {
   let sentAmount: number | null = null;
   let sentCurrency: string | null = null;
   let receivedAmount: number | null = null;
   let receivedCurrency: string | null = null;
+  let sentAmountExact: TokenAmount | undefined;
+  let receivedAmountExact: TokenAmount | undefined;
 
   switch (op.type) {
     case "payment": {
       const amount = op.amount ? parseAmount(op.amount) : null;
+      const exactAmount = op.amount ? parseAmountExact(op.amount) : undefined;
       const currency = getAssetName(op.asset_type, op.asset_code);
 
       if (op.from === address || op.source_account === address) {
         sentAmount = amount;
+        sentAmountExact = exactAmount;
         sentCurrency = currency;
       } else if (op.to === address) {
         receivedAmount = amount;
+        receivedAmountExact = exactAmount;
         receivedCurrency = currency;
       }
       break;
@@ -185,11 +193,13 @@ function extractAmounts(
       if (op.from === address || op.source_account === address) {
         // We sent the source asset
         sentAmount = op.source_amount ? parseAmount(op.source_amount) : null;
+        sentAmountExact = op.source_amount ? parseAmountExact(op.source_amount) : undefined;
         sentCurrency = getAssetName(op.source_asset_type, op.source_asset_code);
       }
       if (op.to === address) {
         // We received the destination asset
         receivedAmount = op.amount ? parseAmount(op.amount) : null;
+        receivedAmountExact = op.amount ? parseAmountExact(op.amount) : undefined;
         receivedCurrency = getAssetName(op.asset_type, op.asset_code);
       }
       break;
@@ -197,12 +207,15 @@ function extractAmounts(
 
     case "create_account": {
       const amount = op.starting_balance ? parseAmount(op.starting_balance) : null;
+      const exactAmount = op.starting_balance ? parseAmountExact(op.starting_balance) : undefined;
 
       if (op.funder === address || op.source_account === address) {
         sentAmount = amount;
+        sentAmountExact = exactAmount;
         sentCurrency = "XLM";
       } else if (op.account === address) {
         receivedAmount = amount;
+        receivedAmountExact = exactAmount;
         receivedCurrency = "XLM";
       }
       break;
@@ -228,6 +241,7 @@ function extractAmounts(
       // DEX offers - selling one asset for another
       if (op.amount) {
         sentAmount = parseAmount(op.amount);
+        sentAmountExact = parseAmountExact(op.amount);
         sentCurrency = getAssetName(op.selling_asset_type, op.selling_asset_code);
       }
       // For offers, we set up what we're buying (but execution is separate)
@@ -245,10 +259,12 @@ function extractAmounts(
         // Take the first deposited asset
         const firstDeposit = op.reserves_deposited[0];
         sentAmount = parseAmount(firstDeposit.amount);
+        sentAmountExact = parseAmountExact(firstDeposit.amount);
         sentCurrency = firstDeposit.asset === "native" ? "XLM" : firstDeposit.asset;
       }
       if (op.shares_received) {
         receivedAmount = parseAmount(op.shares_received);
+        receivedAmountExact = parseAmountExact(op.shares_received);
         receivedCurrency = "LP-SHARES";
       }
       break;
@@ -258,11 +274,13 @@ function extractAmounts(
       // Burning shares, receiving assets
       if (op.shares) {
         sentAmount = parseAmount(op.shares);
+        sentAmountExact = parseAmountExact(op.shares);
         sentCurrency = "LP-SHARES";
       }
       if (op.reserves_received && op.reserves_received.length > 0) {
         const firstReceived = op.reserves_received[0];
         receivedAmount = parseAmount(firstReceived.amount);
+        receivedAmountExact = parseAmountExact(firstReceived.amount);
         receivedCurrency = firstReceived.asset === "native" ? "XLM" : firstReceived.asset;
       }
       break;
@@ -271,6 +289,7 @@ function extractAmounts(
     case "create_claimable_balance": {
       if (op.amount) {
         sentAmount = parseAmount(op.amount);
+        sentAmountExact = parseAmountExact(op.amount);
         sentCurrency = getAssetName(op.asset_type, op.asset_code);
       }
       break;
@@ -289,28 +308,39 @@ function extractAmounts(
     }
   }
 
-  return { sentAmount, sentCurrency, receivedAmount, receivedCurrency };
+  return {
+    sentAmount,
+    sentCurrency,
+    receivedAmount,
+    receivedCurrency,
+    sentAmountExact,
+    receivedAmountExact,
+  };
 }
 
 // Process a single operation
 async function processOperation(
   op: StellarOperation,
   address: string,
-  xlmPrices: Map<string, number>,
-  txFees: Map<string, number>
+  txFees: Map<string, TokenAmount>
 ): Promise<NormalizedTransaction> {
   const timestamp = new Date(op.created_at);
-  const dateStr = timestamp.toISOString().split("T")[0];
-  const xlmPrice = xlmPrices.get(dateStr);
 
   const type = getTransactionType(op, address);
   const tag = getAwakenTag(op, address);
 
   // Get fee from transaction (cached)
-  let fee = txFees.get(op.transaction_hash) || 0;
+  const feeExact = op.source_account === address ? txFees.get(op.transaction_hash) : undefined;
+  const fee = feeExact ? tokenAmountToNumber(feeExact) : 0;
 
-  const { sentAmount, sentCurrency, receivedAmount, receivedCurrency } =
-    extractAmounts(op, address);
+  const {
+    sentAmount,
+    sentCurrency,
+    receivedAmount,
+    receivedCurrency,
+    sentAmountExact,
+    receivedAmountExact,
+  } = extractAmounts(op, address);
 
   // Build notes
   let notes = STELLAR_OP_DESCRIPTIONS[op.type] || op.type;
@@ -323,12 +353,14 @@ async function processOperation(
     sentCurrency,
     receivedAmount,
     receivedCurrency,
-    feeAmount: op.source_account === address ? fee : 0, // Only count fee if we initiated
+    feeAmount: fee, // Only count fee if we initiated
     feeCurrency: "XLM",
+    sentAmountExact,
+    receivedAmountExact,
+    feeAmountExact: feeExact,
     transactionHash: op.transaction_hash,
     notes,
     tag,
-    fiatPrice: xlmPrice,
   };
 }
 
@@ -346,7 +378,7 @@ export async function normalizeStellarOperations(
 
   // Fetch transaction details to get fees (batch unique transactions)
   const uniqueTxHashes = [...new Set(operations.map((op) => op.transaction_hash))];
-  const txFees = new Map<string, number>();
+  const txFees = new Map<string, TokenAmount>();
 
   // Limit fee fetching to avoid too many requests
   const hashesToFetch = uniqueTxHashes.slice(0, 100);
@@ -354,23 +386,7 @@ export async function normalizeStellarOperations(
   for (const hash of hashesToFetch) {
     const txDetails = await fetchTransactionDetails(hash);
     if (txDetails) {
-      txFees.set(hash, stroopsToXLM(txDetails.fee_charged));
-    }
-  }
-
-  onProgress?.("Fetching historical XLM prices...");
-
-  // Fetch XLM prices for unique dates (limit to 30 to avoid rate limiting)
-  const uniqueDates = getUniqueDates(operations);
-  const xlmPrices = new Map<string, number>();
-  const datesToFetch = uniqueDates.slice(0, 30);
-
-  for (const dateStr of datesToFetch) {
-    const [year, month, day] = dateStr.split("-");
-    const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-    const price = await fetchXLMPrice(date);
-    if (price !== null) {
-      xlmPrices.set(dateStr, price);
+      txFees.set(hash, stroopsToXLMAmount(txDetails.fee_charged));
     }
   }
 
@@ -380,7 +396,7 @@ export async function normalizeStellarOperations(
   const normalizedTxs: NormalizedTransaction[] = [];
 
   for (const op of operations) {
-    const normalized = await processOperation(op, address, xlmPrices, txFees);
+    const normalized = await processOperation(op, address, txFees);
     normalizedTxs.push(normalized);
   }
 
@@ -0,0 +1,46 @@
+import { createCurrencyResolver } from "@/lib/pricing/legs";
+import { ChainRequestError, type StandardChainAdapter } from "../adapter";
+import { isValidXRPAddress, normalizeAddress, fetchAccountInfo, fetchAllTransactions } from "./api";
+import { normalizeXRPLTransactions, calculateSummary } from "./transactions";
+import type { XRPLTransaction } from "./types";
+
+export const xrplAdapter: StandardChainAdapter<XRPLTransaction[]> = {
+  id: "xrpl",
+  kind: "standard",
+  name: "XRP Ledger",
+  symbol: "XRP",
+  description: "Export XRP transfers, DEX trades, NFTs, AMM, and escrow",
+  features: ["Transfers", "DEX Trades", "NFTs", "AMM", "Escrow", "USD Prices"],
+  logo: "https://s2.coinmarketcap.com/static/img/coins/64x64/52.png",
+  color: "#23292F",
+  input: {
+    type: "address",
+    label: "XRP Address",
+    placeholder: "rN7n3473SaZBCG4dFL83w7a1RXtXtbDK8d",
+    help: "Enter your XRP Ledger address starting with 'r'",
+    format: "r...",
+  },
+  explorerTxUrl: "https://xrpscan.com/tx/",
+
+  validateAddress(address) {
+    const xrpAddress = normalizeAddress(address);
+    return isValidXRPAddress(xrpAddress) ? xrpAddress : null;
+  },
+  addressHint:
+    "XRP addresses start with 'r' followed by 24-34 alphanumeric characters (e.g., rN7n3473SaZBCG4dFL83w7a1RXtXtbDK8d)",
+
+  async fetchRaw({ address }) {
+    if (!(await fetchAccountInfo(address))) {
+      throw new ChainRequestError(
+        "ACCOUNT_NOT_FOUND",
+        "Account not found",
+        `No XRP Ledger account found with address ${address}. The account may not be activated (requires minimum 10 XRP reserve).`
+      );
+    }
+    return fetchAllTransactions(address);
+  },
+  normalize: (raw, { address }) => normalizeXRPLTransactions(raw, address),
+  currencyResolver: () => createCurrencyResolver("XRP"),
+
+  summarize: (transactions) => calculateSummary(transactions),
+};
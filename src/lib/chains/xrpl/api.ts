@@ -1,11 +1,13 @@
 // XRPL API Client
 
+import type { TokenAmount } from "@/lib/types";
+import { parseTokenAmount, toTokenAmount, tokenAmountToNumber } from "@/lib/amount";
 import {
   type XRPLTransaction,
   type XRPLAccountTxResponse,
   type XRPLAccountInfoResponse,
   XRPL_MAINNET_SERVER,
-  DROPS_PER_XRP,
+  XRP_DECIMALS,
 } from "./types";
 
 // Rate limiter - XRPL public servers have dynamic rate limiting
@@ -164,25 +166,32 @@ export async function fetchAllTransactions(
 
 // Convert drops to XRP
 export function dropsToXRP(drops: string | number): number {
-  const dropsNum = typeof drops === "string" ? parseInt(drops, 10) : drops;
-  return dropsNum / DROPS_PER_XRP;
+  return tokenAmountToNumber(dropsToXRPAmount(drops));
+}
+
+// Convert drops to an exact XRP amount
+export function dropsToXRPAmount(drops: string | number): TokenAmount {
+  return toTokenAmount(drops, XRP_DECIMALS);
 }
 
 // Parse XRPL amount (can be drops string or currency object)
 export function parseAmount(
   amount: string | { currency: string; issuer?: string; value: string }
-): { value: number; currency: string; issuer?: string } {
+): { value: number; exact: TokenAmount; currency: string; issuer?: string } {
   if (typeof amount === "string") {
     // XRP amount in drops
+    const exact = dropsToXRPAmount(amount);
     return {
-      value: dropsToXRP(amount),
+      value: tokenAmountToNumber(exact),
+      exact,
       currency: "XRP",
     };
   }
 
-  // Issued currency
+  // Issued currency (decimal string, possibly in exponent form)
   return {
     value: parseFloat(amount.value),
+    exact: parseTokenAmount(amount.value),
     currency: amount.currency,
     issuer: amount.issuer,
   };
@@ -195,44 +204,6 @@ export function rippleTimeToDate(rippleTime: number): Date {
   return new Date((rippleTime + RIPPLE_EPOCH) * 1000);
 }
 
-// Fetch XRP price from CoinGecko
-export async function fetchXRPPrice(timestamp: Date): Promise<number | null> {
-  try {
-    const dateStr = timestamp.toISOString().split("T")[0];
-    const [year, month, day] = dateStr.split("-");
-    const formattedDate = `${day}-${month}-${year}`;
-
-    const response = await fetch(
-      `https://api.coingecko.com/api/v3/coins/ripple/history?date=${formattedDate}`,
-      {
-        headers: { Accept: "application/json" },
-      }
-    );
-
-    if (!response.ok) {
-      return null;
-    }
-
-    const data = await response.json();
-    return data.market_data?.current_price?.usd ?? null;
-  } catch {
-    return null;
-  }
-}
-
-// Get unique dates from transactions for batch price fetching
-export function getUniqueDates(transactions: XRPLTransaction[]): string[] {
-  const dates = new Set<string>();
-
-  for (const tx of transactions) {
-    const timestamp = rippleTimeToDate(tx.date);
-    const dateStr = timestamp.toISOString().split("T")[0];
-    dates.add(dateStr);
-  }
-
-  return Array.from(dates);
-}
-
 // Decode hex memo to string
 export function decodeMemo(memoHex?: string): string {
   if (!memoHex) return "";
@@ -4,7 +4,9 @@ import type {
   NormalizedTransaction,
   TransactionType,
   AwakenTag,
+  TokenAmount,
 } from "@/lib/types";
+import { parseTokenAmount, tokenAmountToNumber } from "@/lib/amount";
 import {
   type XRPLTransaction,
   type XRPLAmountValue,
@@ -13,9 +15,7 @@ import {
 import {
   rippleTimeToDate,
   parseAmount,
-  dropsToXRP,
-  fetchXRPPrice,
-  getUniqueDates,
+  dropsToXRPAmount,
   decodeMemo,
   formatCurrencyCode,
 } from "./api";
@@ -189,11 +189,15 @@ function extractAmounts(
   sentCurrency: string | null;
   receivedAmount: number | null;
   receivedCurrency: string | null;
+  sentAmountExact?: TokenAmount;
+  receivedAmountExact?: TokenAmount;
 } {
   let sentAmount: number | null = null;
   let sentCurrency: string | null = null;
   let receivedAmount: number | null = null;
   let receivedCurrency: string | null = null;
+  let sentAmountExact: TokenAmount | undefined;
+  let receivedAmountExact: TokenAmount | undefined;
 
   switch (tx.TransactionType) {
     case "Payment": {
@@ -207,10 +211,12 @@ function extractAmounts(
         if (tx.Account === address) {
           // We sent this payment
           sentAmount = parsed.value;
+          sentAmountExact = parsed.exact;
           sentCurrency = formatCurrencyCode(parsed.currency);
         } else if (tx.Destination === address) {
           // We received this payment
           receivedAmount = parsed.value;
+          receivedAmountExact = parsed.exact;
           receivedCurrency = formatCurrencyCode(parsed.currency);
         }
       }
@@ -222,11 +228,13 @@ function extractAmounts(
       if (tx.TakerGets) {
         const gets = parseAmount(tx.TakerGets);
         sentAmount = gets.value;
+        sentAmountExact = gets.exact;
         sentCurrency = formatCurrencyCode(gets.currency);
       }
       if (tx.TakerPays) {
         const pays = parseAmount(tx.TakerPays);
         receivedAmount = pays.value;
+        receivedAmountExact = pays.exact;
         receivedCurrency = formatCurrencyCode(pays.currency);
       }
       break;
@@ -237,10 +245,12 @@ function extractAmounts(
       if (tx.Amount) {
         const amount = parseAmount(tx.Amount);
         sentAmount = amount.value;
+        sentAmountExact = amount.exact;
         sentCurrency = formatCurrencyCode(amount.currency);
       }
       if (tx.LPTokenOut) {
         receivedAmount = parseFloat(tx.LPTokenOut.value);
+        receivedAmountExact = parseTokenAmount(tx.LPTokenOut.value);
         receivedCurrency = "LP-TOKEN";
       }
       break;
@@ -250,11 +260,13 @@ function extractAmounts(
       // Withdrawing from AMM
       if (tx.LPTokenIn) {
         sentAmount = parseFloat(tx.LPTokenIn.value);
+        sentAmountExact = parseTokenAmount(tx.LPTokenIn.value);
         sentCurrency = "LP-TOKEN";
       }
       if (tx.Amount) {
         const amount = parseAmount(tx.Amount);
         receivedAmount = amount.value;
+        receivedAmountExact = amount.exact;
         receivedCurrency = formatCurrencyCode(amount.currency);
       }
       break;
@@ -266,6 +278,7 @@ function extractAmounts(
       if (tx.Amount) {
         const amount = parseAmount(tx.Amount);
         sentAmount = amount.value;
+        sentAmountExact = amount.exact;
         sentCurrency = formatCurrencyCode(amount.currency);
       }
       break;
@@ -277,10 +290,12 @@ function extractAmounts(
       if (tx.meta?.delivered_amount) {
         const amount = parseAmount(tx.meta.delivered_amount as XRPLAmountValue);
         receivedAmount = amount.value;
+        receivedAmountExact = amount.exact;
         receivedCurrency = formatCurrencyCode(amount.currency);
       } else if (tx.Amount) {
         const amount = parseAmount(tx.Amount);
         receivedAmount = amount.value;
+        receivedAmountExact = amount.exact;
         receivedCurrency = formatCurrencyCode(amount.currency);
       }
       break;
@@ -290,6 +305,7 @@ function extractAmounts(
       if (tx.Amount) {
         const amount = parseAmount(tx.Amount);
         receivedAmount = amount.value;
+        receivedAmountExact = amount.exact;
         receivedCurrency = formatCurrencyCode(amount.currency);
       }
       break;
@@ -300,6 +316,7 @@ function extractAmounts(
       if (tx.NFTokenBrokerFee) {
         const fee = parseAmount(tx.NFTokenBrokerFee);
         sentAmount = fee.value;
+        sentAmountExact = fee.exact;
         sentCurrency = formatCurrencyCode(fee.currency);
       }
       break;
@@ -309,31 +326,43 @@ function extractAmounts(
       if (tx.Amount) {
         const amount = parseAmount(tx.Amount);
         sentAmount = amount.value;
+        sentAmountExact = amount.exact;
         sentCurrency = formatCurrencyCode(amount.currency);
       }
       break;
     }
   }
 
-  return { sentAmount, sentCurrency, receivedAmount, receivedCurrency };
+  return {
+    sentAmount,
+    sentCurrency,
+    receivedAmount,
+    receivedCurrency,
+    sentAmountExact,
+    receivedAmountExact,
+  };
 }
 
 // Process a single transaction
 function processTransaction(
   tx: XRPLTransaction,
-  address: string,
-  xrpPrices: Map<string, number>
+  address: string
 ): NormalizedTransaction {
   const timestamp = rippleTimeToDate(tx.date);
-  const dateStr = timestamp.toISOString().split("T")[0];
-  const xrpPrice = xrpPrices.get(dateStr);
 
   const type = getTransactionType(tx, address);
   const tag = getAwakenTag(tx, address);
-  const fee = dropsToXRP(tx.Fee);
+  const feeExact = tx.Account === address ? dropsToXRPAmount(tx.Fee) : undefined;
+  const fee = feeExact ? tokenAmountToNumber(feeExact) : 0;
 
-  const { sentAmount, sentCurrency, receivedAmount, receivedCurrency } =
-    extractAmounts(tx, address);
+  const {
+    sentAmount,
+    sentCurrency,
+    receivedAmount,
+    receivedCurrency,
+    sentAmountExact,
+    receivedAmountExact,
+  } = extractAmounts(tx, address);
 
   // Extract memo if present
   let notes = XRPL_TX_DESCRIPTIONS[tx.TransactionType] || tx.TransactionType;
@@ -352,12 +381,17 @@ function processTransaction(
     sentCurrency,
     receivedAmount,
     receivedCurrency,
-    feeAmount: tx.Account === address ? fee : 0, // Only count fee if we initiated
+    feeAmount: fee, // Only count fee if we initiated
     feeCurrency: "XRP",
+    sentAmountExact,
+    receivedAmountExact,
+    feeAmountExact: feeExact,
     transactionHash: tx.hash,
     notes,
     tag,
-    fiatPrice: xrpPrice,
+    ...(tx.TransactionType === "Payment" && {
+      counterparty: tx.Account === address ? tx.Destination : tx.Account,
+    }),
   };
 }
 
@@ -371,29 +405,13 @@ export async function normalizeXRPLTransactions(
     return [];
   }
 
-  onProgress?.("Fetching historical XRP prices...");
-
-  // Fetch XRP prices for unique dates (limit to 30 to avoid rate limiting)
-  const uniqueDates = getUniqueDates(transactions);
-  const xrpPrices = new Map<string, number>();
-  const datesToFetch = uniqueDates.slice(0, 30);
-
-  for (const dateStr of datesToFetch) {
-    const [year, month, day] = dateStr.split("-");
-    const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-    const price = await fetchXRPPrice(date);
-    if (price !== null) {
-      xrpPrices.set(dateStr, price);
-    }
-  }
-
   onProgress?.("Processing transactions...");
 
   // Process all transactions
   const normalizedTxs: NormalizedTransaction[] = [];
 
   for (const tx of transactions) {
-    const normalized = processTransaction(tx, address, xrpPrices);
+    const normalized = processTransaction(tx, address);
     normalizedTxs.push(normalized);
   }
 
@@ -0,0 +1,263 @@
+/**
+ * Lot-based cost basis and realized gains over standard rows, so gains can be
+ * sanity-checked before importing. Pure over NormalizedTransaction[]: the
+ * home page runs it on one wallet's rows or a portfolio's merged rows, with
+ * the fiat prices the pricing step already attached.
+ *
+ * Every received leg opens a lot at its USD value; every sent leg and fee
+ * closes lots in the order the method picks. Holdings pool per currency
+ * across all rows given (a portfolio is one pool). Transfers between the
+ * user's own wallets and staking deposits or withdrawals move no lots.
+ */
+
+import type { AwakenTag, NormalizedTransaction } from "./types";
+
+export type CostBasisMethod = "fifo" | "lifo" | "hifo";
+
+export const COST_BASIS_METHODS = ["fifo", "lifo", "hifo"] as const satisfies readonly CostBasisMethod[];
+
+export type HoldingTerm = "short" | "long";
+
+/** One disposal matched against one lot */
+export interface RealizedGain {
+  /** Disposal date */
+  date: Date;
+  /** When the matched lot was acquired; null for an amount no lot covered */
+  acquiredAt: Date | null;
+  currency: string;
+  amount: number;
+  /** USD, this part's share of the disposal's value */
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  /** Whole days between acquisition and disposal; null without a lot */
+  holdingDays: number | null;
+  /** Long when held more than one year */
+  term: HoldingTerm;
+  /** "fee" for a network fee paid in the currency */
+  kind: "disposal" | "fee";
+  transactionId: string;
+  transactionHash: string;
+  /** The disposal or the lot's acquisition had no USD price, so it counts as 0 */
+  missingPrice?: boolean;
+  /** More was disposed of than the rows acquired; the excess has no basis */
+  missingBasis?: boolean;
+}
+
+/** Realized gains of a UTC calendar year */
+export interface CostBasisYear {
+  year: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  shortTermGain: number;
+  longTermGain: number;
+  disposals: number;
+}
+
+/** Lots still open at the end of the rows */
+export interface CostBasisHolding {
+  currency: string;
+  amount: number;
+  costBasis: number;
+}
+
+export interface CostBasisReport {
+  method: CostBasisMethod;
+  /** Oldest disposal first */
+  gains: RealizedGain[];
+  /** Oldest year first */
+  years: CostBasisYear[];
+  holdings: CostBasisHolding[];
+  totalGain: number;
+}
+
+interface Lot {
+  acquiredAt: Date;
+  amount: number;
+  costPerUnit: number;
+  unpriced: boolean;
+  /** Acquisition order, the tie-breaker for every method */
+  sequence: number;
+}
+
+// Own funds moving between the user's wallets or into staking: no lots change
+const NON_EVENT_TAGS: ReadonlySet<AwakenTag> = new Set(["wallet_transfer", "staking_deposit", "unstaking_withdraw"]);
+
+// Smallest amount worth keeping as a lot, below float noise on 18-decimal tokens
+const DUST = 1e-12;
+
+function round(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+function value(amount: number, price: number | undefined): number | undefined {
+  return price ? amount * price : undefined;
+}
+
+// Lots in the order the method consumes them
+function orderLots(lots: Lot[], method: CostBasisMethod): Lot[] {
+  const byAcquisition = (a: Lot, b: Lot) => a.sequence - b.sequence;
+  switch (method) {
+    case "fifo":
+      return [...lots].sort(byAcquisition);
+    case "lifo":
+      return [...lots].sort((a, b) => b.sequence - a.sequence);
+    case "hifo":
+      return [...lots].sort((a, b) => b.costPerUnit - a.costPerUnit || byAcquisition(a, b));
+  }
+}
+
+function isLongTerm(acquiredAt: Date, date: Date): boolean {
+  const anniversary = new Date(acquiredAt);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return date.getTime() > anniversary.getTime();
+}
+
+/**
+ * Match disposals to lots with the given method and total the realized gains
+ */
+export function calculateCostBasis(
+  transactions: NormalizedTransaction[],
+  method: CostBasisMethod = "fifo"
+): CostBasisReport {
+  const lotsByCurrency = new Map<string, Lot[]>();
+  const gains: RealizedGain[] = [];
+  let sequence = 0;
+
+  const acquire = (currency: string, amount: number, cost: number | undefined, acquiredAt: Date) => {
+    const key = currency.toUpperCase();
+    const lots = lotsByCurrency.get(key) ?? [];
+    lots.push({
+      acquiredAt,
+      amount,
+      costPerUnit: (cost ?? 0) / amount,
+      unpriced: cost === undefined,
+      sequence: sequence++,
+    });
+    lotsByCurrency.set(key, lots);
+  };
+
+  // Close lots for a disposal (proceeds undefined when unpriced); a gift
+  // closes them without recording a gain
+  const dispose = (
+    tx: NormalizedTransaction,
+    currency: string,
+    amount: number,
+    proceeds: number | undefined,
+    kind: RealizedGain["kind"],
+    gift = false
+  ) => {
+    const key = currency.toUpperCase();
+    const lots = lotsByCurrency.get(key) ?? [];
+    const proceedsPerUnit = (proceeds ?? 0) / amount;
+    const record = (part: number, lot: Lot | null) => {
+      if (gift) return;
+      const partProceeds = part * proceedsPerUnit;
+      const costBasis = lot ? part * lot.costPerUnit : 0;
+      gains.push({
+        date: tx.timestamp,
+        acquiredAt: lot?.acquiredAt ?? null,
+        currency: key,
+        amount: round(part),
+        proceeds: round(partProceeds),
+        costBasis: round(costBasis),
+        gain: round(partProceeds - costBasis),
+        holdingDays: lot ? Math.floor((tx.timestamp.getTime() - lot.acquiredAt.getTime()) / 86_400_000) : null,
+        term: lot && isLongTerm(lot.acquiredAt, tx.timestamp) ? "long" : "short",
+        kind,
+        transactionId: tx.id,
+        transactionHash: tx.transactionHash,
+        ...((proceeds === undefined || lot?.unpriced) && { missingPrice: true }),
+        ...(!lot && { missingBasis: true }),
+      });
+    };
+
+    let remaining = amount;
+    for (const lot of orderLots(lots, method)) {
+      if (remaining <= DUST) break;
+      const part = Math.min(lot.amount, remaining);
+      record(part, lot);
+      lot.amount -= part;
+      remaining -= part;
+    }
+    lotsByCurrency.set(key, lots.filter((lot) => lot.amount > DUST));
+    if (remaining > DUST) record(remaining, null);
+  };
+
+  const ordered = [...transactions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  for (const tx of ordered) {
+    const sent = tx.sentAmount && tx.sentAmount > 0 && tx.sentCurrency ? tx.sentAmount : 0;
+    const received = tx.receivedAmount && tx.receivedAmount > 0 && tx.receivedCurrency ? tx.receivedAmount : 0;
+    const sentValue = value(sent, tx.sentFiatPrice);
+    const receivedValue = value(received, tx.receivedFiatPrice);
+
+    if (!NON_EVENT_TAGS.has(tx.tag)) {
+      // A swap is valued by whichever leg has a price
+      if (sent && tx.sentCurrency) {
+        const proceeds = tx.tag === "lost" ? 0 : sentValue ?? receivedValue;
+        dispose(tx, tx.sentCurrency, sent, proceeds, "disposal", tx.tag === "gift_sent");
+      }
+      if (received && tx.receivedCurrency) {
+        acquire(tx.receivedCurrency, received, receivedValue ?? sentValue, tx.timestamp);
+      }
+    }
+
+    if (tx.feeAmount > 0 && tx.feeCurrency) {
+      // Fall back to a leg's price when the fee is in the same currency
+      const feePrice =
+        tx.feeFiatPrice ??
+        (tx.feeCurrency === tx.sentCurrency ? tx.sentFiatPrice : undefined) ??
+        (tx.feeCurrency === tx.receivedCurrency ? tx.receivedFiatPrice : undefined);
+      dispose(tx, tx.feeCurrency, tx.feeAmount, value(tx.feeAmount, feePrice), "fee");
+    }
+  }
+
+  const years = new Map<number, CostBasisYear>();
+  for (const gain of gains) {
+    const year = gain.date.getUTCFullYear();
+    const totals = years.get(year) ?? {
+      year,
+      proceeds: 0,
+      costBasis: 0,
+      gain: 0,
+      shortTermGain: 0,
+      longTermGain: 0,
+      disposals: 0,
+    };
+    totals.proceeds += gain.proceeds;
+    totals.costBasis += gain.costBasis;
+    totals.gain += gain.gain;
+    if (gain.term === "long") totals.longTermGain += gain.gain;
+    else totals.shortTermGain += gain.gain;
+    totals.disposals++;
+    years.set(year, totals);
+  }
+
+  const holdings: CostBasisHolding[] = [];
+  for (const [currency, lots] of lotsByCurrency) {
+    if (lots.length === 0) continue;
+    holdings.push({
+      currency,
+      amount: round(lots.reduce((sum, lot) => sum + lot.amount, 0)),
+      costBasis: round(lots.reduce((sum, lot) => sum + lot.amount * lot.costPerUnit, 0)),
+    });
+  }
+
+  return {
+    method,
+    gains,
+    years: Array.from(years.values())
+      .sort((a, b) => a.year - b.year)
+      .map((totals) => ({
+        ...totals,
+        proceeds: round(totals.proceeds),
+        costBasis: round(totals.costBasis),
+        gain: round(totals.gain),
+        shortTermGain: round(totals.shortTermGain),
+        longTermGain: round(totals.longTermGain),
+      })),
+    holdings: holdings.sort((a, b) => a.currency.localeCompare(b.currency)),
+    totalGain: round(gains.reduce((sum, gain) => sum + gain.gain, 0)),
+  };
+}
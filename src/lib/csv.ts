@@ -1,24 +1,38 @@
-import type { NormalizedTransaction, AwakenCSVRow, PerpsTransaction, AwakenPerpsCSVRow } from "./types";
+import type {
+  NormalizedTransaction,
+  AwakenCSVRow,
+  PerpsTransaction,
+  AwakenPerpsCSVRow,
+  TokenAmount,
+} from "./types";
 import { formatDate, formatAmount } from "./utils";
+import { formatExactAmount } from "./amount";
+import { describeLiquidation } from "./perps";
+import { applyOverrides, type TransactionOverrides } from "./overrides";
+import type { RealizedGain } from "./cost-basis";
 
-export function transactionToAwakenRow(tx: NormalizedTransaction): AwakenCSVRow {
-  const fiatMultiplier = tx.fiatPrice || 0;
+// Exact on-chain quantity when the normalizer kept it, else the rounded number
+function formatQuantity(amount: number, exact: TokenAmount | undefined): string {
+  return exact ? formatExactAmount(exact) : formatAmount(amount);
+}
 
+export function transactionToAwakenRow(tx: NormalizedTransaction): AwakenCSVRow {
   return {
     Date: formatDate(tx.timestamp),
-    "Received Quantity": tx.receivedAmount !== null ? formatAmount(tx.receivedAmount) : "",
+    "Received Quantity":
+      tx.receivedAmount !== null ? formatQuantity(tx.receivedAmount, tx.receivedAmountExact) : "",
     "Received Currency": tx.receivedCurrency || "",
     "Received Fiat Amount":
-      tx.receivedAmount !== null && fiatMultiplier
-        ? (tx.receivedAmount * fiatMultiplier).toFixed(2)
+      tx.receivedAmount !== null && tx.receivedFiatPrice
+        ? (tx.receivedAmount * tx.receivedFiatPrice).toFixed(2)
         : "",
-    "Sent Quantity": tx.sentAmount !== null ? formatAmount(tx.sentAmount) : "",
+    "Sent Quantity": tx.sentAmount !== null ? formatQuantity(tx.sentAmount, tx.sentAmountExact) : "",
     "Sent Currency": tx.sentCurrency || "",
     "Sent Fiat Amount":
-      tx.sentAmount !== null && fiatMultiplier
-        ? (tx.sentAmount * fiatMultiplier).toFixed(2)
+      tx.sentAmount !== null && tx.sentFiatPrice
+        ? (tx.sentAmount * tx.sentFiatPrice).toFixed(2)
         : "",
-    "Fee Amount": tx.feeAmount > 0 ? formatAmount(tx.feeAmount) : "",
+    "Fee Amount": tx.feeAmount > 0 ? formatQuantity(tx.feeAmount, tx.feeAmountExact) : "",
     "Fee Currency": tx.feeAmount > 0 ? tx.feeCurrency : "",
     "Transaction Hash": tx.transactionHash,
     Notes: tx.isAmbiguous && tx.ambiguousReasons?.length
@@ -35,7 +49,14 @@ function escapeCSVField(field: string): string {
   return field;
 }
 
-export function generateAwakenCSV(transactions: NormalizedTransaction[]): string {
+/**
+ * Standard Awaken CSV. With overrides, the user's edits, exclusions and
+ * manual rows are applied first.
+ */
+export function generateAwakenCSV(
+  transactions: NormalizedTransaction[],
+  overrides?: TransactionOverrides
+): string {
   const headers = [
     "Date",
     "Received Quantity",
@@ -51,7 +72,7 @@ export function generateAwakenCSV(transactions: NormalizedTransaction[]): string
     "Tag",
   ];
 
-  const rows = transactions.map((tx) => {
+  const rows = (overrides ? applyOverrides(transactions, overrides) : transactions).map((tx) => {
     const row = transactionToAwakenRow(tx);
     return headers.map((h) => escapeCSVField(row[h as keyof AwakenCSVRow] || "")).join(",");
   });
@@ -60,7 +81,10 @@ export function generateAwakenCSV(transactions: NormalizedTransaction[]): string
 }
 
 export function downloadCSV(csv: string, filename: string): void {
-  const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+  downloadBlob(new Blob([csv], { type: "text/csv;charset=utf-8;" }), filename);
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
   const link = document.createElement("a");
   link.setAttribute("href", url);
@@ -83,6 +107,12 @@ export function perpsTransactionToAwakenRow(tx: PerpsTransaction): AwakenPerpsCS
     return formatAmount(pnl);  // Already has negative sign
   };
 
+  // Liquidation details, unless the review reason already spells them out
+  const liquidation = tx.liquidation && describeLiquidation(tx.liquidation, tx.paymentToken);
+  const notes = liquidation && !tx.ambiguousReasons?.includes(liquidation)
+    ? `${tx.notes}${tx.notes ? " | " : ""}${liquidation}`
+    : tx.notes;
+
   return {
     Date: formatDate(tx.date),
     Asset: tx.asset,
@@ -91,14 +121,17 @@ export function perpsTransactionToAwakenRow(tx: PerpsTransaction): AwakenPerpsCS
     "P&L": formatPnL(tx.pnl),
     "Payment Token": tx.paymentToken,
     Notes: tx.isAmbiguous && tx.ambiguousReasons?.length
-      ? `${tx.notes}${tx.notes ? " " : ""}[REVIEW: ${tx.ambiguousReasons.join("; ")}]`
-      : tx.notes,
+      ? `${notes}${notes ? " " : ""}[REVIEW: ${tx.ambiguousReasons.join("; ")}]`
+      : notes,
     "Transaction Hash": tx.transactionHash,
     Tag: tx.tag,
   };
 }
 
-export function generateAwakenPerpsCSV(transactions: PerpsTransaction[]): string {
+export function generateAwakenPerpsCSV(
+  transactions: PerpsTransaction[],
+  overrides?: TransactionOverrides
+): string {
   const headers = [
     "Date",
     "Asset",
@@ -111,10 +144,52 @@ export function generateAwakenPerpsCSV(transactions: PerpsTransaction[]): string
     "Tag",
   ];
 
-  const rows = transactions.map((tx) => {
+  const rows = (overrides ? applyOverrides(transactions, overrides) : transactions).map((tx) => {
     const row = perpsTransactionToAwakenRow(tx);
     return headers.map((h) => escapeCSVField(row[h as keyof AwakenPerpsCSVRow] || "")).join(",");
   });
 
   return [headers.join(","), ...rows].join("\n");
 }
+
+// Realized gains from the cost basis calculator, one row per disposal and lot
+
+export function generateGainsCSV(gains: RealizedGain[]): string {
+  const headers = [
+    "Date Sold",
+    "Date Acquired",
+    "Currency",
+    "Amount",
+    "Proceeds (USD)",
+    "Cost Basis (USD)",
+    "Gain (USD)",
+    "Holding Days",
+    "Term",
+    "Type",
+    "Transaction Hash",
+    "Notes",
+  ];
+
+  const rows = gains.map((gain) => {
+    const notes = [
+      gain.missingPrice && "Missing fiat price",
+      gain.missingBasis && "No acquisition found, zero basis",
+    ].filter(Boolean);
+    return [
+      formatDate(gain.date),
+      gain.acquiredAt ? formatDate(gain.acquiredAt) : "",
+      gain.currency,
+      formatAmount(gain.amount),
+      gain.proceeds.toFixed(2),
+      gain.costBasis.toFixed(2),
+      gain.gain.toFixed(2),
+      gain.holdingDays !== null ? String(gain.holdingDays) : "",
+      gain.term,
+      gain.kind,
+      gain.transactionHash,
+      notes.join("; "),
+    ].map(escapeCSVField).join(",");
+  });
+
+  return [headers.join(","), ...rows].join("\n");
+}
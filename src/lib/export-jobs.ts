@@ -0,0 +1,165 @@
+/**
+ * Browser side of the export jobs API: start an export job (or resume the
+ * one already running for the same request), poll it, then load the result
+ */
+
+import type { ExportJob } from "./jobs/types";
+import type { NormalizedTransaction, PerpsTransaction, TransactionSummary } from "./types";
+import { fetchWithRetry, sleep } from "./fetch-with-retry";
+
+const ACTIVE_JOBS_KEY = "awaken_active_jobs";
+const DEFAULT_POLL_INTERVAL_MS = 1500;
+
+export type JobView = Pick<ExportJob, "id" | "chain" | "status" | "phase" | "transactions" | "inRange" | "error">;
+
+export interface ExportJobResult {
+  chain: string;
+  totalTransactions: number;
+  summary: TransactionSummary;
+  transactions: (NormalizedTransaction | PerpsTransaction)[];
+  /** Perps chains: deposits, withdrawals and transfers for the companion CSV */
+  transfers?: NormalizedTransaction[];
+}
+
+type SerializedTransaction = Record<string, unknown> & { date?: string; timestamp?: string };
+
+export interface RunExportJobOptions {
+  /** Identifies the request; a reload resumes the job stored under it */
+  resumeKey: string;
+  onProgress?: (job: JobView) => void;
+  signal?: AbortSignal;
+  pollIntervalMs?: number;
+}
+
+/**
+ * Job ids of unfinished exports, kept for the browser tab's lifetime
+ */
+function getActiveJobs(): Record<string, string> {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(sessionStorage.getItem(ACTIVE_JOBS_KEY) || "{}") as Record<string, string>;
+  } catch {
+    return {};
+  }
+}
+
+function setActiveJob(resumeKey: string, jobId: string | null): void {
+  if (typeof window === "undefined") return;
+  const jobs = getActiveJobs();
+  if (jobId) {
+    jobs[resumeKey] = jobId;
+  } else {
+    delete jobs[resumeKey];
+  }
+  try {
+    sessionStorage.setItem(ACTIVE_JOBS_KEY, JSON.stringify(jobs));
+  } catch {
+    // sessionStorage unavailable - jobs just won't resume
+  }
+}
+
+async function readError(response: Response): Promise<Error> {
+  try {
+    const data = await response.json();
+    return new Error(data.error || data.details || "Failed to fetch transactions");
+  } catch {
+    return new Error(`Request failed with status ${response.status}`);
+  }
+}
+
+async function getJob(jobId: string, signal?: AbortSignal): Promise<JobView | null> {
+  const response = await fetchWithRetry(`/api/v1/jobs/${jobId}`, { signal });
+  if (response.status === 404) return null;
+  if (!response.ok) throw await readError(response);
+  return response.json();
+}
+
+async function startJob(
+  chain: string,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<JobView> {
+  const response = await fetchWithRetry("/api/v1/jobs", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...body, chain, format: "json" }),
+    signal,
+  });
+  if (!response.ok) throw await readError(response);
+  return response.json();
+}
+
+/**
+ * Run an export through the jobs API and return the same JSON the chain's
+ * /api/{chain}/transactions endpoint would
+ */
+export async function runExportJob(
+  chain: string,
+  body: Record<string, unknown>,
+  options: RunExportJobOptions
+): Promise<ExportJobResult> {
+  const { resumeKey, onProgress, signal, pollIntervalMs = DEFAULT_POLL_INTERVAL_MS } = options;
+
+  const activeId = getActiveJobs()[resumeKey];
+  let job = activeId ? await getJob(activeId, signal) : null;
+  if (!job) {
+    job = await startJob(chain, body, signal);
+    setActiveJob(resumeKey, job.id);
+  }
+
+  while (job.status === "queued" || job.status === "running") {
+    onProgress?.(job);
+    await sleep(pollIntervalMs, signal);
+    const next: JobView | null = await getJob(job.id, signal);
+    if (!next) {
+      setActiveJob(resumeKey, null);
+      throw new Error("Export job expired; please try again");
+    }
+    job = next;
+  }
+
+  onProgress?.(job);
+  setActiveJob(resumeKey, null);
+
+  if (job.status === "failed") {
+    throw new Error(job.error?.error || job.error?.details || "Failed to fetch transactions");
+  }
+
+  const response = await fetchWithRetry(`/api/v1/jobs/${job.id}/result?format=json`, { signal });
+  if (!response.ok) throw await readError(response);
+  const result = await response.json();
+
+  // Dates arrive as ISO strings; only the row's own date key is set, since
+  // rows are told apart by "timestamp" in tx / "date" in tx
+  const reviveDates = (tx: SerializedTransaction) => ({
+    ...tx,
+    ...(tx.date !== undefined && { date: new Date(tx.date) }),
+    ...(tx.timestamp !== undefined && { timestamp: new Date(tx.timestamp) }),
+  });
+  const transactions = result.transactions.map(reviveDates) as (NormalizedTransaction | PerpsTransaction)[];
+  const transfers = result.transfers?.map(reviveDates) as NormalizedTransaction[] | undefined;
+
+  return { ...result, transactions, ...(transfers && { transfers }) };
+}
+
+/**
+ * Progress line for a job, e.g. "Pricing 120 transactions..."
+ */
+export function describeJobProgress(job: JobView, chainName: string): string {
+  switch (job.phase) {
+    case "queued":
+      return "Waiting for an export slot...";
+    case "fetching":
+      return `Fetching transactions from ${chainName}...`;
+    case "normalizing":
+      return "Processing transactions...";
+    case "pricing":
+      return `Pricing ${job.inRange ?? 0} transactions...`;
+    case "summarizing":
+      return `Finalizing ${job.inRange ?? 0} transactions...`;
+    case "complete":
+      return `Found ${job.transactions ?? 0} transactions`;
+    case "failed":
+      return job.error?.error || "Export failed";
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Per-leg USD pricing for normalized transactions
+ */
+
+import type { NormalizedTransaction } from "./types";
+
+/** Daily USD prices per currency: currency -> (YYYY-MM-DD -> price) */
+export type CurrencyPrices = Map<string, Map<string, number>>;
+
+function dateKeyOf(timestamp: Date): string {
+  return timestamp.toISOString().split("T")[0];
+}
+
+/**
+ * USD price of a currency on the transaction's UTC date
+ */
+export function getFiatPrice(
+  prices: CurrencyPrices,
+  currency: string | null,
+  timestamp: Date
+): number | undefined {
+  if (!currency) return undefined;
+  return prices.get(currency)?.get(dateKeyOf(timestamp));
+}
+
+/**
+ * Currencies on a transaction's legs that carry an amount
+ */
+export function getLegCurrencies(tx: NormalizedTransaction): string[] {
+  const currencies: string[] = [];
+  if (tx.sentCurrency && tx.sentAmount) currencies.push(tx.sentCurrency);
+  if (tx.receivedCurrency && tx.receivedAmount) currencies.push(tx.receivedCurrency);
+  if (tx.feeCurrency && tx.feeAmount > 0) currencies.push(tx.feeCurrency);
+  return currencies;
+}
+
+/**
+ * Value the unpriced side of a trade from the priced side.
+ * Both legs of a swap are worth the same at execution, so the market
+ * price of one leg gives the other a real (implied) price.
+ */
+function impliedTradePrices<T extends NormalizedTransaction>(tx: T): T {
+  const isTrade = tx.tag === "trade" || tx.type === "swap";
+  if (!isTrade || !tx.sentAmount || !tx.receivedAmount) return tx;
+
+  if (tx.sentFiatPrice && !tx.receivedFiatPrice) {
+    return { ...tx, receivedFiatPrice: (tx.sentAmount * tx.sentFiatPrice) / tx.receivedAmount };
+  }
+  if (tx.receivedFiatPrice && !tx.sentFiatPrice) {
+    return { ...tx, sentFiatPrice: (tx.receivedAmount * tx.receivedFiatPrice) / tx.sentAmount };
+  }
+  return tx;
+}
+
+/**
+ * Set sent, received and fee fiat prices from each leg's own currency.
+ * Prices a normalizer already set are kept.
+ */
+export function applyFiatPrices<T extends NormalizedTransaction>(
+  transactions: T[],
+  prices: CurrencyPrices
+): T[] {
+  return transactions.map((tx) =>
+    impliedTradePrices({
+      ...tx,
+      sentFiatPrice: tx.sentFiatPrice ?? getFiatPrice(prices, tx.sentCurrency, tx.timestamp),
+      receivedFiatPrice: tx.receivedFiatPrice ?? getFiatPrice(prices, tx.receivedCurrency, tx.timestamp),
+      feeFiatPrice: tx.feeFiatPrice ?? getFiatPrice(prices, tx.feeCurrency, tx.timestamp),
+    })
+  );
+}
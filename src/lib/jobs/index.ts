@@ -0,0 +1,36 @@
+/**
+ * Asynchronous export jobs: POST /api/v1/jobs queues an export, the client
+ * polls its phase and counts, then downloads the result as JSON or CSV.
+ *
+ * Jobs and results are stored on disk (JOB_STORE_DIR, default .cache/jobs)
+ * so they survive the request that created them and server restarts.
+ */
+
+import { getChainAdapter } from "@/lib/chains/registry";
+import { createJobQueue, type JobQueue } from "./queue";
+import { createFileJobStore } from "./store";
+import type { ExportJob } from "./types";
+
+export type { ExportJob, JobPhase, JobStatus, JobStore, StoredJobRequest } from "./types";
+export { createJobQueue, type JobQueue, type JobQueueOptions } from "./queue";
+export { createMemoryJobStore, createFileJobStore } from "./store";
+
+let defaultQueue: JobQueue | null = null;
+
+export function getJobQueue(): JobQueue {
+  if (!defaultQueue) {
+    defaultQueue = createJobQueue({ store: createFileJobStore(), getAdapter: getChainAdapter });
+  }
+  return defaultQueue;
+}
+
+/**
+ * Job as returned by the jobs API, with where to poll and fetch the result
+ */
+export function describeJob(job: ExportJob) {
+  return {
+    ...job,
+    statusUrl: `/api/v1/jobs/${job.id}`,
+    resultUrl: `/api/v1/jobs/${job.id}/result`,
+  };
+}
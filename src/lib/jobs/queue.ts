@@ -0,0 +1,232 @@
+/**
+ * In-process export queue. Jobs run in the background of the server process,
+ * independent of the request that created them; clients poll for progress.
+ */
+
+import { ChainRequestError, type ChainAdapter } from "@/lib/chains/adapter";
+import { runChainExport, type ChainExport } from "@/lib/chains/pipeline";
+import type { ChainErrorBody, ChainRequest } from "@/lib/chains/route-handler";
+import type { ExportJob, JobStore, StoredJobRequest } from "./types";
+
+const DEFAULT_CONCURRENCY = 2;
+// Bittensor alone can take several minutes at 5 req/min
+const DEFAULT_TIMEOUT_MS = 15 * 60 * 1000;
+// Finished jobs and their results are kept this long
+const DEFAULT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export interface JobQueueOptions {
+  store: JobStore;
+  /** Looks adapters up when resuming stored jobs */
+  getAdapter: (chainId: string) => ChainAdapter | undefined;
+  concurrency?: number;
+  timeoutMs?: number;
+  retentionMs?: number;
+}
+
+export interface JobQueue {
+  submit(adapter: ChainAdapter, request: ChainRequest): Promise<ExportJob>;
+  get(id: string): Promise<ExportJob | undefined>;
+  getResult(id: string): Promise<ChainExport | undefined>;
+  /** Resolves once every queued and running job has finished */
+  idle(): Promise<void>;
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function newJobId(): string {
+  return globalThis.crypto.randomUUID();
+}
+
+function toErrorBody(error: unknown): ChainErrorBody {
+  if (error instanceof ChainRequestError) {
+    return error.details
+      ? { error: error.message, code: error.code, details: error.details }
+      : { error: error.message, code: error.code };
+  }
+  return {
+    error: "Failed to fetch transactions",
+    code: "FETCH_FAILED",
+    details: error instanceof Error ? error.message : "Unknown error",
+  };
+}
+
+function toStoredRequest(adapter: ChainAdapter, request: ChainRequest): StoredJobRequest {
+  const { address, format, startDate, endDate, options, rules } = request;
+  return {
+    address: adapter.input.type === "apiKey" ? "" : address,
+    format,
+    startDate,
+    endDate,
+    options,
+    ...(rules && { rules }),
+  };
+}
+
+export function createJobQueue(options: JobQueueOptions): JobQueue {
+  const {
+    store,
+    getAdapter,
+    concurrency = DEFAULT_CONCURRENCY,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retentionMs = DEFAULT_RETENTION_MS,
+  } = options;
+
+  const waiting: string[] = [];
+  // Full requests, API keys included; never written to the store
+  const requests = new Map<string, ChainRequest>();
+  let running = 0;
+  let idleWaiters: (() => void)[] = [];
+  let recovered: Promise<void> | null = null;
+
+  async function update(job: ExportJob, changes: Partial<ExportJob>): Promise<ExportJob> {
+    Object.assign(job, changes, { updatedAt: now() });
+    await store.save(job);
+    return job;
+  }
+
+  async function run(id: string): Promise<void> {
+    const job = await store.get(id);
+    const request = requests.get(id);
+    const adapter = job && getAdapter(job.chain);
+    if (!job || !request || !adapter) return;
+
+    await update(job, { status: "running", phase: "fetching", startedAt: now() });
+
+    try {
+      // Progress is saved in the background; the final update below waits for it
+      let progress = Promise.resolve(job);
+      const result = await runChainExport(
+        adapter,
+        { ...request, signal: AbortSignal.timeout(timeoutMs) },
+        ({ phase, transactions, inRange }) => {
+          progress = progress.then(() => update(job, { phase, transactions, inRange }));
+        }
+      );
+      await progress;
+      await store.saveResult(id, result);
+      await update(job, {
+        status: "succeeded",
+        phase: "complete",
+        transactions: result.transactions.length,
+        finishedAt: now(),
+      });
+    } catch (error) {
+      if (!(error instanceof ChainRequestError)) {
+        console.error(`Export job ${id} (${job.chain}) failed:`, error);
+      }
+      await update(job, { status: "failed", phase: "failed", error: toErrorBody(error), finishedAt: now() });
+    } finally {
+      requests.delete(id);
+      await prune().catch((error) => console.warn("Failed to prune expired export jobs:", error));
+    }
+  }
+
+  function pump(): void {
+    while (running < concurrency && waiting.length > 0) {
+      const id = waiting.shift()!;
+      running++;
+      run(id)
+        .catch((error) => console.error(`Export job ${id} crashed:`, error))
+        .finally(() => {
+          running--;
+          pump();
+        });
+    }
+
+    if (running === 0 && waiting.length === 0) {
+      const waiters = idleWaiters;
+      idleWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    }
+  }
+
+  function enqueue(id: string, request: ChainRequest): void {
+    requests.set(id, request);
+    waiting.push(id);
+    pump();
+  }
+
+  /**
+   * Drop expired jobs and their results. Runs on first use and whenever a job
+   * finishes, so a long-running server doesn't keep every job it ever ran.
+   */
+  async function prune(): Promise<void> {
+    const cutoff = Date.now() - retentionMs;
+    for (const job of await store.list()) {
+      // Jobs this process is running are current whatever their age
+      if (requests.has(job.id)) continue;
+      if (new Date(job.updatedAt).getTime() < cutoff) await store.remove(job.id);
+    }
+  }
+
+  /**
+   * On first use: drop expired jobs and requeue jobs a previous process left
+   * unfinished. Jobs whose API key was never stored can't be resumed.
+   */
+  function recover(): Promise<void> {
+    if (!recovered) {
+      recovered = (async () => {
+        await prune();
+        for (const job of await store.list()) {
+          if (job.status !== "queued" && job.status !== "running") continue;
+          if (requests.has(job.id)) continue;
+
+          if (job.request.address && getAdapter(job.chain)) {
+            await update(job, { status: "queued", phase: "queued" });
+            enqueue(job.id, { ...job.request });
+          } else {
+            await update(job, {
+              status: "failed",
+              phase: "failed",
+              error: {
+                error: "Export interrupted",
+                code: "JOB_INTERRUPTED",
+                details: "The server restarted before this export finished; please start it again",
+              },
+              finishedAt: now(),
+            });
+          }
+        }
+      })();
+    }
+    return recovered;
+  }
+
+  return {
+    async submit(adapter, request) {
+      await recover();
+
+      const timestamp = now();
+      const job: ExportJob = {
+        id: newJobId(),
+        chain: adapter.id,
+        status: "queued",
+        phase: "queued",
+        request: toStoredRequest(adapter, request),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      await store.save(job);
+      enqueue(job.id, request);
+      // Snapshot: the stored job keeps changing as it runs
+      return { ...job };
+    },
+
+    async get(id) {
+      await recover();
+      return store.get(id);
+    },
+
+    async getResult(id) {
+      await recover();
+      return store.getResult(id);
+    },
+
+    idle() {
+      if (running === 0 && waiting.length === 0) return Promise.resolve();
+      return new Promise((resolve) => idleWaiters.push(resolve));
+    },
+  };
+}
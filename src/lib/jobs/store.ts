@@ -0,0 +1,158 @@
+/**
+ * Job stores: job records plus the finished export for each job
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { NormalizedTransaction, PerpsTransaction } from "@/lib/types";
+import type { ChainExport } from "@/lib/chains/pipeline";
+import type { ExportJob, JobStore } from "./types";
+
+const DEFAULT_JOB_DIR = path.join(process.cwd(), ".cache", "jobs");
+
+/**
+ * Dates come back from JSON as strings
+ */
+function reviveTransactions(transactions: NormalizedTransaction[]): NormalizedTransaction[] {
+  return transactions.map((tx) => ({ ...tx, timestamp: new Date(tx.timestamp) }));
+}
+
+function reviveExport(result: ChainExport): ChainExport {
+  if (result.kind === "perps") {
+    return {
+      ...result,
+      transactions: result.transactions.map((tx): PerpsTransaction => ({ ...tx, date: new Date(tx.date) })),
+      ...(result.transfers && { transfers: reviveTransactions(result.transfers) }),
+    };
+  }
+  return { ...result, transactions: reviveTransactions(result.transactions) };
+}
+
+/**
+ * In-memory store, shared for the lifetime of the process
+ */
+export function createMemoryJobStore(): JobStore {
+  const jobs = new Map<string, ExportJob>();
+  const results = new Map<string, ChainExport>();
+
+  return {
+    async get(id) {
+      return jobs.get(id);
+    },
+    async list() {
+      return Array.from(jobs.values());
+    },
+    async save(job) {
+      jobs.set(job.id, job);
+    },
+    async remove(id) {
+      jobs.delete(id);
+      results.delete(id);
+    },
+    async getResult(id) {
+      return results.get(id);
+    },
+    async saveResult(id, result) {
+      results.set(id, result);
+    },
+  };
+}
+
+/**
+ * File-backed store: {id}.json per job and {id}.result.json per finished
+ * export, so jobs and results outlive the process. Reads go through memory
+ * first; write failures (e.g. read-only serverless filesystems) fall back
+ * to memory-only storage.
+ */
+export function createFileJobStore(dir: string = process.env.JOB_STORE_DIR || DEFAULT_JOB_DIR): JobStore {
+  const memory = createMemoryJobStore();
+  const writes = new Map<string, Promise<void>>();
+
+  function fileFor(id: string, suffix = ""): string {
+    return path.join(dir, `${id.replace(/[^a-zA-Z0-9_-]/g, "_")}${suffix}.json`);
+  }
+
+  async function readJson<T>(file: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8")) as T;
+    } catch {
+      // Missing or corrupted file
+      return undefined;
+    }
+  }
+
+  // Serialize writes per file so progress updates land in order
+  function write(file: string, data: unknown): Promise<void> {
+    const previous = writes.get(file) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      try {
+        await fs.mkdir(dir, { recursive: true });
+        await fs.writeFile(file, JSON.stringify(data));
+      } catch (error) {
+        console.warn(`Failed to persist ${path.basename(file)}:`, error);
+      }
+    });
+    writes.set(file, next);
+    // Drop the chain once it drains, so finished jobs leave no entry behind
+    void next.then(() => {
+      if (writes.get(file) === next) writes.delete(file);
+    });
+    return next;
+  }
+
+  async function get(id: string): Promise<ExportJob | undefined> {
+    const cached = await memory.get(id);
+    if (cached) return cached;
+    const job = await readJson<ExportJob>(fileFor(id));
+    if (job) await memory.save(job);
+    return job;
+  }
+
+  return {
+    get,
+    async list() {
+      let files: string[] = [];
+      try {
+        files = await fs.readdir(dir);
+      } catch {
+        // No jobs written yet
+      }
+      const ids = files
+        .filter((file) => file.endsWith(".json") && !file.endsWith(".result.json"))
+        .map((file) => file.slice(0, -".json".length));
+
+      const jobs = await Promise.all(ids.map(get));
+      const stored = jobs.filter((job): job is ExportJob => job !== undefined);
+      const storedIds = new Set(stored.map((job) => job.id));
+      const unsaved = (await memory.list()).filter((job) => !storedIds.has(job.id));
+      return [...stored, ...unsaved];
+    },
+    async save(job) {
+      await memory.save(job);
+      await write(fileFor(job.id), job);
+    },
+    async remove(id) {
+      await memory.remove(id);
+      // Let queued writes land first, or they would recreate the files
+      await Promise.all(
+        [fileFor(id), fileFor(id, ".result")].map(async (file) => {
+          await writes.get(file);
+          await fs.rm(file, { force: true }).catch(() => {});
+        })
+      );
+    },
+    async getResult(id) {
+      const cached = await memory.getResult(id);
+      if (cached) return cached;
+      const stored = await readJson<ChainExport>(fileFor(id, ".result"));
+      if (!stored) return undefined;
+      const result = reviveExport(stored);
+      await memory.saveResult(id, result);
+      return result;
+    },
+    async saveResult(id, result) {
+      await memory.saveResult(id, result);
+      await write(fileFor(id, ".result"), result);
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import type { ChainErrorBody, ChainRequest } from "@/lib/chains/route-handler";
+import type { ChainExport, ExportPhase } from "@/lib/chains/pipeline";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export type JobPhase = "queued" | ExportPhase | "complete" | "failed";
+
+/**
+ * Request as stored with the job. API keys are kept in memory only, so a
+ * stored apiKey-chain request has an empty address.
+ */
+export type StoredJobRequest = Omit<ChainRequest, "signal">;
+
+export interface ExportJob {
+  id: string;
+  chain: string;
+  status: JobStatus;
+  phase: JobPhase;
+  request: StoredJobRequest;
+  /** Transactions after normalizing / inside the date range, once known */
+  transactions?: number;
+  inRange?: number;
+  error?: ChainErrorBody;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface JobStore {
+  get(id: string): Promise<ExportJob | undefined>;
+  list(): Promise<ExportJob[]>;
+  save(job: ExportJob): Promise<void>;
+  remove(id: string): Promise<void>;
+  getResult(id: string): Promise<ChainExport | undefined>;
+  saveResult(id: string, result: ChainExport): Promise<void>;
+}
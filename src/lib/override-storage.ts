@@ -0,0 +1,70 @@
+/**
+ * Keep each wallet's transaction overrides in localStorage, so corrections
+ * survive a refresh or a re-fetch of the same (chain, address)
+ */
+
+import { emptyOverrides, hasOverrides, type TransactionOverrides } from "./overrides";
+import type { NormalizedTransaction, PerpsTransaction } from "./types";
+
+const STORAGE_KEY = "awaken_overrides";
+
+type OverrideStore = Record<string, TransactionOverrides>;
+
+function walletKey(chainId: string, address: string): string {
+  return `${chainId.toLowerCase().trim()}:${address.trim()}`;
+}
+
+function getStore(): OverrideStore {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    const parsed: unknown = JSON.parse(raw);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? (parsed as OverrideStore) : {};
+  } catch {
+    // Corrupted localStorage - return empty
+    return {};
+  }
+}
+
+// Manual rows come back from JSON with ISO date strings
+function reviveManualRow(row: NormalizedTransaction | PerpsTransaction): NormalizedTransaction | PerpsTransaction {
+  if ("timestamp" in row) return { ...row, timestamp: new Date(row.timestamp) };
+  return { ...row, date: new Date(row.date) };
+}
+
+/**
+ * Overrides saved for a wallet, or empty ones
+ */
+export function getSavedOverrides(chainId: string, address: string): TransactionOverrides {
+  if (typeof window === "undefined") return emptyOverrides();
+
+  const saved = getStore()[walletKey(chainId, address)];
+  if (!saved) return emptyOverrides();
+  return {
+    edits: typeof saved.edits === "object" && saved.edits !== null ? saved.edits : {},
+    excluded: Array.isArray(saved.excluded) ? saved.excluded : [],
+    manual: Array.isArray(saved.manual) ? saved.manual.map(reviveManualRow) : [],
+  };
+}
+
+export function saveOverrides(chainId: string, address: string, overrides: TransactionOverrides): void {
+  if (typeof window === "undefined") return;
+
+  const store = getStore();
+  const key = walletKey(chainId, address);
+  if (hasOverrides(overrides)) {
+    store[key] = overrides;
+  } else {
+    delete store[key];
+  }
+
+  try {
+    if (Object.keys(store).length === 0) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    }
+  } catch {
+    // localStorage full or unavailable - ignore
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * The user's corrections to an export: edited fields, excluded rows and rows
+ * added by hand. Chain rows stay as fetched; overrides are kept per wallet,
+ * keyed by transaction id, and laid over the rows for the table and the CSV.
+ * Shared by the home page, the results table and the CSV writers.
+ */
+
+import type { NormalizedTransaction, PerpsTag, PerpsTransaction } from "./types";
+
+type Transaction = NormalizedTransaction | PerpsTransaction;
+
+export type StandardEdit = Partial<
+  Pick<
+    NormalizedTransaction,
+    "tag" | "notes" | "sentAmount" | "receivedAmount" | "feeAmount" | "sentFiatPrice" | "receivedFiatPrice"
+  >
+>;
+
+export type PerpsEdit = Partial<Pick<PerpsTransaction, "tag" | "notes" | "amount" | "fee" | "pnl">>;
+
+export type TransactionEdit = StandardEdit | PerpsEdit;
+
+export interface TransactionOverrides {
+  /** Changed fields by transaction id; only fields that differ from the chain row */
+  edits: Record<string, TransactionEdit>;
+  /** Ids of rows left out of the CSV */
+  excluded: string[];
+  /** Rows the user added; their ids start with "manual-" */
+  manual: Transaction[];
+}
+
+export type OverrideKind = "edited" | "manual" | "excluded";
+
+/** How a displayed row differs from the chain data */
+export interface OverrideMark {
+  kind: OverrideKind;
+  /** Edited fields, e.g. ["tag", "sentFiatPrice"] */
+  fields: string[];
+}
+
+export type OverriddenTransaction<T extends Transaction = Transaction> = T & { override?: OverrideMark };
+
+export const PERPS_TAGS = [
+  "open_position",
+  "close_position",
+  "funding_payment",
+] as const satisfies readonly PerpsTag[];
+
+const MANUAL_PREFIX = "manual-";
+
+// Amount fields whose exact on-chain value no longer holds once edited
+const EXACT_FIELDS: Partial<Record<string, keyof NormalizedTransaction>> = {
+  sentAmount: "sentAmountExact",
+  receivedAmount: "receivedAmountExact",
+  feeAmount: "feeAmountExact",
+};
+
+export function emptyOverrides(): TransactionOverrides {
+  return { edits: {}, excluded: [], manual: [] };
+}
+
+export function hasOverrides(overrides: TransactionOverrides): boolean {
+  return Object.keys(overrides.edits).length > 0 || overrides.excluded.length > 0 || overrides.manual.length > 0;
+}
+
+export function isManualRow(id: string): boolean {
+  return id.startsWith(MANUAL_PREFIX);
+}
+
+export function newManualId(): string {
+  return `${MANUAL_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Record changes to a row. Chain rows keep only the fields that differ from
+ * the fetched row, so editing a value back drops the edit; manual rows are
+ * changed in place.
+ */
+export function editTransaction(
+  overrides: TransactionOverrides,
+  transactions: Transaction[],
+  id: string,
+  changes: TransactionEdit
+): TransactionOverrides {
+  if (isManualRow(id)) {
+    return {
+      ...overrides,
+      manual: overrides.manual.map((row) => (row.id === id ? ({ ...row, ...changes } as Transaction) : row)),
+    };
+  }
+
+  const original = transactions.find((tx) => tx.id === id);
+  if (!original) return overrides;
+
+  const merged: Record<string, unknown> = { ...overrides.edits[id], ...changes };
+  for (const [field, value] of Object.entries(merged)) {
+    if (value === undefined || value === (original as unknown as Record<string, unknown>)[field]) {
+      delete merged[field];
+    }
+  }
+
+  const edits = { ...overrides.edits };
+  if (Object.keys(merged).length) {
+    edits[id] = merged as TransactionEdit;
+  } else {
+    delete edits[id];
+  }
+  return { ...overrides, edits };
+}
+
+export function setExcluded(overrides: TransactionOverrides, id: string, excluded: boolean): TransactionOverrides {
+  const rest = overrides.excluded.filter((excludedId) => excludedId !== id);
+  return { ...overrides, excluded: excluded ? [...rest, id] : rest };
+}
+
+export function addManualRow(overrides: TransactionOverrides, row: Transaction): TransactionOverrides {
+  return { ...overrides, manual: [...overrides.manual, row] };
+}
+
+/**
+ * Back to the chain data: drops a row's edits and exclusion, or removes a
+ * manual row
+ */
+export function revertTransaction(overrides: TransactionOverrides, id: string): TransactionOverrides {
+  if (isManualRow(id)) {
+    return { ...overrides, manual: overrides.manual.filter((row) => row.id !== id) };
+  }
+  const edits = { ...overrides.edits };
+  delete edits[id];
+  return { ...overrides, edits, excluded: overrides.excluded.filter((excludedId) => excludedId !== id) };
+}
+
+function applyEdit<T extends Transaction>(tx: T, edit: TransactionEdit): OverriddenTransaction<T> {
+  const fields = Object.keys(edit);
+  const result: Record<string, unknown> = { ...tx, ...edit };
+  for (const field of fields) {
+    const exact = EXACT_FIELDS[field];
+    if (exact) delete result[exact];
+  }
+  // The user has looked at the row, so its review flags no longer apply
+  delete result.isAmbiguous;
+  delete result.ambiguousReasons;
+  result.override = { kind: "edited", fields };
+  return result as OverriddenTransaction<T>;
+}
+
+/**
+ * Lay the overrides over fetched rows: edits applied, manual rows added at
+ * the end and excluded rows dropped. The table passes `keepExcluded` to show
+ * excluded rows marked as such.
+ */
+export function applyOverrides<T extends Transaction>(
+  transactions: T[],
+  overrides: TransactionOverrides,
+  options: { keepExcluded?: boolean } = {}
+): OverriddenTransaction<T>[] {
+  if (!hasOverrides(overrides)) return transactions;
+
+  const excluded = new Set(overrides.excluded);
+  const result: OverriddenTransaction<T>[] = [];
+
+  for (const tx of transactions) {
+    const edit = overrides.edits[tx.id];
+    const row: OverriddenTransaction<T> = edit ? applyEdit(tx, edit) : tx;
+    if (!excluded.has(tx.id)) {
+      result.push(row);
+    } else if (options.keepExcluded) {
+      result.push({ ...row, override: { kind: "excluded", fields: row.override?.fields ?? [] } });
+    }
+  }
+
+  // One wallet's overrides are all standard or all perps rows, like its export
+  for (const row of overrides.manual) {
+    result.push({ ...(row as T), override: { kind: "manual", fields: [] } });
+  }
+  return result;
+}
@@ -0,0 +1,195 @@
+/**
+ * P&L and fee breakdowns of an exported perps history, so totals can be
+ * sanity-checked before importing. Pure over PerpsTransaction[]: the home page
+ * runs it on the rows it already has, and JSON exports carry it in `summary`.
+ * Totals are in USD, over rows paid in a USD stablecoin; rows paid in other
+ * tokens (GMX funding claimed in ETH, say) are totalled apart.
+ */
+
+import type { PerpsTransaction } from "@/lib/types";
+
+export interface PerpsMarketTotals {
+  market: string;
+  trades: number;
+  /** Close rows' P&L, already net of their fees */
+  realizedPnL: number;
+  fundingPaid: number;
+  fundingReceived: number;
+  fees: number;
+}
+
+export interface PerpsMonthTotals {
+  /** UTC month, YYYY-MM */
+  month: string;
+  realizedPnL: number;
+  funding: number;
+  fees: number;
+  netPnL: number;
+}
+
+export interface PerpsPnLPoint {
+  date: string;
+  /** Realized P&L plus funding up to and including this row */
+  cumulativePnL: number;
+}
+
+/** Rows paid in one non-USD token, left out of the USD totals */
+export interface PerpsTokenTotals {
+  paymentToken: string;
+  rows: number;
+  /** In the token's own units */
+  pnl: number;
+  fees: number;
+}
+
+export interface PerpsAnalytics {
+  realizedPnL: number;
+  /** Funding paid as a positive number */
+  fundingPaid: number;
+  fundingReceived: number;
+  netFunding: number;
+  /** Realized P&L plus net funding, the sum of the CSV's P&L column */
+  netPnL: number;
+  totalFees: number;
+  /** Fee split by liquidity; venues that don't report it (GMX) count as unclassified */
+  makerFees: number;
+  takerFees: number;
+  unclassifiedFees: number;
+  markets: PerpsMarketTotals[];
+  monthly: PerpsMonthTotals[];
+  cumulativePnL: PerpsPnLPoint[];
+  /** Sorted by token */
+  otherTokens: PerpsTokenTotals[];
+}
+
+// Payment tokens whose amounts add up as USD
+const USD_TOKENS: ReadonlySet<string> = new Set(["USD", "USDC", "USDC.E", "USDT", "DAI"]);
+
+function round(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+// Funding rows name the market ("BTC-USD"); trades the base asset ("BTC")
+function marketOf(tx: PerpsTransaction): string {
+  return tx.market ? tx.market.split("-")[0] : tx.asset;
+}
+
+// Adapters write the liquidity side as its own notes segment
+function liquidityOf(tx: PerpsTransaction): "maker" | "taker" | undefined {
+  const segments = tx.notes.split(" | ");
+  if (segments.includes("Maker")) return "maker";
+  if (segments.includes("Taker")) return "taker";
+  return undefined;
+}
+
+/**
+ * Per-market, per-month and cumulative P&L, funding paid vs received and the
+ * maker/taker fee split. Markets are sorted by name and months and the
+ * cumulative series oldest first. Rows paid in other tokens only count
+ * toward `otherTokens`.
+ */
+export function analyzePerps(transactions: PerpsTransaction[]): PerpsAnalytics {
+  const markets = new Map<string, PerpsMarketTotals>();
+  const months = new Map<string, PerpsMonthTotals>();
+  const cumulativePnL: PerpsPnLPoint[] = [];
+  const otherTokens = new Map<string, PerpsTokenTotals>();
+  let realizedPnL = 0;
+  let fundingPaid = 0;
+  let fundingReceived = 0;
+  let makerFees = 0;
+  let takerFees = 0;
+  let unclassifiedFees = 0;
+  let running = 0;
+
+  const oldestFirst = [...transactions].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  for (const tx of oldestFirst) {
+    if (!USD_TOKENS.has(tx.paymentToken.toUpperCase())) {
+      const token = otherTokens.get(tx.paymentToken) ?? { paymentToken: tx.paymentToken, rows: 0, pnl: 0, fees: 0 };
+      token.rows++;
+      token.pnl += tx.pnl;
+      token.fees += tx.fee;
+      otherTokens.set(tx.paymentToken, token);
+      continue;
+    }
+
+    const name = marketOf(tx);
+    const market = markets.get(name) ?? {
+      market: name,
+      trades: 0,
+      realizedPnL: 0,
+      fundingPaid: 0,
+      fundingReceived: 0,
+      fees: 0,
+    };
+    markets.set(name, market);
+
+    const monthKey = tx.date.toISOString().slice(0, 7);
+    const month = months.get(monthKey) ?? { month: monthKey, realizedPnL: 0, funding: 0, fees: 0, netPnL: 0 };
+    months.set(monthKey, month);
+
+    if (tx.tag === "funding_payment") {
+      if (tx.pnl < 0) {
+        fundingPaid -= tx.pnl;
+        market.fundingPaid -= tx.pnl;
+      } else {
+        fundingReceived += tx.pnl;
+        market.fundingReceived += tx.pnl;
+      }
+      month.funding += tx.pnl;
+    } else {
+      market.trades++;
+      if (tx.tag === "close_position") {
+        realizedPnL += tx.pnl;
+        market.realizedPnL += tx.pnl;
+        month.realizedPnL += tx.pnl;
+      }
+    }
+
+    market.fees += tx.fee;
+    month.fees += tx.fee;
+    month.netPnL += tx.pnl;
+
+    const liquidity = liquidityOf(tx);
+    if (liquidity === "maker") makerFees += tx.fee;
+    else if (liquidity === "taker") takerFees += tx.fee;
+    else unclassifiedFees += tx.fee;
+
+    if (tx.pnl !== 0) {
+      running += tx.pnl;
+      cumulativePnL.push({ date: tx.date.toISOString(), cumulativePnL: round(running) });
+    }
+  }
+
+  return {
+    realizedPnL: round(realizedPnL),
+    fundingPaid: round(fundingPaid),
+    fundingReceived: round(fundingReceived),
+    netFunding: round(fundingReceived - fundingPaid),
+    netPnL: round(realizedPnL + fundingReceived - fundingPaid),
+    totalFees: round(makerFees + takerFees + unclassifiedFees),
+    makerFees: round(makerFees),
+    takerFees: round(takerFees),
+    unclassifiedFees: round(unclassifiedFees),
+    markets: [...markets.values()]
+      .map((market) => ({
+        ...market,
+        realizedPnL: round(market.realizedPnL),
+        fundingPaid: round(market.fundingPaid),
+        fundingReceived: round(market.fundingReceived),
+        fees: round(market.fees),
+      }))
+      .sort((a, b) => a.market.localeCompare(b.market)),
+    monthly: [...months.values()].map((month) => ({
+      month: month.month,
+      realizedPnL: round(month.realizedPnL),
+      funding: round(month.funding),
+      fees: round(month.fees),
+      netPnL: round(month.netPnL),
+    })),
+    cumulativePnL,
+    otherTokens: [...otherTokens.values()]
+      .map((token) => ({ ...token, pnl: round(token.pnl), fees: round(token.fees) }))
+      .sort((a, b) => a.paymentToken.localeCompare(b.paymentToken)),
+  };
+}
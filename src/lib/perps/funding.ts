@@ -0,0 +1,100 @@
+/**
+ * Rolls per-tick funding rows up into daily or weekly totals per market, so
+ * hourly funding doesn't turn an active account into tens of thousands of rows.
+ */
+
+import type { PerpsTransaction } from "@/lib/types";
+
+export type FundingPeriod = "daily" | "weekly";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Every venue settles funding in USDC unless it says otherwise
+const DEFAULT_PAYMENT_TOKEN = "USDC";
+
+function roundAmount(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// UTC day, or the UTC Monday of the ISO week
+function periodStart(date: Date, period: FundingPeriod): Date {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  if (period === "daily") return new Date(day);
+  const sinceMonday = (new Date(day).getUTCDay() + 6) % 7;
+  return new Date(day - sinceMonday * DAY_MS);
+}
+
+function periodLabel(start: Date, period: FundingPeriod): string {
+  if (period === "daily") return `Daily total ${isoDay(start)}`;
+  return `Weekly total ${isoDay(start)} to ${isoDay(new Date(start.getTime() + 6 * DAY_MS))}`;
+}
+
+/**
+ * Replace funding_payment rows with one row per market, subaccount, payment
+ * token and period; other rows pass through. A rolled-up row sums P&L and
+ * fees, is dated at its latest tick (so it stays inside the export's date
+ * range), has amount 0 and the id
+ * funding-{period}-{start}-{market}[-{subaccount}][-{token}], the token only
+ * when it isn't USDC (GMX pays funding in either collateral token).
+ * Result is newest first.
+ */
+export function aggregateFunding(transactions: PerpsTransaction[], period: FundingPeriod): PerpsTransaction[] {
+  const rows: PerpsTransaction[] = [];
+  const groups = new Map<string, { start: Date; ticks: PerpsTransaction[] }>();
+
+  for (const tx of transactions) {
+    if (tx.tag !== "funding_payment") {
+      rows.push(tx);
+      continue;
+    }
+    const start = periodStart(tx.date, period);
+    const key = [tx.market ?? tx.asset, tx.subaccountNumber ?? "", tx.paymentToken, start.getTime()].join("|");
+    const group = groups.get(key) ?? { start, ticks: [] };
+    groups.set(key, group);
+    group.ticks.push(tx);
+  }
+
+  for (const { start, ticks } of groups.values()) {
+    const [first] = ticks;
+    const market = first.market ?? first.asset;
+    const latest = ticks.reduce((a, b) => (b.date > a.date ? b : a));
+    const reasons = [...new Set(ticks.flatMap((tick) => tick.ambiguousReasons ?? []))];
+    const id = [
+      "funding",
+      period,
+      isoDay(start),
+      market,
+      ...(first.subaccountNumber !== undefined ? [first.subaccountNumber] : []),
+      ...(first.paymentToken !== DEFAULT_PAYMENT_TOKEN ? [first.paymentToken] : []),
+    ].join("-");
+
+    rows.push({
+      id,
+      date: latest.date,
+      asset: first.asset,
+      amount: 0,
+      fee: roundAmount(ticks.reduce((sum, tick) => sum + tick.fee, 0)),
+      pnl: roundAmount(ticks.reduce((sum, tick) => sum + tick.pnl, 0)),
+      paymentToken: first.paymentToken,
+      notes: [
+        `Funding ${market}`,
+        periodLabel(start, period),
+        `${ticks.length} ${ticks.length === 1 ? "tick" : "ticks"}`,
+        first.subaccountNumber !== undefined ? `Subaccount ${first.subaccountNumber}` : "",
+      ]
+        .filter(Boolean)
+        .join(" | "),
+      transactionHash: id,
+      tag: "funding_payment",
+      market,
+      ...(first.subaccountNumber !== undefined && { subaccountNumber: first.subaccountNumber }),
+      ...(ticks.some((tick) => tick.isAmbiguous) && { isAmbiguous: true, ambiguousReasons: reasons }),
+    });
+  }
+
+  return rows.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
@@ -0,0 +1,16 @@
+/**
+ * Venue-neutral perps helpers shared by the perps adapters
+ */
+
+export type { PerpsFill, PerpsFillLiquidation, PerpsPosition, PerpsLedgerResult } from "./types";
+export { replayFills } from "./ledger";
+export { aggregateFunding, type FundingPeriod } from "./funding";
+export { describeLiquidation } from "./liquidation";
+export {
+  analyzePerps,
+  type PerpsAnalytics,
+  type PerpsMarketTotals,
+  type PerpsMonthTotals,
+  type PerpsPnLPoint,
+  type PerpsTokenTotals,
+} from "./analytics";
@@ -0,0 +1,156 @@
+/**
+ * Position ledger for perps venues: replays fills per position in time order
+ * so every row is tagged open/close from the actual running position, and
+ * closes carry realized P&L net of fees.
+ */
+
+import type { PerpsTransaction } from "@/lib/types";
+import type { PerpsFill, PerpsLedgerResult, PerpsPosition } from "./types";
+import { describeLiquidation } from "./liquidation";
+
+// Position sizes below this (relative to the fill) are float noise, i.e. flat
+const SIZE_EPSILON = 1e-9;
+
+function roundPnl(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+function isFlat(size: number, reference: number): boolean {
+  return Math.abs(size) <= SIZE_EPSILON * Math.max(1, Math.abs(reference));
+}
+
+function toRow(
+  fill: PerpsFill,
+  overrides: Pick<PerpsTransaction, "id" | "amount" | "fee" | "pnl" | "tag" | "notes">
+): PerpsTransaction {
+  return {
+    date: fill.date,
+    asset: fill.asset,
+    paymentToken: fill.paymentToken,
+    transactionHash: fill.transactionHash,
+    ...(fill.subaccountNumber !== undefined && { subaccountNumber: fill.subaccountNumber }),
+    ...(fill.isAmbiguous && { isAmbiguous: true, ambiguousReasons: fill.ambiguousReasons }),
+    ...overrides,
+  };
+}
+
+function withNote(notes: string, note: string): string {
+  return notes ? `${notes} | ${note}` : note;
+}
+
+/**
+ * Replay fills oldest first and emit one row per fill, or two when a fill
+ * flips the position (the close and the new open split the fee pro rata).
+ *
+ * Close P&L = (exit - entry) x closed size (negated for shorts), or the
+ * fill's whole realizedPnl when the venue reports it, minus the close's fee.
+ * Liquidated closes also get their liquidation details and a review reason
+ * that spells them out.
+ */
+export function replayFills(fills: PerpsFill[]): PerpsLedgerResult {
+  const ordered = [...fills].sort(
+    (a, b) => a.date.getTime() - b.date.getTime() || a.id.localeCompare(b.id)
+  );
+  const positions = new Map<string, PerpsPosition>();
+  const transactions: PerpsTransaction[] = [];
+
+  for (const fill of ordered) {
+    const position = positions.get(fill.positionKey) ?? {
+      positionKey: fill.positionKey,
+      asset: fill.asset,
+      size: 0,
+      entryPrice: 0,
+    };
+    positions.set(fill.positionKey, position);
+
+    const fillSize = Math.abs(fill.sizeDelta);
+    const opensOrAdds = position.size === 0 || Math.sign(position.size) === Math.sign(fill.sizeDelta);
+
+    if (opensOrAdds && !fill.reduceOnly) {
+      const heldSize = Math.abs(position.size);
+      if (fillSize > 0) {
+        position.entryPrice = (heldSize * position.entryPrice + fillSize * fill.price) / (heldSize + fillSize);
+      }
+      position.size += fill.sizeDelta;
+      transactions.push(toRow(fill, {
+        id: fill.id,
+        amount: fillSize,
+        fee: fill.fee,
+        pnl: 0,
+        tag: "open_position",
+        notes: fill.notes,
+      }));
+      continue;
+    }
+
+    // Reducing: close up to the held size, reopen any remainder the other way
+    const heldSize = Math.abs(position.size);
+    const closedSize = fill.reduceOnly
+      ? Math.min(fill.reduceOnlySize ?? fillSize, fillSize)
+      : Math.min(fillSize, heldSize);
+    const reopenedSize = fillSize - closedSize;
+    const flips = !isFlat(reopenedSize, fillSize);
+    const closeShare = flips ? closedSize / fillSize : 1;
+    const closeFee = fill.fee * closeShare;
+
+    // Venue P&L already covers only the closed part of a flip
+    const grossPnl = fill.realizedPnl !== undefined
+      ? fill.realizedPnl
+      : (fill.price - position.entryPrice) * Math.min(closedSize, heldSize) * Math.sign(position.size);
+
+    const beyondPosition = fill.reduceOnly && closedSize > heldSize && !isFlat(closedSize - heldSize, fillSize);
+    const closeRow = toRow(fill, {
+      id: flips ? `${fill.id}-close` : fill.id,
+      amount: closedSize,
+      fee: closeFee,
+      pnl: roundPnl(grossPnl - closeFee),
+      tag: "close_position",
+      notes: flips ? withNote(fill.notes, "Position flip") : fill.notes,
+    });
+    if (fill.liquidation) {
+      const liquidation = {
+        collateralLost: fill.liquidation.collateralLost ?? Math.max(0, -closeRow.pnl),
+        liquidationFee: roundPnl(fill.liquidation.fee * closeShare),
+        remainingPnl: roundPnl(grossPnl),
+        ...(fill.liquidation.markPrice !== undefined && { markPrice: fill.liquidation.markPrice }),
+      };
+      closeRow.liquidation = liquidation;
+      closeRow.isAmbiguous = true;
+      closeRow.ambiguousReasons = [
+        ...(closeRow.ambiguousReasons ?? []),
+        describeLiquidation(liquidation, fill.paymentToken),
+      ];
+    }
+    if (beyondPosition && fill.realizedPnl === undefined) {
+      closeRow.isAmbiguous = true;
+      closeRow.ambiguousReasons = [
+        ...(closeRow.ambiguousReasons ?? []),
+        "Closes more than the position opened in this history; entry price unknown",
+      ];
+    }
+    transactions.push(closeRow);
+
+    if (flips) {
+      position.size = Math.sign(fill.sizeDelta) * reopenedSize;
+      position.entryPrice = fill.price;
+      transactions.push(toRow(fill, {
+        id: `${fill.id}-open`,
+        amount: reopenedSize,
+        fee: fill.fee - closeFee,
+        pnl: 0,
+        tag: "open_position",
+        notes: withNote(fill.notes, "Position flip"),
+      }));
+      continue;
+    }
+
+    const remaining = Math.max(0, heldSize - closedSize);
+    position.size = isFlat(remaining, fillSize) ? 0 : Math.sign(position.size) * remaining;
+    if (position.size === 0) position.entryPrice = 0;
+  }
+
+  return {
+    transactions,
+    positions: [...positions.values()].filter((position) => position.size !== 0),
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Wording for liquidation details, shared by the review reason, the CSV notes
+ * and the table so all three show the same numbers.
+ */
+
+import type { PerpsLiquidation } from "@/lib/types";
+import { formatAmount } from "@/lib/utils";
+
+/**
+ * "Liquidated: collateral lost 95 USDC, liquidation fee 5 USDC, leg P&L -90 USDC"
+ * (plus the mark price when known)
+ */
+export function describeLiquidation(liquidation: PerpsLiquidation, paymentToken: string): string {
+  const parts = [
+    `collateral lost ${formatAmount(liquidation.collateralLost)} ${paymentToken}`,
+    `liquidation fee ${formatAmount(liquidation.liquidationFee)} ${paymentToken}`,
+    `leg P&L ${formatAmount(liquidation.remainingPnl)} ${paymentToken}`,
+  ];
+  if (liquidation.markPrice !== undefined) {
+    parts.push(`mark price ${formatAmount(liquidation.markPrice, 2)}`);
+  }
+  return `Liquidated: ${parts.join(", ")}`;
+}
@@ -0,0 +1,66 @@
+import type { PerpsTransaction } from "@/lib/types";
+
+/**
+ * Marks the liquidated side of a fill. The ledger derives the leg's P&L and,
+ * unless the venue reports it, the collateral lost.
+ */
+export interface PerpsFillLiquidation {
+  /** Liquidation fee or penalty, part of the fill's fee */
+  fee: number;
+  collateralLost?: number;
+  markPrice?: number;
+}
+
+/**
+ * One trade against a perps position, in venue-neutral form.
+ *
+ * Sizes are signed: positive deltas buy (grow a long / shrink a short),
+ * negative deltas sell. Any unit works as long as a position's fills agree
+ * (base asset for dYdX and Extended, USD notional for GMX).
+ */
+export interface PerpsFill {
+  id: string;
+  date: Date;
+  /** Fills with the same key share a position, e.g. subaccount + market */
+  positionKey: string;
+  asset: string;
+  sizeDelta: number;
+  /** Execution price; 0 when the venue reports P&L instead (see realizedPnl) */
+  price: number;
+  fee: number;
+  paymentToken: string;
+  notes: string;
+  transactionHash: string;
+  /** Venue-reported P&L before fees; used instead of price-based P&L when set */
+  realizedPnl?: number;
+  /** Never opens or flips: fills beyond the tracked position still count as closes */
+  reduceOnly?: boolean;
+  /**
+   * With reduceOnly: how much of the fill closes, when the venue knows the
+   * position it flips; the rest reopens the other way
+   */
+  reduceOnlySize?: number;
+  /** Copied to the rows (dYdX) */
+  subaccountNumber?: number;
+  /** Forced close of this account's position (not the liquidator's side) */
+  liquidation?: PerpsFillLiquidation;
+  isAmbiguous?: boolean;
+  ambiguousReasons?: string[];
+}
+
+/**
+ * Position left open after replaying every fill
+ */
+export interface PerpsPosition {
+  positionKey: string;
+  asset: string;
+  /** Signed: positive long, negative short */
+  size: number;
+  entryPrice: number;
+}
+
+export interface PerpsLedgerResult {
+  /** Open/close rows in fill order; flips appear as a close followed by an open */
+  transactions: PerpsTransaction[];
+  positions: PerpsPosition[];
+}
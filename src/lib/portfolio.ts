@@ -0,0 +1,189 @@
+/**
+ * Portfolio mode: several (chain, address) wallets exported in one session.
+ * Each wallet runs as its own export; this module merges the results for
+ * the table and builds the combined and per-wallet CSVs.
+ */
+
+import type { NormalizedTransaction, PerpsTransaction } from "./types";
+import { getChainAdapter } from "./chains/registry";
+import { generateAwakenCSV, generateAwakenPerpsCSV } from "./csv";
+import { truncateAddress } from "./utils";
+
+type Transaction = NormalizedTransaction | PerpsTransaction;
+
+export interface PortfolioWallet {
+  id: string;
+  chain: string;
+  /** Address, or API key on chains that take one */
+  input: string;
+  /** Value of the chain's extra input (e.g. Kava's EVM address), when set */
+  option?: string;
+}
+
+export interface PortfolioWalletResult {
+  wallet: PortfolioWallet;
+  transactions: Transaction[];
+  /** Perps wallets: deposits, withdrawals and transfers */
+  transfers?: NormalizedTransaction[];
+}
+
+/** The wallet a merged row came from, for the table's wallet column */
+export interface PortfolioWalletRef {
+  id: string;
+  chain: string;
+  label: string;
+}
+
+export type PortfolioTransaction = Transaction & { wallet: PortfolioWalletRef };
+
+export interface PortfolioFile {
+  filename: string;
+  csv: string;
+}
+
+function isApiKeyChain(chain: string): boolean {
+  return getChainAdapter(chain)?.input.type === "apiKey";
+}
+
+function isPerpsChain(chain: string): boolean {
+  return getChainAdapter(chain)?.kind === "perps";
+}
+
+// Checks the value, not the key: rows can carry the other kind's key unset
+function txTime(tx: Transaction): number {
+  return "timestamp" in tx && tx.timestamp instanceof Date
+    ? tx.timestamp.getTime()
+    : (tx as PerpsTransaction).date.getTime();
+}
+
+/**
+ * "Polkadot 15oF...Ywh" - API keys only show their last characters
+ */
+export function walletLabel(wallet: PortfolioWallet): string {
+  const name = getChainAdapter(wallet.chain)?.name ?? wallet.chain;
+  const input = wallet.input.trim();
+  if (isApiKeyChain(wallet.chain)) return `${name} key ...${input.slice(-4)}`;
+  return `${name} ${truncateAddress(input, 4)}`;
+}
+
+/**
+ * Request body for one wallet's export, as the home page sends it
+ */
+export function buildExportBody(
+  chain: string,
+  input: string,
+  option?: string,
+  startDate?: string,
+  endDate?: string
+): Record<string, string> {
+  const adapter = getChainAdapter(chain);
+  const body: Record<string, string> = adapter?.input.type === "apiKey"
+    ? { apiKey: input.trim() }
+    : { address: input.trim() };
+
+  // The chain's extra input (e.g. EVM address for Kava)
+  const secondaryInput = adapter?.input.options?.find((o) => o.ui);
+  if (option?.trim() && secondaryInput) {
+    body[secondaryInput.name] = option.trim();
+  }
+
+  if (startDate) body.startDate = startDate;
+  if (endDate) body.endDate = endDate;
+  return body;
+}
+
+/**
+ * All wallets' rows tagged with their wallet, newest first. Standard and
+ * perps rows have different columns, so they merge separately.
+ */
+export function mergePortfolioTransactions(results: PortfolioWalletResult[]): {
+  standard: PortfolioTransaction[];
+  perps: PortfolioTransaction[];
+} {
+  const standard: PortfolioTransaction[] = [];
+  const perps: PortfolioTransaction[] = [];
+
+  for (const { wallet, transactions } of results) {
+    const ref: PortfolioWalletRef = { id: wallet.id, chain: wallet.chain, label: walletLabel(wallet) };
+    const target = isPerpsChain(wallet.chain) ? perps : standard;
+    for (const tx of transactions) target.push({ ...tx, wallet: ref });
+  }
+
+  const newestFirst = (a: Transaction, b: Transaction) => txTime(b) - txTime(a);
+  return { standard: standard.sort(newestFirst), perps: perps.sort(newestFirst) };
+}
+
+/**
+ * Every wallet's standard rows, with perps wallets' transfers, newest first:
+ * the rows of the combined standard CSV
+ */
+export function portfolioStandardRows(results: PortfolioWalletResult[]): NormalizedTransaction[] {
+  const standard: NormalizedTransaction[] = [];
+  for (const { wallet, transactions, transfers } of results) {
+    if (isPerpsChain(wallet.chain)) {
+      standard.push(...(transfers ?? []));
+    } else {
+      standard.push(...(transactions as NormalizedTransaction[]));
+    }
+  }
+  return standard.sort((a, b) => txTime(b) - txTime(a));
+}
+
+/**
+ * One CSV per format across all wallets: standard rows (with perps wallets'
+ * transfers) and perps rows, each only when there is something to write
+ */
+export function buildCombinedCSVs(results: PortfolioWalletResult[]): PortfolioFile[] {
+  const standard = portfolioStandardRows(results);
+  const perps: PerpsTransaction[] = [];
+
+  for (const { wallet, transactions } of results) {
+    if (isPerpsChain(wallet.chain)) perps.push(...(transactions as PerpsTransaction[]));
+  }
+
+  const files: PortfolioFile[] = [];
+  if (standard.length) {
+    files.push({ filename: "portfolio-awaken.csv", csv: generateAwakenCSV(standard) });
+  }
+  if (perps.length) {
+    perps.sort((a, b) => txTime(b) - txTime(a));
+    files.push({ filename: "portfolio-perps-awaken.csv", csv: generateAwakenPerpsCSV(perps) });
+  }
+  return files;
+}
+
+// Filename-safe wallet part; API keys never end up in a filename
+function walletSlug(wallet: PortfolioWallet, position: number): string {
+  if (isApiKeyChain(wallet.chain)) return `account-${position + 1}`;
+  const input = wallet.input.trim();
+  const short = input.length > 12 ? `${input.slice(0, 6)}-${input.slice(-4)}` : input;
+  return short.replace(/[^A-Za-z0-9-]/g, "_");
+}
+
+/**
+ * The same CSVs the single-wallet flow downloads, one set per wallet, for
+ * importing each wallet into its own Awaken account
+ */
+export function buildWalletCSVs(results: PortfolioWalletResult[]): PortfolioFile[] {
+  const files: PortfolioFile[] = [];
+  const used = new Set<string>();
+
+  const add = (base: string, csv: string) => {
+    let filename = `${base}.csv`;
+    for (let n = 2; used.has(filename); n++) filename = `${base}-${n}.csv`;
+    used.add(filename);
+    files.push({ filename, csv });
+  };
+
+  results.forEach(({ wallet, transactions, transfers }, position) => {
+    const base = `${wallet.chain}-${walletSlug(wallet, position)}`;
+    if (isPerpsChain(wallet.chain)) {
+      if (transactions.length) add(`${base}-perps-awaken`, generateAwakenPerpsCSV(transactions as PerpsTransaction[]));
+      if (transfers?.length) add(`${base}-transfers-awaken`, generateAwakenCSV(transfers));
+    } else if (transactions.length) {
+      add(`${base}-awaken`, generateAwakenCSV(transactions as NormalizedTransaction[]));
+    }
+  });
+
+  return files;
+}
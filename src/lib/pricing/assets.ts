@@ -0,0 +1,43 @@
+/**
+ * Registry of priced assets and their provider-specific ids
+ */
+
+import type { PriceAsset } from "./types";
+
+export const PRICE_ASSETS: Record<string, PriceAsset> = {
+  TAO: { symbol: "TAO", coingeckoId: "bittensor", taostats: true },
+  DOT: { symbol: "DOT", coingeckoId: "polkadot", subscanNetwork: "polkadot" },
+  KSM: { symbol: "KSM", coingeckoId: "kusama", subscanNetwork: "kusama" },
+  OSMO: { symbol: "OSMO", coingeckoId: "osmosis" },
+  INJ: { symbol: "INJ", coingeckoId: "injective-protocol" },
+  RON: { symbol: "RON", coingeckoId: "ronin" },
+  AXS: { symbol: "AXS", coingeckoId: "axie-infinity" },
+  SLP: { symbol: "SLP", coingeckoId: "smooth-love-potion" },
+  WETH: { symbol: "WETH", coingeckoId: "weth" },
+  USDC: { symbol: "USDC", coingeckoId: "usd-coin" },
+  PIXEL: { symbol: "PIXEL", coingeckoId: "pixels" },
+  HBAR: { symbol: "HBAR", coingeckoId: "hedera-hashgraph" },
+  XLM: { symbol: "XLM", coingeckoId: "stellar" },
+  XRP: { symbol: "XRP", coingeckoId: "ripple" },
+  KAVA: { symbol: "KAVA", coingeckoId: "kava" },
+  KAS: { symbol: "KAS", coingeckoId: "kaspa" },
+  ERG: { symbol: "ERG", coingeckoId: "ergo" },
+  GLUE: { symbol: "GLUE", coingeckoId: "glue" },
+  XRD: { symbol: "XRD", coingeckoId: "radix" },
+  EGLD: { symbol: "EGLD", coingeckoId: "elrond-erd-2" },
+};
+
+const COINGECKO_PREFIX = "coingecko:";
+
+/**
+ * Resolve an asset id to its provider ids.
+ * Accepts registry symbols (case-insensitive) or "coingecko:<id>" for
+ * tokens that aren't in the registry.
+ */
+export function resolvePriceAsset(assetId: string): PriceAsset | undefined {
+  if (assetId.startsWith(COINGECKO_PREFIX)) {
+    const coingeckoId = assetId.slice(COINGECKO_PREFIX.length);
+    return coingeckoId ? { symbol: assetId, coingeckoId } : undefined;
+  }
+  return PRICE_ASSETS[assetId.toUpperCase()];
+}
@@ -0,0 +1,112 @@
+/**
+ * Durable daily price caches
+ *
+ * A closed day's price never changes, so entries have no TTL. Today's
+ * price is still moving and is never stored.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { DailyPrices, PriceCache } from "./types";
+import { todayKey } from "./dates";
+
+const DEFAULT_CACHE_DIR = path.join(process.cwd(), ".cache", "prices");
+
+type PriceStore = Map<string, DailyPrices>;
+
+function closedDays(prices: DailyPrices): [string, number][] {
+  const today = todayKey();
+  return Array.from(prices).filter(([date, price]) => date < today && Number.isFinite(price));
+}
+
+function pick(stored: DailyPrices | undefined, dates: string[]): DailyPrices {
+  const result: DailyPrices = new Map();
+  if (!stored) return result;
+  for (const date of dates) {
+    const price = stored.get(date);
+    if (price !== undefined) result.set(date, price);
+  }
+  return result;
+}
+
+/**
+ * In-memory cache, shared for the lifetime of the process
+ */
+export function createMemoryPriceCache(): PriceCache {
+  const store: PriceStore = new Map();
+
+  return {
+    async get(assetId, dates) {
+      return pick(store.get(assetId), dates);
+    },
+    async set(assetId, prices) {
+      const stored = store.get(assetId) ?? new Map();
+      for (const [date, price] of closedDays(prices)) {
+        stored.set(date, price);
+      }
+      store.set(assetId, stored);
+    },
+  };
+}
+
+/**
+ * File-backed cache storing one JSON file of { date: price } per asset.
+ * Files are loaded once into memory; write failures (e.g. read-only
+ * serverless filesystems) fall back to memory-only caching.
+ */
+export function createFilePriceCache(dir: string = process.env.PRICE_CACHE_DIR || DEFAULT_CACHE_DIR): PriceCache {
+  const store: PriceStore = new Map();
+  const writes = new Map<string, Promise<void>>();
+
+  function fileFor(assetId: string): string {
+    return path.join(dir, `${assetId.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`);
+  }
+
+  async function load(assetId: string): Promise<DailyPrices> {
+    const loaded = store.get(assetId);
+    if (loaded) return loaded;
+
+    const prices: DailyPrices = new Map();
+    try {
+      const raw = await fs.readFile(fileFor(assetId), "utf8");
+      const parsed = JSON.parse(raw) as Record<string, number>;
+      for (const [date, price] of Object.entries(parsed)) {
+        if (typeof price === "number") prices.set(date, price);
+      }
+    } catch {
+      // Missing or corrupted file - start empty
+    }
+    store.set(assetId, prices);
+    return prices;
+  }
+
+  async function persist(assetId: string, prices: DailyPrices): Promise<void> {
+    try {
+      await fs.mkdir(dir, { recursive: true });
+      const sorted = Array.from(prices).sort(([a], [b]) => a.localeCompare(b));
+      await fs.writeFile(fileFor(assetId), JSON.stringify(Object.fromEntries(sorted)));
+    } catch (error) {
+      console.warn(`Failed to persist ${assetId} price cache:`, error);
+    }
+  }
+
+  return {
+    async get(assetId, dates) {
+      return pick(await load(assetId), dates);
+    },
+    async set(assetId, prices) {
+      const stored = await load(assetId);
+      const entries = closedDays(prices);
+      if (entries.length === 0) return;
+      for (const [date, price] of entries) {
+        stored.set(date, price);
+      }
+
+      // Serialize writes per asset so concurrent exports don't interleave
+      const previous = writes.get(assetId) ?? Promise.resolve();
+      const next = previous.then(() => persist(assetId, stored));
+      writes.set(assetId, next);
+      await next;
+    },
+  };
+}
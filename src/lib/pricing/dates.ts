@@ -0,0 +1,74 @@
+/**
+ * UTC date key helpers for daily prices
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Format a date or epoch-millis timestamp as a UTC YYYY-MM-DD key */
+export function toDateKey(date: Date | number): string {
+  return new Date(date).toISOString().split("T")[0];
+}
+
+/** Today's UTC date key; prices for this day can still change */
+export function todayKey(): string {
+  return toDateKey(Date.now());
+}
+
+/** All date keys from startDate to endDate inclusive */
+export function eachDateKey(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const start = Date.parse(`${startDate}T00:00:00Z`);
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  if (isNaN(start) || isNaN(end)) return dates;
+
+  for (let t = start; t <= end; t += DAY_MS) {
+    dates.push(toDateKey(t));
+  }
+  return dates;
+}
+
+/** Unix seconds for the start of a date key */
+export function startOfDaySeconds(dateKey: string): number {
+  return Math.floor(Date.parse(`${dateKey}T00:00:00Z`) / 1000);
+}
+
+/** Unix seconds for the last second of a date key */
+export function endOfDaySeconds(dateKey: string): number {
+  return startOfDaySeconds(dateKey) + 24 * 60 * 60 - 1;
+}
+
+/** Whole days from one date key to another */
+export function daysBetween(fromDate: string, toDate: string): number {
+  return Math.round((Date.parse(`${toDate}T00:00:00Z`) - Date.parse(`${fromDate}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Group date keys into [start, end] spans, starting a new span whenever
+ * the gap to the previous date exceeds maxGapDays
+ */
+export function groupIntoSpans(dates: string[], maxGapDays: number): [string, string][] {
+  const sorted = Array.from(new Set(dates)).sort();
+  const spans: [string, string][] = [];
+
+  for (const date of sorted) {
+    const last = spans[spans.length - 1];
+    if (last && daysBetween(last[1], date) <= maxGapDays) {
+      last[1] = date;
+    } else {
+      spans.push([date, date]);
+    }
+  }
+  return spans;
+}
+
+/** Split [startDate, endDate] into consecutive chunks of at most maxDays */
+export function chunkDateRange(startDate: string, endDate: string, maxDays: number): [string, string][] {
+  const chunks: [string, string][] = [];
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+
+  for (let t = Date.parse(`${startDate}T00:00:00Z`); t <= end; t += maxDays * DAY_MS) {
+    const chunkEnd = Math.min(t + (maxDays - 1) * DAY_MS, end);
+    chunks.push([toDateKey(t), toDateKey(chunkEnd)]);
+  }
+  return chunks;
+}
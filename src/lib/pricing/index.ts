@@ -0,0 +1,85 @@
+/**
+ * Shared historical price lookup: asset id + date -> USD price
+ *
+ * Default provider order: local fixtures (PRICE_FIXTURES_PATH), Taostats,
+ * Subscan, CoinGecko. Closed days are cached on disk (PRICE_CACHE_DIR).
+ */
+
+import type { NormalizedTransaction } from "@/lib/types";
+import { applyFiatPrices, type CurrencyPrices } from "@/lib/fiat-prices";
+import type { DailyPrices, PriceProvider } from "./types";
+import { createPriceService, type PriceService } from "./service";
+import { createFilePriceCache } from "./cache";
+import { createCoinGeckoProvider } from "./providers/coingecko";
+import { createSubscanProvider } from "./providers/subscan";
+import { createTaostatsProvider } from "./providers/taostats";
+import { loadFixtureProvider } from "./providers/fixture";
+import { fetchCurrencyPrices, type CurrencyResolver } from "./legs";
+
+export type { DailyPrices, PriceProvider, PriceCache, PriceAsset } from "./types";
+export { createPriceService, type PriceService, type PriceServiceOptions } from "./service";
+export { createMemoryPriceCache, createFilePriceCache } from "./cache";
+export { createCoinGeckoProvider } from "./providers/coingecko";
+export { createSubscanProvider } from "./providers/subscan";
+export { createTaostatsProvider } from "./providers/taostats";
+export { createFixtureProvider, loadFixtureProvider, type PriceFixtures } from "./providers/fixture";
+export { PRICE_ASSETS, resolvePriceAsset } from "./assets";
+export { toDateKey } from "./dates";
+export { createCurrencyResolver, type CurrencyResolver } from "./legs";
+export { RateLimiter } from "./rate-limiter";
+export { BatchScheduler } from "./scheduler";
+
+let defaultService: PriceService | null = null;
+
+function getDefaultPriceService(): PriceService {
+  if (!defaultService) {
+    const providers: PriceProvider[] = [];
+    const fixturesPath = process.env.PRICE_FIXTURES_PATH;
+    const fixtures = fixturesPath ? loadFixtureProvider(fixturesPath) : null;
+    if (fixtures) providers.push(fixtures);
+    providers.push(createTaostatsProvider(), createSubscanProvider(), createCoinGeckoProvider());
+
+    defaultService = createPriceService({ providers, cache: createFilePriceCache() });
+  }
+  return defaultService;
+}
+
+export function getPriceHistory(assetId: string, startDate: string, endDate: string): Promise<DailyPrices> {
+  return getDefaultPriceService().getPriceHistory(assetId, startDate, endDate);
+}
+
+export function getPricesForDates(assetId: string, dates: string[]): Promise<DailyPrices> {
+  return getDefaultPriceService().getPricesForDates(assetId, dates);
+}
+
+export function getPriceHistoryForTimestamps(
+  assetId: string,
+  timestamps: (Date | number)[]
+): Promise<DailyPrices> {
+  return getDefaultPriceService().getPriceHistoryForTimestamps(assetId, timestamps);
+}
+
+export function getPrice(assetId: string, date: Date | string): Promise<number | undefined> {
+  return getDefaultPriceService().getPrice(assetId, date);
+}
+
+/**
+ * Daily prices for every currency on the transactions' legs
+ */
+export function getCurrencyPrices(
+  transactions: NormalizedTransaction[],
+  resolve: CurrencyResolver
+): Promise<CurrencyPrices> {
+  return fetchCurrencyPrices(getDefaultPriceService(), transactions, resolve);
+}
+
+/**
+ * Fetch historical prices and set per-leg fiat prices on each transaction
+ */
+export async function priceTransactions<T extends NormalizedTransaction>(
+  transactions: T[],
+  resolve: CurrencyResolver
+): Promise<T[]> {
+  const prices = await getCurrencyPrices(transactions, resolve);
+  return applyFiatPrices(transactions, prices);
+}
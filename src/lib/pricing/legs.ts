@@ -0,0 +1,64 @@
+/**
+ * Historical prices for every currency on a set of transaction legs
+ */
+
+import type { NormalizedTransaction } from "@/lib/types";
+import { getLegCurrencies, type CurrencyPrices } from "@/lib/fiat-prices";
+import type { PriceService } from "./service";
+import { toDateKey } from "./dates";
+
+/**
+ * Maps a chain's currency label to a price asset id (see resolvePriceAsset).
+ * Returns undefined for currencies without a trusted price source, which
+ * then stay unpriced and get flagged for review.
+ */
+export type CurrencyResolver = (currency: string) => string | undefined;
+
+/**
+ * Resolver for a chain's native currency plus an optional table of
+ * known token labels -> price asset ids
+ */
+export function createCurrencyResolver(
+  nativeCurrency: string,
+  knownTokens: Record<string, string> = {}
+): CurrencyResolver {
+  return (currency) => {
+    if (currency === nativeCurrency) return nativeCurrency;
+    return knownTokens[currency];
+  };
+}
+
+export async function fetchCurrencyPrices(
+  service: PriceService,
+  transactions: NormalizedTransaction[],
+  resolve: CurrencyResolver
+): Promise<CurrencyPrices> {
+  // Group the dates each currency is used on, by price asset
+  const datesByAsset = new Map<string, Set<string>>();
+  const currenciesByAsset = new Map<string, Set<string>>();
+
+  for (const tx of transactions) {
+    const dateKey = toDateKey(tx.timestamp);
+    for (const currency of getLegCurrencies(tx)) {
+      const assetId = resolve(currency);
+      if (!assetId) continue;
+
+      if (!datesByAsset.has(assetId)) {
+        datesByAsset.set(assetId, new Set());
+        currenciesByAsset.set(assetId, new Set());
+      }
+      datesByAsset.get(assetId)!.add(dateKey);
+      currenciesByAsset.get(assetId)!.add(currency);
+    }
+  }
+
+  const prices: CurrencyPrices = new Map();
+  for (const [assetId, dates] of datesByAsset) {
+    const assetPrices = await service.getPricesForDates(assetId, Array.from(dates));
+    for (const currency of currenciesByAsset.get(assetId)!) {
+      prices.set(currency, assetPrices);
+    }
+  }
+
+  return prices;
+}
@@ -0,0 +1,92 @@
+/**
+ * CoinGecko daily price provider (market_chart/range)
+ */
+
+import { fetchWithRetry } from "@/lib/fetch-with-retry";
+import type { DailyPrices, PriceProvider } from "../types";
+import { resolvePriceAsset } from "../assets";
+import { toDateKey, startOfDaySeconds, endOfDaySeconds, chunkDateRange } from "../dates";
+import { RateLimiter } from "../rate-limiter";
+import { BatchScheduler } from "../scheduler";
+
+const COINGECKO_API = "https://api.coingecko.com/api/v3";
+
+// Ranges over 90 days come back as one point per day, so a year per
+// request keeps multi-year histories to a handful of calls
+const MAX_RANGE_DAYS = 365;
+
+// 25 req/min keeps us under the free/demo tier limit
+const scheduler = new BatchScheduler(new RateLimiter(25, 60000));
+
+interface MarketChartResponse {
+  prices: [number, number][]; // [timestamp_ms, price]
+}
+
+function getHeaders(): HeadersInit {
+  const apiKey = process.env.COINGECKO_API_KEY;
+  const headers: Record<string, string> = {
+    Accept: "application/json",
+  };
+  if (apiKey) {
+    headers["x-cg-demo-api-key"] = apiKey;
+  }
+  return headers;
+}
+
+async function fetchRange(
+  coingeckoId: string,
+  startDate: string,
+  endDate: string
+): Promise<[number, number][]> {
+  const from = startOfDaySeconds(startDate);
+  const to = endOfDaySeconds(endDate);
+  const response = await fetchWithRetry(
+    `${COINGECKO_API}/coins/${coingeckoId}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`,
+    { headers: getHeaders() }
+  );
+
+  if (!response.ok) {
+    throw new Error(`CoinGecko API error: ${response.status}`);
+  }
+
+  const data: MarketChartResponse = await response.json();
+  return data.prices || [];
+}
+
+export function createCoinGeckoProvider(): PriceProvider {
+  return {
+    name: "coingecko",
+
+    supports(assetId) {
+      return !!resolvePriceAsset(assetId)?.coingeckoId;
+    },
+
+    async fetchDailyPrices(assetId, startDate, endDate) {
+      const coingeckoId = resolvePriceAsset(assetId)?.coingeckoId;
+      const priceMap: DailyPrices = new Map();
+      if (!coingeckoId) return priceMap;
+
+      const chunks = chunkDateRange(startDate, endDate, MAX_RANGE_DAYS);
+      const results = await scheduler.run(
+        chunks.map(([chunkStart, chunkEnd]) => () => fetchRange(coingeckoId, chunkStart, chunkEnd))
+      );
+
+      for (const result of results) {
+        if (result.status === "fulfilled") {
+          for (const [timestampMs, price] of result.value) {
+            // Short ranges return intraday points; keep the latest price for each day
+            priceMap.set(toDateKey(timestampMs), price);
+          }
+        }
+      }
+
+      // Surface the error only if nothing came back at all
+      const failed = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+      if (failed && priceMap.size === 0) {
+        throw failed.reason;
+      }
+
+      return priceMap;
+    },
+  };
+}
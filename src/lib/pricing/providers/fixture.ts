@@ -0,0 +1,51 @@
+/**
+ * Local fixture price provider
+ *
+ * Serves prices from a { assetId: { "YYYY-MM-DD": price } } object, either
+ * passed in directly (tests) or loaded from the PRICE_FIXTURES_PATH file.
+ */
+
+import { readFileSync } from "fs";
+import type { DailyPrices, PriceProvider } from "../types";
+import { eachDateKey } from "../dates";
+
+export type PriceFixtures = Record<string, Record<string, number>>;
+
+export function createFixtureProvider(fixtures: PriceFixtures): PriceProvider {
+  const byAsset = new Map<string, Record<string, number>>();
+  for (const [assetId, prices] of Object.entries(fixtures)) {
+    byAsset.set(assetId.toUpperCase(), prices);
+  }
+
+  return {
+    name: "fixture",
+
+    supports(assetId) {
+      return byAsset.has(assetId.toUpperCase());
+    },
+
+    async fetchDailyPrices(assetId, startDate, endDate) {
+      const prices = byAsset.get(assetId.toUpperCase()) ?? {};
+      const priceMap: DailyPrices = new Map();
+      for (const date of eachDateKey(startDate, endDate)) {
+        if (typeof prices[date] === "number") {
+          priceMap.set(date, prices[date]);
+        }
+      }
+      return priceMap;
+    },
+  };
+}
+
+/**
+ * Load a fixture provider from a JSON file, or null if it can't be read
+ */
+export function loadFixtureProvider(filePath: string): PriceProvider | null {
+  try {
+    const fixtures = JSON.parse(readFileSync(filePath, "utf8")) as PriceFixtures;
+    return createFixtureProvider(fixtures);
+  } catch (error) {
+    console.warn(`Failed to load price fixtures from ${filePath}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Subscan daily price provider for Substrate networks
+ */
+
+import { fetchWithRetry } from "@/lib/fetch-with-retry";
+import type { DailyPrices, PriceProvider } from "../types";
+import { resolvePriceAsset } from "../assets";
+import { toDateKey } from "../dates";
+import { RateLimiter } from "../rate-limiter";
+
+// Subscan free tier: 5 requests/second
+const rateLimiter = new RateLimiter(5, 1000);
+
+interface SubscanPriceHistoryResponse {
+  code: number;
+  message: string;
+  data?: {
+    list?: { feed_at: number; price: string }[];
+  };
+}
+
+export function createSubscanProvider(): PriceProvider {
+  return {
+    name: "subscan",
+
+    supports(assetId) {
+      return !!process.env.SUBSCAN_API_KEY && !!resolvePriceAsset(assetId)?.subscanNetwork;
+    },
+
+    async fetchDailyPrices(assetId, startDate, endDate) {
+      const network = resolvePriceAsset(assetId)?.subscanNetwork;
+      const priceMap: DailyPrices = new Map();
+      if (!network) return priceMap;
+
+      await rateLimiter.waitForSlot();
+
+      const response = await fetchWithRetry(`https://${network}.api.subscan.io/api/scan/price/history`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-API-Key": process.env.SUBSCAN_API_KEY || "",
+        },
+        body: JSON.stringify({ start: startDate, end: endDate, format: "day" }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Subscan API error: ${response.status}`);
+      }
+
+      const data: SubscanPriceHistoryResponse = await response.json();
+      if (data.code !== 0) {
+        throw new Error(`Subscan API error: ${data.message}`);
+      }
+
+      for (const item of data.data?.list || []) {
+        priceMap.set(toDateKey(item.feed_at * 1000), parseFloat(item.price));
+      }
+
+      return priceMap;
+    },
+  };
+}
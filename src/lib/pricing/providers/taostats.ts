@@ -0,0 +1,46 @@
+/**
+ * Taostats daily price provider for TAO
+ */
+
+import { fetchTaostats } from "@/lib/chains/bittensor/taostats";
+import type { PaginatedResponse, TaoPrice } from "@/lib/chains/bittensor/types";
+import type { DailyPrices, PriceProvider } from "../types";
+import { resolvePriceAsset } from "../assets";
+import { startOfDaySeconds, endOfDaySeconds } from "../dates";
+
+const MAX_LIMIT = 200;
+
+export function createTaostatsProvider(): PriceProvider {
+  return {
+    name: "taostats",
+
+    supports(assetId) {
+      return !!process.env.TAOSTATS_API_KEY && !!resolvePriceAsset(assetId)?.taostats;
+    },
+
+    async fetchDailyPrices(_assetId, startDate, endDate) {
+      const priceMap: DailyPrices = new Map();
+
+      // One page only - Taostats allows 5 req/min, so days it doesn't
+      // cover are left to the next provider in the fallback order
+      const params = new URLSearchParams({
+        network: "finney",
+        limit: String(MAX_LIMIT),
+        order: "timestamp_desc",
+        timestamp_start: String(startOfDaySeconds(startDate)),
+        timestamp_end: String(endOfDaySeconds(endDate)),
+      });
+      const response = await fetchTaostats<PaginatedResponse<TaoPrice>>(`/price/history/v1?${params}`);
+
+      // Descending order: the first price seen for a day is its latest
+      for (const price of response.data) {
+        const date = price.timestamp.split("T")[0];
+        if (!priceMap.has(date)) {
+          priceMap.set(date, price.price);
+        }
+      }
+
+      return priceMap;
+    },
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Sliding-window rate limiter shared by price providers
+ */
+
+import { sleep } from "@/lib/fetch-with-retry";
+
+export class RateLimiter {
+  private requests: number[] = [];
+  private readonly maxRequests: number;
+  private readonly windowMs: number;
+
+  constructor(maxRequests: number, windowMs: number) {
+    this.maxRequests = maxRequests;
+    this.windowMs = windowMs;
+  }
+
+  async waitForSlot(): Promise<void> {
+    const now = Date.now();
+    this.requests = this.requests.filter((t) => now - t < this.windowMs);
+
+    if (this.requests.length >= this.maxRequests) {
+      const oldestRequest = this.requests[0];
+      const waitTime = this.windowMs - (now - oldestRequest) + 50; // +50ms buffer
+      if (waitTime > 0) {
+        await sleep(waitTime);
+      }
+      this.requests = this.requests.filter((t) => Date.now() - t < this.windowMs);
+    }
+
+    this.requests.push(Date.now());
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Rate-limited batch scheduler for price requests
+ *
+ * Runs a batch of request tasks with bounded concurrency, taking a rate
+ * limiter slot before each one. One failed task doesn't sink the batch.
+ */
+
+import type { RateLimiter } from "./rate-limiter";
+
+export class BatchScheduler {
+  private readonly limiter: RateLimiter;
+  private readonly concurrency: number;
+
+  constructor(limiter: RateLimiter, concurrency = 1) {
+    this.limiter = limiter;
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  async run<T>(tasks: (() => Promise<T>)[]): Promise<PromiseSettledResult<T>[]> {
+    const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < tasks.length) {
+        const index = next++;
+        await this.limiter.waitForSlot();
+        try {
+          results[index] = { status: "fulfilled", value: await tasks[index]() };
+        } catch (reason) {
+          results[index] = { status: "rejected", reason };
+        }
+      }
+    };
+
+    const workers = Array.from({ length: Math.min(this.concurrency, tasks.length) }, worker);
+    await Promise.all(workers);
+    return results;
+  }
+}
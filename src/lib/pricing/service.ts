@@ -0,0 +1,100 @@
+/**
+ * Historical price service: cache first, then providers in fallback order
+ */
+
+import type { DailyPrices, PriceCache, PriceProvider } from "./types";
+import { eachDateKey, groupIntoSpans, toDateKey } from "./dates";
+
+// Missing dates closer than this are fetched as one range request
+const MAX_SPAN_GAP_DAYS = 31;
+
+export interface PriceServiceOptions {
+  providers: PriceProvider[];
+  cache: PriceCache;
+}
+
+export interface PriceService {
+  /** Daily USD prices for every date in [startDate, endDate] that has one */
+  getPriceHistory(assetId: string, startDate: string, endDate: string): Promise<DailyPrices>;
+  /** Daily USD prices for a sparse set of date keys */
+  getPricesForDates(assetId: string, dates: string[]): Promise<DailyPrices>;
+  /** Daily USD prices covering the span of the given timestamps */
+  getPriceHistoryForTimestamps(assetId: string, timestamps: (Date | number)[]): Promise<DailyPrices>;
+  /** USD price on a single date (Date or YYYY-MM-DD key) */
+  getPrice(assetId: string, date: Date | string): Promise<number | undefined>;
+}
+
+export function createPriceService({ providers, cache }: PriceServiceOptions): PriceService {
+  async function fetchMissing(assetId: string, dates: string[]): Promise<DailyPrices> {
+    const prices = await cache.get(assetId, dates);
+    let missing = dates.filter((date) => !prices.has(date));
+
+    for (const provider of providers) {
+      if (missing.length === 0) break;
+      if (!provider.supports(assetId)) continue;
+
+      // Sparse dates (e.g. a wallet active a few days a year) are fetched
+      // as separate ranges instead of one range spanning every gap
+      for (const [spanStart, spanEnd] of groupIntoSpans(missing, MAX_SPAN_GAP_DAYS)) {
+        try {
+          const fetched = await provider.fetchDailyPrices(assetId, spanStart, spanEnd);
+          const found: DailyPrices = new Map();
+          for (const date of missing) {
+            if (date < spanStart || date > spanEnd) continue;
+            const price = fetched.get(date);
+            if (price !== undefined && Number.isFinite(price)) {
+              found.set(date, price);
+              prices.set(date, price);
+            }
+          }
+          if (found.size > 0) {
+            await cache.set(assetId, found);
+          }
+        } catch (error) {
+          console.warn(`${provider.name} failed to fetch ${assetId} prices:`, error);
+        }
+      }
+
+      missing = missing.filter((date) => !prices.has(date));
+    }
+
+    return prices;
+  }
+
+  async function getPriceHistory(
+    assetId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<DailyPrices> {
+    return fetchMissing(assetId, eachDateKey(startDate, endDate));
+  }
+
+  async function getPricesForDates(assetId: string, dates: string[]): Promise<DailyPrices> {
+    return fetchMissing(assetId, Array.from(new Set(dates)).sort());
+  }
+
+  async function getPriceHistoryForTimestamps(
+    assetId: string,
+    timestamps: (Date | number)[]
+  ): Promise<DailyPrices> {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const t of timestamps) {
+      const ms = t instanceof Date ? t.getTime() : t;
+      if (!Number.isFinite(ms)) continue;
+      min = Math.min(min, ms);
+      max = Math.max(max, ms);
+    }
+    if (min > max) return new Map();
+
+    return getPriceHistory(assetId, toDateKey(min), toDateKey(max));
+  }
+
+  async function getPrice(assetId: string, date: Date | string): Promise<number | undefined> {
+    const dateKey = typeof date === "string" ? date : toDateKey(date);
+    const prices = await getPriceHistory(assetId, dateKey, dateKey);
+    return prices.get(dateKey);
+  }
+
+  return { getPriceHistory, getPricesForDates, getPriceHistoryForTimestamps, getPrice };
+}
@@ -0,0 +1,34 @@
+/**
+ * Shared types for the historical price subsystem
+ */
+
+/** Map of UTC date keys (YYYY-MM-DD) to USD prices */
+export type DailyPrices = Map<string, number>;
+
+/**
+ * A source of historical daily USD prices.
+ * Providers are tried in fallback order; a provider that doesn't know an
+ * asset should return false from supports() rather than throw.
+ */
+export interface PriceProvider {
+  name: string;
+  supports(assetId: string): boolean;
+  fetchDailyPrices(assetId: string, startDate: string, endDate: string): Promise<DailyPrices>;
+}
+
+/**
+ * Storage for daily prices. Only closed (past) days are stored, so
+ * entries never need to expire.
+ */
+export interface PriceCache {
+  get(assetId: string, dates: string[]): Promise<DailyPrices>;
+  set(assetId: string, prices: DailyPrices): Promise<void>;
+}
+
+/** Ids a single asset is known by across price providers */
+export interface PriceAsset {
+  symbol: string;
+  coingeckoId?: string;
+  subscanNetwork?: string;
+  taostats?: boolean;
+}
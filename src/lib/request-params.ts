@@ -0,0 +1,92 @@
+import type { DateRangeParams } from "./date-filter";
+
+export type ExportFormat = "json" | "csv";
+
+/**
+ * Parameters every /api/{chain}/transactions route accepts.
+ * GET reads them from the query string, POST from the JSON body.
+ */
+export interface TransactionRequestParams extends DateRangeParams {
+  address: string;
+  format: ExportFormat;
+}
+
+/**
+ * Looks up one request parameter by name, wherever the request carries it
+ */
+export type ParamReader = (name: string) => unknown;
+
+export function searchParamReader(searchParams: URLSearchParams): ParamReader {
+  return (name) => searchParams.get(name) ?? undefined;
+}
+
+export function bodyReader(body: Record<string, unknown>): ParamReader {
+  return (name) => body[name];
+}
+
+function toFormat(value: unknown): ExportFormat {
+  return value === "csv" ? "csv" : "json";
+}
+
+/**
+ * First non-empty string among the given parameter names
+ */
+export function readString(read: ParamReader, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = read(name);
+    if (typeof value === "string" && value) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Booleans arrive as JSON true/false in a body and as "true"/"false" in a
+ * query string; anything else falls back to the default
+ */
+export function readBoolean(read: ParamReader, names: string[], defaultValue: boolean): boolean {
+  for (const name of names) {
+    const value = read(name);
+    if (value === true || value === "true" || value === "1") return true;
+    if (value === false || value === "false" || value === "0") return false;
+  }
+  return defaultValue;
+}
+
+/**
+ * address, format, start/end (startDate/endDate are accepted as aliases).
+ * addressNames lets a chain take its address under another name.
+ */
+export function readRequestParams(
+  read: ParamReader,
+  addressNames: string[] = ["address"]
+): TransactionRequestParams {
+  return {
+    address: readString(read, addressNames) || "",
+    format: toFormat(read("format")),
+    startDate: readString(read, ["start", "startDate"]),
+    endDate: readString(read, ["end", "endDate"]),
+  };
+}
+
+/**
+ * GET: ?address=...&format=csv&start=YYYY-MM-DD&end=YYYY-MM-DD
+ */
+export function getRequestParams(searchParams: URLSearchParams): TransactionRequestParams {
+  return readRequestParams(searchParamReader(searchParams));
+}
+
+/**
+ * POST: { address, format, startDate, endDate }
+ */
+export function postRequestParams(body: Record<string, unknown>): TransactionRequestParams {
+  return readRequestParams(bodyReader(body));
+}
+
+/**
+ * True for a real calendar date written as YYYY-MM-DD
+ */
+export function isValidDateParam(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
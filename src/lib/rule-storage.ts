@@ -0,0 +1,52 @@
+/**
+ * Keep the user's reclassification rules in localStorage
+ */
+
+import { parseRules, type ReclassificationRule } from "./rules";
+
+const STORAGE_KEY = "awaken_rules";
+
+/**
+ * Saved rules; a rule that no longer validates is skipped, not the whole set
+ */
+export function getSavedRules(): ReclassificationRule[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((rule) => {
+      try {
+        return parseRules([rule]);
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    // Corrupted localStorage - return empty
+    return [];
+  }
+}
+
+export function saveRules(rules: ReclassificationRule[]): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    if (rules.length === 0) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+    }
+  } catch {
+    // localStorage full or unavailable - ignore
+  }
+}
+
+/**
+ * Saved rules that are switched on, as sent with an export request
+ */
+export function getActiveRules(): ReclassificationRule[] {
+  return getSavedRules().filter((rule) => rule.enabled !== false);
+}
@@ -0,0 +1,305 @@
+/**
+ * User-defined reclassification rules, applied after normalization. Chains
+ * tag rows from fixed switches; rules let a user say "everything from
+ * address X is my exchange deposit" or "notes mentioning payroll are income".
+ * Shared by the export pipeline and the home page's rules editor.
+ */
+
+import type { AwakenTag, NormalizedTransaction, TransactionType } from "./types";
+
+export const RULE_TAGS = [
+  "payment",
+  "wallet_transfer",
+  "receive",
+  "staking_deposit",
+  "unstaking_withdraw",
+  "claim_rewards",
+  "lost",
+  "trade",
+  "gift_sent",
+  "gift_received",
+  "airdrop",
+] as const satisfies readonly AwakenTag[];
+
+export const RULE_TYPES = [
+  "transfer_sent",
+  "transfer_received",
+  "stake",
+  "unstake",
+  "emission_reward",
+  "slash",
+  "bond",
+  "unbond",
+  "nominate",
+  "swap",
+  "nft_purchase",
+  "nft_sale",
+  "nft_sent",
+  "nft_received",
+  "token_sent",
+  "token_received",
+  "liquidity_add",
+  "liquidity_remove",
+  "approve",
+  "mint",
+  "burn",
+  "airdrop",
+] as const satisfies readonly TransactionType[];
+
+/**
+ * Conditions a row has to meet; a rule with none matches every row
+ */
+export interface RuleMatch {
+  /** Chain id, e.g. "polkadot" */
+  chain?: string;
+  /** Full address on the other side of a transfer */
+  counterparty?: string;
+  currency?: string;
+  type?: TransactionType;
+  /** Inclusive range on the sent or received amount (of `currency`, when set) */
+  minAmount?: number;
+  maxAmount?: number;
+  /**
+   * Case-insensitive text the notes (memos included) contain; "*" stands
+   * for any run of characters. At most 200 characters.
+   */
+  notes?: string;
+  /** Inclusive UTC dates, YYYY-MM-DD */
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface RuleAction {
+  tag?: AwakenTag;
+  /** Replaces the notes; "{notes}" stands for the original notes */
+  notes?: string;
+  /** Drop the row from the export */
+  exclude?: boolean;
+}
+
+export interface ReclassificationRule {
+  id: string;
+  name?: string;
+  /** Defaults to true */
+  enabled?: boolean;
+  match: RuleMatch;
+  action: RuleAction;
+}
+
+/**
+ * A rule that can't be applied: bad JSON shape, an overlong notes pattern, an
+ * invalid date or an unknown tag. The message names the rule.
+ */
+export class RuleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuleValidationError";
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Notes patterns come from public API bodies and run on the server
+const MAX_NOTES_PATTERN_LENGTH = 200;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(raw: Record<string, unknown>, key: string, label: string): string | undefined {
+  const value = raw[key];
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") throw new RuleValidationError(`${label}: ${key} must be a string`);
+  return value.trim() || undefined;
+}
+
+function optionalNumber(raw: Record<string, unknown>, key: string, label: string): number | undefined {
+  const value = raw[key];
+  if (value === undefined || value === null || value === "") return undefined;
+  const number = typeof value === "string" ? Number(value) : value;
+  if (typeof number !== "number" || !Number.isFinite(number)) {
+    throw new RuleValidationError(`${label}: ${key} must be a number`);
+  }
+  return number;
+}
+
+function oneOf<T extends string>(value: string | undefined, allowed: readonly T[], key: string, label: string): T | undefined {
+  if (value === undefined) return undefined;
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new RuleValidationError(`${label}: unknown ${key} "${value}"`);
+  }
+  return value as T;
+}
+
+/**
+ * Case-insensitive "contains" match with "*" wildcards, e.g. "payroll*march".
+ * Plain text rather than a user regex, since rules run on the server: each
+ * segment is found after the previous one, without backtracking.
+ */
+function notesMatch(pattern: string, notes: string): boolean {
+  const text = notes.toLowerCase();
+  let from = 0;
+  for (const segment of pattern.toLowerCase().split("*")) {
+    const at = text.indexOf(segment, from);
+    if (at === -1) return false;
+    from = at + segment.length;
+  }
+  return true;
+}
+
+function parseMatch(raw: unknown, label: string): RuleMatch {
+  if (raw === undefined) return {};
+  if (!isRecord(raw)) throw new RuleValidationError(`${label}: match must be an object`);
+
+  const match: RuleMatch = {
+    chain: optionalString(raw, "chain", label)?.toLowerCase(),
+    counterparty: optionalString(raw, "counterparty", label),
+    currency: optionalString(raw, "currency", label),
+    type: oneOf(optionalString(raw, "type", label), RULE_TYPES, "type", label),
+    minAmount: optionalNumber(raw, "minAmount", label),
+    maxAmount: optionalNumber(raw, "maxAmount", label),
+    notes: optionalString(raw, "notes", label),
+    startDate: optionalString(raw, "startDate", label),
+    endDate: optionalString(raw, "endDate", label),
+  };
+
+  if (match.notes && match.notes.length > MAX_NOTES_PATTERN_LENGTH) {
+    throw new RuleValidationError(`${label}: notes pattern is longer than ${MAX_NOTES_PATTERN_LENGTH} characters`);
+  }
+  for (const date of [match.startDate, match.endDate]) {
+    if (date && (!DATE_PATTERN.test(date) || isNaN(Date.parse(`${date}T00:00:00Z`)))) {
+      throw new RuleValidationError(`${label}: invalid date "${date}", expected YYYY-MM-DD`);
+    }
+  }
+  if (match.minAmount !== undefined && match.maxAmount !== undefined && match.minAmount > match.maxAmount) {
+    throw new RuleValidationError(`${label}: minAmount is above maxAmount`);
+  }
+
+  // Leave unset conditions out, so rules round-trip through JSON unchanged
+  return Object.fromEntries(Object.entries(match).filter(([, value]) => value !== undefined)) as RuleMatch;
+}
+
+function parseAction(raw: unknown, label: string): RuleAction {
+  if (!isRecord(raw)) throw new RuleValidationError(`${label}: action must be an object`);
+
+  const action: RuleAction = {};
+  const tag = oneOf(optionalString(raw, "tag", label), RULE_TAGS, "tag", label);
+  if (tag) action.tag = tag;
+  const notes = optionalString(raw, "notes", label);
+  if (notes) action.notes = notes;
+  if (raw.exclude === true) action.exclude = true;
+
+  if (!action.tag && !action.notes && !action.exclude) {
+    throw new RuleValidationError(`${label}: action must set a tag, notes or exclude`);
+  }
+  return action;
+}
+
+/**
+ * Validate rules from JSON (an API body, an imported file or localStorage).
+ * Throws RuleValidationError on the first rule that can't be applied.
+ */
+export function parseRules(value: unknown): ReclassificationRule[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new RuleValidationError("Rules must be an array");
+
+  return value.map((raw, index) => {
+    const label = `Rule ${index + 1}`;
+    if (!isRecord(raw)) throw new RuleValidationError(`${label}: must be an object`);
+
+    const rule: ReclassificationRule = {
+      id: optionalString(raw, "id", label) ?? `rule-${index + 1}`,
+      match: parseMatch(raw.match, label),
+      action: parseAction(raw.action, label),
+    };
+    const name = optionalString(raw, "name", label);
+    if (name) rule.name = name;
+    if (raw.enabled === false) rule.enabled = false;
+    return rule;
+  });
+}
+
+// Sent and received legs, as (currency, amount) pairs
+function legsOf(tx: NormalizedTransaction): { currency: string; amount: number }[] {
+  const legs: { currency: string; amount: number }[] = [];
+  if (tx.sentCurrency && tx.sentAmount !== null) legs.push({ currency: tx.sentCurrency, amount: tx.sentAmount });
+  if (tx.receivedCurrency && tx.receivedAmount !== null) {
+    legs.push({ currency: tx.receivedCurrency, amount: tx.receivedAmount });
+  }
+  return legs;
+}
+
+/**
+ * True when the row meets every condition the rule sets
+ */
+export function ruleMatches(rule: ReclassificationRule, tx: NormalizedTransaction, chain: string): boolean {
+  const { match } = rule;
+
+  if (match.chain && match.chain !== chain.toLowerCase()) return false;
+  if (match.counterparty && tx.counterparty?.toLowerCase() !== match.counterparty.toLowerCase()) return false;
+  if (match.type && tx.type !== match.type) return false;
+  if (match.notes && !notesMatch(match.notes, tx.notes)) return false;
+
+  const day = tx.timestamp.toISOString().slice(0, 10);
+  if (match.startDate && day < match.startDate) return false;
+  if (match.endDate && day > match.endDate) return false;
+
+  // Currency and amount have to hold on the same leg
+  if (match.currency || match.minAmount !== undefined || match.maxAmount !== undefined) {
+    const currency = match.currency?.toUpperCase();
+    const leg = legsOf(tx).find(
+      (candidate) =>
+        (!currency || candidate.currency.toUpperCase() === currency) &&
+        (match.minAmount === undefined || Math.abs(candidate.amount) >= match.minAmount) &&
+        (match.maxAmount === undefined || Math.abs(candidate.amount) <= match.maxAmount)
+    );
+    if (!leg) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Apply rules in order: each row takes the action of the first enabled rule
+ * it matches. Excluded rows are dropped; the rest keep their order.
+ */
+export function applyRules(
+  transactions: NormalizedTransaction[],
+  rules: ReclassificationRule[],
+  chain: string
+): NormalizedTransaction[] {
+  const active = rules.filter((rule) => rule.enabled !== false);
+  if (active.length === 0) return transactions;
+
+  const result: NormalizedTransaction[] = [];
+  for (const tx of transactions) {
+    const rule = active.find((candidate) => ruleMatches(candidate, tx, chain));
+    if (!rule) {
+      result.push(tx);
+      continue;
+    }
+    if (rule.action.exclude) continue;
+
+    result.push({
+      ...tx,
+      ...(rule.action.tag && { tag: rule.action.tag }),
+      ...(rule.action.notes && { notes: rule.action.notes.replaceAll("{notes}", tx.notes) }),
+    });
+  }
+  return result;
+}
+
+/**
+ * Short, stable fingerprint of the enabled rules, for cache keys
+ */
+export function rulesFingerprint(rules: ReclassificationRule[]): string {
+  const active = rules.filter((rule) => rule.enabled !== false);
+  if (active.length === 0) return "";
+
+  // djb2 over the rules' JSON
+  let hash = 5381;
+  for (const char of JSON.stringify(active.map(({ match, action }) => ({ match, action })))) {
+    hash = ((hash << 5) + hash + char.charCodeAt(0)) >>> 0;
+  }
+  return hash.toString(36);
+}
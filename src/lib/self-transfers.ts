@@ -0,0 +1,135 @@
+/**
+ * Self-transfer detection across a portfolio. A transfer between two of the
+ * user's own wallets shows up as a `payment` in one export and a `receive` in
+ * the other, which Awaken reads as a disposal plus income. Matched pairs are
+ * retagged `wallet_transfer` on both sides.
+ */
+
+import type { NormalizedTransaction } from "./types";
+import { walletLabel, type PortfolioWallet, type PortfolioWalletResult } from "./portfolio";
+
+export interface SelfTransferOptions {
+  /** Longest gap between a cross-chain send and its arrival */
+  windowMs?: number;
+  /** Share of the sent amount a cross-chain receive may fall short by (relayer and bridge fees) */
+  amountTolerance?: number;
+}
+
+const DEFAULT_WINDOW_MS = 60 * 60 * 1000;
+const DEFAULT_AMOUNT_TOLERANCE = 0.01;
+
+interface Leg {
+  wallet: PortfolioWallet;
+  tx: NormalizedTransaction;
+  currency: string;
+  amount: number;
+}
+
+// Only plain movements of one asset; swaps, staking and rewards never match
+function sentLeg(wallet: PortfolioWallet, tx: NormalizedTransaction): Leg | null {
+  if (tx.tag !== "payment" && tx.tag !== "wallet_transfer") return null;
+  if (!tx.sentAmount || !tx.sentCurrency || tx.receivedAmount) return null;
+  return { wallet, tx, currency: tx.sentCurrency.toUpperCase(), amount: tx.sentAmount };
+}
+
+function receivedLeg(wallet: PortfolioWallet, tx: NormalizedTransaction): Leg | null {
+  if (tx.tag !== "receive" && tx.tag !== "wallet_transfer") return null;
+  if (!tx.receivedAmount || !tx.receivedCurrency || tx.sentAmount) return null;
+  return { wallet, tx, currency: tx.receivedCurrency.toUpperCase(), amount: tx.receivedAmount };
+}
+
+// Standard rows of a wallet: its transactions, or a perps wallet's transfers
+function standardRows(result: PortfolioWalletResult): NormalizedTransaction[] {
+  if (result.transfers) return result.transfers;
+  return result.transactions.filter((tx): tx is NormalizedTransaction => "timestamp" in tx);
+}
+
+function retag(tx: NormalizedTransaction, note: string, counterpart: string): NormalizedTransaction {
+  return {
+    ...tx,
+    tag: "wallet_transfer",
+    notes: tx.notes ? `${tx.notes} | ${note}` : note,
+    counterpartWallet: counterpart,
+  };
+}
+
+/**
+ * Pair sends with receives between different wallets of the portfolio and
+ * retag both sides. Same-chain transfers pair by transaction hash;
+ * cross-chain (IBC, bridge) transfers by asset, an amount within
+ * `amountTolerance` below the sent amount and an arrival within `windowMs`,
+ * taking the earliest arrival. Each row pairs at most once.
+ */
+export function matchSelfTransfers(
+  results: PortfolioWalletResult[],
+  options: SelfTransferOptions = {}
+): PortfolioWalletResult[] {
+  const { windowMs = DEFAULT_WINDOW_MS, amountTolerance = DEFAULT_AMOUNT_TOLERANCE } = options;
+
+  const sent: Leg[] = [];
+  const received: Leg[] = [];
+  for (const result of results) {
+    for (const tx of standardRows(result)) {
+      const out = sentLeg(result.wallet, tx);
+      if (out) sent.push(out);
+      const into = receivedLeg(result.wallet, tx);
+      if (into) received.push(into);
+    }
+  }
+
+  const pairs = new Map<NormalizedTransaction, { note: string; counterpart: string }>();
+  const pair = (from: Leg, to: Leg) => {
+    const fromLabel = walletLabel(from.wallet);
+    const toLabel = walletLabel(to.wallet);
+    pairs.set(from.tx, { note: `Transfer to own wallet ${toLabel}`, counterpart: toLabel });
+    pairs.set(to.tx, { note: `Transfer from own wallet ${fromLabel}`, counterpart: fromLabel });
+  };
+
+  // Same chain: both wallets saw the same transaction
+  const receivedByHash = new Map<string, Leg[]>();
+  for (const leg of received) {
+    const key = `${leg.wallet.chain}:${leg.tx.transactionHash}`;
+    receivedByHash.set(key, [...(receivedByHash.get(key) ?? []), leg]);
+  }
+  for (const from of sent) {
+    if (!from.tx.transactionHash) continue;
+    const to = receivedByHash
+      .get(`${from.wallet.chain}:${from.tx.transactionHash}`)
+      ?.find((leg) => leg.wallet.id !== from.wallet.id && leg.currency === from.currency && !pairs.has(leg.tx));
+    if (to) pair(from, to);
+  }
+
+  // Cross chain: the same asset arrives shortly after, less any fees
+  const byTime = (a: Leg, b: Leg) => a.tx.timestamp.getTime() - b.tx.timestamp.getTime();
+  const waiting = received.filter((leg) => !pairs.has(leg.tx)).sort(byTime);
+  for (const from of [...sent].sort(byTime)) {
+    if (pairs.has(from.tx)) continue;
+    const sentAt = from.tx.timestamp.getTime();
+    const to = waiting.find((leg) => {
+      const arrival = leg.tx.timestamp.getTime() - sentAt;
+      return (
+        !pairs.has(leg.tx) &&
+        leg.wallet.chain !== from.wallet.chain &&
+        leg.currency === from.currency &&
+        arrival >= 0 &&
+        arrival <= windowMs &&
+        leg.amount <= from.amount &&
+        leg.amount >= from.amount * (1 - amountTolerance)
+      );
+    });
+    if (to) pair(from, to);
+  }
+
+  if (pairs.size === 0) return results;
+
+  const apply = (tx: NormalizedTransaction): NormalizedTransaction => {
+    const match = pairs.get(tx);
+    return match ? retag(tx, match.note, match.counterpart) : tx;
+  };
+
+  return results.map((result) => ({
+    ...result,
+    transactions: result.transactions.map((tx) => ("timestamp" in tx ? apply(tx) : tx)),
+    ...(result.transfers && { transfers: result.transfers.map(apply) }),
+  }));
+}
@@ -13,6 +13,7 @@ type Transaction = NormalizedTransaction | PerpsTransaction;
 interface CacheEntry {
   transactions: Transaction[];
   summary: TransactionSummary | null;
+  transfers?: NormalizedTransaction[];
   cachedAt: number; // timestamp for LRU
   ttl: number;
 }
@@ -23,19 +24,24 @@ interface CacheStore {
 
 /**
  * Build a cache key from the request parameters
- * Format: {chainId}:{address}:{startDate}:{endDate}
+ * Format: {chainId}:{address}:{startDate}:{endDate}[:{option}][:rules-{fingerprint}]
+ * option is the chain's extra input (e.g. GMX's deployment), when set;
+ * rules is the fingerprint of the reclassification rules sent with the request
  */
 export function buildCacheKey(
   chainId: string,
   address: string,
   startDate?: string,
-  endDate?: string
+  endDate?: string,
+  option?: string,
+  rules?: string
 ): string {
   const normalizedChain = chainId.toLowerCase().trim();
   const normalizedAddress = address.trim();
   const start = startDate?.trim() || "";
   const end = endDate?.trim() || "";
-  return `${normalizedChain}:${normalizedAddress}:${start}:${end}`;
+  const extra = option?.trim();
+  return `${normalizedChain}:${normalizedAddress}:${start}:${end}${extra ? `:${extra}` : ""}${rules ? `:rules-${rules}` : ""}`;
 }
 
 /**
@@ -115,6 +121,8 @@ function deserializeTransactions(transactions: Transaction[]): Transaction[] {
 interface CacheResult {
   transactions: Transaction[];
   summary: TransactionSummary | null;
+  /** Companion transfers of a perps export */
+  transfers?: NormalizedTransaction[];
 }
 
 /**
@@ -145,6 +153,9 @@ export function getCachedTransactions(key: string): CacheResult | null {
   return {
     transactions: deserializeTransactions(entry.transactions),
     summary: entry.summary,
+    ...(entry.transfers && {
+      transfers: deserializeTransactions(entry.transfers) as NormalizedTransaction[],
+    }),
   };
 }
 
@@ -155,7 +166,8 @@ export function setCachedTransactions(
   key: string,
   transactions: Transaction[],
   summary: TransactionSummary | null,
-  ttlMs: number = DEFAULT_TTL_MS
+  ttlMs: number = DEFAULT_TTL_MS,
+  transfers?: NormalizedTransaction[]
 ): void {
   if (typeof window === "undefined") return;
 
@@ -164,6 +176,7 @@ export function setCachedTransactions(
   store[key] = {
     transactions,
     summary,
+    ...(transfers && { transfers }),
     cachedAt: Date.now(),
     ttl: ttlMs,
   };
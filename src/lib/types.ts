@@ -39,6 +39,13 @@ export type AwakenTag =
   | "gift_received"
   | "airdrop";
 
+// Exact on-chain amount: integer base units plus the token's decimals.
+// Units are a string so the value survives JSON (bigint does not).
+export interface TokenAmount {
+  units: string;
+  decimals: number;
+}
+
 export interface NormalizedTransaction {
   id: string;
   type: TransactionType;
@@ -49,12 +56,23 @@ export interface NormalizedTransaction {
   receivedCurrency: string | null;
   feeAmount: number;
   feeCurrency: string;
+  // Lossless amounts for each leg; the number fields above are for display
+  sentAmountExact?: TokenAmount;
+  receivedAmountExact?: TokenAmount;
+  feeAmountExact?: TokenAmount;
   transactionHash: string;
   notes: string;
   tag: AwakenTag;
-  fiatPrice?: number;
+  // Full address on the other side of a plain transfer, on chains that report it
+  counterparty?: string;
+  // USD price per unit of each leg's currency at the transaction date
+  sentFiatPrice?: number;
+  receivedFiatPrice?: number;
+  feeFiatPrice?: number;
   isAmbiguous?: boolean;
   ambiguousReasons?: string[];
+  // Portfolio mode: the user's own wallet on the other side of a matched wallet_transfer
+  counterpartWallet?: string;
 }
 
 export interface AwakenCSVRow {
@@ -86,6 +104,15 @@ export interface ChainConfig {
 // Perpetuals/Futures specific types for Awaken CSV
 export type PerpsTag = "open_position" | "close_position" | "funding_payment";
 
+// What a liquidation cost, in the row's payment token. The row's P&L is the
+// leg's P&L less its fee; collateral lost is what the margin gave up.
+export interface PerpsLiquidation {
+  collateralLost: number;  // Reported by GMX V1; elsewhere the row's net loss
+  liquidationFee: number;  // Venue's liquidation fee or penalty, included in the row's fee
+  remainingPnl: number;  // P&L of the liquidated leg before fees
+  markPrice?: number;  // Mark price at liquidation, when the venue reports it
+}
+
 export interface PerpsTransaction {
   id: string;
   date: Date;
@@ -97,6 +124,9 @@ export interface PerpsTransaction {
   notes: string;
   transactionHash: string;
   tag: PerpsTag;
+  subaccountNumber?: number;  // dYdX subaccount the row belongs to
+  market?: string;  // Market of a funding row (e.g. BTC-USD), for rolling funding up
+  liquidation?: PerpsLiquidation;  // Set on the close row of a liquidated or deleveraged position
   isAmbiguous?: boolean;
   ambiguousReasons?: string[];
 }